@@ -4,6 +4,7 @@ import {
   fetchCsvAsStream,
   fetchCsvAsText,
   parseFullStringWithStateMachine,
+  parseStreamBytesOhlcv,
   parseStreamOptimizedOhlcv,
   parseStreamWithStateMachine,
   parseWithSimpleSplit,
@@ -97,6 +98,79 @@ Deno.bench("parseStreamOptimizedOhlcv", async () => {
   if (totalRows === 0) throw new Error("No rows parsed");
 });
 
+// Generated daily rows for the stream parser comparison, large enough that
+// per-row work dominates stream setup
+const STREAM_ROW_COUNT = 200_000;
+
+function generateCsv(rowCount: number): string {
+  const lines = ["Date,Open,High,Low,Close,Volume"];
+  let close = 100;
+  for (let i = 0; i < rowCount; i++) {
+    const date = new Date(Date.UTC(1900, 0, 1 + i)).toISOString().slice(0, 10);
+    const open = close;
+    close = Math.max(1, open + Math.sin(i) * 2);
+    const high = Math.max(open, close) + 0.5;
+    const low = Math.min(open, close) - 0.5;
+    lines.push(
+      `${date},${open.toFixed(2)},${high.toFixed(2)},${low.toFixed(2)},${
+        close.toFixed(2)
+      },${1_000_000 + (i % 1000) * 1000}`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+const STREAM_CSV_BYTES = new TextEncoder().encode(
+  generateCsv(STREAM_ROW_COUNT),
+);
+
+// Streams the pre-encoded input in 64 KiB chunks, so encoding is not measured
+function createStreamFromBytes(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  const chunkSize = 64 * 1024;
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.subarray(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+// Benchmark: Byte-level OHLCV Stream Parser, compared against the optimized
+// string-based stream parser
+Deno.bench({
+  name: "parseStreamOptimizedOhlcv - Baseline",
+  group: "stream-parsers",
+  baseline: true,
+  fn: async () => {
+    const totalRows = await parseStreamOptimizedOhlcv(
+      createStreamFromBytes(STREAM_CSV_BYTES),
+      () => {},
+      true,
+      silentSkipHandler,
+    );
+    if (totalRows !== STREAM_ROW_COUNT) throw new Error("Rows were skipped");
+  },
+});
+
+Deno.bench({
+  name: "parseStreamBytesOhlcv",
+  group: "stream-parsers",
+  fn: async () => {
+    const totalRows = await parseStreamBytesOhlcv(
+      createStreamFromBytes(STREAM_CSV_BYTES),
+      () => {},
+      true,
+      silentSkipHandler,
+    );
+    if (totalRows !== STREAM_ROW_COUNT) throw new Error("Rows were skipped");
+  },
+});
+
 // Benchmark group for different data sizes
 const SMALL_DATA = SAMPLE_CSV_DATA.split("\n").slice(0, 100).join("\n");
 const MEDIUM_DATA = SAMPLE_CSV_DATA.split("\n").slice(0, 1000).join("\n");
@@ -7,16 +7,239 @@ export * from "./src/core/errors.ts";
 // Provider functions and types
 export { DataSource } from "./src/provider/data_sources.ts";
 export { fetchCsvAsStream, fetchCsvAsText } from "./src/provider/fetch.ts";
+export {
+  FileProvider,
+  MemoryProvider,
+  UrlProvider,
+} from "./src/provider/provider.ts";
+export { ProviderRegistry, providers } from "./src/provider/registry.ts";
+export { DiskCache } from "./src/provider/cache.ts";
+export { fetchCsvIncremental } from "./src/provider/incremental.ts";
+export type {
+  DataFormat,
+  DataProvider,
+  FetchOptions,
+  FileProviderOptions,
+  MemoryProviderOptions,
+  ProviderMetadata,
+  ProviderOptions,
+  RetryOptions,
+  UrlProviderOptions,
+} from "./src/provider/provider.ts";
+export type { RegisterProviderOptions } from "./src/provider/registry.ts";
+export type { DiskCacheOptions } from "./src/provider/cache.ts";
+export type {
+  IncrementalFetchOptions,
+  IncrementalState,
+  IncrementalUpdate,
+} from "./src/provider/incremental.ts";
 
 // Parser functions
 export { parseWithSimpleSplit } from "./src/parser/simple_split.ts";
 export { parseFullStringWithStateMachine } from "./src/parser/state_machine_full_string.ts";
 export { parseStreamWithStateMachine } from "./src/parser/stream_state_machine.ts";
-export { parseStreamOptimizedOhlcv } from "./src/parser/stream_optimized_ohlcv.ts";
-export type { RowCallback, SkipErrorCallback } from "./src/parser/common.ts";
+export {
+  parseStreamOptimizedOhlcv,
+  parseStreamOptimizedOhlcvToSeries,
+} from "./src/parser/stream_optimized_ohlcv.ts";
+export { parseStreamBytesOhlcv } from "./src/parser/stream_bytes_ohlcv.ts";
+export {
+  createBatchedParseStream,
+  createParseStream,
+} from "./src/parser/parse_stream.ts";
+export { parseOhlcv, parseOhlcvBatches } from "./src/parser/iterate.ts";
+export { parse } from "./src/parser/parse.ts";
+export {
+  parseJsonOhlcv,
+  parseNdjsonOhlcv,
+  parseStreamNdjsonOhlcv,
+} from "./src/parser/json.ts";
+export type {
+  BatchedParseStreamOptions,
+  ParseStreamOptions,
+} from "./src/parser/parse_stream.ts";
+export type {
+  BatchedParseIteratorOptions,
+  ParseIteratorOptions,
+  SkippedLineMode,
+} from "./src/parser/iterate.ts";
+export type {
+  ParseInput,
+  ParseMode,
+  UnifiedParseOptions,
+  UnifiedParseStrategy,
+} from "./src/parser/parse.ts";
+export type {
+  ParseOptions,
+  ParseReport,
+  ParseStrategy,
+  RowCallback,
+  SkipErrorCallback,
+  SkippedLineSample,
+} from "./src/parser/common.ts";
+export {
+  DEFAULT_HEADER_ALIASES,
+  resolveColumnMapping,
+} from "./src/parser/columns.ts";
+export type { ColumnSchema, RowField } from "./src/parser/columns.ts";
+export type { CsvDialect } from "./src/parser/dialect.ts";
+
+// Columnar series
+export { OhlcvSeries, OhlcvSeriesBuilder } from "./src/series/index.ts";
+export type { OhlcvColumns } from "./src/series/index.ts";
+
+// Writers
+export {
+  createCsvFormatStream,
+  createNdjsonFormatStream,
+  formatCsv,
+  formatNdjson,
+} from "./src/writer/index.ts";
+export type {
+  CsvColumn,
+  CsvFormatOptions,
+  NdjsonFormatOptions,
+  TimestampOutput,
+  WriteInput,
+  WriteOptions,
+} from "./src/writer/index.ts";
+
+// Binary format
+export {
+  createOhlcvBinaryStream,
+  createOhlcvDeltaDecodeStream,
+  createOhlcvDeltaEncodeStream,
+  decodeOhlcvDelta,
+  encodeOhlcvBinary,
+  encodeOhlcvDelta,
+  OHLCV_BINARY_FORMAT,
+  OHLCV_DELTA_FORMAT,
+  OhlcvBinaryReader,
+  writeOhlcvBinaryFile,
+} from "./src/binary/index.ts";
+export type {
+  OhlcvBinaryHeader,
+  OhlcvBinaryOptions,
+  OhlcvDeltaOptions,
+} from "./src/binary/index.ts";
+
+// Compression
+export {
+  decompressStream,
+  detectCompression,
+  ZipArchive,
+} from "./src/compression/index.ts";
+export type {
+  CompressionFormat,
+  DecompressOptions,
+  ZipEntry,
+} from "./src/compression/index.ts";
 
 // Utilities
-export { yyyymmddToUnix } from "./src/utils/date.ts";
+export {
+  createTimestampParser,
+  detectTimestampFormat,
+  formatTimestamp,
+  parseTimestamp,
+  unixToYyyymmdd,
+  yyyymmddToUnix,
+} from "./src/utils/date.ts";
+export type {
+  DateParseOptions,
+  FormatTimestampOptions,
+  TimestampFormat,
+  TimestampOptions,
+} from "./src/utils/date.ts";
+
+// Validation
+export {
+  defaultRules,
+  maxGap,
+  maxPriceSpike,
+  monotonicTimestamps,
+  noDuplicateTimestamps,
+  nonNegativeVolume,
+  ohlcConsistency,
+  RowValidator,
+  validateRows,
+} from "./src/validation/index.ts";
+export type {
+  ValidationIssue,
+  ValidationMode,
+  ValidationOptions,
+  ValidationRule,
+} from "./src/validation/index.ts";
+
+// Resampling
+export {
+  bucketStart,
+  createResampleStream,
+  nextBucketStart,
+  parseTimeframe,
+  resample,
+  Resampler,
+} from "./src/resample/index.ts";
+export type {
+  BucketAlignment,
+  ResampleOptions,
+  Timeframe,
+} from "./src/resample/index.ts";
+
+// Trading calendars
+export {
+  CRYPTO,
+  getCalendar,
+  LSE,
+  NYSE,
+  TradingCalendar,
+} from "./src/calendar/index.ts";
+export type {
+  CalendarDefinition,
+  Holiday,
+  HolidayRule,
+  Session,
+} from "./src/calendar/index.ts";
+
+// Gap detection and filling
+export {
+  createGapFillStream,
+  createGapStream,
+  fillGap,
+  fillGaps,
+  findGaps,
+  GapDetector,
+} from "./src/gaps/index.ts";
+export type {
+  FilledRow,
+  Gap,
+  GapFillMethod,
+  GapFillOptions,
+  GapMarker,
+  GapOptions,
+} from "./src/gaps/index.ts";
+
+// Technical indicators
+export {
+  Atr,
+  atr,
+  BollingerBands,
+  bollingerBands,
+  Ema,
+  ema,
+  Macd,
+  macd,
+  Obv,
+  obv,
+  Rsi,
+  rsi,
+  Sma,
+  sma,
+  Stochastic,
+  stochastic,
+  Vwap,
+  vwap,
+} from "./src/indicators/index.ts";
+export type { Indicator, PriceSource } from "./src/indicators/index.ts";
 
 // --- Example Usage (for `deno run --allow-net mod.ts`) ---
 import { DataSource } from "./src/provider/data_sources.ts";
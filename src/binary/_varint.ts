@@ -0,0 +1,115 @@
+// src/binary/_varint.ts
+import { BinaryFormatError } from "../core/errors.ts";
+
+/** A varint of a safe integer needs at most 8 bytes; more means corruption. */
+const MAX_VARINT_BYTES = 8;
+
+/**
+ * Maps signed integers to unsigned ones so that small magnitudes stay small:
+ * 0, -1, 1, -2, ... become 0, 1, 2, 3, ...
+ *
+ * Uses arithmetic rather than bit operations, which truncate to 32 bits.
+ */
+export function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+/**
+ * Inverse of {@link zigzag}.
+ */
+export function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+/**
+ * A growable byte buffer for writing varints.
+ */
+export class ByteWriter {
+  private buffer: Uint8Array;
+  private size = 0;
+
+  constructor(initialCapacity: number = 1024) {
+    this.buffer = new Uint8Array(initialCapacity);
+  }
+
+  /** Number of bytes written since the last {@link ByteWriter.take} */
+  public get length(): number {
+    return this.size;
+  }
+
+  public writeByte(byte: number): void {
+    if (this.size === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.size++] = byte;
+  }
+
+  public writeBytes(bytes: Uint8Array): void {
+    for (const byte of bytes) this.writeByte(byte);
+  }
+
+  /**
+   * Writes a non-negative safe integer as an unsigned LEB128 varint.
+   */
+  public writeVarint(value: number): void {
+    while (value >= 0x80) {
+      this.writeByte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.writeByte(value);
+  }
+
+  /**
+   * Returns the bytes written so far and empties the buffer.
+   */
+  public take(): Uint8Array {
+    const bytes = this.buffer.slice(0, this.size);
+    this.size = 0;
+    return bytes;
+  }
+}
+
+/**
+ * Reads varints from a byte array, reporting when the data runs out so that
+ * streamed input can be resumed with more bytes.
+ */
+export class ByteReader {
+  public readonly bytes: Uint8Array;
+  public position = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  /** Number of unread bytes */
+  public get remaining(): number {
+    return this.bytes.length - this.position;
+  }
+
+  /**
+   * Reads an unsigned varint.
+   *
+   * @returns The value, or undefined when the data ends inside the varint
+   *
+   * @throws {BinaryFormatError} When the varint is longer than a safe integer
+   */
+  public readVarint(): number | undefined {
+    let value = 0;
+    let multiplier = 1;
+    for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+      if (this.position + i >= this.bytes.length) return undefined;
+      const byte = this.bytes[this.position + i];
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        this.position += i + 1;
+        return value;
+      }
+      multiplier *= 0x80;
+    }
+    throw new BinaryFormatError(
+      `Invalid varint at byte ${this.position}: longer than ${MAX_VARINT_BYTES} bytes`,
+    );
+  }
+}
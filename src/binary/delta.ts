@@ -0,0 +1,396 @@
+// src/binary/delta.ts
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+import type { WriteInput } from "../writer/common.ts";
+import { rowsOf } from "../writer/_format.ts";
+import { ByteReader, ByteWriter, unzigzag, zigzag } from "./_varint.ts";
+
+/**
+ * Precision settings for delta encoding.
+ */
+export interface OhlcvDeltaOptions {
+  /**
+   * Smallest price increment. Prices are stored as whole multiples of it, and
+   * rounded to the nearest multiple when they are not. Defaults to 0.01
+   */
+  tickSize?: number;
+  /**
+   * Smallest volume increment. Defaults to 1; use e.g. 0.00000001 for
+   * fractional crypto volumes
+   */
+  volumeTickSize?: number;
+}
+
+/**
+ * Layout of the delta-encoded OHLCV format.
+ *
+ * The data starts with the magic bytes `OHLD` and a format version byte,
+ * followed by four varints describing the price and volume ticks: price
+ * decimals, price tick in units of those decimals, then the same for volume.
+ * A tick of 0.25 is stored as decimals 2 and units 25.
+ *
+ * Rows follow with no count or padding, each as six zigzag-encoded LEB128
+ * varints:
+ *
+ * | Field | Value                                                   |
+ * | ----- | ------------------------------------------------------- |
+ * | ts    | Change in the timestamp delta, in milliseconds          |
+ * | o     | Open minus the previous close, in price ticks           |
+ * | h     | High minus open, in price ticks                         |
+ * | l     | Low minus open, in price ticks                          |
+ * | c     | Close minus open, in price ticks                        |
+ * | v     | Volume, in volume ticks                                 |
+ *
+ * The first row is encoded against a previous timestamp, delta and close of
+ * zero. Bars at a regular interval store their timestamps in one byte, and
+ * each price in one or two bytes for typical moves.
+ */
+export const OHLCV_DELTA_FORMAT = {
+  magic: "OHLD",
+  version: 1,
+} as const;
+
+const MAGIC = new TextEncoder().encode(OHLCV_DELTA_FORMAT.magic);
+/** Largest scaled magnitude whose deltas and zigzag values stay safe. */
+const MAX_SCALED = 2 ** 50;
+const MAX_TICK_DECIMALS = 15;
+/** Bytes buffered by the encoding stream before a chunk is emitted. */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * A tick size as an integer number of units of 10^-decimals, so values are
+ * rebuilt by exact integer arithmetic and one correctly rounded division.
+ */
+interface Tick {
+  decimals: number;
+  units: number;
+  scale: number;
+}
+
+function resolveTick(size: number, name: string): Tick {
+  if (Number.isFinite(size) && size > 0) {
+    for (let decimals = 0; decimals <= MAX_TICK_DECIMALS; decimals++) {
+      const scale = 10 ** decimals;
+      const units = Math.round(size * scale);
+      if (units >= 1 && Math.abs(size * scale - units) < 1e-9 * units) {
+        return { decimals, units, scale };
+      }
+    }
+  }
+  throw new BinaryFormatError(
+    `Invalid ${name}: ${size}. Expected a positive decimal with at most ${MAX_TICK_DECIMALS} decimal places.`,
+  );
+}
+
+function tickFromHeader(decimals: number, units: number): Tick {
+  if (decimals > MAX_TICK_DECIMALS || units < 1) {
+    throw new BinaryFormatError(
+      `Invalid tick in delta-encoded header: ${units} units of 10^-${decimals}`,
+    );
+  }
+  return { decimals, units, scale: 10 ** decimals };
+}
+
+function quantize(value: number, tick: Tick, field: string): number {
+  const scaled = Math.round(value * tick.scale / tick.units);
+  if (!(Math.abs(scaled) <= MAX_SCALED)) {
+    throw new BinaryFormatError(
+      `Cannot delta-encode ${field} ${value}: not a finite value within range of the tick size`,
+    );
+  }
+  return scaled;
+}
+
+function dequantize(scaled: number, tick: Tick): number {
+  return scaled * tick.units / tick.scale;
+}
+
+/**
+ * Encodes rows one at a time, keeping the state the deltas are taken from.
+ */
+class DeltaEncoder {
+  private price: Tick;
+  private volume: Tick;
+  private previousTs = 0;
+  private previousDelta = 0;
+  private previousClose = 0;
+
+  constructor(options: OhlcvDeltaOptions) {
+    this.price = resolveTick(options.tickSize ?? 0.01, "tick size");
+    this.volume = resolveTick(options.volumeTickSize ?? 1, "volume tick size");
+  }
+
+  public writeHeader(out: ByteWriter): void {
+    out.writeBytes(MAGIC);
+    out.writeByte(OHLCV_DELTA_FORMAT.version);
+    out.writeVarint(this.price.decimals);
+    out.writeVarint(this.price.units);
+    out.writeVarint(this.volume.decimals);
+    out.writeVarint(this.volume.units);
+  }
+
+  public writeRow(out: ByteWriter, row: Row): void {
+    const ts = Math.round(row.ts * 1000);
+    if (!(Math.abs(ts) <= MAX_SCALED)) {
+      throw new BinaryFormatError(
+        `Cannot delta-encode timestamp ${row.ts}: not a finite value within range`,
+      );
+    }
+    const o = quantize(row.o, this.price, "open");
+    const h = quantize(row.h, this.price, "high");
+    const l = quantize(row.l, this.price, "low");
+    const c = quantize(row.c, this.price, "close");
+    const v = quantize(row.v, this.volume, "volume");
+
+    const delta = ts - this.previousTs;
+    out.writeVarint(zigzag(delta - this.previousDelta));
+    out.writeVarint(zigzag(o - this.previousClose));
+    out.writeVarint(zigzag(h - o));
+    out.writeVarint(zigzag(l - o));
+    out.writeVarint(zigzag(c - o));
+    out.writeVarint(zigzag(v));
+
+    this.previousTs = ts;
+    this.previousDelta = delta;
+    this.previousClose = c;
+  }
+}
+
+/**
+ * Decodes rows from data that may arrive in pieces. Bytes of an incomplete
+ * header or row are carried over to the next push.
+ */
+class DeltaDecoder {
+  private carry: Uint8Array = new Uint8Array(0);
+  private price?: Tick;
+  private volume?: Tick;
+  private previousTs = 0;
+  private previousDelta = 0;
+  private previousClose = 0;
+  private offset = 0;
+
+  public push(chunk: Uint8Array, onRow: (row: Row) => void): void {
+    let bytes = chunk;
+    if (this.carry.length > 0) {
+      bytes = new Uint8Array(this.carry.length + chunk.length);
+      bytes.set(this.carry);
+      bytes.set(chunk, this.carry.length);
+    }
+    const reader = new ByteReader(bytes);
+    if (!this.price && !this.readHeader(reader)) {
+      this.carry = bytes;
+      return;
+    }
+    while (reader.remaining > 0) {
+      const start = reader.position;
+      const row = this.readRow(reader);
+      if (!row) {
+        reader.position = start;
+        break;
+      }
+      onRow(row);
+    }
+    this.offset += reader.position;
+    this.carry = bytes.slice(reader.position);
+  }
+
+  public finish(): void {
+    if (!this.price) {
+      throw new BinaryFormatError(
+        "Truncated delta-encoded data: missing header",
+      );
+    }
+    if (this.carry.length > 0) {
+      throw new BinaryFormatError(
+        `Truncated delta-encoded data: incomplete row at byte ${this.offset}`,
+      );
+    }
+  }
+
+  private readHeader(reader: ByteReader): boolean {
+    const fixed = MAGIC.length + 1;
+    if (reader.remaining < fixed) return false;
+    if (!MAGIC.every((byte, i) => reader.bytes[i] === byte)) {
+      throw new BinaryFormatError(
+        "Not delta-encoded OHLCV data: bad magic bytes",
+      );
+    }
+    const version = reader.bytes[MAGIC.length];
+    if (version !== OHLCV_DELTA_FORMAT.version) {
+      throw new BinaryFormatError(
+        `Unsupported delta-encoded OHLCV version ${version}; expected ${OHLCV_DELTA_FORMAT.version}`,
+      );
+    }
+    reader.position = fixed;
+    const priceDecimals = reader.readVarint();
+    const priceUnits = reader.readVarint();
+    const volumeDecimals = reader.readVarint();
+    const volumeUnits = reader.readVarint();
+    if (volumeUnits === undefined) return false;
+    this.price = tickFromHeader(priceDecimals!, priceUnits!);
+    this.volume = tickFromHeader(volumeDecimals!, volumeUnits);
+    return true;
+  }
+
+  private readRow(reader: ByteReader): Row | undefined {
+    const dod = reader.readVarint();
+    const open = reader.readVarint();
+    const high = reader.readVarint();
+    const low = reader.readVarint();
+    const close = reader.readVarint();
+    const volume = reader.readVarint();
+    if (volume === undefined) return undefined;
+
+    const delta = this.previousDelta + unzigzag(dod!);
+    const ts = this.previousTs + delta;
+    const o = this.previousClose + unzigzag(open!);
+    const c = o + unzigzag(close!);
+    this.previousTs = ts;
+    this.previousDelta = delta;
+    this.previousClose = c;
+
+    const price = this.price!;
+    return {
+      ts: ts / 1000,
+      o: dequantize(o, price),
+      h: dequantize(o + unzigzag(high!), price),
+      l: dequantize(o + unzigzag(low!), price),
+      c: dequantize(c, price),
+      v: dequantize(unzigzag(volume), this.volume!),
+    };
+  }
+}
+
+/**
+ * Compresses rows with delta encoding, in the format described by
+ * {@link OHLCV_DELTA_FORMAT}.
+ *
+ * Timestamps are stored as delta-of-delta milliseconds, prices as changes in
+ * whole ticks and volumes as whole volume ticks, all as variable-length
+ * integers. Minute bars typically shrink to 8–12 bytes a row, against 48 for
+ * {@link encodeOhlcvBinary}. Decoding is lossless for values that are
+ * multiples of their tick; other values are rounded to the nearest tick, and
+ * timestamps to the millisecond.
+ *
+ * @param rows - Rows as an array, an `OhlcvSeries` or other iterable, or
+ * plain columns. Any order is accepted, but ascending order compresses best
+ * @param options - Price and volume tick sizes
+ * @returns The encoded data
+ *
+ * @throws {BinaryFormatError} When a tick size is invalid, or a value is not
+ * finite or too large for its tick size
+ *
+ * @example
+ * ```typescript
+ * import { encodeOhlcvDelta, decodeOhlcvDelta } from "@mso/ohlcv/binary";
+ *
+ * const bytes = encodeOhlcvDelta(rows, { tickSize: 0.01, volumeTickSize: 0.0001 });
+ * await Deno.writeFile("btc-1m.ohlcd", bytes);
+ *
+ * const restored = decodeOhlcvDelta(await Deno.readFile("btc-1m.ohlcd"));
+ * ```
+ */
+export function encodeOhlcvDelta(
+  rows: WriteInput,
+  options: OhlcvDeltaOptions = {},
+): Uint8Array {
+  const encoder = new DeltaEncoder(options);
+  const out = new ByteWriter(CHUNK_SIZE);
+  encoder.writeHeader(out);
+  for (const row of rowsOf(rows)) encoder.writeRow(out, row);
+  return out.take();
+}
+
+/**
+ * Decodes data written by {@link encodeOhlcvDelta} or
+ * {@link createOhlcvDeltaEncodeStream}.
+ *
+ * @param bytes - The encoded data
+ * @returns Array of decoded Row objects
+ *
+ * @throws {BinaryFormatError} When the data is not delta-encoded OHLCV data
+ * or is truncated
+ *
+ * @example
+ * ```typescript
+ * const rows = decodeOhlcvDelta(await Deno.readFile("btc-1m.ohlcd"));
+ * ```
+ */
+export function decodeOhlcvDelta(bytes: Uint8Array): Row[] {
+  const rows: Row[] = [];
+  const decoder = new DeltaDecoder();
+  decoder.push(bytes, (row) => rows.push(row));
+  decoder.finish();
+  return rows;
+}
+
+/**
+ * Creates a `TransformStream` that delta-encodes rows as
+ * {@link encodeOhlcvDelta} does, emitting chunks of about 64 KiB.
+ *
+ * @param options - Price and volume tick sizes
+ * @returns A stream transforming rows into the encoded data
+ *
+ * @throws {BinaryFormatError} When a tick size is invalid; values that
+ * cannot be encoded error the stream
+ *
+ * @example
+ * ```typescript
+ * import { createOhlcvDeltaEncodeStream, createParseStream, fetchCsvAsStream, DataSource } from "@mso/ohlcv";
+ *
+ * const file = await Deno.create("btc.ohlcd");
+ * await (await fetchCsvAsStream(DataSource.BTC_CSV))
+ *   .pipeThrough(createParseStream())
+ *   .pipeThrough(createOhlcvDeltaEncodeStream({ tickSize: 0.01 }))
+ *   .pipeTo(file.writable);
+ * ```
+ */
+export function createOhlcvDeltaEncodeStream(
+  options: OhlcvDeltaOptions = {},
+): TransformStream<Row, Uint8Array> {
+  const encoder = new DeltaEncoder(options);
+  const out = new ByteWriter(CHUNK_SIZE);
+  encoder.writeHeader(out);
+
+  return new TransformStream<Row, Uint8Array>({
+    transform(row, controller) {
+      encoder.writeRow(out, row);
+      if (out.length >= CHUNK_SIZE) controller.enqueue(out.take());
+    },
+    flush(controller) {
+      if (out.length > 0) controller.enqueue(out.take());
+    },
+  });
+}
+
+/**
+ * Creates a `TransformStream` that decodes delta-encoded data into rows,
+ * whatever the chunk boundaries.
+ *
+ * @returns A stream transforming encoded bytes into rows
+ *
+ * @throws {BinaryFormatError} Errors the stream when the data is not
+ * delta-encoded OHLCV data or is truncated
+ *
+ * @example
+ * ```typescript
+ * const file = await Deno.open("btc.ohlcd");
+ * for await (const row of file.readable.pipeThrough(createOhlcvDeltaDecodeStream())) {
+ *   console.log(row.ts, row.c);
+ * }
+ * ```
+ */
+export function createOhlcvDeltaDecodeStream(): TransformStream<
+  Uint8Array,
+  Row
+> {
+  const decoder = new DeltaDecoder();
+  return new TransformStream<Uint8Array, Row>({
+    transform(chunk, controller) {
+      decoder.push(chunk, (row) => controller.enqueue(row));
+    },
+    flush() {
+      decoder.finish();
+    },
+  });
+}
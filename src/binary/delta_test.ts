@@ -0,0 +1,225 @@
+// src/binary/delta_test.ts
+import { deepStrictEqual, ok, rejects, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+import {
+  createOhlcvDeltaDecodeStream,
+  createOhlcvDeltaEncodeStream,
+  decodeOhlcvDelta,
+  encodeOhlcvDelta,
+  OHLCV_DELTA_FORMAT,
+} from "./delta.ts";
+
+/** Minute bars with a weekend-sized gap, priced in whole multiples of `tick` */
+function minuteBars(count: number, tick: number, volumeTick = 1): Row[] {
+  const rows: Row[] = [];
+  let ts = 1704067200;
+  let price = 4000;
+  for (let i = 0; i < count; i++) {
+    ts += i === count >> 1 ? 2 * 86400 : 60;
+    price += ((i * 7) % 11) - 5;
+    const at = (ticks: number) => +((price + ticks) * tick).toFixed(10);
+    rows.push({
+      ts,
+      o: at(0),
+      h: at(3 + (i % 4)),
+      l: at(-2 - (i % 3)),
+      c: at((i % 5) - 2),
+      v: +(((i * 131) % 997) * volumeTick).toFixed(10),
+    });
+  }
+  return rows;
+}
+
+function chunked(
+  bytes: Uint8Array,
+  sizes: number[],
+): ReadableStream<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for (let start = 0, i = 0; start < bytes.length; i++) {
+    const size = sizes[i % sizes.length];
+    chunks.push(bytes.slice(start, start + size));
+    start += size;
+  }
+  return ReadableStream.from(chunks);
+}
+
+async function decodeChunked(
+  bytes: Uint8Array,
+  sizes: number[],
+): Promise<Row[]> {
+  return await Array.fromAsync(
+    chunked(bytes, sizes).pipeThrough(createOhlcvDeltaDecodeStream()),
+  );
+}
+
+function header(...varints: number[]): Uint8Array {
+  return new Uint8Array([
+    ...new TextEncoder().encode(OHLCV_DELTA_FORMAT.magic),
+    OHLCV_DELTA_FORMAT.version,
+    ...varints,
+  ]);
+}
+
+Deno.test("encodeOhlcvDelta round-trips rows at several tick sizes", () => {
+  const cases: [number, number][] = [
+    [0.01, 1],
+    [0.25, 1],
+    [0.0001, 0.00000001],
+    [5, 100],
+  ];
+  for (const [tickSize, volumeTickSize] of cases) {
+    const rows = minuteBars(500, tickSize, volumeTickSize);
+    const bytes = encodeOhlcvDelta(rows, { tickSize, volumeTickSize });
+    deepStrictEqual(decodeOhlcvDelta(bytes), rows, `tick ${tickSize}`);
+  }
+});
+
+Deno.test("encodeOhlcvDelta stores regular minute bars compactly", () => {
+  const rows = minuteBars(1000, 0.01);
+  const bytes = encodeOhlcvDelta(rows);
+  ok(bytes.length < 10 * rows.length, `${bytes.length} bytes`);
+});
+
+Deno.test("encodeOhlcvDelta keeps pre-1970, sub-second and unordered timestamps", () => {
+  const rows: Row[] = [
+    { ts: -86400 * 365.25 * 50, o: 1, h: 2, l: 0.5, c: 1.5, v: 10 },
+    { ts: 1.25, o: 1.5, h: 1.5, l: 1.5, c: 1.5, v: 0 },
+    { ts: -0.5, o: 0.01, h: 0.02, l: 0, c: 0.01, v: 1 },
+    { ts: 1704067200.001, o: 99999.99, h: 100000, l: 99999, c: 99999.5, v: 7 },
+  ];
+  deepStrictEqual(decodeOhlcvDelta(encodeOhlcvDelta(rows)), rows);
+});
+
+Deno.test("encodeOhlcvDelta rounds values to the nearest tick and timestamps to the millisecond", () => {
+  const rows: Row[] = [
+    { ts: 1.0004, o: 10.1, h: 10.13, l: 9.87, c: 10.125, v: 1.4 },
+    { ts: 2.0006, o: 10, h: 10.2, l: 9.9, c: 10, v: 1.6 },
+  ];
+  deepStrictEqual(
+    decodeOhlcvDelta(encodeOhlcvDelta(rows, { tickSize: 0.25 })),
+    [
+      { ts: 1, o: 10, h: 10.25, l: 9.75, c: 10.25, v: 1 },
+      { ts: 2.001, o: 10, h: 10.25, l: 10, c: 10, v: 2 },
+    ],
+  );
+});
+
+Deno.test("encodeOhlcvDelta accepts an empty input", () => {
+  deepStrictEqual(decodeOhlcvDelta(encodeOhlcvDelta([])), []);
+});
+
+Deno.test("createOhlcvDeltaDecodeStream decodes across arbitrary chunk boundaries", async () => {
+  const rows = minuteBars(300, 0.01);
+  const bytes = encodeOhlcvDelta(rows);
+  for (const sizes of [[1], [2], [3], [7], [5, 1, 13, 2], [bytes.length]]) {
+    deepStrictEqual(await decodeChunked(bytes, sizes), rows, `chunks ${sizes}`);
+  }
+});
+
+Deno.test("createOhlcvDeltaEncodeStream matches encodeOhlcvDelta in several chunks", async () => {
+  const rows = minuteBars(20_000, 0.01);
+  const options = { tickSize: 0.01, volumeTickSize: 1 };
+  const chunks = await Array.fromAsync(
+    ReadableStream.from(rows).pipeThrough(
+      createOhlcvDeltaEncodeStream(options),
+    ),
+  );
+  ok(chunks.length > 1);
+  const bytes = new Uint8Array(chunks.flatMap((chunk) => [...chunk]));
+  deepStrictEqual(bytes, encodeOhlcvDelta(rows, options));
+  deepStrictEqual(await decodeChunked(bytes, [4096]), rows);
+});
+
+Deno.test("decodeOhlcvDelta rejects bad magic bytes and unsupported versions", () => {
+  const bytes = encodeOhlcvDelta(minuteBars(3, 0.01));
+  const badMagic = bytes.slice();
+  badMagic[0] = "X".charCodeAt(0);
+  throws(() => decodeOhlcvDelta(badMagic), /bad magic bytes/);
+  const badVersion = bytes.slice();
+  badVersion[4] = 2;
+  throws(() => decodeOhlcvDelta(badVersion), /version 2/);
+  throws(
+    () => decodeOhlcvDelta(new TextEncoder().encode("ts,o,h,l,c,v\n")),
+    BinaryFormatError,
+  );
+});
+
+Deno.test("decodeOhlcvDelta rejects truncated data", () => {
+  const bytes = encodeOhlcvDelta(minuteBars(3, 0.01));
+  throws(() => decodeOhlcvDelta(new Uint8Array(0)), /missing header/);
+  throws(() => decodeOhlcvDelta(bytes.slice(0, 6)), /missing header/);
+  throws(() => decodeOhlcvDelta(bytes.slice(0, -1)), /incomplete row/);
+});
+
+Deno.test("decodeOhlcvDelta rejects corrupt headers and varints", () => {
+  throws(() => decodeOhlcvDelta(header(16, 1, 0, 1)), /Invalid tick/);
+  throws(() => decodeOhlcvDelta(header(2, 0, 0, 1)), /Invalid tick/);
+  const corrupt = new Uint8Array([
+    ...header(2, 1, 0, 1),
+    ...Array(9).fill(0x80),
+  ]);
+  throws(() => decodeOhlcvDelta(corrupt), /Invalid varint/);
+});
+
+Deno.test("createOhlcvDeltaDecodeStream errors on bad or truncated data", async () => {
+  const bytes = encodeOhlcvDelta(minuteBars(3, 0.01));
+  const badMagic = bytes.slice();
+  badMagic[1] = 0;
+  await rejects(decodeChunked(badMagic, [1]), /bad magic bytes/);
+  await rejects(decodeChunked(bytes.slice(0, -2), [1]), /incomplete row/);
+  await rejects(decodeChunked(bytes.slice(0, 3), [1]), /missing header/);
+});
+
+Deno.test("encodeOhlcvDelta throws BinaryFormatError for values out of range", () => {
+  const row: Row = { ts: 0, o: 1, h: 1, l: 1, c: 1, v: 1 };
+  for (
+    const bad of [
+      { o: NaN },
+      { h: Infinity },
+      { c: 1e20 },
+      { v: -1e30 },
+      { ts: NaN },
+      { ts: 1e13 },
+    ]
+  ) {
+    throws(
+      () => encodeOhlcvDelta([{ ...row, ...bad }]),
+      BinaryFormatError,
+      JSON.stringify(bad),
+    );
+  }
+  throws(
+    () => encodeOhlcvDelta([{ ...row, c: 1e9 }], { tickSize: 1e-9 }),
+    BinaryFormatError,
+  );
+});
+
+Deno.test("createOhlcvDeltaEncodeStream errors the stream for values out of range", async () => {
+  const rows = [{ ts: 0, o: 1, h: 1, l: 1, c: 1, v: 1 }, {
+    ts: 60,
+    o: NaN,
+    h: 1,
+    l: 1,
+    c: 1,
+    v: 1,
+  }];
+  await rejects(
+    Array.fromAsync(
+      ReadableStream.from(rows).pipeThrough(createOhlcvDeltaEncodeStream()),
+    ),
+    BinaryFormatError,
+  );
+});
+
+Deno.test("invalid tick sizes throw BinaryFormatError", () => {
+  for (const tickSize of [0, -0.01, NaN, Infinity, 1e-20]) {
+    throws(
+      () => encodeOhlcvDelta([], { tickSize }),
+      BinaryFormatError,
+      `${tickSize}`,
+    );
+    throws(() => createOhlcvDeltaEncodeStream({ tickSize }), BinaryFormatError);
+  }
+  throws(() => encodeOhlcvDelta([], { volumeTickSize: 0 }), BinaryFormatError);
+});
@@ -0,0 +1,198 @@
+// src/binary/format.ts
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+
+/**
+ * Metadata stored in the header of an OHLCV binary file.
+ */
+export interface OhlcvBinaryHeader {
+  /** Format version */
+  version: number;
+  /** Instrument symbol, e.g. `"BTC-USD"`, or an empty string */
+  symbol: string;
+  /** Bar interval in seconds, or 0 when irregular or unknown */
+  interval: number;
+  /** Number of records */
+  rowCount: number;
+}
+
+/**
+ * Metadata written by the binary writers.
+ */
+export interface OhlcvBinaryOptions {
+  /** Instrument symbol. Defaults to an empty string */
+  symbol?: string;
+  /** Bar interval in seconds. Defaults to 0 (unknown) */
+  interval?: number;
+}
+
+/**
+ * Layout of an OHLCV binary file. All values are little-endian.
+ *
+ * Header:
+ *
+ * | Offset | Size | Field                                            |
+ * | ------ | ---- | ------------------------------------------------ |
+ * | 0      | 4    | Magic bytes `OHLC`                               |
+ * | 4      | 2    | Format version (uint16), currently 1             |
+ * | 6      | 2    | Header length in bytes (uint16), a multiple of 8 |
+ * | 8      | 8    | Row count (uint64), all ones when not known      |
+ * | 16     | 4    | Bar interval in seconds (uint32), 0 when unknown |
+ * | 20     | 2    | Symbol length in bytes (uint16)                  |
+ * | 22     | n    | Symbol, UTF-8                                    |
+ *
+ * The header is zero-padded to its length. Records follow, 48 bytes each:
+ * `ts`, `o`, `h`, `l`, `c` and `v` as float64, in ascending timestamp
+ * order, so record `i` starts at `headerLength + 48 * i`. When the row count
+ * is not known, as for streamed output, readers derive it from the data
+ * length.
+ */
+export const OHLCV_BINARY_FORMAT = {
+  magic: "OHLC",
+  version: 1,
+  recordSize: 48,
+} as const;
+
+const MAGIC = new TextEncoder().encode(OHLCV_BINARY_FORMAT.magic);
+const RECORD_SIZE = OHLCV_BINARY_FORMAT.recordSize;
+/** Size of the fixed part of the header, before the symbol. */
+export const FIXED_HEADER_SIZE = 22;
+/** Offset of the row count, patched once a streamed file is complete. */
+export const ROW_COUNT_OFFSET = 8;
+const UNKNOWN_ROW_COUNT = 0xffff_ffff_ffff_ffffn;
+const MAX_SYMBOL_LENGTH = 0xffff - FIXED_HEADER_SIZE - 7;
+
+/**
+ * Encodes a header. With no row count, the count is marked as unknown.
+ *
+ * @throws {BinaryFormatError} When the symbol is too long or the interval
+ * is not a non-negative integer
+ */
+export function encodeHeader(
+  options: OhlcvBinaryOptions,
+  rowCount?: number,
+): Uint8Array {
+  const symbol = new TextEncoder().encode(options.symbol ?? "");
+  if (symbol.length > MAX_SYMBOL_LENGTH) {
+    throw new BinaryFormatError(
+      `Symbol is ${symbol.length} bytes long; at most ${MAX_SYMBOL_LENGTH} are allowed.`,
+    );
+  }
+  const interval = options.interval ?? 0;
+  if (!Number.isInteger(interval) || interval < 0 || interval > 0xffff_ffff) {
+    throw new BinaryFormatError(
+      `Invalid interval: ${interval}. Expected a whole number of seconds.`,
+    );
+  }
+
+  const headerLength = Math.ceil((FIXED_HEADER_SIZE + symbol.length) / 8) * 8;
+  const bytes = new Uint8Array(headerLength);
+  const view = new DataView(bytes.buffer);
+  bytes.set(MAGIC, 0);
+  view.setUint16(4, OHLCV_BINARY_FORMAT.version, true);
+  view.setUint16(6, headerLength, true);
+  view.setBigUint64(
+    ROW_COUNT_OFFSET,
+    rowCount === undefined ? UNKNOWN_ROW_COUNT : BigInt(rowCount),
+    true,
+  );
+  view.setUint32(16, interval, true);
+  view.setUint16(20, symbol.length, true);
+  bytes.set(symbol, FIXED_HEADER_SIZE);
+  return bytes;
+}
+
+/**
+ * Reads the header length from the fixed part of a header.
+ *
+ * @throws {BinaryFormatError} When the bytes do not start an OHLCV binary
+ * file of a supported version
+ */
+export function readHeaderLength(fixed: Uint8Array): number {
+  if (
+    fixed.length < FIXED_HEADER_SIZE ||
+    !MAGIC.every((byte, i) => fixed[i] === byte)
+  ) {
+    throw new BinaryFormatError("Not an OHLCV binary file: bad magic bytes");
+  }
+  const view = new DataView(fixed.buffer, fixed.byteOffset, fixed.byteLength);
+  const version = view.getUint16(4, true);
+  if (version !== OHLCV_BINARY_FORMAT.version) {
+    throw new BinaryFormatError(
+      `Unsupported OHLCV binary version ${version}; expected ${OHLCV_BINARY_FORMAT.version}`,
+    );
+  }
+  const headerLength = view.getUint16(6, true);
+  const symbolLength = view.getUint16(20, true);
+  if (
+    headerLength % 8 !== 0 || headerLength < FIXED_HEADER_SIZE + symbolLength
+  ) {
+    throw new BinaryFormatError(`Invalid header length ${headerLength}`);
+  }
+  return headerLength;
+}
+
+/**
+ * Decodes a complete header, resolving an unknown row count from the total
+ * data size.
+ *
+ * @throws {BinaryFormatError} When the header is invalid or the data is
+ * shorter than the row count says
+ */
+export function decodeHeader(
+  header: Uint8Array,
+  totalSize: number,
+): OhlcvBinaryHeader {
+  const headerLength = readHeaderLength(header);
+  if (header.length < headerLength) {
+    throw new BinaryFormatError(
+      `Truncated OHLCV binary header: ${header.length} of ${headerLength} bytes`,
+    );
+  }
+  const view = new DataView(header.buffer, header.byteOffset, headerLength);
+  const symbolLength = view.getUint16(20, true);
+  const available = Math.floor((totalSize - headerLength) / RECORD_SIZE);
+  const storedCount = view.getBigUint64(ROW_COUNT_OFFSET, true);
+  const rowCount = storedCount === UNKNOWN_ROW_COUNT
+    ? available
+    : Number(storedCount);
+  if (rowCount > available) {
+    throw new BinaryFormatError(
+      `Truncated OHLCV binary data: header lists ${rowCount} rows, found ${available}`,
+    );
+  }
+  return {
+    version: view.getUint16(4, true),
+    symbol: new TextDecoder().decode(
+      header.subarray(FIXED_HEADER_SIZE, FIXED_HEADER_SIZE + symbolLength),
+    ),
+    interval: view.getUint32(16, true),
+    rowCount,
+  };
+}
+
+/**
+ * Writes a row as a record at a byte offset.
+ */
+export function writeRecord(view: DataView, offset: number, row: Row): void {
+  view.setFloat64(offset, row.ts, true);
+  view.setFloat64(offset + 8, row.o, true);
+  view.setFloat64(offset + 16, row.h, true);
+  view.setFloat64(offset + 24, row.l, true);
+  view.setFloat64(offset + 32, row.c, true);
+  view.setFloat64(offset + 40, row.v, true);
+}
+
+/**
+ * Reads the record at a byte offset.
+ */
+export function readRecord(view: DataView, offset: number): Row {
+  return {
+    ts: view.getFloat64(offset, true),
+    o: view.getFloat64(offset + 8, true),
+    h: view.getFloat64(offset + 16, true),
+    l: view.getFloat64(offset + 24, true),
+    c: view.getFloat64(offset + 32, true),
+    v: view.getFloat64(offset + 40, true),
+  };
+}
@@ -0,0 +1,18 @@
+// src/binary/index.ts
+export {
+  createOhlcvBinaryStream,
+  encodeOhlcvBinary,
+  writeOhlcvBinaryFile,
+} from "./writer.ts";
+export { OhlcvBinaryReader } from "./reader.ts";
+export { OHLCV_BINARY_FORMAT } from "./format.ts";
+export {
+  createOhlcvDeltaDecodeStream,
+  createOhlcvDeltaEncodeStream,
+  decodeOhlcvDelta,
+  encodeOhlcvDelta,
+  OHLCV_DELTA_FORMAT,
+} from "./delta.ts";
+
+export type { OhlcvBinaryHeader, OhlcvBinaryOptions } from "./format.ts";
+export type { OhlcvDeltaOptions } from "./delta.ts";
@@ -0,0 +1,260 @@
+// src/binary/reader.ts
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+import { OhlcvSeries } from "../series/series.ts";
+import {
+  BlobSource,
+  type ByteSource,
+  BytesSource,
+  openFileSource,
+} from "../core/_byte_source.ts";
+import {
+  decodeHeader,
+  FIXED_HEADER_SIZE,
+  OHLCV_BINARY_FORMAT,
+  type OhlcvBinaryHeader,
+  readHeaderLength,
+  readRecord,
+} from "./format.ts";
+
+const RECORD_SIZE = OHLCV_BINARY_FORMAT.recordSize;
+/** Number of records read per chunk when streaming. */
+const RECORDS_PER_READ = 4096;
+
+/**
+ * Reads OHLCV binary files with random access.
+ *
+ * Records have a fixed width, so any row is read directly by index, and rows
+ * are found by timestamp with a binary search that reads one timestamp per
+ * step. Only the records asked for are read, so a multi-gigabyte file opened
+ * with {@link OhlcvBinaryReader.open} costs a few small reads per query.
+ *
+ * @example
+ * ```typescript
+ * import { OhlcvBinaryReader } from "@mso/ohlcv/binary";
+ *
+ * const reader = await OhlcvBinaryReader.open("btc.ohlcv");
+ * console.log(reader.header.symbol, reader.length);
+ *
+ * const from = Date.UTC(2024, 0, 1) / 1000;
+ * const year = await reader.readByTime(from, from + 366 * 86_400);
+ *
+ * for await (const row of reader.streamByTime(from)) console.log(row.c);
+ * reader.close();
+ * ```
+ */
+export class OhlcvBinaryReader {
+  /** Metadata from the file header */
+  public readonly header: OhlcvBinaryHeader;
+  private source: ByteSource;
+  private headerLength: number;
+
+  private constructor(
+    source: ByteSource,
+    header: OhlcvBinaryHeader,
+    headerLength: number,
+  ) {
+    this.source = source;
+    this.header = header;
+    this.headerLength = headerLength;
+  }
+
+  private static async fromSource(
+    source: ByteSource,
+  ): Promise<OhlcvBinaryReader> {
+    try {
+      const headerLength = readHeaderLength(
+        await source.read(0, FIXED_HEADER_SIZE),
+      );
+      const header = decodeHeader(
+        await source.read(0, headerLength),
+        source.size,
+      );
+      return new OhlcvBinaryReader(source, header, headerLength);
+    } catch (e) {
+      source.close();
+      throw e;
+    }
+  }
+
+  /**
+   * Reads encoded data held in memory, without copying it.
+   *
+   * @throws {BinaryFormatError} When the data is not a valid OHLCV binary file
+   */
+  public static fromBytes(bytes: Uint8Array): OhlcvBinaryReader {
+    const headerLength = readHeaderLength(bytes);
+    const header = decodeHeader(bytes.subarray(0, headerLength), bytes.length);
+    return new OhlcvBinaryReader(new BytesSource(bytes), header, headerLength);
+  }
+
+  /**
+   * Reads a `Blob` or `File`, loading only the slices that are accessed.
+   *
+   * @throws {BinaryFormatError} When the data is not a valid OHLCV binary file
+   */
+  public static fromBlob(blob: Blob): Promise<OhlcvBinaryReader> {
+    return OhlcvBinaryReader.fromSource(new BlobSource(blob));
+  }
+
+  /**
+   * Opens a file for reading. Call {@link OhlcvBinaryReader.close} when done.
+   *
+   * @throws {BinaryFormatError} When the file is not a valid OHLCV binary file
+   */
+  public static async open(path: string | URL): Promise<OhlcvBinaryReader> {
+    return OhlcvBinaryReader.fromSource(await openFileSource(path));
+  }
+
+  /** Number of rows */
+  public get length(): number {
+    return this.header.rowCount;
+  }
+
+  private offsetOf(index: number): number {
+    return this.headerLength + index * RECORD_SIZE;
+  }
+
+  private async timestampAt(index: number): Promise<number> {
+    const bytes = await this.source.read(this.offsetOf(index), 8);
+    return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0, true);
+  }
+
+  /**
+   * Reads the row at an index.
+   *
+   * @param index - Row index; negative values count back from the end
+   *
+   * @throws {BinaryFormatError} When the index is out of range
+   */
+  public async row(index: number): Promise<Row> {
+    const i = index < 0 ? this.length + index : index;
+    if (!Number.isInteger(i) || i < 0 || i >= this.length) {
+      throw new BinaryFormatError(
+        `Row index ${index} is out of range for ${this.length} rows`,
+      );
+    }
+    const bytes = await this.source.read(this.offsetOf(i), RECORD_SIZE);
+    return readRecord(
+      new DataView(bytes.buffer, bytes.byteOffset, RECORD_SIZE),
+      0,
+    );
+  }
+
+  /**
+   * Returns the index of the first row at or after a timestamp, or `length`
+   * when every row is earlier.
+   *
+   * @param ts - Unix timestamp in seconds
+   */
+  public async indexAtOrAfter(ts: number): Promise<number> {
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (await this.timestampAt(mid) < ts) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Reads rows `start` to `end` (exclusive) into a series. Indexes behave
+   * like `Array.prototype.slice`.
+   */
+  public async readRange(start?: number, end?: number): Promise<OhlcvSeries> {
+    const [from, to] = this.clampRange(start, end);
+    const count = Math.max(0, to - from);
+    const bytes = await this.source.read(
+      this.offsetOf(from),
+      count * RECORD_SIZE,
+    );
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const columns = {
+      ts: new Float64Array(count),
+      o: new Float64Array(count),
+      h: new Float64Array(count),
+      l: new Float64Array(count),
+      c: new Float64Array(count),
+      v: new Float64Array(count),
+    };
+    for (let i = 0; i < count; i++) {
+      const offset = i * RECORD_SIZE;
+      columns.ts[i] = view.getFloat64(offset, true);
+      columns.o[i] = view.getFloat64(offset + 8, true);
+      columns.h[i] = view.getFloat64(offset + 16, true);
+      columns.l[i] = view.getFloat64(offset + 24, true);
+      columns.c[i] = view.getFloat64(offset + 32, true);
+      columns.v[i] = view.getFloat64(offset + 40, true);
+    }
+    return new OhlcvSeries(columns);
+  }
+
+  /**
+   * Reads the rows with `from <= ts < to` into a series.
+   *
+   * @param from - Inclusive start timestamp. Defaults to the first row
+   * @param to - Exclusive end timestamp. Defaults to after the last row
+   */
+  public async readByTime(
+    from: number = -Infinity,
+    to: number = Infinity,
+  ): Promise<OhlcvSeries> {
+    const [start, end] = await this.indexRangeByTime(from, to);
+    return this.readRange(start, end);
+  }
+
+  /**
+   * Streams the rows with `from <= ts < to`, reading 4096 records at a time
+   * as the stream is consumed.
+   *
+   * @param from - Inclusive start timestamp. Defaults to the first row
+   * @param to - Exclusive end timestamp. Defaults to after the last row
+   */
+  public streamByTime(
+    from: number = -Infinity,
+    to: number = Infinity,
+  ): ReadableStream<Row> {
+    let next = 0;
+    let end = 0;
+    return new ReadableStream<Row>({
+      start: async () => {
+        [next, end] = await this.indexRangeByTime(from, to);
+      },
+      pull: async (controller) => {
+        if (next >= end) {
+          controller.close();
+          return;
+        }
+        const batchEnd = Math.min(end, next + RECORDS_PER_READ);
+        const series = await this.readRange(next, batchEnd);
+        next = batchEnd;
+        for (const row of series.toRows()) controller.enqueue(row);
+      },
+    });
+  }
+
+  /**
+   * Releases the underlying file, if any.
+   */
+  public close(): void {
+    this.source.close();
+  }
+
+  private clampRange(start = 0, end = this.length): [number, number] {
+    const clamp = (index: number) =>
+      Math.min(
+        this.length,
+        Math.max(0, index < 0 ? this.length + index : Math.trunc(index)),
+      );
+    return [clamp(start), clamp(end)];
+  }
+
+  private async indexRangeByTime(
+    from: number,
+    to: number,
+  ): Promise<[number, number]> {
+    const start = await this.indexAtOrAfter(from);
+    return [start, Math.max(start, await this.indexAtOrAfter(to))];
+  }
+}
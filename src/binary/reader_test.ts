@@ -0,0 +1,161 @@
+// src/binary/reader_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+import { OhlcvBinaryReader } from "./reader.ts";
+import { createOhlcvBinaryStream, encodeOhlcvBinary } from "./writer.ts";
+
+const DAY = 86400;
+const START = 1704067200;
+
+/** Daily rows from 2024-01-01, with a repeated timestamp at index 10 */
+const rows: Row[] = Array.from({ length: 10_000 }, (_, i) => {
+  const ts = START + (i > 10 ? i - 1 : i) * DAY;
+  return { ts, o: i, h: i + 2, l: i - 1, c: i + 1, v: 100 + i };
+});
+
+const bytes = encodeOhlcvBinary(rows, { symbol: "BTC-USD", interval: DAY });
+
+async function readers(data: Uint8Array): Promise<OhlcvBinaryReader[]> {
+  return [
+    OhlcvBinaryReader.fromBytes(data),
+    await OhlcvBinaryReader.fromBlob(new Blob([data.slice()])),
+  ];
+}
+
+Deno.test("OhlcvBinaryReader reads the header and length", async () => {
+  for (const reader of await readers(bytes)) {
+    deepStrictEqual(reader.header, {
+      version: 1,
+      symbol: "BTC-USD",
+      interval: DAY,
+      rowCount: rows.length,
+    });
+    strictEqual(reader.length, rows.length);
+  }
+});
+
+Deno.test("row reads by index, counting negative indexes from the end", async () => {
+  for (const reader of await readers(bytes)) {
+    deepStrictEqual(await reader.row(0), rows[0]);
+    deepStrictEqual(await reader.row(4321), rows[4321]);
+    deepStrictEqual(await reader.row(-1), rows[rows.length - 1]);
+    deepStrictEqual(await reader.row(-rows.length), rows[0]);
+    for (const index of [rows.length, -rows.length - 1, 1.5, NaN]) {
+      await rejects(reader.row(index), BinaryFormatError, `${index}`);
+    }
+  }
+});
+
+Deno.test("indexAtOrAfter finds the first row at or after a timestamp", async () => {
+  for (const reader of await readers(bytes)) {
+    strictEqual(await reader.indexAtOrAfter(-Infinity), 0);
+    strictEqual(await reader.indexAtOrAfter(START), 0);
+    strictEqual(await reader.indexAtOrAfter(START + 1), 1);
+    strictEqual(await reader.indexAtOrAfter(START + 10 * DAY), 10);
+    strictEqual(await reader.indexAtOrAfter(START + 10 * DAY + 1), 12);
+    strictEqual(await reader.indexAtOrAfter(rows[9999].ts), 9999);
+    strictEqual(await reader.indexAtOrAfter(rows[9999].ts + 1), 10_000);
+  }
+});
+
+Deno.test("readByTime reads rows with from <= ts < to", async () => {
+  for (const reader of await readers(bytes)) {
+    const from = START + 5 * DAY;
+    const to = START + 20 * DAY;
+    deepStrictEqual(
+      (await reader.readByTime(from, to)).toRows(),
+      rows.filter((row) => row.ts >= from && row.ts < to),
+    );
+    deepStrictEqual((await reader.readByTime()).toRows(), rows);
+    strictEqual((await reader.readByTime(from + 1, from + 2)).length, 0);
+    strictEqual((await reader.readByTime(to, from)).length, 0);
+  }
+});
+
+Deno.test("readRange behaves like Array.prototype.slice", async () => {
+  const reader = OhlcvBinaryReader.fromBytes(bytes);
+  deepStrictEqual((await reader.readRange(-3)).toRows(), rows.slice(-3));
+  deepStrictEqual(
+    (await reader.readRange(5, -9990)).toRows(),
+    rows.slice(5, -9990),
+  );
+  strictEqual((await reader.readRange(20_000)).length, 0);
+});
+
+Deno.test("streamByTime streams matching rows across read batches", async () => {
+  for (const reader of await readers(bytes)) {
+    const from = START + 100 * DAY;
+    const to = START + 9000 * DAY;
+    deepStrictEqual(
+      await Array.fromAsync(reader.streamByTime(from, to)),
+      rows.filter((row) => row.ts >= from && row.ts < to),
+    );
+    deepStrictEqual(await Array.fromAsync(reader.streamByTime()), rows);
+    deepStrictEqual(await Array.fromAsync(reader.streamByTime(0, 1)), []);
+  }
+});
+
+Deno.test("OhlcvBinaryReader.open reads a file without loading it", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/btc.ohlcv`;
+    await Deno.writeFile(path, bytes);
+    const reader = await OhlcvBinaryReader.open(path);
+    try {
+      strictEqual(reader.header.symbol, "BTC-USD");
+      deepStrictEqual(await reader.row(-2), rows[rows.length - 2]);
+      deepStrictEqual(
+        (await reader.readByTime(START, START + 3 * DAY)).toRows(),
+        rows.slice(0, 3),
+      );
+    } finally {
+      reader.close();
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("an unknown row count is derived from the data length", async () => {
+  const chunks = await Array.fromAsync(
+    ReadableStream.from(rows.slice(0, 50)).pipeThrough(
+      createOhlcvBinaryStream(),
+    ),
+  );
+  const streamed = new Uint8Array(chunks.flatMap((chunk) => [...chunk]));
+  // A trailing partial record is ignored
+  const withTail = new Uint8Array([...streamed, 1, 2, 3]);
+  for (const reader of await readers(withTail)) {
+    strictEqual(reader.length, 50);
+    deepStrictEqual(await reader.row(-1), rows[49]);
+  }
+});
+
+Deno.test("OhlcvBinaryReader rejects invalid headers", async () => {
+  const small = encodeOhlcvBinary(rows.slice(0, 3), { symbol: "ETH" });
+  const corrupt = (offset: number, ...values: number[]) => {
+    const copy = small.slice();
+    copy.set(values, offset);
+    return copy;
+  };
+  const cases: [Uint8Array, RegExp][] = [
+    [
+      new TextEncoder().encode("ts,o,h,l,c,v\n2024-01-01,1,1,1,1,1\n"),
+      /bad magic/,
+    ],
+    [small.slice(0, 10), /bad magic/],
+    [corrupt(4, 2, 0), /version 2/],
+    [corrupt(6, 12, 0), /Invalid header length/],
+    [corrupt(6, 16, 0), /Invalid header length/],
+    [corrupt(8, 4), /header lists 4 rows, found 3/],
+    [small.slice(0, -1), /header lists 3 rows, found 2/],
+  ];
+  for (const [data, message] of cases) {
+    throws(() => OhlcvBinaryReader.fromBytes(data), message);
+    await rejects(
+      OhlcvBinaryReader.fromBlob(new Blob([data.slice()])),
+      message,
+    );
+  }
+});
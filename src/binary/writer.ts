@@ -0,0 +1,195 @@
+// src/binary/writer.ts
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+import type { WriteInput } from "../writer/common.ts";
+import { rowsOf } from "../writer/_format.ts";
+import {
+  decodeHeader,
+  encodeHeader,
+  OHLCV_BINARY_FORMAT,
+  type OhlcvBinaryOptions,
+  ROW_COUNT_OFFSET,
+  writeRecord,
+} from "./format.ts";
+
+const RECORD_SIZE = OHLCV_BINARY_FORMAT.recordSize;
+/** Number of records per chunk written by the stream. */
+const RECORDS_PER_CHUNK = 1024;
+
+/**
+ * Tracks the previous timestamp so that records stay searchable.
+ */
+function createOrderCheck(): (row: Row) => void {
+  let previous = -Infinity;
+  let index = 0;
+  return (row) => {
+    if (!(row.ts >= previous)) {
+      throw new BinaryFormatError(
+        `Row ${index} at ${row.ts} is not after the previous row at ${previous}; rows must be in ascending timestamp order`,
+      );
+    }
+    previous = row.ts;
+    index++;
+  };
+}
+
+/**
+ * Encodes rows in the OHLCV binary format described by
+ * {@link OHLCV_BINARY_FORMAT}.
+ *
+ * @param rows - Rows in ascending timestamp order, as an array, an
+ * `OhlcvSeries` or other iterable, or plain columns
+ * @param options - Symbol and bar interval stored in the header
+ * @returns The encoded file
+ *
+ * @throws {BinaryFormatError} When the rows are out of order, or the symbol
+ * or interval cannot be stored
+ *
+ * @example
+ * ```typescript
+ * import { encodeOhlcvBinary, fetchCsvAsText, parseWithSimpleSplit, DataSource } from "@mso/ohlcv";
+ *
+ * const rows = parseWithSimpleSplit(await fetchCsvAsText(DataSource.BTC_CSV));
+ * await Deno.writeFile(
+ *   "btc.ohlcv",
+ *   encodeOhlcvBinary(rows, { symbol: "BTC-USD", interval: 86_400 }),
+ * );
+ * ```
+ */
+export function encodeOhlcvBinary(
+  rows: WriteInput,
+  options: OhlcvBinaryOptions = {},
+): Uint8Array {
+  const list = Array.isArray(rows) ? rows : [...rowsOf(rows)];
+  const header = encodeHeader(options, list.length);
+  const bytes = new Uint8Array(header.length + list.length * RECORD_SIZE);
+  const view = new DataView(bytes.buffer);
+  const checkOrder = createOrderCheck();
+  bytes.set(header);
+  for (let i = 0; i < list.length; i++) {
+    checkOrder(list[i]);
+    writeRecord(view, header.length + i * RECORD_SIZE, list[i]);
+  }
+  return bytes;
+}
+
+/**
+ * Creates a `TransformStream` that encodes rows in the OHLCV binary format.
+ *
+ * The row count is not known up front, so the header marks it as unknown
+ * and readers derive it from the data length. Records are written in chunks
+ * of 1024.
+ *
+ * @param options - Symbol and bar interval stored in the header
+ * @returns A stream transforming rows into the encoded file
+ *
+ * @throws {BinaryFormatError} When the symbol or interval cannot be stored;
+ * out-of-order rows error the stream
+ *
+ * @example
+ * ```typescript
+ * const file = await Deno.create("btc.ohlcv");
+ * await (await fetchCsvAsStream(DataSource.BTC_CSV))
+ *   .pipeThrough(createParseStream())
+ *   .pipeThrough(createOhlcvBinaryStream({ symbol: "BTC-USD" }))
+ *   .pipeTo(file.writable);
+ * ```
+ */
+export function createOhlcvBinaryStream(
+  options: OhlcvBinaryOptions = {},
+): TransformStream<Row, Uint8Array> {
+  const header = encodeHeader(options);
+  const checkOrder = createOrderCheck();
+  let chunk = new Uint8Array(RECORDS_PER_CHUNK * RECORD_SIZE);
+  let view = new DataView(chunk.buffer);
+  let count = 0;
+
+  return new TransformStream<Row, Uint8Array>({
+    start(controller) {
+      controller.enqueue(header);
+    },
+    transform(row, controller) {
+      checkOrder(row);
+      writeRecord(view, count * RECORD_SIZE, row);
+      if (++count === RECORDS_PER_CHUNK) {
+        controller.enqueue(chunk);
+        chunk = new Uint8Array(RECORDS_PER_CHUNK * RECORD_SIZE);
+        view = new DataView(chunk.buffer);
+        count = 0;
+      }
+    },
+    flush(controller) {
+      if (count > 0) controller.enqueue(chunk.subarray(0, count * RECORD_SIZE));
+    },
+  });
+}
+
+/**
+ * Writes rows to an OHLCV binary file, with the row count in the header.
+ *
+ * Accepts the output of any parser: an array, an `OhlcvSeries`, columns, or
+ * a stream of rows such as from {@link createParseStream} or `parse` with
+ * `mode: "stream"`, which is written without holding every row in memory.
+ *
+ * @param path - File to create or overwrite
+ * @param rows - Rows in ascending timestamp order
+ * @param options - Symbol and bar interval stored in the header
+ * @returns Promise resolving to the number of rows written
+ *
+ * @throws {BinaryFormatError} When the rows are out of order, or the symbol
+ * or interval cannot be stored
+ *
+ * @example
+ * ```typescript
+ * import { parse, writeOhlcvBinaryFile } from "@mso/ohlcv";
+ *
+ * const file = await Deno.open("btc.csv");
+ * await writeOhlcvBinaryFile(
+ *   "btc.ohlcv",
+ *   parse(file.readable, { mode: "stream" }),
+ *   { symbol: "BTC-USD", interval: 86_400 },
+ * );
+ * ```
+ */
+export async function writeOhlcvBinaryFile(
+  path: string | URL,
+  rows: WriteInput | ReadableStream<Row>,
+  options: OhlcvBinaryOptions = {},
+): Promise<number> {
+  if (!(rows instanceof ReadableStream)) {
+    const bytes = encodeOhlcvBinary(rows, options);
+    await Deno.writeFile(path, bytes);
+    return decodeHeader(bytes, bytes.length).rowCount;
+  }
+
+  let rowCount = 0;
+  const counted = rows.pipeThrough(
+    new TransformStream<Row, Row>({
+      transform(row, controller) {
+        rowCount++;
+        controller.enqueue(row);
+      },
+    }),
+  );
+  const file = await Deno.open(path, {
+    write: true,
+    create: true,
+    truncate: true,
+  });
+  try {
+    const encoded = counted.pipeThrough(createOhlcvBinaryStream(options));
+    for await (const chunk of encoded) {
+      let written = 0;
+      while (written < chunk.length) {
+        written += await file.write(chunk.subarray(written));
+      }
+    }
+    const count = new Uint8Array(8);
+    new DataView(count.buffer).setBigUint64(0, BigInt(rowCount), true);
+    await file.seek(ROW_COUNT_OFFSET, Deno.SeekMode.Start);
+    await file.write(count);
+  } finally {
+    file.close();
+  }
+  return rowCount;
+}
@@ -0,0 +1,159 @@
+// src/binary/writer_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { BinaryFormatError } from "../core/errors.ts";
+import { OhlcvSeries } from "../series/series.ts";
+import { OhlcvBinaryReader } from "./reader.ts";
+import {
+  createOhlcvBinaryStream,
+  encodeOhlcvBinary,
+  writeOhlcvBinaryFile,
+} from "./writer.ts";
+
+const rows: Row[] = Array.from({ length: 2500 }, (_, i) => ({
+  ts: 1704067200 + i * 60,
+  o: 100 + i * 0.01,
+  h: 101 + i * 0.01,
+  l: 99 + i * 0.01,
+  c: 100.5 + i * 0.01,
+  v: i,
+}));
+
+async function encodeStreamed(
+  input: Row[],
+  symbol?: string,
+): Promise<Uint8Array[]> {
+  return await Array.fromAsync(
+    ReadableStream.from(input).pipeThrough(createOhlcvBinaryStream({ symbol })),
+  );
+}
+
+Deno.test("encodeOhlcvBinary writes the documented header layout", () => {
+  const bytes = encodeOhlcvBinary(rows.slice(0, 2), {
+    symbol: "€UR",
+    interval: 60,
+  });
+  const view = new DataView(bytes.buffer);
+  strictEqual(new TextDecoder().decode(bytes.subarray(0, 4)), "OHLC");
+  strictEqual(view.getUint16(4, true), 1);
+  // 22 fixed bytes and a 5-byte UTF-8 symbol, padded to 32
+  strictEqual(view.getUint16(6, true), 32);
+  strictEqual(view.getBigUint64(8, true), 2n);
+  strictEqual(view.getUint32(16, true), 60);
+  strictEqual(view.getUint16(20, true), 5);
+  deepStrictEqual([...bytes.subarray(27, 32)], [0, 0, 0, 0, 0]);
+  strictEqual(bytes.length, 32 + 2 * 48);
+  strictEqual(view.getFloat64(32 + 48 + 32, true), rows[1].c);
+});
+
+Deno.test("encodeOhlcvBinary accepts arrays, series and columns", () => {
+  const series = OhlcvSeries.fromRows(rows);
+  const expected = encodeOhlcvBinary(rows);
+  deepStrictEqual(encodeOhlcvBinary(series), expected);
+  deepStrictEqual(
+    encodeOhlcvBinary({
+      ts: series.ts,
+      o: series.o,
+      h: series.h,
+      l: series.l,
+      c: series.c,
+      v: series.v,
+    }),
+    expected,
+  );
+  deepStrictEqual(OhlcvBinaryReader.fromBytes(encodeOhlcvBinary([])).length, 0);
+});
+
+Deno.test("encodeOhlcvBinary rejects rows out of timestamp order", () => {
+  const swapped = [rows[1], rows[0]];
+  throws(() => encodeOhlcvBinary(swapped), /Row 1 at 1704067200/);
+  throws(() => encodeOhlcvBinary([{ ...rows[0], ts: NaN }]), BinaryFormatError);
+  // Repeated timestamps keep the order searchable
+  encodeOhlcvBinary([rows[0], rows[0]]);
+});
+
+Deno.test("encodeOhlcvBinary rejects metadata that does not fit the header", () => {
+  for (const interval of [-1, 1.5, 2 ** 32, NaN]) {
+    throws(() => encodeOhlcvBinary(rows, { interval }), BinaryFormatError);
+  }
+  throws(
+    () => encodeOhlcvBinary(rows, { symbol: "x".repeat(70_000) }),
+    /Symbol is 70000 bytes/,
+  );
+  throws(() => createOhlcvBinaryStream({ interval: -1 }), BinaryFormatError);
+});
+
+Deno.test("createOhlcvBinaryStream emits the header and records in chunks", async () => {
+  const chunks = await encodeStreamed(rows, "BTC-USD");
+  // Header, two full chunks of 1024 records, then the remainder
+  deepStrictEqual(chunks.map((chunk) => chunk.length), [
+    32,
+    1024 * 48,
+    1024 * 48,
+    452 * 48,
+  ]);
+  const bytes = new Uint8Array(chunks.flatMap((chunk) => [...chunk]));
+  const reader = OhlcvBinaryReader.fromBytes(bytes);
+  strictEqual(reader.header.symbol, "BTC-USD");
+  strictEqual(reader.length, rows.length);
+  deepStrictEqual((await reader.readRange()).toRows(), rows);
+});
+
+Deno.test("createOhlcvBinaryStream errors the stream on out-of-order rows", async () => {
+  await rejects(encodeStreamed([rows[5], rows[6], rows[2]]), /Row 2/);
+});
+
+Deno.test("writeOhlcvBinaryFile writes arrays and streams with the row count", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const fromArray = `${dir}/array.ohlcv`;
+    const fromStream = `${dir}/stream.ohlcv`;
+    const options = { symbol: "BTC-USD", interval: 60 };
+    strictEqual(
+      await writeOhlcvBinaryFile(fromArray, rows, options),
+      rows.length,
+    );
+    strictEqual(
+      await writeOhlcvBinaryFile(
+        fromStream,
+        ReadableStream.from(rows),
+        options,
+      ),
+      rows.length,
+    );
+    // The streamed file is patched to be identical to the one-shot encoding
+    const expected = encodeOhlcvBinary(rows, options);
+    deepStrictEqual(await Deno.readFile(fromArray), expected);
+    deepStrictEqual(await Deno.readFile(fromStream), expected);
+
+    // Overwriting a longer file truncates it
+    await writeOhlcvBinaryFile(
+      fromStream,
+      ReadableStream.from(rows.slice(0, 3)),
+    );
+    const reader = await OhlcvBinaryReader.open(fromStream);
+    try {
+      strictEqual(reader.length, 3);
+      strictEqual((await Deno.stat(fromStream)).size, 24 + 3 * 48);
+    } finally {
+      reader.close();
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("writeOhlcvBinaryFile rejects out-of-order streams", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await rejects(
+      writeOhlcvBinaryFile(
+        `${dir}/bad.ohlcv`,
+        ReadableStream.from([rows[1], rows[0]]),
+      ),
+      BinaryFormatError,
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,311 @@
+// src/calendar/calendar.ts
+import { CalendarError } from "../core/errors.ts";
+import {
+  assertValidTimeZone,
+  utcMillisToZonedParts,
+  zonedTimeToUtcMillis,
+} from "../utils/timezone.ts";
+import {
+  assertValidHolidayRule,
+  formatDayNumber,
+  fromDayNumber,
+  type Holiday,
+  type HolidayRule,
+  parseDayNumber,
+  resolveHolidays,
+  toDayNumber,
+  weekdayOf,
+} from "./rules.ts";
+
+/**
+ * Describes an exchange's trading days and hours.
+ *
+ * @example
+ * ```typescript
+ * const xetra: CalendarDefinition = {
+ *   name: "XETRA",
+ *   timeZone: "Europe/Berlin",
+ *   open: "09:00",
+ *   close: "17:30",
+ *   holidays: [
+ *     { type: "fixed", name: "New Year's Day", month: 1, day: 1 },
+ *     { type: "easter", name: "Good Friday", offset: -2 },
+ *     { type: "easter", name: "Easter Monday", offset: 1 },
+ *   ],
+ * };
+ * ```
+ */
+export interface CalendarDefinition {
+  /** Calendar name, e.g. `"NYSE"` */
+  name: string;
+  /** IANA time zone of the exchange */
+  timeZone: string;
+  /** Local session open time, `HH:mm`. Defaults to `"00:00"` */
+  open?: string;
+  /** Local session close time, `HH:mm`, up to `"24:00"`. Defaults to `"24:00"` */
+  close?: string;
+  /** Weekdays with no trading, Sunday = 0. Defaults to Saturday and Sunday */
+  weekend?: readonly number[];
+  /** Holiday rules, earlier rules taking precedence on collisions */
+  holidays: readonly HolidayRule[];
+}
+
+/**
+ * A single trading session.
+ */
+export interface Session {
+  /** Local trading date in `YYYY-MM-DD` format */
+  date: string;
+  /** Unix timestamp in seconds of the session open */
+  open: number;
+  /** Unix timestamp in seconds of the session close */
+  close: number;
+}
+
+/**
+ * A date to query: a `YYYY-MM-DD` string, or a Unix timestamp in seconds
+ * whose date is taken in the calendar's time zone.
+ */
+export type CalendarDate = string | number;
+
+const TIME_REGEX = /^(\d{2}):(\d{2})$/;
+
+/** Longest run of non-trading days searched before giving up. */
+const MAX_SEARCH_DAYS = 3_660;
+
+function parseSessionTime(name: string, time: string): number {
+  const match = time.match(TIME_REGEX);
+  const minutes = match ? +match[1] * 60 + +match[2] : NaN;
+  if (!match || +match[2] > 59 || minutes > 24 * 60) {
+    throw new CalendarError(
+      `Invalid ${name} time: "${time}". Expected HH:mm.`,
+    );
+  }
+  return minutes;
+}
+
+/**
+ * An exchange calendar answering trading-day and session queries offline.
+ *
+ * Holidays are computed from rules on demand and cached per year.
+ *
+ * Unix timestamps are converted to a date in the calendar's time zone. Rows
+ * parsed from date-only CSVs are stamped at UTC midnight, which is the
+ * previous evening in New York, so query those with their date string, e.g.
+ * `calendar.isTradingDay(unixToYyyymmdd(row.ts))`.
+ *
+ * @example
+ * ```typescript
+ * import { NYSE } from "@mso/ohlcv/calendar";
+ *
+ * NYSE.isTradingDay("2024-07-04"); // false - Independence Day
+ * NYSE.nextTradingDay("2024-07-03"); // "2024-07-05"
+ * NYSE.nextSession(Date.UTC(2024, 6, 3, 21) / 1000);
+ * // { date: "2024-07-05", open: 1720186200, close: 1720209600 }
+ * ```
+ */
+export class TradingCalendar {
+  /** Calendar name */
+  public readonly name: string;
+  /** IANA time zone of the exchange */
+  public readonly timeZone: string;
+  private openMinutes: number;
+  private closeMinutes: number;
+  private weekend: ReadonlySet<number>;
+  private rules: readonly HolidayRule[];
+  private cache = new Map<number, Map<number, string>>();
+
+  /**
+   * @throws {CalendarError} When the definition is invalid
+   * @throws {InvalidTimeZoneError} When the time zone is unknown
+   */
+  constructor(definition: CalendarDefinition) {
+    assertValidTimeZone(definition.timeZone);
+    for (const rule of definition.holidays) assertValidHolidayRule(rule);
+    this.name = definition.name;
+    this.timeZone = definition.timeZone;
+    this.openMinutes = parseSessionTime("open", definition.open ?? "00:00");
+    this.closeMinutes = parseSessionTime("close", definition.close ?? "24:00");
+    if (this.closeMinutes <= this.openMinutes) {
+      throw new CalendarError(
+        `Session close ${definition.close} must be after open ${definition.open}`,
+      );
+    }
+    this.weekend = new Set(definition.weekend ?? [0, 6]);
+    if (this.weekend.size >= 7) {
+      throw new CalendarError(
+        `Calendar "${this.name}" has no trading weekdays`,
+      );
+    }
+    this.rules = definition.holidays;
+  }
+
+  private holidaysOfNominalYear(year: number): Map<number, string> {
+    let holidays = this.cache.get(year);
+    if (!holidays) {
+      holidays = resolveHolidays(this.rules, year, this.weekend);
+      this.cache.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  private holidayName(dayNumber: number): string | undefined {
+    // Observed dates can cross into a neighbouring year.
+    const { year } = fromDayNumber(dayNumber);
+    return this.holidaysOfNominalYear(year).get(dayNumber) ??
+      this.holidaysOfNominalYear(year + 1).get(dayNumber) ??
+      this.holidaysOfNominalYear(year - 1).get(dayNumber);
+  }
+
+  private toDay(date: CalendarDate): number {
+    if (typeof date === "string") return parseDayNumber(date);
+    const parts = utcMillisToZonedParts(date * 1000, this.timeZone);
+    return toDayNumber(parts.year, parts.month, parts.day);
+  }
+
+  private isTradingDayNumber(dayNumber: number): boolean {
+    return !this.weekend.has(weekdayOf(dayNumber)) &&
+      this.holidayName(dayNumber) === undefined;
+  }
+
+  private findTradingDay(from: number, step: 1 | -1): number {
+    for (let i = 0, day = from; i < MAX_SEARCH_DAYS; i++, day += step) {
+      if (this.isTradingDayNumber(day)) return day;
+    }
+    throw new CalendarError(
+      `No trading day within ${MAX_SEARCH_DAYS} days of ${
+        formatDayNumber(from)
+      } in calendar "${this.name}"`,
+    );
+  }
+
+  private sessionOf(dayNumber: number): Session {
+    const { year, month, day } = fromDayNumber(dayNumber);
+    const at = (minutes: number) =>
+      zonedTimeToUtcMillis({
+        year,
+        month,
+        day,
+        hour: Math.floor(minutes / 60),
+        minute: minutes % 60,
+        second: 0,
+        millisecond: 0,
+      }, this.timeZone) / 1000;
+    return {
+      date: formatDayNumber(dayNumber),
+      open: at(this.openMinutes),
+      close: at(this.closeMinutes),
+    };
+  }
+
+  /**
+   * Lists the observed holidays in a year.
+   *
+   * @param year - Calendar year
+   * @returns Holidays in date order, excluding regular weekend days
+   */
+  public holidays(year: number): Holiday[] {
+    const days = new Map<number, string>();
+    for (const nominal of [year - 1, year, year + 1]) {
+      for (const [day, name] of this.holidaysOfNominalYear(nominal)) {
+        if (fromDayNumber(day).year === year && !days.has(day)) {
+          days.set(day, name);
+        }
+      }
+    }
+    return [...days]
+      .filter(([day]) => !this.weekend.has(weekdayOf(day)))
+      .sort(([a], [b]) => a - b)
+      .map(([day, name]) => ({ date: formatDayNumber(day), name }));
+  }
+
+  /**
+   * Returns the name of the holiday observed on a date, if any.
+   *
+   * @throws {CalendarError} When a date string is malformed
+   */
+  public holidayOn(date: CalendarDate): string | undefined {
+    return this.holidayName(this.toDay(date));
+  }
+
+  /**
+   * Checks whether the exchange trades on a date.
+   *
+   * @throws {CalendarError} When a date string is malformed
+   */
+  public isTradingDay(date: CalendarDate): boolean {
+    return this.isTradingDayNumber(this.toDay(date));
+  }
+
+  /**
+   * Returns the first trading day after a date.
+   *
+   * @returns Date in `YYYY-MM-DD` format
+   *
+   * @throws {CalendarError} When a date string is malformed
+   */
+  public nextTradingDay(date: CalendarDate): string {
+    return formatDayNumber(this.findTradingDay(this.toDay(date) + 1, 1));
+  }
+
+  /**
+   * Returns the last trading day before a date.
+   *
+   * @returns Date in `YYYY-MM-DD` format
+   *
+   * @throws {CalendarError} When a date string is malformed
+   */
+  public previousTradingDay(date: CalendarDate): string {
+    return formatDayNumber(this.findTradingDay(this.toDay(date) - 1, -1));
+  }
+
+  /**
+   * Returns the session on a date, or null when the exchange is closed.
+   *
+   * @throws {CalendarError} When a date string is malformed
+   */
+  public session(date: CalendarDate): Session | null {
+    const day = this.toDay(date);
+    return this.isTradingDayNumber(day) ? this.sessionOf(day) : null;
+  }
+
+  /**
+   * Returns the first session opening at or after a time.
+   *
+   * @param ts - Unix timestamp in seconds
+   */
+  public nextSession(ts: number): Session {
+    let day = this.findTradingDay(this.toDay(ts), 1);
+    let session = this.sessionOf(day);
+    if (session.open < ts) {
+      day = this.findTradingDay(day + 1, 1);
+      session = this.sessionOf(day);
+    }
+    return session;
+  }
+
+  /**
+   * Returns the last session closing at or before a time.
+   *
+   * @param ts - Unix timestamp in seconds
+   */
+  public previousSession(ts: number): Session {
+    let day = this.findTradingDay(this.toDay(ts), -1);
+    let session = this.sessionOf(day);
+    if (session.close > ts) {
+      day = this.findTradingDay(day - 1, -1);
+      session = this.sessionOf(day);
+    }
+    return session;
+  }
+
+  /**
+   * Checks whether the exchange is in session at a time.
+   *
+   * @param ts - Unix timestamp in seconds
+   */
+  public isOpen(ts: number): boolean {
+    const session = this.session(ts);
+    return session !== null && ts >= session.open && ts < session.close;
+  }
+}
@@ -0,0 +1,366 @@
+// src/calendar/calendar_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import { CalendarError, InvalidTimeZoneError } from "../core/errors.ts";
+import {
+  CRYPTO,
+  easterSunday,
+  getCalendar,
+  LSE,
+  NYSE,
+  TradingCalendar,
+} from "./index.ts";
+import { formatDayNumber } from "./rules.ts";
+
+const dates = (calendar: TradingCalendar, year: number) =>
+  calendar.holidays(year).map((holiday) => holiday.date);
+
+const nyseHolidays: Record<number, string[]> = {
+  2021: [
+    "2021-01-01",
+    "2021-01-18",
+    "2021-02-15",
+    "2021-04-02",
+    "2021-05-31",
+    "2021-07-05",
+    "2021-09-06",
+    "2021-11-25",
+    "2021-12-24",
+  ],
+  2022: [
+    "2022-01-17",
+    "2022-02-21",
+    "2022-04-15",
+    "2022-05-30",
+    "2022-06-20",
+    "2022-07-04",
+    "2022-09-05",
+    "2022-11-24",
+    "2022-12-26",
+  ],
+  2023: [
+    "2023-01-02",
+    "2023-01-16",
+    "2023-02-20",
+    "2023-04-07",
+    "2023-05-29",
+    "2023-06-19",
+    "2023-07-04",
+    "2023-09-04",
+    "2023-11-23",
+    "2023-12-25",
+  ],
+  2024: [
+    "2024-01-01",
+    "2024-01-15",
+    "2024-02-19",
+    "2024-03-29",
+    "2024-05-27",
+    "2024-06-19",
+    "2024-07-04",
+    "2024-09-02",
+    "2024-11-28",
+    "2024-12-25",
+  ],
+  2025: [
+    "2025-01-01",
+    "2025-01-09",
+    "2025-01-20",
+    "2025-02-17",
+    "2025-04-18",
+    "2025-05-26",
+    "2025-06-19",
+    "2025-07-04",
+    "2025-09-01",
+    "2025-11-27",
+    "2025-12-25",
+  ],
+};
+
+const lseHolidays: Record<number, string[]> = {
+  2020: [
+    "2020-01-01",
+    "2020-04-10",
+    "2020-04-13",
+    "2020-05-08",
+    "2020-05-25",
+    "2020-08-31",
+    "2020-12-25",
+    "2020-12-28",
+  ],
+  2021: [
+    "2021-01-01",
+    "2021-04-02",
+    "2021-04-05",
+    "2021-05-03",
+    "2021-05-31",
+    "2021-08-30",
+    "2021-12-27",
+    "2021-12-28",
+  ],
+  2022: [
+    "2022-01-03",
+    "2022-04-15",
+    "2022-04-18",
+    "2022-05-02",
+    "2022-06-02",
+    "2022-06-03",
+    "2022-08-29",
+    "2022-09-19",
+    "2022-12-26",
+    "2022-12-27",
+  ],
+  2023: [
+    "2023-01-02",
+    "2023-04-07",
+    "2023-04-10",
+    "2023-05-01",
+    "2023-05-08",
+    "2023-05-29",
+    "2023-08-28",
+    "2023-12-25",
+    "2023-12-26",
+  ],
+  2024: [
+    "2024-01-01",
+    "2024-03-29",
+    "2024-04-01",
+    "2024-05-06",
+    "2024-05-27",
+    "2024-08-26",
+    "2024-12-25",
+    "2024-12-26",
+  ],
+};
+
+for (const [year, expected] of Object.entries(nyseHolidays)) {
+  Deno.test(`NYSE observes the published holidays in ${year}`, () => {
+    deepStrictEqual(dates(NYSE, +year), expected);
+    for (const date of expected) strictEqual(NYSE.isTradingDay(date), false);
+  });
+}
+
+for (const [year, expected] of Object.entries(lseHolidays)) {
+  Deno.test(`LSE observes the published bank holidays in ${year}`, () => {
+    deepStrictEqual(dates(LSE, +year), expected);
+    for (const date of expected) strictEqual(LSE.isTradingDay(date), false);
+  });
+}
+
+Deno.test("weekend holidays shift to the observed weekday", () => {
+  const cases: [TradingCalendar, string, string | undefined][] = [
+    // Sunday 4 July 2021 is observed on Monday
+    [NYSE, "2021-07-05", "Independence Day"],
+    // Saturday 25 December 2021 is observed on Friday
+    [NYSE, "2021-12-24", "Christmas Day"],
+    // Saturday 1 January 2022 is not observed by the NYSE
+    [NYSE, "2021-12-31", undefined],
+    // Sunday 1 January 2023 is observed on Monday
+    [NYSE, "2023-01-02", "New Year's Day"],
+    // Sunday 19 June 2022 is observed on Monday
+    [NYSE, "2022-06-20", "Juneteenth"],
+    // Saturday 1 January 2022 is observed on Monday in London
+    [LSE, "2022-01-03", "New Year's Day"],
+    // Christmas on Saturday and Boxing Day on Sunday take Monday and Tuesday
+    [LSE, "2021-12-27", "Christmas Day"],
+    [LSE, "2021-12-28", "Boxing Day"],
+  ];
+  for (const [calendar, date, name] of cases) {
+    strictEqual(calendar.holidayOn(date), name, `${calendar.name} ${date}`);
+  }
+});
+
+Deno.test("holidays observed in the previous year are listed under that year", () => {
+  const calendar = new TradingCalendar({
+    name: "TEST",
+    timeZone: "UTC",
+    holidays: [{
+      type: "fixed",
+      name: "New Year's Day",
+      month: 1,
+      day: 1,
+      observance: "nearest-weekday",
+    }],
+  });
+  deepStrictEqual(calendar.holidays(2021), [
+    { date: "2021-01-01", name: "New Year's Day" },
+    { date: "2021-12-31", name: "New Year's Day" },
+  ]);
+  deepStrictEqual(calendar.holidays(2022), []);
+  strictEqual(calendar.nextTradingDay("2021-12-30"), "2022-01-03");
+});
+
+Deno.test("easterSunday matches known Easter dates", () => {
+  const known: [number, string][] = [
+    [1818, "1818-03-22"],
+    [1943, "1943-04-25"],
+    [2000, "2000-04-23"],
+    [2008, "2008-03-23"],
+    [2019, "2019-04-21"],
+    [2024, "2024-03-31"],
+    [2038, "2038-04-25"],
+    [2285, "2285-03-22"],
+  ];
+  for (const [year, date] of known) {
+    strictEqual(formatDayNumber(easterSunday(year)), date);
+  }
+});
+
+Deno.test("Good Friday closes both exchanges and Easter Monday only London", () => {
+  for (const year of [2019, 2020, 2021, 2022, 2023, 2024, 2025]) {
+    const easter = easterSunday(year);
+    const goodFriday = formatDayNumber(easter - 2);
+    const easterMonday = formatDayNumber(easter + 1);
+    strictEqual(NYSE.holidayOn(goodFriday), "Good Friday");
+    strictEqual(LSE.holidayOn(goodFriday), "Good Friday");
+    strictEqual(NYSE.isTradingDay(easterMonday), true);
+    strictEqual(LSE.holidayOn(easterMonday), "Easter Monday");
+  }
+});
+
+Deno.test("rules only apply from the year they were introduced", () => {
+  strictEqual(NYSE.isTradingDay("1997-01-20"), true);
+  strictEqual(NYSE.holidayOn("1998-01-19"), "Martin Luther King Jr. Day");
+  strictEqual(NYSE.isTradingDay("2021-06-18"), true);
+  strictEqual(LSE.isTradingDay("1977-05-02"), true);
+  strictEqual(LSE.holidayOn("1978-05-01"), "Early May bank holiday");
+});
+
+Deno.test("unscheduled closures are holidays", () => {
+  for (const date of ["2001-09-11", "2001-09-14", "2012-10-29", "2018-12-05"]) {
+    strictEqual(NYSE.isTradingDay(date), false, date);
+  }
+  strictEqual(LSE.holidayOn("2011-04-29"), "Royal wedding");
+});
+
+Deno.test("early-close days are full sessions", () => {
+  // 3 July, the day after Thanksgiving and Christmas Eve close at 13:00 in
+  // New York; the calendar keeps the regular hours.
+  for (const date of ["2024-07-03", "2024-11-29", "2024-12-24"]) {
+    const session = NYSE.session(date);
+    const [year, month, day] = date.split("-").map(Number);
+    const offset = month === 7 ? 4 : 5;
+    deepStrictEqual(session, {
+      date,
+      open: Date.UTC(year, month - 1, day, 9 + offset, 30) / 1000,
+      close: Date.UTC(year, month - 1, day, 16 + offset) / 1000,
+    });
+  }
+  strictEqual(
+    LSE.session("2024-12-24")?.close,
+    Date.UTC(2024, 11, 24, 16, 30) / 1000,
+  );
+});
+
+Deno.test("sessions follow daylight saving time", () => {
+  deepStrictEqual(LSE.session("2024-03-29"), null);
+  deepStrictEqual(LSE.session("2024-04-02"), {
+    date: "2024-04-02",
+    open: Date.UTC(2024, 3, 2, 7) / 1000,
+    close: Date.UTC(2024, 3, 2, 15, 30) / 1000,
+  });
+  strictEqual(
+    NYSE.session("2024-03-08")?.open,
+    Date.UTC(2024, 2, 8, 14, 30) / 1000,
+  );
+  strictEqual(
+    NYSE.session("2024-03-11")?.open,
+    Date.UTC(2024, 2, 11, 13, 30) / 1000,
+  );
+});
+
+Deno.test("next and previous trading days skip weekends and holidays", () => {
+  strictEqual(NYSE.nextTradingDay("2024-07-03"), "2024-07-05");
+  strictEqual(NYSE.previousTradingDay("2024-07-05"), "2024-07-03");
+  strictEqual(NYSE.nextTradingDay("2024-03-28"), "2024-04-01");
+  strictEqual(LSE.nextTradingDay("2024-03-28"), "2024-04-02");
+  strictEqual(LSE.previousTradingDay("2024-04-02"), "2024-03-28");
+  strictEqual(NYSE.nextTradingDay("2001-09-10"), "2001-09-17");
+});
+
+Deno.test("nextSession and previousSession work from timestamps", () => {
+  const evening = Date.UTC(2024, 6, 3, 21) / 1000;
+  strictEqual(NYSE.nextSession(evening).date, "2024-07-05");
+  strictEqual(NYSE.previousSession(evening).date, "2024-07-03");
+
+  const session = NYSE.session("2024-07-05")!;
+  strictEqual(NYSE.nextSession(session.open).date, "2024-07-05");
+  strictEqual(NYSE.nextSession(session.open + 1).date, "2024-07-08");
+  strictEqual(NYSE.previousSession(session.close).date, "2024-07-05");
+  strictEqual(NYSE.previousSession(session.close - 1).date, "2024-07-03");
+});
+
+Deno.test("isOpen is true between the open and the close", () => {
+  const session = NYSE.session("2024-07-05")!;
+  strictEqual(NYSE.isOpen(session.open - 1), false);
+  strictEqual(NYSE.isOpen(session.open), true);
+  strictEqual(NYSE.isOpen(session.close - 1), true);
+  strictEqual(NYSE.isOpen(session.close), false);
+  strictEqual(NYSE.isOpen(Date.UTC(2024, 6, 4, 15) / 1000), false);
+});
+
+Deno.test("timestamps are dated in the calendar's time zone", () => {
+  // 2024-07-05 01:00 UTC is still the evening of 4 July in New York
+  const ts = Date.UTC(2024, 6, 5, 1) / 1000;
+  strictEqual(NYSE.holidayOn(ts), "Independence Day");
+  strictEqual(NYSE.isTradingDay(ts), false);
+  strictEqual(CRYPTO.isTradingDay(ts), true);
+});
+
+Deno.test("CRYPTO trades every day around the clock", () => {
+  for (const date of ["2024-12-25", "2024-12-28", "2024-12-29"]) {
+    deepStrictEqual(CRYPTO.session(date), {
+      date,
+      open: Date.parse(date) / 1000,
+      close: Date.parse(date) / 1000 + 86400,
+    });
+  }
+  deepStrictEqual(CRYPTO.holidays(2024), []);
+});
+
+Deno.test("getCalendar looks up built-in calendars case-insensitively", () => {
+  strictEqual(getCalendar("nyse"), NYSE);
+  strictEqual(getCalendar("Lse"), LSE);
+  strictEqual(getCalendar("CRYPTO"), CRYPTO);
+  throws(() => getCalendar("XETRA"), CalendarError);
+});
+
+Deno.test("invalid dates and definitions throw", () => {
+  throws(() => NYSE.isTradingDay("2024-02-30"), CalendarError);
+  throws(() => NYSE.isTradingDay("24-01-01"), CalendarError);
+  const base = { name: "TEST", timeZone: "UTC", holidays: [] };
+  throws(
+    () => new TradingCalendar({ ...base, timeZone: "Mars/Base" }),
+    InvalidTimeZoneError,
+  );
+  throws(() => new TradingCalendar({ ...base, open: "9:30" }), CalendarError);
+  throws(
+    () => new TradingCalendar({ ...base, open: "16:00", close: "09:30" }),
+    CalendarError,
+  );
+  throws(
+    () => new TradingCalendar({ ...base, weekend: [0, 1, 2, 3, 4, 5, 6] }),
+    CalendarError,
+  );
+  throws(
+    () =>
+      new TradingCalendar({
+        ...base,
+        holidays: [{
+          type: "nth-weekday",
+          name: "Bad",
+          month: 5,
+          weekday: 1,
+          nth: 0,
+        }],
+      }),
+    CalendarError,
+  );
+  throws(
+    () =>
+      new TradingCalendar({
+        ...base,
+        holidays: [{ type: "fixed", name: "Bad", month: 13, day: 1 }],
+      }),
+    CalendarError,
+  );
+});
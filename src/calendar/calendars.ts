@@ -0,0 +1,217 @@
+// src/calendar/calendars.ts
+import { CalendarError } from "../core/errors.ts";
+import { TradingCalendar } from "./calendar.ts";
+
+/**
+ * New York Stock Exchange regular sessions, 09:30-16:00 America/New_York.
+ *
+ * Holidays follow the rules in force since 1971 plus unscheduled closures
+ * since 2001. Early closes are treated as full sessions.
+ */
+export const NYSE: TradingCalendar = new TradingCalendar({
+  name: "NYSE",
+  timeZone: "America/New_York",
+  open: "09:30",
+  close: "16:00",
+  holidays: [
+    {
+      type: "fixed",
+      name: "New Year's Day",
+      month: 1,
+      day: 1,
+      observance: "sunday-to-monday",
+    },
+    {
+      type: "nth-weekday",
+      name: "Martin Luther King Jr. Day",
+      month: 1,
+      weekday: 1,
+      nth: 3,
+      from: 1998,
+    },
+    {
+      type: "nth-weekday",
+      name: "Washington's Birthday",
+      month: 2,
+      weekday: 1,
+      nth: 3,
+    },
+    { type: "easter", name: "Good Friday", offset: -2 },
+    {
+      type: "nth-weekday",
+      name: "Memorial Day",
+      month: 5,
+      weekday: 1,
+      nth: -1,
+    },
+    {
+      type: "fixed",
+      name: "Juneteenth",
+      month: 6,
+      day: 19,
+      from: 2022,
+      observance: "nearest-weekday",
+    },
+    {
+      type: "fixed",
+      name: "Independence Day",
+      month: 7,
+      day: 4,
+      observance: "nearest-weekday",
+    },
+    { type: "nth-weekday", name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+    {
+      type: "nth-weekday",
+      name: "Thanksgiving Day",
+      month: 11,
+      weekday: 4,
+      nth: 4,
+    },
+    {
+      type: "fixed",
+      name: "Christmas Day",
+      month: 12,
+      day: 25,
+      observance: "nearest-weekday",
+    },
+    { type: "date", name: "September 11 attacks", date: "2001-09-11" },
+    { type: "date", name: "September 11 attacks", date: "2001-09-12" },
+    { type: "date", name: "September 11 attacks", date: "2001-09-13" },
+    { type: "date", name: "September 11 attacks", date: "2001-09-14" },
+    {
+      type: "date",
+      name: "Reagan national day of mourning",
+      date: "2004-06-11",
+    },
+    { type: "date", name: "Ford national day of mourning", date: "2007-01-02" },
+    { type: "date", name: "Hurricane Sandy", date: "2012-10-29" },
+    { type: "date", name: "Hurricane Sandy", date: "2012-10-30" },
+    { type: "date", name: "Bush national day of mourning", date: "2018-12-05" },
+    {
+      type: "date",
+      name: "Carter national day of mourning",
+      date: "2025-01-09",
+    },
+  ],
+});
+
+/**
+ * London Stock Exchange regular sessions, 08:00-16:30 Europe/London.
+ *
+ * Holidays are the England and Wales bank holidays since 1978, including
+ * moved and additional bank holidays. Early closes are treated as full
+ * sessions.
+ */
+export const LSE: TradingCalendar = new TradingCalendar({
+  name: "LSE",
+  timeZone: "Europe/London",
+  open: "08:00",
+  close: "16:30",
+  holidays: [
+    {
+      type: "fixed",
+      name: "New Year's Day",
+      month: 1,
+      day: 1,
+      observance: "next-weekday",
+    },
+    { type: "easter", name: "Good Friday", offset: -2 },
+    { type: "easter", name: "Easter Monday", offset: 1 },
+    {
+      type: "nth-weekday",
+      name: "Early May bank holiday",
+      month: 5,
+      weekday: 1,
+      nth: 1,
+      from: 1978,
+      except: [1995, 2020],
+    },
+    {
+      type: "nth-weekday",
+      name: "Spring bank holiday",
+      month: 5,
+      weekday: 1,
+      nth: -1,
+      except: [2002, 2012, 2022],
+    },
+    {
+      type: "nth-weekday",
+      name: "Summer bank holiday",
+      month: 8,
+      weekday: 1,
+      nth: -1,
+    },
+    {
+      type: "fixed",
+      name: "Christmas Day",
+      month: 12,
+      day: 25,
+      observance: "next-weekday",
+    },
+    {
+      type: "fixed",
+      name: "Boxing Day",
+      month: 12,
+      day: 26,
+      observance: "next-weekday",
+    },
+    { type: "date", name: "VE Day 50th anniversary", date: "1995-05-08" },
+    { type: "date", name: "Millennium celebrations", date: "1999-12-31" },
+    { type: "date", name: "Spring bank holiday", date: "2002-06-04" },
+    { type: "date", name: "Golden Jubilee", date: "2002-06-03" },
+    { type: "date", name: "Royal wedding", date: "2011-04-29" },
+    { type: "date", name: "Spring bank holiday", date: "2012-06-04" },
+    { type: "date", name: "Diamond Jubilee", date: "2012-06-05" },
+    { type: "date", name: "VE Day 75th anniversary", date: "2020-05-08" },
+    { type: "date", name: "Spring bank holiday", date: "2022-06-02" },
+    { type: "date", name: "Platinum Jubilee", date: "2022-06-03" },
+    {
+      type: "date",
+      name: "State funeral of Queen Elizabeth II",
+      date: "2022-09-19",
+    },
+    {
+      type: "date",
+      name: "Coronation of King Charles III",
+      date: "2023-05-08",
+    },
+  ],
+});
+
+/**
+ * Round-the-clock crypto trading: every day is a session, 00:00-24:00 UTC.
+ */
+export const CRYPTO: TradingCalendar = new TradingCalendar({
+  name: "CRYPTO",
+  timeZone: "UTC",
+  weekend: [],
+  holidays: [],
+});
+
+const CALENDARS: Record<string, TradingCalendar> = { NYSE, LSE, CRYPTO };
+
+/**
+ * Looks up a built-in calendar by name.
+ *
+ * @param name - `"NYSE"`, `"LSE"` or `"CRYPTO"`, case-insensitive
+ * @returns The calendar
+ *
+ * @throws {CalendarError} When no built-in calendar has that name
+ *
+ * @example
+ * ```typescript
+ * const calendar = getCalendar("nyse");
+ * calendar.isTradingDay("2024-12-25"); // false
+ * ```
+ */
+export function getCalendar(name: string): TradingCalendar {
+  const calendar = CALENDARS[name.toUpperCase()];
+  if (!calendar) {
+    throw new CalendarError(
+      `Unknown calendar: "${name}". Expected one of ${
+        Object.keys(CALENDARS).join(", ")
+      }.`,
+    );
+  }
+  return calendar;
+}
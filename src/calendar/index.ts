@@ -0,0 +1,16 @@
+// src/calendar/index.ts
+export { TradingCalendar } from "./calendar.ts";
+export { CRYPTO, getCalendar, LSE, NYSE } from "./calendars.ts";
+export { easterSunday } from "./rules.ts";
+
+export type { CalendarDate, CalendarDefinition, Session } from "./calendar.ts";
+export type {
+  EasterHolidayRule,
+  FixedDateHolidayRule,
+  Holiday,
+  HolidayRule,
+  NthWeekdayHolidayRule,
+  Observance,
+  RecurringHolidayRule,
+  SpecialClosureRule,
+} from "./rules.ts";
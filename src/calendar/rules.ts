@@ -0,0 +1,301 @@
+// src/calendar/rules.ts
+import { CalendarError } from "../core/errors.ts";
+
+/**
+ * How a holiday that falls on a weekend is observed.
+ *
+ * - `"none"`: not moved
+ * - `"nearest-weekday"`: Saturday moves to Friday, Sunday to Monday (US style)
+ * - `"next-weekday"`: moves to the following weekday (UK style)
+ * - `"sunday-to-monday"`: Sunday moves to Monday, Saturday is not observed
+ *
+ * When the observed day is already taken by another holiday, it moves on to
+ * the next free weekday, so UK Christmas and Boxing Day on a weekend become
+ * the following Monday and Tuesday.
+ */
+export type Observance =
+  | "none"
+  | "nearest-weekday"
+  | "next-weekday"
+  | "sunday-to-monday";
+
+/**
+ * Fields shared by recurring holiday rules.
+ */
+export interface RecurringHolidayRule {
+  /** Display name, e.g. `"Good Friday"` */
+  name: string;
+  /** First year the rule applies */
+  from?: number;
+  /** Last year the rule applies */
+  to?: number;
+  /** Years in which the rule does not apply */
+  except?: readonly number[];
+  /** How a weekend occurrence is observed. Defaults to `"none"` */
+  observance?: Observance;
+}
+
+/**
+ * A holiday on the same date every year, e.g. 25 December.
+ */
+export interface FixedDateHolidayRule extends RecurringHolidayRule {
+  type: "fixed";
+  /** Month of the year, 1-12 */
+  month: number;
+  /** Day of the month, 1-31 */
+  day: number;
+}
+
+/**
+ * A holiday on the nth weekday of a month, e.g. the fourth Thursday of
+ * November.
+ */
+export interface NthWeekdayHolidayRule extends RecurringHolidayRule {
+  type: "nth-weekday";
+  /** Month of the year, 1-12 */
+  month: number;
+  /** Day of the week, Sunday = 0 */
+  weekday: number;
+  /** 1 for the first occurrence, -1 for the last */
+  nth: number;
+}
+
+/**
+ * A holiday a fixed number of days from Western Easter Sunday, e.g. Good
+ * Friday (-2) or Easter Monday (+1).
+ */
+export interface EasterHolidayRule extends RecurringHolidayRule {
+  type: "easter";
+  /** Days after Easter Sunday, negative for days before */
+  offset: number;
+}
+
+/**
+ * A one-off closure on a specific date, e.g. a state funeral.
+ */
+export interface SpecialClosureRule {
+  type: "date";
+  name: string;
+  /** Date in `YYYY-MM-DD` format */
+  date: string;
+}
+
+/**
+ * A rule producing non-trading days.
+ */
+export type HolidayRule =
+  | FixedDateHolidayRule
+  | NthWeekdayHolidayRule
+  | EasterHolidayRule
+  | SpecialClosureRule;
+
+/**
+ * A holiday on a specific date.
+ */
+export interface Holiday {
+  /** Observed date in `YYYY-MM-DD` format */
+  date: string;
+  name: string;
+}
+
+const DAY_MILLIS = 86_400_000;
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Returns the number of days since 1970-01-01 of a calendar date.
+ */
+export function toDayNumber(year: number, month: number, day: number): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return Math.round(date.getTime() / DAY_MILLIS);
+}
+
+/**
+ * Returns the calendar date of a day number.
+ */
+export function fromDayNumber(
+  dayNumber: number,
+): { year: number; month: number; day: number } {
+  const date = new Date(dayNumber * DAY_MILLIS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+/**
+ * Returns the day of the week of a day number, Sunday = 0.
+ */
+export function weekdayOf(dayNumber: number): number {
+  // 1970-01-01 was a Thursday (weekday 4).
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+/**
+ * Parses a `YYYY-MM-DD` date string to a day number.
+ *
+ * @throws {CalendarError} When the date is malformed
+ */
+export function parseDayNumber(date: string): number {
+  const match = date.match(DATE_REGEX);
+  if (match) {
+    const dayNumber = toDayNumber(+match[1], +match[2], +match[3]);
+    const parts = fromDayNumber(dayNumber);
+    if (parts.month === +match[2] && parts.day === +match[3]) {
+      return dayNumber;
+    }
+  }
+  throw new CalendarError(`Invalid date: "${date}". Expected YYYY-MM-DD.`);
+}
+
+/**
+ * Formats a day number as a `YYYY-MM-DD` date string.
+ */
+export function formatDayNumber(dayNumber: number): string {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${
+    String(day).padStart(2, "0")
+  }`;
+}
+
+/**
+ * Returns the day number of Western Easter Sunday in a year, using the
+ * anonymous Gregorian algorithm.
+ */
+export function easterSunday(year: number): number {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDayNumber(year, month, day);
+}
+
+function nthWeekday(
+  year: number,
+  month: number,
+  weekday: number,
+  nth: number,
+): number | null {
+  if (nth > 0) {
+    const first = toDayNumber(year, month, 1);
+    const day = first + ((weekday - weekdayOf(first) + 7) % 7) + 7 * (nth - 1);
+    return fromDayNumber(day).month === month ? day : null;
+  }
+  const last = toDayNumber(year, month + 1, 0);
+  const day = last - ((weekdayOf(last) - weekday + 7) % 7) + 7 * (nth + 1);
+  return fromDayNumber(day).month === month ? day : null;
+}
+
+function ruleAppliesIn(rule: RecurringHolidayRule, year: number): boolean {
+  return (rule.from === undefined || year >= rule.from) &&
+    (rule.to === undefined || year <= rule.to) &&
+    !rule.except?.includes(year);
+}
+
+/**
+ * Checks a holiday rule for out-of-range fields.
+ *
+ * @throws {CalendarError} When the rule is invalid
+ */
+export function assertValidHolidayRule(rule: HolidayRule): void {
+  const invalid = (reason: string) =>
+    new CalendarError(`Invalid holiday rule "${rule.name}": ${reason}`);
+  switch (rule.type) {
+    case "date":
+      parseDayNumber(rule.date);
+      return;
+    case "fixed":
+      if (!Number.isInteger(rule.day) || rule.day < 1 || rule.day > 31) {
+        throw invalid(`day ${rule.day} is not 1-31`);
+      }
+      break;
+    case "nth-weekday":
+      if (
+        !Number.isInteger(rule.weekday) || rule.weekday < 0 || rule.weekday > 6
+      ) {
+        throw invalid(`weekday ${rule.weekday} is not 0-6`);
+      }
+      if (
+        !Number.isInteger(rule.nth) || rule.nth === 0 || Math.abs(rule.nth) > 5
+      ) {
+        throw invalid(`nth ${rule.nth} is not 1-5 or -1 to -5`);
+      }
+      break;
+    case "easter":
+      if (!Number.isInteger(rule.offset)) {
+        throw invalid(`offset ${rule.offset} is not an integer`);
+      }
+      return;
+    default:
+      throw new CalendarError(
+        `Unknown holiday rule type: ${(rule as { type: unknown }).type}`,
+      );
+  }
+  if (!Number.isInteger(rule.month) || rule.month < 1 || rule.month > 12) {
+    throw invalid(`month ${rule.month} is not 1-12`);
+  }
+}
+
+/**
+ * Computes the observed holidays produced by a set of rules for one year.
+ *
+ * Holidays observed in a neighbouring year, e.g. a Saturday 1 January
+ * observed on the previous Friday, are included under their nominal year.
+ *
+ * @param rules - Holiday rules, earlier rules taking precedence on collisions
+ * @param year - Nominal year
+ * @param weekend - Weekdays with no trading, Sunday = 0
+ * @returns Holiday names keyed by observed day number
+ */
+export function resolveHolidays(
+  rules: readonly HolidayRule[],
+  year: number,
+  weekend: ReadonlySet<number>,
+): Map<number, string> {
+  const holidays = new Map<number, string>();
+  const isFree = (day: number) =>
+    !weekend.has(weekdayOf(day)) && !holidays.has(day);
+
+  for (const rule of rules) {
+    let day: number | null;
+    if (rule.type === "date") {
+      day = parseDayNumber(rule.date);
+      if (fromDayNumber(day).year === year) holidays.set(day, rule.name);
+      continue;
+    }
+    if (!ruleAppliesIn(rule, year)) continue;
+    if (rule.type === "fixed") {
+      day = toDayNumber(year, rule.month, rule.day);
+    } else if (rule.type === "nth-weekday") {
+      day = nthWeekday(year, rule.month, rule.weekday, rule.nth);
+    } else {
+      day = easterSunday(year) + rule.offset;
+    }
+    if (day === null) continue;
+
+    const observance = rule.observance ?? "none";
+    if (observance !== "none") {
+      const weekday = weekdayOf(day);
+      if (weekday === 6) {
+        if (observance === "nearest-weekday") day -= 1;
+        else if (observance === "sunday-to-monday") continue;
+      } else if (weekday === 0 && observance === "nearest-weekday") {
+        day += 1;
+      }
+      while (!isFree(day)) day++;
+    }
+    if (!holidays.has(day)) holidays.set(day, rule.name);
+  }
+  return holidays;
+}
@@ -0,0 +1,62 @@
+// src/compression/_inflate.ts
+import { CompressionError } from "../core/errors.ts";
+
+/**
+ * Decompresses a byte stream with `DecompressionStream`. Corrupt data errors
+ * the result with a `CompressionError`; errors of the source stream are
+ * passed on unchanged.
+ */
+export function inflate(
+  stream: ReadableStream<Uint8Array>,
+  format: CompressionFormat,
+): ReadableStream<Uint8Array> {
+  const source = stream.getReader();
+  let sourceFailed = false;
+  const input = new ReadableStream<BufferSource>({
+    async pull(controller) {
+      try {
+        const { done, value } = await source.read();
+        if (done) controller.close();
+        else controller.enqueue(toBufferSource(value));
+      } catch (e) {
+        sourceFailed = true;
+        throw e;
+      }
+    },
+    cancel(reason) {
+      return source.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+
+  const output = input.pipeThrough(new DecompressionStream(format))
+    .getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await output.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (e) {
+        if (sourceFailed || e instanceof CompressionError) throw e;
+        throw new CompressionError(
+          `Invalid ${format} data: ${e instanceof Error ? e.message : e}`,
+        );
+      }
+    },
+    cancel(reason) {
+      return output.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+}
+
+/**
+ * Re-wraps a chunk as the `BufferSource` that `DecompressionStream` accepts.
+ * Views of an `ArrayBuffer` share its memory; views of a `SharedArrayBuffer`
+ * are copied.
+ */
+function toBufferSource(chunk: Uint8Array): BufferSource {
+  const { buffer, byteOffset, byteLength } = chunk;
+  return buffer instanceof ArrayBuffer
+    ? new Uint8Array(buffer, byteOffset, byteLength)
+    : chunk.slice();
+}
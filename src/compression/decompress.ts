@@ -0,0 +1,171 @@
+// src/compression/decompress.ts
+import { inflate } from "./_inflate.ts";
+import { ZipArchive } from "./zip.ts";
+
+/**
+ * Compressed formats recognised by {@link detectCompression}.
+ */
+export type CompressionFormat = "gzip" | "deflate" | "zip";
+
+/**
+ * Options for {@link decompressStream}.
+ */
+export interface DecompressOptions {
+  /**
+   * Entry to read from a zip archive. Defaults to the first entry whose name
+   * ends in `.csv`
+   */
+  zipEntry?: string;
+}
+
+/** Bytes needed to recognise every format. */
+const MAGIC_LENGTH = 4;
+
+/**
+ * Second bytes of a zlib header with the usual 32 KiB window, one per
+ * compression level. Other windows are not detected, so that text starting
+ * with characters such as `H,` is not mistaken for zlib data.
+ */
+const ZLIB_LEVEL_BYTES = new Set([0x01, 0x5e, 0x9c, 0xda]);
+
+/**
+ * Identifies compressed data from its first bytes.
+ *
+ * @param bytes - The start of the data; four bytes are enough
+ * @returns `"gzip"`, `"deflate"` for zlib-wrapped deflate, `"zip"` for a zip
+ * archive, or undefined for anything else
+ *
+ * @example
+ * ```typescript
+ * const head = await Deno.readFile("btc.csv.gz");
+ * detectCompression(head); // "gzip"
+ * ```
+ */
+export function detectCompression(
+  bytes: Uint8Array,
+): CompressionFormat | undefined {
+  if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return "gzip";
+  }
+  if (
+    bytes.length >= 2 && bytes[0] === 0x78 && ZLIB_LEVEL_BYTES.has(bytes[1])
+  ) {
+    return "deflate";
+  }
+  if (
+    bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b &&
+    bytes[2] === 0x03 && bytes[3] === 0x04
+  ) {
+    return "zip";
+  }
+  return undefined;
+}
+
+/**
+ * Reads the first chunks of a stream until they hold `length` bytes, and
+ * returns them with a stream that replays them before the rest.
+ */
+async function peek(
+  stream: ReadableStream<Uint8Array>,
+  length: number,
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let done = false;
+  while (size < length) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    chunks.push(result.value);
+    size += result.value.length;
+  }
+  const head = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    head.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return {
+    head,
+    stream: new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (head.length > 0) controller.enqueue(head);
+        if (done) controller.close();
+      },
+      async pull(controller) {
+        const result = await reader.read();
+        if (result.done) controller.close();
+        else controller.enqueue(result.value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }, { highWaterMark: 0 }),
+  };
+}
+
+/**
+ * Decompresses a stream if it holds gzip, zlib-wrapped deflate or a zip
+ * archive, detected from its first bytes, and passes it through unchanged
+ * otherwise.
+ *
+ * Gzip and deflate are decompressed as the stream is read, with
+ * `DecompressionStream`. A zip archive keeps its directory at the end, so it
+ * is read into memory first and one entry is streamed from it; use
+ * {@link ZipArchive} to read archive files without loading them whole.
+ *
+ * @param stream - Possibly compressed bytes
+ * @param options - Zip entry to read
+ * @returns A stream of the uncompressed bytes
+ *
+ * @throws {CompressionError} Errors the stream when the data is corrupt, or
+ * a zip archive is invalid or lacks the entry
+ *
+ * @example
+ * ```typescript
+ * import { decompressStream, parse } from "@mso/ohlcv";
+ *
+ * const file = await Deno.open("btc.csv.gz");
+ * const rows = await parse(decompressStream(file.readable));
+ * ```
+ */
+export function decompressStream(
+  stream: ReadableStream<Uint8Array>,
+  options: DecompressOptions = {},
+): ReadableStream<Uint8Array> {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+  const open = async (): Promise<ReadableStream<Uint8Array>> => {
+    const peeked = await peek(stream, MAGIC_LENGTH);
+    switch (detectCompression(peeked.head)) {
+      case "gzip":
+        return inflate(peeked.stream, "gzip");
+      case "deflate":
+        return inflate(peeked.stream, "deflate");
+      case "zip": {
+        const bytes = new Uint8Array(
+          await new Response(peeked.stream).arrayBuffer(),
+        );
+        return (await ZipArchive.fromBytes(bytes)).stream(options.zipEntry);
+      }
+      default:
+        return peeked.stream;
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      reader ??= (await open()).getReader();
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel(reason) {
+      if (reader) await reader.cancel(reason);
+      else if (!stream.locked) await stream.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+}
@@ -0,0 +1,227 @@
+// src/compression/decompress_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import { CompressionError } from "../core/errors.ts";
+import { parse } from "../parser/parse.ts";
+import { FileProvider } from "../provider/provider.ts";
+import { decompressStream, detectCompression } from "./decompress.ts";
+import { ZipArchive } from "./zip.ts";
+
+const csv = "Date,Open,High,Low,Close,Volume\n" +
+  Array.from(
+    { length: 200 },
+    (_, i) =>
+      `2023-01-01 ${String(Math.floor(i / 60)).padStart(2, "0")}:${
+        String(i % 60).padStart(2, "0")
+      }:00,1,2,0.5,1.5,${i}\n`,
+  ).join("");
+const bytes = new TextEncoder().encode(csv);
+
+async function compress(
+  data: Uint8Array,
+  format: "gzip" | "deflate" | "deflate-raw",
+): Promise<Uint8Array> {
+  const stream = new CompressionStream(format);
+  const writer = stream.writable.getWriter();
+  writer.write(data.slice());
+  writer.close();
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = ~0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * Builds a zip archive holding the given files, deflating those marked so.
+ */
+async function zip(
+  files: { name: string; data: Uint8Array; deflate?: boolean }[],
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const stored = file.deflate
+      ? await compress(file.data, "deflate-raw")
+      : file.data;
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, file.deflate ? 8 : 0, true);
+      view.setUint32(at + 6, crc32(file.data), true);
+      view.setUint32(at + 10, stored.length, true);
+      view.setUint32(at + 14, file.data.length, true);
+      view.setUint16(at + 18, name.length, true);
+    };
+    const local = new Uint8Array(30 + name.length + stored.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    fields(localView, 8);
+    local.set(name, 30);
+    local.set(stored, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    fields(centralView, 10);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const directorySize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+  const archive = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
+
+/** Splits bytes into small chunks, as a network stream would deliver them. */
+function chunked(data: Uint8Array, size = 3): ReadableStream<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    chunks.push(data.subarray(i, i + size));
+  }
+  return ReadableStream.from(chunks);
+}
+
+async function text(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return await new Response(stream).text();
+}
+
+Deno.test("detectCompression recognises gzip, zlib and zip headers but not CSV", async () => {
+  strictEqual(detectCompression(await compress(bytes, "gzip")), "gzip");
+  strictEqual(detectCompression(await compress(bytes, "deflate")), "deflate");
+  strictEqual(
+    detectCompression(await zip([{ name: "a.csv", data: bytes }])),
+    "zip",
+  );
+  strictEqual(detectCompression(bytes), undefined);
+  for (const line of ["H,1\n", "x,1\n", "PK,1\n"]) {
+    strictEqual(detectCompression(new TextEncoder().encode(line)), undefined);
+  }
+  strictEqual(detectCompression(new Uint8Array([0x1f])), undefined);
+});
+
+Deno.test("decompressStream decompresses gzip and deflate split into small chunks", async () => {
+  strictEqual(await text(decompressStream(chunked(bytes))), csv);
+  strictEqual(
+    await text(decompressStream(chunked(await compress(bytes, "gzip")))),
+    csv,
+  );
+  strictEqual(
+    await text(decompressStream(chunked(await compress(bytes, "deflate")))),
+    csv,
+  );
+  strictEqual(
+    await text(decompressStream(ReadableStream.from<Uint8Array>([]))),
+    "",
+  );
+});
+
+Deno.test("decompressStream errors with CompressionError on corrupt data", async () => {
+  const gzip = await compress(bytes, "gzip");
+  const corrupt = gzip.slice();
+  corrupt.fill(0xff, 10, 40);
+  await rejects(text(decompressStream(chunked(corrupt))), CompressionError);
+  await rejects(
+    text(decompressStream(ReadableStream.from([gzip.subarray(0, 30)]))),
+    CompressionError,
+  );
+});
+
+Deno.test("decompressStream reads the first .csv entry of a zip or the one named", async () => {
+  const other = new TextEncoder().encode("Date,Open,High,Low,Close,Volume\n");
+  const archive = await zip([
+    { name: "readme.txt", data: new TextEncoder().encode("hello") },
+    { name: "data/BTC.CSV", data: bytes, deflate: true },
+    { name: "eth.csv", data: other },
+  ]);
+  strictEqual(await text(decompressStream(chunked(archive, 64))), csv);
+  strictEqual(
+    await text(decompressStream(chunked(archive), { zipEntry: "eth.csv" })),
+    "Date,Open,High,Low,Close,Volume\n",
+  );
+  await rejects(
+    text(decompressStream(chunked(archive), { zipEntry: "missing.csv" })),
+    CompressionError,
+  );
+});
+
+Deno.test("ZipArchive lists entries and streams stored and deflated files", async () => {
+  const archive = await ZipArchive.fromBytes(
+    await zip([
+      { name: "data/", data: new Uint8Array() },
+      { name: "stored.csv", data: bytes },
+      { name: "deflated.csv", data: bytes, deflate: true },
+    ]),
+  );
+  const deflatedSize = (await compress(bytes, "deflate-raw")).length;
+  deepStrictEqual(archive.entries, [
+    { name: "stored.csv", size: bytes.length, compressedSize: bytes.length },
+    { name: "deflated.csv", size: bytes.length, compressedSize: deflatedSize },
+  ]);
+  strictEqual(await text(archive.stream()), csv);
+  strictEqual(await text(archive.stream("deflated.csv")), csv);
+  throws(() => archive.stream("data/"), CompressionError);
+  archive.close();
+
+  await rejects(ZipArchive.fromBytes(bytes), CompressionError);
+});
+
+Deno.test("parse and FileProvider read compressed files", async () => {
+  const expected = await parse(csv);
+  const gzip = await compress(bytes, "gzip");
+  const archive = await zip([{ name: "a.csv", data: bytes, deflate: true }]);
+  deepStrictEqual(await parse(gzip), expected);
+  deepStrictEqual(await parse(archive), expected);
+  deepStrictEqual(await parse(chunked(archive, 100)), expected);
+
+  const directory = await Deno.makeTempDir();
+  try {
+    await Deno.writeFile(`${directory}/a.csv.gz`, gzip);
+    await Deno.writeFile(`${directory}/a.zip`, archive);
+    const gzipFile = new FileProvider({
+      id: "gz",
+      path: `${directory}/a.csv.gz`,
+    });
+    strictEqual(await gzipFile.fetchText(), csv);
+    deepStrictEqual(
+      await gzipFile.fetchText({ decompress: false }),
+      new TextDecoder().decode(gzip),
+    );
+    strictEqual(
+      await new FileProvider({ id: "zip", path: `${directory}/a.zip` })
+        .fetchText(),
+      csv,
+    );
+    strictEqual(
+      await text(await ZipArchive.openEntry(`${directory}/a.zip`)),
+      csv,
+    );
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,6 @@
+// src/compression/index.ts
+export { decompressStream, detectCompression } from "./decompress.ts";
+export { ZipArchive } from "./zip.ts";
+
+export type { CompressionFormat, DecompressOptions } from "./decompress.ts";
+export type { ZipEntry } from "./zip.ts";
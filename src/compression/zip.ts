@@ -0,0 +1,401 @@
+// src/compression/zip.ts
+import { CompressionError } from "../core/errors.ts";
+import {
+  BlobSource,
+  type ByteSource,
+  BytesSource,
+  openFileSource,
+} from "../core/_byte_source.ts";
+import { inflate } from "./_inflate.ts";
+
+/**
+ * A file in a zip archive.
+ */
+export interface ZipEntry {
+  /** Path of the file within the archive */
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  /** Compressed size in bytes */
+  compressedSize: number;
+}
+
+/**
+ * Where an entry's data is found and how it is stored.
+ */
+interface EntryLocation extends ZipEntry {
+  method: number;
+  flags: number;
+  localHeaderOffset: number;
+}
+
+const END_SIGNATURE = 0x06054b50;
+const END_SIZE = 22;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+const ZIP64_EXTRA_ID = 0x0001;
+const MAX_COMMENT_LENGTH = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+/** Bytes read per chunk when streaming an entry. */
+const CHUNK_SIZE = 64 * 1024;
+
+function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return Number(view.getBigUint64(offset, true));
+}
+
+/**
+ * Finds the central directory from the end of the archive, following the
+ * ZIP64 locator when the sizes do not fit the classic record.
+ */
+async function locateDirectory(
+  source: ByteSource,
+): Promise<{ offset: number; size: number; count: number }> {
+  const tailLength = Math.min(source.size, END_SIZE + MAX_COMMENT_LENGTH);
+  const tailStart = source.size - tailLength;
+  const tail = await source.read(tailStart, tailLength);
+  const view = viewOf(tail);
+  let end = -1;
+  for (let i = tail.length - END_SIZE; i >= 0; i--) {
+    if (view.getUint32(i, true) === END_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new CompressionError(
+      "Not a zip archive: end of central directory not found",
+    );
+  }
+
+  let count = view.getUint16(end + 10, true);
+  let size = view.getUint32(end + 12, true);
+  let offset = view.getUint32(end + 16, true);
+  const locator = end - 20;
+  if (
+    (count === 0xffff || size === 0xffff_ffff || offset === 0xffff_ffff) &&
+    locator >= 0 && view.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE
+  ) {
+    const recordOffset = readUint64(view, locator + 8);
+    const record = viewOf(await source.read(recordOffset, 56));
+    if (
+      record.byteLength < 56 ||
+      record.getUint32(0, true) !== ZIP64_END_SIGNATURE
+    ) {
+      throw new CompressionError("Invalid ZIP64 end of central directory");
+    }
+    count = readUint64(record, 32);
+    size = readUint64(record, 40);
+    offset = readUint64(record, 48);
+  }
+  if (offset + size > source.size) {
+    throw new CompressionError(
+      "Truncated zip archive: central directory extends past the end",
+    );
+  }
+  return { offset, size, count };
+}
+
+function parseDirectory(directory: Uint8Array, count: number): EntryLocation[] {
+  const view = viewOf(directory);
+  const decoder = new TextDecoder();
+  const entries: EntryLocation[] = [];
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (
+      position + 46 > directory.length ||
+      view.getUint32(position, true) !== CENTRAL_SIGNATURE
+    ) {
+      throw new CompressionError(
+        `Invalid zip central directory entry ${i} at byte ${position}`,
+      );
+    }
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const nameStart = position + 46;
+    const entry: EntryLocation = {
+      name: decoder.decode(
+        directory.subarray(nameStart, nameStart + nameLength),
+      ),
+      size: view.getUint32(position + 24, true),
+      compressedSize: view.getUint32(position + 20, true),
+      method: view.getUint16(position + 10, true),
+      flags: view.getUint16(position + 8, true),
+      localHeaderOffset: view.getUint32(position + 42, true),
+    };
+    readZip64Extra(
+      view,
+      nameStart + nameLength,
+      nameStart + nameLength + extraLength,
+      entry,
+    );
+    entries.push(entry);
+    position = nameStart + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Replaces saturated sizes and offsets with their ZIP64 values.
+ */
+function readZip64Extra(
+  view: DataView,
+  start: number,
+  end: number,
+  entry: EntryLocation,
+): void {
+  let position = start;
+  while (position + 4 <= end) {
+    const id = view.getUint16(position, true);
+    const length = view.getUint16(position + 2, true);
+    if (id === ZIP64_EXTRA_ID) {
+      let field = position + 4;
+      const next = () => {
+        const value = readUint64(view, field);
+        field += 8;
+        return value;
+      };
+      if (entry.size === 0xffff_ffff) entry.size = next();
+      if (entry.compressedSize === 0xffff_ffff) entry.compressedSize = next();
+      if (entry.localHeaderOffset === 0xffff_ffff) {
+        entry.localHeaderOffset = next();
+      }
+      return;
+    }
+    position += 4 + length;
+  }
+}
+
+/**
+ * Reads zip archives, streaming single entries into the parsers.
+ *
+ * Only the central directory is read up front; entry data is read in 64 KiB
+ * chunks as its stream is consumed. Stored and deflated entries are
+ * supported, including ZIP64 archives over 4 GiB, but not encryption or
+ * multi-disk archives.
+ *
+ * @example
+ * ```typescript
+ * import { parse, ZipArchive } from "@mso/ohlcv";
+ *
+ * const archive = await ZipArchive.open("vendor-2024.zip");
+ * console.log(archive.entries.map((entry) => entry.name));
+ *
+ * const rows = await parse(archive.stream("minute/btc.csv"));
+ * archive.close();
+ * ```
+ */
+export class ZipArchive {
+  private source: ByteSource;
+  private locations: EntryLocation[];
+
+  private constructor(source: ByteSource, locations: EntryLocation[]) {
+    this.source = source;
+    this.locations = locations;
+  }
+
+  private static async fromSource(source: ByteSource): Promise<ZipArchive> {
+    try {
+      const { offset, size, count } = await locateDirectory(source);
+      const directory = await source.read(offset, size);
+      return new ZipArchive(source, parseDirectory(directory, count));
+    } catch (e) {
+      source.close();
+      throw e;
+    }
+  }
+
+  /**
+   * Reads an archive held in memory.
+   *
+   * @throws {CompressionError} When the data is not a valid zip archive
+   */
+  public static fromBytes(bytes: Uint8Array): Promise<ZipArchive> {
+    return ZipArchive.fromSource(new BytesSource(bytes));
+  }
+
+  /**
+   * Reads a `Blob` or `File`, loading only the slices that are accessed.
+   *
+   * @throws {CompressionError} When the data is not a valid zip archive
+   */
+  public static fromBlob(blob: Blob): Promise<ZipArchive> {
+    return ZipArchive.fromSource(new BlobSource(blob));
+  }
+
+  /**
+   * Opens an archive file. Call {@link ZipArchive.close} when done.
+   *
+   * @throws {CompressionError} When the file is not a valid zip archive
+   */
+  public static async open(path: string | URL): Promise<ZipArchive> {
+    return ZipArchive.fromSource(await openFileSource(path));
+  }
+
+  /**
+   * Opens an archive file and streams one entry, as
+   * {@link ZipArchive.stream} does, closing the file when the stream ends or
+   * is cancelled.
+   *
+   * @param path - Archive file
+   * @param name - Entry to read. Defaults to the first `.csv` entry
+   *
+   * @throws {CompressionError} When the file is not a valid zip archive or
+   * the entry is not found
+   *
+   * @example
+   * ```typescript
+   * const stream = await ZipArchive.openEntry("vendor-2024.zip");
+   * const total = await parseStreamOptimizedOhlcv(stream, (row) => {});
+   * ```
+   */
+  public static async openEntry(
+    path: string | URL,
+    name?: string,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const archive = await ZipArchive.open(path);
+    try {
+      return archive.entryStream(archive.find(name), () => archive.close());
+    } catch (e) {
+      archive.close();
+      throw e;
+    }
+  }
+
+  /** Files in the archive, in directory order, excluding directories */
+  public get entries(): ZipEntry[] {
+    return this.locations
+      .filter((entry) => !entry.name.endsWith("/"))
+      .map(({ name, size, compressedSize }) => ({
+        name,
+        size,
+        compressedSize,
+      }));
+  }
+
+  /**
+   * Streams the uncompressed content of an entry.
+   *
+   * @param name - Entry to read. Defaults to the first entry whose name ends
+   * in `.csv`, ignoring case
+   *
+   * @throws {CompressionError} When the entry is not found, or is encrypted
+   * or compressed with a method other than deflate
+   */
+  public stream(name?: string): ReadableStream<Uint8Array> {
+    return this.entryStream(this.find(name), () => {});
+  }
+
+  /**
+   * Releases the underlying file, if any.
+   */
+  public close(): void {
+    this.source.close();
+  }
+
+  private find(name?: string): EntryLocation {
+    const files = this.locations.filter((entry) => !entry.name.endsWith("/"));
+    const entry = name === undefined
+      ? files.find((file) => /\.csv$/i.test(file.name))
+      : files.find((file) => file.name === name);
+    if (!entry) {
+      const listed = files.slice(0, 10).map((file) => file.name).join(", ");
+      throw new CompressionError(
+        `${
+          name === undefined ? "No .csv entry" : `Entry "${name}" not found`
+        } in zip archive. Entries: ${listed || "none"}${
+          files.length > 10 ? ", ..." : ""
+        }`,
+      );
+    }
+    if (entry.flags & 1) {
+      throw new CompressionError(
+        `Entry "${entry.name}" is encrypted, which is not supported`,
+      );
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+      throw new CompressionError(
+        `Entry "${entry.name}" uses unsupported compression method ${entry.method}`,
+      );
+    }
+    return entry;
+  }
+
+  private entryStream(
+    entry: EntryLocation,
+    onDone: () => void,
+  ): ReadableStream<Uint8Array> {
+    const source = this.source;
+    let position = 0;
+    let end = 0;
+    const raw = new ReadableStream<Uint8Array>({
+      async start() {
+        const header = await source.read(
+          entry.localHeaderOffset,
+          LOCAL_HEADER_SIZE,
+        );
+        const view = viewOf(header);
+        if (
+          header.length < LOCAL_HEADER_SIZE ||
+          view.getUint32(0, true) !== LOCAL_SIGNATURE
+        ) {
+          throw new CompressionError(
+            `Invalid local header for zip entry "${entry.name}"`,
+          );
+        }
+        position = entry.localHeaderOffset + LOCAL_HEADER_SIZE +
+          view.getUint16(26, true) + view.getUint16(28, true);
+        end = position + entry.compressedSize;
+        if (end > source.size) {
+          throw new CompressionError(
+            `Truncated zip archive: entry "${entry.name}" extends past the end`,
+          );
+        }
+      },
+      async pull(controller) {
+        if (position >= end) {
+          controller.close();
+          return;
+        }
+        const chunk = await source.read(
+          position,
+          Math.min(CHUNK_SIZE, end - position),
+        );
+        position += chunk.length;
+        controller.enqueue(chunk.slice());
+      },
+    });
+    const content = entry.method === METHOD_DEFLATE
+      ? inflate(raw, "deflate-raw")
+      : raw;
+    const reader = content.getReader();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            onDone();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (e) {
+          onDone();
+          throw e;
+        }
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+        onDone();
+      },
+    });
+  }
+}
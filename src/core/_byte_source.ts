@@ -0,0 +1,97 @@
+// src/core/_byte_source.ts
+
+/**
+ * Random access to the bytes of a file.
+ */
+export interface ByteSource {
+  readonly size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+  close(): void;
+}
+
+export class BytesSource implements ByteSource {
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  public get size(): number {
+    return this.bytes.length;
+  }
+
+  public read(offset: number, length: number): Promise<Uint8Array> {
+    return Promise.resolve(this.bytes.subarray(offset, offset + length));
+  }
+
+  public close(): void {}
+}
+
+export class BlobSource implements ByteSource {
+  private blob: Blob;
+
+  constructor(blob: Blob) {
+    this.blob = blob;
+  }
+
+  public get size(): number {
+    return this.blob.size;
+  }
+
+  public async read(offset: number, length: number): Promise<Uint8Array> {
+    return new Uint8Array(
+      await this.blob.slice(offset, offset + length).arrayBuffer(),
+    );
+  }
+
+  public close(): void {}
+}
+
+export class FileSource implements ByteSource {
+  private file: Deno.FsFile;
+  public readonly size: number;
+  // Seek and read are not atomic, so reads run one at a time.
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(file: Deno.FsFile, size: number) {
+    this.file = file;
+    this.size = size;
+  }
+
+  private async readAt(offset: number, length: number): Promise<Uint8Array> {
+    const buffer = new Uint8Array(
+      Math.max(0, Math.min(length, this.size - offset)),
+    );
+    await this.file.seek(offset, Deno.SeekMode.Start);
+    let filled = 0;
+    while (filled < buffer.length) {
+      const read = await this.file.read(buffer.subarray(filled));
+      if (read === null) break;
+      filled += read;
+    }
+    return buffer.subarray(0, filled);
+  }
+
+  public read(offset: number, length: number): Promise<Uint8Array> {
+    const result = this.pending.then(() => this.readAt(offset, length));
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  public close(): void {
+    this.file.close();
+  }
+}
+
+/**
+ * Opens a file for random access reads.
+ */
+export async function openFileSource(path: string | URL): Promise<FileSource> {
+  const file = await Deno.open(path, { read: true });
+  try {
+    return new FileSource(file, (await file.stat()).size);
+  } catch (e) {
+    file.close();
+    throw e;
+  }
+}
@@ -62,6 +62,30 @@ export class ParseError extends BaseError {
   }
 }
 
+/**
+ * Passed to skip callbacks for the header line, so that it can be told apart
+ * from malformed data rows. It is never thrown, and parse reports and strict
+ * mode ignore it.
+ *
+ * @example
+ * ```typescript
+ * parseFullStringWithStateMachine(csv, (error, lineNumber) => {
+ *   if (!(error instanceof HeaderSkipError)) console.warn(lineNumber, error);
+ * });
+ * ```
+ */
+export class HeaderSkipError extends ParseError {
+  /**
+   * Whether the line was a header. False when the first line was checked
+   * for names and read as data instead
+   */
+  public readonly headerFound: boolean;
+  constructor(message: string, headerFound: boolean = true) {
+    super(message);
+    this.headerFound = headerFound;
+  }
+}
+
 /**
  * Error thrown when the overall format of a CSV line is invalid.
  *
@@ -111,6 +135,29 @@ export class InvalidCloseError extends ParseError {}
  */
 export class InvalidVolumeError extends ParseError {}
 
+/**
+ * Error thrown when a parsed row violates an OHLCV integrity rule in strict
+ * validation mode.
+ *
+ * @example
+ * ```typescript
+ * // Thrown for a row whose high is below its low:
+ * new ValidationError("High 90 is below low 95", "ohlc-consistency", {
+ *   lineNumber: 12,
+ *   invalidField: "high",
+ *   reason: "High 90 is below low 95",
+ * });
+ * ```
+ */
+export class ValidationError extends ParseError {
+  /** Name of the rule that was violated */
+  public rule: string;
+  constructor(message: string, rule: string, details?: ParseErrorDetails) {
+    super(message, details);
+    this.rule = rule;
+  }
+}
+
 /**
  * Base error class for all date-related operations.
  *
@@ -132,18 +179,165 @@ export class DateError extends BaseError {}
 export class InvalidDateFormatError extends DateError {}
 
 /**
- * Error thrown when attempting to parse a date before the Unix epoch (1970-01-01).
+ * Error thrown when a date before the Unix epoch (1970-01-01) is parsed in
+ * strict mode.
  *
- * Since Unix timestamps start at January 1, 1970, earlier dates cannot be represented.
+ * Dates before 1970 are represented as negative Unix timestamps by default;
+ * this error is only raised when `rejectBeforeEpoch` is enabled.
  *
  * @example
  * ```typescript
  * // This would throw DateBeforeEpochError:
- * yyyymmddToUnix("1969-12-31");
+ * yyyymmddToUnix("1969-12-31", { rejectBeforeEpoch: true });
  * ```
  */
 export class DateBeforeEpochError extends DateError {}
 
+/**
+ * Error thrown when a time zone name is not recognised by the runtime.
+ *
+ * @example
+ * ```typescript
+ * // This would throw InvalidTimeZoneError:
+ * parseTimestamp("2023-01-01", { timeZone: "Mars/Olympus_Mons" });
+ * ```
+ */
+export class InvalidTimeZoneError extends DateError {}
+
+/**
+ * Error thrown when OHLCV rows cannot be resampled.
+ *
+ * Raised for unknown timeframes and for input rows that are not in
+ * ascending timestamp order.
+ *
+ * @example
+ * ```typescript
+ * // This would throw ResampleError:
+ * resample(rows, { timeframe: "7x" });
+ * ```
+ */
+export class ResampleError extends BaseError {}
+
+/**
+ * Error thrown when gaps cannot be detected in a series of rows.
+ *
+ * Raised for input rows that are not in ascending timestamp order.
+ *
+ * @example
+ * ```typescript
+ * // This would throw GapError:
+ * findGaps([{ ts: 86400, ...bar }, { ts: 0, ...bar }], { interval: "1d" });
+ * ```
+ */
+export class GapError extends BaseError {}
+
+/**
+ * Error thrown when a trading calendar is defined or queried incorrectly.
+ *
+ * Raised for invalid holiday rules, unknown calendar names and malformed
+ * date strings.
+ *
+ * @example
+ * ```typescript
+ * // This would throw CalendarError:
+ * getCalendar("NASDAQ-TOKYO");
+ * ```
+ */
+export class CalendarError extends BaseError {}
+
+/**
+ * Error thrown when a technical indicator is configured incorrectly.
+ *
+ * @example
+ * ```typescript
+ * // This would throw IndicatorError:
+ * new Sma(0);
+ * ```
+ */
+export class IndicatorError extends BaseError {}
+
+/**
+ * Error thrown when a columnar OHLCV series is constructed or indexed
+ * incorrectly.
+ *
+ * @example
+ * ```typescript
+ * // This would throw SeriesError:
+ * new OhlcvSeries({ ts, o, h, l, c, v: new Float64Array(0) });
+ * ```
+ */
+export class SeriesError extends BaseError {}
+
+/**
+ * Error thrown when a writer is configured incorrectly.
+ *
+ * @example
+ * ```typescript
+ * // This would throw WriteError:
+ * formatCsv(rows, { precision: -1 });
+ * ```
+ */
+export class WriteError extends BaseError {}
+
+/**
+ * Error thrown when OHLCV binary data is malformed or read out of range, or
+ * rows cannot be written in the binary format.
+ *
+ * @example
+ * ```typescript
+ * // This would throw BinaryFormatError:
+ * OhlcvBinaryReader.fromBytes(new TextEncoder().encode("Date,Open"));
+ * ```
+ */
+export class BinaryFormatError extends BaseError {}
+
+/**
+ * Error thrown when compressed input or a zip archive cannot be read.
+ *
+ * Raised for corrupt gzip or deflate data, malformed archives, unsupported
+ * compression methods and encryption, and entries that are not found.
+ *
+ * @example
+ * ```typescript
+ * // This would throw CompressionError:
+ * (await ZipArchive.open("prices.zip")).stream("missing.csv");
+ * ```
+ */
+export class CompressionError extends BaseError {}
+
+/**
+ * Error thrown when a data provider is defined incorrectly, is looked up by
+ * an id that is not registered, or is fetched with invalid options.
+ *
+ * @example
+ * ```typescript
+ * // This would throw ProviderError:
+ * await fetchCsvAsText("no-such-provider");
+ * ```
+ */
+export class ProviderError extends BaseError {}
+
+/**
+ * Details about a failed fetch, for logging and diagnosing retries.
+ *
+ * @example
+ * ```typescript
+ * const details: FetchErrorDetails = {
+ *   url: "https://example.com/btc.csv",
+ *   attempts: 4,
+ *   elapsed: 7312,
+ * };
+ * ```
+ */
+export interface FetchErrorDetails {
+  /** The URL that was requested */
+  url?: string;
+  /** Number of requests made, including retries */
+  attempts?: number;
+  /** Milliseconds from the first request until the failure */
+  elapsed?: number;
+}
+
 /**
  * Base error class for all network fetch operations.
  *
@@ -152,11 +346,14 @@ export class DateBeforeEpochError extends DateError {}
 export class FetchError extends BaseError {
   /** The underlying error that caused the fetch to fail */
   public override cause?: Error;
-  constructor(message: string, cause?: Error) {
+  /** The URL, attempt count and elapsed time, when known */
+  public details?: FetchErrorDetails;
+  constructor(message: string, cause?: Error, details?: FetchErrorDetails) {
     super(message);
     if (cause) {
       this.cause = cause;
     }
+    this.details = details;
   }
 }
 
@@ -177,11 +374,16 @@ export class HttpError extends FetchError {
   public statusCode?: number;
   /** HTTP status text (e.g., "Not Found", "Internal Server Error") */
   public statusText?: string;
-  constructor(messagePrefix: string, statusCode?: number, statusText?: string) {
+  constructor(
+    messagePrefix: string,
+    statusCode?: number,
+    statusText?: string,
+    details?: FetchErrorDetails,
+  ) {
     const fullMessage = `${messagePrefix}${
       statusCode ? `: ${statusCode}` : ""
     }${statusText ? ` ${statusText}` : ""}`;
-    super(fullMessage);
+    super(fullMessage, undefined, details);
     this.statusCode = statusCode;
     this.statusText = statusText;
   }
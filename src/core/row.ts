@@ -19,7 +19,15 @@
  * ```
  */
 export interface Row {
-  /** Unix timestamp in seconds since epoch (January 1, 1970, 00:00:00 UTC) */
+  /**
+   * Unix timestamp in seconds since epoch (January 1, 1970, 00:00:00 UTC).
+   * Negative for instants before 1970.
+   *
+   * Whole seconds by default; parsers keep milliseconds as a fractional part
+   * when `TimestampOptions.subSecond` is enabled. For exchange data parsed
+   * with `TimestampOptions.timeZone` and `sessionTime`, this is the instant
+   * of the session open or close.
+   */
   ts: number;
   /** Opening price for the time period */
   o: number;
@@ -0,0 +1,366 @@
+// src/gaps/gaps.ts
+import type { Row } from "../core/row.ts";
+import { GapError } from "../core/errors.ts";
+import type { TradingCalendar } from "../calendar/calendar.ts";
+import { unixToYyyymmdd } from "../utils/date.ts";
+import {
+  assertValidAlignment,
+  type BucketAlignment,
+  bucketStart,
+  nextBucketStart,
+  parseTimeframe,
+  type Timeframe,
+} from "../resample/timeframe.ts";
+
+/**
+ * Options describing where bars are expected.
+ *
+ * @example
+ * ```typescript
+ * // Daily crypto bars: every calendar day is expected
+ * const crypto: GapOptions = { interval: "1d" };
+ *
+ * // Daily S&P 500 bars: weekends and NYSE holidays are not gaps
+ * const equities: GapOptions = { interval: "1d", calendar: NYSE };
+ *
+ * // Custom rule: only weekdays are expected
+ * const weekdays: GapOptions = {
+ *   interval: "1d",
+ *   isExpected: (ts) => {
+ *     const day = new Date(ts * 1000).getUTCDay();
+ *     return day !== 0 && day !== 6;
+ *   },
+ * };
+ * ```
+ */
+export interface GapOptions extends BucketAlignment {
+  /** Expected spacing between bars, e.g. `"1m"`, `"1h"`, `"1d"` */
+  interval: string | Timeframe;
+  /**
+   * Returns false for timestamps where no bar is expected, such as weekends
+   * and exchange holidays. Called with the timestamp a missing bar would
+   * have. Defaults to expecting a bar in every interval.
+   */
+  isExpected?: (ts: number) => boolean;
+  /**
+   * Exchange calendar whose non-trading days are not gaps. Each missing bar's
+   * date is taken in the alignment time zone, so date-stamped daily rows
+   * match the calendar's trading dates. Applied together with `isExpected`.
+   */
+  calendar?: TradingCalendar;
+}
+
+/**
+ * A run of missing bars between two consecutive rows.
+ */
+export interface Gap {
+  /** Last row before the gap */
+  before: Row;
+  /** First row after the gap */
+  after: Row;
+  /**
+   * Unix timestamps in seconds of the missing bars, in ascending order.
+   * Each keeps the offset of `before` within its interval, so bars stamped
+   * at the session close are filled at the session close.
+   */
+  missing: number[];
+}
+
+/**
+ * How missing bars are filled.
+ *
+ * - `"forward-fill"`: flat bars at the previous close with zero volume
+ * - `"interpolate"`: closes interpolated linearly in time between the
+ *   surrounding closes, with zero volume
+ * - `"null"`: explicit {@link GapMarker} entries
+ */
+export type GapFillMethod = "forward-fill" | "interpolate" | "null";
+
+/**
+ * Placeholder for a missing bar, emitted by the `"null"` fill method.
+ */
+export interface GapMarker {
+  /** Unix timestamp in seconds of the missing bar */
+  ts: number;
+  o: null;
+  h: null;
+  l: null;
+  c: null;
+  v: null;
+}
+
+/**
+ * Options for filling gaps.
+ */
+export interface GapFillOptions<M extends GapFillMethod = GapFillMethod>
+  extends GapOptions {
+  /** How missing bars are filled */
+  method: M;
+}
+
+/**
+ * Entry produced when filling gaps with a given method.
+ */
+export type FilledRow<M extends GapFillMethod = GapFillMethod> = M extends
+  "null" ? Row | GapMarker : Row;
+
+/**
+ * Incrementally detects missing bars in a series of rows.
+ *
+ * Rows must arrive in ascending timestamp order. Several rows in the same
+ * interval are not reported as a gap.
+ *
+ * @example
+ * ```typescript
+ * const detector = new GapDetector({ interval: "1d" });
+ * for (const row of rows) {
+ *   const gap = detector.push(row);
+ *   if (gap) console.log(`${gap.missing.length} bars missing before`, row.ts);
+ * }
+ * ```
+ */
+export class GapDetector {
+  private timeframe: Timeframe;
+  private alignment: BucketAlignment;
+  private isExpected?: (ts: number) => boolean;
+  private previous: Row | null = null;
+  private previousBucket = -Infinity;
+
+  /**
+   * @throws {ResampleError} When the interval is not recognised
+   * @throws {InvalidTimeZoneError} When the time zone is unknown
+   */
+  constructor(options: GapOptions) {
+    this.timeframe = parseTimeframe(options.interval);
+    this.alignment = {
+      weekStart: options.weekStart,
+      timeZone: options.timeZone,
+    };
+    const { calendar, isExpected } = options;
+    this.isExpected = calendar
+      ? (ts) =>
+        calendar.isTradingDay(unixToYyyymmdd(ts, options.timeZone)) &&
+        (!isExpected || isExpected(ts))
+      : isExpected;
+    assertValidAlignment(this.alignment);
+  }
+
+  /**
+   * Adds a row to the series.
+   *
+   * @param row - The next row
+   * @returns The gap ending at `row`, or null when no expected bar is missing
+   *
+   * @throws {GapError} When `row` is older than the previous row
+   */
+  public push(row: Row): Gap | null {
+    const previous = this.previous;
+    if (previous && row.ts < previous.ts) {
+      throw new GapError(
+        `Rows must be in ascending order: ${row.ts} after ${previous.ts}`,
+      );
+    }
+    const bucket = bucketStart(row.ts, this.timeframe, this.alignment);
+    const previousBucket = this.previousBucket;
+    this.previous = row;
+    this.previousBucket = bucket;
+    if (!previous || bucket === previousBucket) return null;
+
+    const offset = previous.ts - previousBucket;
+    const missing: number[] = [];
+    let start = nextBucketStart(previousBucket, this.timeframe, this.alignment);
+    while (start < bucket) {
+      const next = nextBucketStart(start, this.timeframe, this.alignment);
+      // Calendar buckets vary in length, so keep the offset inside the bucket.
+      const ts = Math.min(start + offset, next - 1);
+      if (!this.isExpected || this.isExpected(ts)) missing.push(ts);
+      start = next;
+    }
+    return missing.length > 0
+      ? { before: previous, after: row, missing }
+      : null;
+  }
+
+  /**
+   * Forgets the previous row so the next row starts a new series.
+   */
+  public reset(): void {
+    this.previous = null;
+    this.previousBucket = -Infinity;
+  }
+}
+
+/**
+ * Builds the entries that fill a gap.
+ *
+ * @param gap - A gap reported by {@link GapDetector} or {@link findGaps}
+ * @param method - How missing bars are filled
+ * @returns One entry per missing bar
+ *
+ * @example
+ * ```typescript
+ * const [gap] = findGaps(rows, { interval: "1d" });
+ * const bars = fillGap(gap, "forward-fill");
+ * ```
+ */
+export function fillGap<M extends GapFillMethod>(
+  gap: Gap,
+  method: M,
+): FilledRow<M>[] {
+  const { before, after } = gap;
+  const filled: (Row | GapMarker)[] = [];
+  let previousClose = before.c;
+  for (const ts of gap.missing) {
+    if (method === "null") {
+      filled.push({ ts, o: null, h: null, l: null, c: null, v: null });
+      continue;
+    }
+    const c = method === "interpolate"
+      ? before.c +
+        (after.c - before.c) * (ts - before.ts) / (after.ts - before.ts)
+      : before.c;
+    const o = previousClose;
+    filled.push({
+      ts,
+      o,
+      h: Math.max(o, c),
+      l: Math.min(o, c),
+      c,
+      v: 0,
+    });
+    previousClose = c;
+  }
+  return filled as FilledRow<M>[];
+}
+
+/**
+ * Reports the missing bars in a series of rows.
+ *
+ * @param rows - Rows in ascending timestamp order
+ * @param options - Expected interval and calendar
+ * @returns Gaps in ascending order
+ *
+ * @throws {GapError} When the rows are out of order
+ * @throws {ResampleError} When the interval is not recognised
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsText, parseWithSimpleSplit, DataSource } from "@mso/ohlcv";
+ * import { findGaps } from "@mso/ohlcv/gaps";
+ *
+ * const btc = parseWithSimpleSplit(await fetchCsvAsText(DataSource.BTC_CSV));
+ * for (const gap of findGaps(btc, { interval: "1d" })) {
+ *   console.log(gap.missing.length, "days missing after", gap.before.ts);
+ * }
+ * ```
+ */
+export function findGaps(rows: Iterable<Row>, options: GapOptions): Gap[] {
+  const detector = new GapDetector(options);
+  const gaps: Gap[] = [];
+  for (const row of rows) {
+    const gap = detector.push(row);
+    if (gap) gaps.push(gap);
+  }
+  return gaps;
+}
+
+/**
+ * Returns a copy of a series with its gaps filled.
+ *
+ * @param rows - Rows in ascending timestamp order
+ * @param options - Expected interval, calendar and fill method
+ * @returns The input rows with filled entries inserted into each gap
+ *
+ * @throws {GapError} When the rows are out of order
+ * @throws {ResampleError} When the interval is not recognised
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * const complete = fillGaps(rows, { interval: "1h", method: "forward-fill" });
+ * const marked = fillGaps(rows, { interval: "1h", method: "null" });
+ * const missing = marked.filter((entry) => entry.c === null);
+ * ```
+ */
+export function fillGaps<M extends GapFillMethod>(
+  rows: Iterable<Row>,
+  options: GapFillOptions<M>,
+): FilledRow<M>[] {
+  const detector = new GapDetector(options);
+  const filled: FilledRow<M>[] = [];
+  for (const row of rows) {
+    const gap = detector.push(row);
+    if (gap) {
+      for (const entry of fillGap(gap, options.method)) filled.push(entry);
+    }
+    filled.push(row as FilledRow<M>);
+  }
+  return filled;
+}
+
+/**
+ * Creates a `TransformStream` that reports the gaps in a stream of rows.
+ *
+ * @param options - Expected interval and calendar
+ * @returns A stream transforming rows into the gaps between them
+ *
+ * @throws {ResampleError} When the interval is not recognised; out-of-order
+ * rows error the stream with a {@link GapError}
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * const { readable, writable } = createGapStream({ interval: "1m" });
+ * ```
+ */
+export function createGapStream(
+  options: GapOptions,
+): TransformStream<Row, Gap> {
+  const detector = new GapDetector(options);
+  return new TransformStream<Row, Gap>({
+    transform(row, controller) {
+      const gap = detector.push(row);
+      if (gap) controller.enqueue(gap);
+    },
+  });
+}
+
+/**
+ * Creates a `TransformStream` that fills the gaps in a stream of rows.
+ *
+ * @param options - Expected interval, calendar and fill method
+ * @returns A stream passing rows through with filled entries inserted
+ *
+ * @throws {ResampleError} When the interval is not recognised; out-of-order
+ * rows error the stream with a {@link GapError}
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { createParseStream, DataSource, fetchCsvAsStream } from "@mso/ohlcv";
+ * import { createGapFillStream } from "@mso/ohlcv/gaps";
+ *
+ * const rows = (await fetchCsvAsStream(DataSource.BTC_CSV))
+ *   .pipeThrough(createParseStream({ strategy: "optimized" }))
+ *   .pipeThrough(createGapFillStream({ interval: "1d", method: "interpolate" }));
+ *
+ * for await (const row of rows) console.log(row);
+ * ```
+ */
+export function createGapFillStream<M extends GapFillMethod>(
+  options: GapFillOptions<M>,
+): TransformStream<Row, FilledRow<M>> {
+  const detector = new GapDetector(options);
+  return new TransformStream<Row, FilledRow<M>>({
+    transform(row, controller) {
+      const gap = detector.push(row);
+      if (gap) {
+        for (const entry of fillGap(gap, options.method)) {
+          controller.enqueue(entry);
+        }
+      }
+      controller.enqueue(row as FilledRow<M>);
+    },
+  });
+}
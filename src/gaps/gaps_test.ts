@@ -0,0 +1,254 @@
+// src/gaps/gaps_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import {
+  GapError,
+  InvalidTimeZoneError,
+  ResampleError,
+} from "../core/errors.ts";
+import { NYSE } from "../calendar/calendars.ts";
+import {
+  createGapFillStream,
+  createGapStream,
+  fillGap,
+  fillGaps,
+  findGaps,
+  type Gap,
+  GapDetector,
+} from "./gaps.ts";
+
+const HOUR = 3600;
+const START = Date.UTC(2024, 0, 1) / 1000;
+
+const bar = (ts: number, c: number): Row => ({
+  ts,
+  o: c,
+  h: c + 1,
+  l: c - 1,
+  c,
+  v: 100,
+});
+
+/** Hourly bars with 02:00 and 03:00 missing, and 06:00 to 08:00 missing */
+const hourly: Row[] = [0, 1, 4, 5, 9].map((h) => bar(START + h * HOUR, 10 + h));
+
+/** Daily bars stamped at UTC midnight, as date-only CSVs are parsed */
+const daily = (dates: string[]): Row[] =>
+  dates.map((date, i) => bar(Date.parse(date) / 1000, 100 + i));
+
+const missingOf = (gaps: Gap[]) => gaps.map((gap) => gap.missing);
+
+Deno.test("findGaps reports the missing bars between rows", () => {
+  const gaps = findGaps(hourly, { interval: "1h" });
+  deepStrictEqual(missingOf(gaps), [
+    [START + 2 * HOUR, START + 3 * HOUR],
+    [START + 6 * HOUR, START + 7 * HOUR, START + 8 * HOUR],
+  ]);
+  strictEqual(gaps[0].before, hourly[1]);
+  strictEqual(gaps[0].after, hourly[2]);
+  deepStrictEqual(missingOf(findGaps(hourly, { interval: "2h" })), [
+    [START + 3 * HOUR],
+    [START + 7 * HOUR],
+  ]);
+});
+
+Deno.test("findGaps keeps the offset of the previous row within its interval", () => {
+  const rows = [bar(START + 1800, 1), bar(START + 3 * HOUR + 1800, 2)];
+  deepStrictEqual(missingOf(findGaps(rows, { interval: "1h" })), [
+    [START + HOUR + 1800, START + 2 * HOUR + 1800],
+  ]);
+});
+
+Deno.test("findGaps clamps the offset to calendar buckets of different lengths", () => {
+  const monthEnds = daily(["2024-01-31", "2024-04-30"]);
+  deepStrictEqual(missingOf(findGaps(monthEnds, { interval: "1M" })), [
+    [Date.UTC(2024, 2, 1) / 1000 - 1, Date.UTC(2024, 2, 31) / 1000],
+  ]);
+});
+
+Deno.test("findGaps ignores several rows in the same interval", () => {
+  const rows = [bar(START, 1), bar(START + 60, 2), bar(START + 3599, 3)];
+  deepStrictEqual(findGaps(rows, { interval: "1h" }), []);
+  deepStrictEqual(findGaps([hourly[0], hourly[0]], { interval: "1h" }), []);
+  deepStrictEqual(findGaps([], { interval: "1h" }), []);
+});
+
+Deno.test("findGaps skips days the calendar does not trade", () => {
+  // Independence Day on Thursday, then a weekend
+  const rows = daily(["2024-07-03", "2024-07-05", "2024-07-10"]);
+  deepStrictEqual(missingOf(findGaps(rows, { interval: "1d" })), [
+    [Date.UTC(2024, 6, 4) / 1000],
+    [6, 7, 8, 9].map((day) => Date.UTC(2024, 6, day) / 1000),
+  ]);
+  deepStrictEqual(
+    missingOf(findGaps(rows, { interval: "1d", calendar: NYSE })),
+    [[8, 9].map((day) => Date.UTC(2024, 6, day) / 1000)],
+  );
+});
+
+Deno.test("findGaps takes calendar dates in the alignment time zone", () => {
+  // Bars stamped at the 16:00 close in New York, 20:00 UTC in July
+  const closes = [3, 9].map((day) => bar(Date.UTC(2024, 6, day, 20) / 1000, 1));
+  const gaps = findGaps(closes, {
+    interval: "1d",
+    calendar: NYSE,
+    timeZone: "America/New_York",
+  });
+  deepStrictEqual(missingOf(gaps), [
+    [5, 8].map((day) => Date.UTC(2024, 6, day, 20) / 1000),
+  ]);
+});
+
+Deno.test("findGaps applies isExpected together with the calendar", () => {
+  const rows = daily(["2024-07-01", "2024-07-05"]);
+  const notWednesday = (ts: number) => new Date(ts * 1000).getUTCDay() !== 3;
+  deepStrictEqual(
+    missingOf(findGaps(rows, { interval: "1d", isExpected: notWednesday })),
+    [[2, 4].map((day) => Date.UTC(2024, 6, day) / 1000)],
+  );
+  deepStrictEqual(
+    missingOf(
+      findGaps(rows, {
+        interval: "1d",
+        calendar: NYSE,
+        isExpected: notWednesday,
+      }),
+    ),
+    [[Date.UTC(2024, 6, 2) / 1000]],
+  );
+  deepStrictEqual(
+    findGaps(rows, { interval: "1d", isExpected: () => false }),
+    [],
+  );
+});
+
+const gap: Gap = {
+  before: bar(START, 10),
+  after: bar(START + 3 * HOUR, 16),
+  missing: [START + HOUR, START + 2 * HOUR],
+};
+
+Deno.test("fillGap forward-fills flat bars at the previous close", () => {
+  deepStrictEqual(fillGap(gap, "forward-fill"), [
+    { ts: START + HOUR, o: 10, h: 10, l: 10, c: 10, v: 0 },
+    { ts: START + 2 * HOUR, o: 10, h: 10, l: 10, c: 10, v: 0 },
+  ]);
+});
+
+Deno.test("fillGap interpolates closes linearly in time", () => {
+  deepStrictEqual(fillGap(gap, "interpolate"), [
+    { ts: START + HOUR, o: 10, h: 12, l: 10, c: 12, v: 0 },
+    { ts: START + 2 * HOUR, o: 12, h: 14, l: 12, c: 14, v: 0 },
+  ]);
+  const falling = { ...gap, after: bar(START + 3 * HOUR, 4) };
+  deepStrictEqual(fillGap(falling, "interpolate")[1], {
+    ts: START + 2 * HOUR,
+    o: 8,
+    h: 8,
+    l: 6,
+    c: 6,
+    v: 0,
+  });
+});
+
+Deno.test("fillGap marks missing bars with nulls", () => {
+  deepStrictEqual(fillGap(gap, "null"), [
+    { ts: START + HOUR, o: null, h: null, l: null, c: null, v: null },
+    { ts: START + 2 * HOUR, o: null, h: null, l: null, c: null, v: null },
+  ]);
+});
+
+Deno.test("fillGaps inserts filled entries into each gap", () => {
+  for (const method of ["forward-fill", "interpolate", "null"] as const) {
+    const filled = fillGaps(hourly, { interval: "1h", method });
+    deepStrictEqual(
+      filled.map((entry) => entry.ts),
+      Array.from({ length: 10 }, (_, h) => START + h * HOUR),
+    );
+    const gaps = findGaps(hourly, { interval: "1h" });
+    deepStrictEqual(filled.slice(2, 4), fillGap(gaps[0], method));
+    for (const row of hourly) strictEqual(filled.includes(row), true);
+  }
+  deepStrictEqual(
+    fillGaps(hourly.slice(0, 2), { interval: "1h", method: "null" }),
+    hourly.slice(0, 2),
+  );
+});
+
+Deno.test("GapDetector returns the gap ending at each row", () => {
+  const detector = new GapDetector({ interval: "1h" });
+  strictEqual(detector.push(hourly[0]), null);
+  strictEqual(detector.push(hourly[1]), null);
+  deepStrictEqual(detector.push(hourly[2])?.missing, [
+    START + 2 * HOUR,
+    START + 3 * HOUR,
+  ]);
+  // After a reset, earlier rows start a new series
+  detector.reset();
+  strictEqual(detector.push(hourly[0]), null);
+  strictEqual(detector.push(hourly[1]), null);
+});
+
+Deno.test("GapDetector throws GapError on rows out of order", () => {
+  const detector = new GapDetector({ interval: "1h" });
+  detector.push(hourly[2]);
+  throws(() => detector.push(hourly[1]), GapError);
+  throws(() => findGaps([hourly[1], hourly[0]], { interval: "1d" }), GapError);
+  throws(
+    () => fillGaps([hourly[1], hourly[0]], { interval: "1h", method: "null" }),
+    GapError,
+  );
+});
+
+Deno.test("GapDetector validates its options up front", () => {
+  throws(() => new GapDetector({ interval: "hourly" }), ResampleError);
+  throws(
+    () => new GapDetector({ interval: "1d", timeZone: "Mars/Base" }),
+    InvalidTimeZoneError,
+  );
+  throws(() => createGapStream({ interval: "0d" }), ResampleError);
+  throws(
+    () => createGapFillStream({ interval: "0d", method: "null" }),
+    ResampleError,
+  );
+});
+
+Deno.test("createGapStream and createGapFillStream match their batch forms", async () => {
+  const options = { interval: "1h" };
+  deepStrictEqual(
+    await Array.fromAsync(
+      ReadableStream.from(hourly).pipeThrough(createGapStream(options)),
+    ),
+    findGaps(hourly, options),
+  );
+  for (const method of ["forward-fill", "interpolate", "null"] as const) {
+    deepStrictEqual(
+      await Array.fromAsync(
+        ReadableStream.from(hourly).pipeThrough(
+          createGapFillStream({ ...options, method }),
+        ),
+      ),
+      fillGaps(hourly, { ...options, method }),
+    );
+  }
+});
+
+Deno.test("gap streams error on rows out of order", async () => {
+  const unordered = [hourly[0], hourly[2], hourly[1]];
+  await rejects(
+    Array.fromAsync(
+      ReadableStream.from(unordered).pipeThrough(
+        createGapStream({ interval: "1h" }),
+      ),
+    ),
+    GapError,
+  );
+  await rejects(
+    Array.fromAsync(
+      ReadableStream.from(unordered).pipeThrough(
+        createGapFillStream({ interval: "1h", method: "forward-fill" }),
+      ),
+    ),
+    GapError,
+  );
+});
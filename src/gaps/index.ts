@@ -0,0 +1,18 @@
+// src/gaps/index.ts
+export {
+  createGapFillStream,
+  createGapStream,
+  fillGap,
+  fillGaps,
+  findGaps,
+  GapDetector,
+} from "./gaps.ts";
+
+export type {
+  FilledRow,
+  Gap,
+  GapFillMethod,
+  GapFillOptions,
+  GapMarker,
+  GapOptions,
+} from "./gaps.ts";
@@ -0,0 +1,72 @@
+// src/indicators/atr.ts
+import type { Row } from "../core/row.ts";
+import { assertPeriod, collect, type Indicator } from "./common.ts";
+
+/**
+ * Average True Range with Wilder smoothing, updated incrementally.
+ *
+ * The true range of the first row is its high-low range; the first ATR is
+ * the simple average of `period` true ranges.
+ *
+ * @example
+ * ```typescript
+ * const atr = new Atr(14);
+ * const stop = row.c - 2 * atr.push(row);
+ * ```
+ */
+export class Atr implements Indicator<number> {
+  private period: number;
+  private previousClose = NaN;
+  private count = 0;
+  private seedSum = 0;
+  public value = NaN;
+
+  /**
+   * @param period - Smoothing period. Defaults to 14
+   *
+   * @throws {IndicatorError} When the period is not a positive integer
+   */
+  constructor(period: number = 14) {
+    assertPeriod("ATR period", period);
+    this.period = period;
+  }
+
+  public push(row: Row): number {
+    const trueRange = isNaN(this.previousClose) ? row.h - row.l : Math.max(
+      row.h - row.l,
+      Math.abs(row.h - this.previousClose),
+      Math.abs(row.l - this.previousClose),
+    );
+    this.previousClose = row.c;
+    this.count++;
+
+    if (this.count < this.period) {
+      this.seedSum += trueRange;
+    } else if (this.count === this.period) {
+      this.value = (this.seedSum + trueRange) / this.period;
+    } else {
+      this.value = (this.value * (this.period - 1) + trueRange) / this.period;
+    }
+    return this.value;
+  }
+
+  public reset(): void {
+    this.previousClose = NaN;
+    this.count = 0;
+    this.seedSum = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * Computes the Average True Range of a row series.
+ *
+ * @param rows - Input rows
+ * @param period - Smoothing period. Defaults to 14
+ * @returns One value per row, `NaN` for the first `period - 1` rows
+ *
+ * @throws {IndicatorError} When the period is not a positive integer
+ */
+export function atr(rows: ArrayLike<Row>, period?: number): Float64Array {
+  return collect(rows, new Atr(period));
+}
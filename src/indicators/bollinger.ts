@@ -0,0 +1,119 @@
+// src/indicators/bollinger.ts
+import type { Row } from "../core/row.ts";
+import {
+  assertPeriod,
+  type Indicator,
+  priceOf,
+  type PriceSource,
+  RollingWindow,
+} from "./common.ts";
+
+/**
+ * A Bollinger Bands reading.
+ */
+export interface BollingerValue {
+  /** Simple moving average */
+  middle: number;
+  /** Middle band plus `multiplier` standard deviations */
+  upper: number;
+  /** Middle band minus `multiplier` standard deviations */
+  lower: number;
+}
+
+/**
+ * Bollinger Bands series for a batch of rows, one entry per row.
+ */
+export interface BollingerSeries {
+  middle: Float64Array;
+  upper: Float64Array;
+  lower: Float64Array;
+}
+
+/**
+ * Options for {@link BollingerBands}.
+ */
+export interface BollingerOptions {
+  /** Moving average period. Defaults to 20 */
+  period?: number;
+  /** Number of standard deviations for the bands. Defaults to 2 */
+  multiplier?: number;
+  /** Price to use. Defaults to `"close"` */
+  source?: PriceSource;
+}
+
+/**
+ * Bollinger Bands using the population standard deviation, updated
+ * incrementally.
+ *
+ * @example
+ * ```typescript
+ * const bands = new BollingerBands({ period: 20, multiplier: 2 });
+ * const { upper, lower } = bands.push(row);
+ * ```
+ */
+export class BollingerBands implements Indicator<BollingerValue> {
+  private window: RollingWindow;
+  private multiplier: number;
+  private source: PriceSource;
+  public value: BollingerValue = { middle: NaN, upper: NaN, lower: NaN };
+
+  /**
+   * @throws {IndicatorError} When the period is not a positive integer
+   */
+  constructor(options: BollingerOptions = {}) {
+    const period = options.period ?? 20;
+    assertPeriod("Bollinger period", period);
+    this.window = new RollingWindow(period);
+    this.multiplier = options.multiplier ?? 2;
+    this.source = options.source ?? "close";
+  }
+
+  public push(row: Row): BollingerValue {
+    const window = this.window;
+    window.push(priceOf(row, this.source));
+    if (!window.full) return this.value;
+
+    const middle = window.sum / window.size;
+    let variance = 0;
+    for (let i = 0; i < window.length; i++) {
+      const diff = window.at(i) - middle;
+      variance += diff * diff;
+    }
+    const width = this.multiplier * Math.sqrt(variance / window.size);
+    this.value = { middle, upper: middle + width, lower: middle - width };
+    return this.value;
+  }
+
+  public reset(): void {
+    this.window.clear();
+    this.value = { middle: NaN, upper: NaN, lower: NaN };
+  }
+}
+
+/**
+ * Computes Bollinger Bands for a row series.
+ *
+ * @param rows - Input rows
+ * @param options - Period, band width and price source
+ * @returns Middle, upper and lower band series, `NaN` during warm-up
+ *
+ * @throws {IndicatorError} When the period is not a positive integer
+ */
+export function bollingerBands(
+  rows: ArrayLike<Row>,
+  options?: BollingerOptions,
+): BollingerSeries {
+  const indicator = new BollingerBands(options);
+  const out: BollingerSeries = {
+    middle: new Float64Array(rows.length),
+    upper: new Float64Array(rows.length),
+    lower: new Float64Array(rows.length),
+  };
+  for (let i = 0; i < rows.length; i++) {
+    const value = indicator.push(rows[i]);
+    out.middle[i] = value.middle;
+    out.upper[i] = value.upper;
+    out.lower[i] = value.lower;
+  }
+  return out;
+}
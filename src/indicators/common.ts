@@ -0,0 +1,147 @@
+// src/indicators/common.ts
+import type { Row } from "../core/row.ts";
+import { IndicatorError } from "../core/errors.ts";
+
+/**
+ * Which price of a row an indicator is computed from.
+ *
+ * - `open`, `high`, `low`, `close`: the respective field
+ * - `hl2`: (high + low) / 2
+ * - `hlc3`: (high + low + close) / 3, the typical price
+ * - `ohlc4`: (open + high + low + close) / 4
+ */
+export type PriceSource =
+  | "open"
+  | "high"
+  | "low"
+  | "close"
+  | "hl2"
+  | "hlc3"
+  | "ohlc4";
+
+/**
+ * An indicator that is updated one row at a time.
+ *
+ * Values are `NaN` until enough rows have been pushed to fill the
+ * indicator's warm-up period.
+ *
+ * @example
+ * ```typescript
+ * const rsi = new Rsi(14);
+ * await parseStreamOptimizedOhlcv(stream, (row) => {
+ *   const value = rsi.push(row);
+ *   if (value > 70) console.log("overbought at", row.ts);
+ * });
+ * ```
+ */
+export interface Indicator<T> {
+  /** Adds the next row and returns the latest value */
+  push(row: Row): T;
+  /** The latest value */
+  readonly value: T;
+  /** Clears all state, as if no rows had been pushed */
+  reset(): void;
+}
+
+/**
+ * Extracts the configured price from a row.
+ */
+export function priceOf(row: Row, source: PriceSource): number {
+  switch (source) {
+    case "open":
+      return row.o;
+    case "high":
+      return row.h;
+    case "low":
+      return row.l;
+    case "close":
+      return row.c;
+    case "hl2":
+      return (row.h + row.l) / 2;
+    case "hlc3":
+      return (row.h + row.l + row.c) / 3;
+    case "ohlc4":
+      return (row.o + row.h + row.l + row.c) / 4;
+  }
+}
+
+/**
+ * Throws unless `period` is a positive integer.
+ *
+ * @throws {IndicatorError} When the period is invalid
+ */
+export function assertPeriod(name: string, period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new IndicatorError(
+      `${name} must be a positive integer, got ${period}`,
+    );
+  }
+}
+
+/**
+ * Fixed-size window over the most recent values, with a running sum.
+ */
+export class RollingWindow {
+  private values: Float64Array;
+  private start = 0;
+  public readonly size: number;
+  public length = 0;
+  public sum = 0;
+
+  constructor(size: number) {
+    this.size = size;
+    this.values = new Float64Array(size);
+  }
+
+  /** Adds a value, evicting the oldest one when the window is full */
+  public push(value: number): void {
+    if (this.length === this.size) {
+      this.sum -= this.values[this.start];
+      this.values[this.start] = value;
+      this.start = (this.start + 1) % this.size;
+    } else {
+      this.values[(this.start + this.length) % this.size] = value;
+      this.length++;
+    }
+    this.sum += value;
+  }
+
+  public get full(): boolean {
+    return this.length === this.size;
+  }
+
+  /** Value at position `i`, oldest first */
+  public at(i: number): number {
+    return this.values[(this.start + i) % this.size];
+  }
+
+  public max(): number {
+    let max = -Infinity;
+    for (let i = 0; i < this.length; i++) max = Math.max(max, this.at(i));
+    return max;
+  }
+
+  public min(): number {
+    let min = Infinity;
+    for (let i = 0; i < this.length; i++) min = Math.min(min, this.at(i));
+    return min;
+  }
+
+  public clear(): void {
+    this.start = 0;
+    this.length = 0;
+    this.sum = 0;
+  }
+}
+
+/**
+ * Runs a single-valued indicator over rows, collecting every value.
+ */
+export function collect(
+  rows: ArrayLike<Row>,
+  indicator: Indicator<number>,
+): Float64Array {
+  const out = new Float64Array(rows.length);
+  for (let i = 0; i < rows.length; i++) out[i] = indicator.push(rows[i]);
+  return out;
+}
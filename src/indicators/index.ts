@@ -0,0 +1,23 @@
+// src/indicators/index.ts
+export { Ema, ema, Sma, sma } from "./moving_average.ts";
+export { Rsi, rsi } from "./rsi.ts";
+export { Macd, macd } from "./macd.ts";
+export { BollingerBands, bollingerBands } from "./bollinger.ts";
+export { Atr, atr } from "./atr.ts";
+export { Obv, obv, Vwap, vwap } from "./volume.ts";
+export { Stochastic, stochastic } from "./stochastic.ts";
+export { priceOf } from "./common.ts";
+
+export type { Indicator, PriceSource } from "./common.ts";
+export type { MacdOptions, MacdSeries, MacdValue } from "./macd.ts";
+export type {
+  BollingerOptions,
+  BollingerSeries,
+  BollingerValue,
+} from "./bollinger.ts";
+export type { VwapOptions } from "./volume.ts";
+export type {
+  StochasticOptions,
+  StochasticSeries,
+  StochasticValue,
+} from "./stochastic.ts";
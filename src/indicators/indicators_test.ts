@@ -0,0 +1,339 @@
+// src/indicators/indicators_test.ts
+import { deepStrictEqual, ok, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { IndicatorError } from "../core/errors.ts";
+import type { Indicator } from "./common.ts";
+import {
+  Atr,
+  atr,
+  BollingerBands,
+  bollingerBands,
+  Ema,
+  ema,
+  Macd,
+  macd,
+  Obv,
+  obv,
+  priceOf,
+  Rsi,
+  rsi,
+  Sma,
+  sma,
+  Stochastic,
+  stochastic,
+  Vwap,
+  vwap,
+} from "./index.ts";
+
+/** Daily rows with only the close set, one day apart from 2023-01-01 */
+function closes(values: number[]): Row[] {
+  return values.map((c, i) => ({
+    ts: 1672531200 + i * 86400,
+    o: c,
+    h: c,
+    l: c,
+    c,
+    v: 1,
+  }));
+}
+
+/** Asserts that `actual` matches `expected` to `digits` decimals, NaN included */
+function assertClose(
+  actual: ArrayLike<number>,
+  expected: number[],
+  digits = 2,
+): void {
+  strictEqual(actual.length, expected.length);
+  for (let i = 0; i < expected.length; i++) {
+    if (isNaN(expected[i])) {
+      ok(isNaN(actual[i]), `index ${i}: expected NaN, got ${actual[i]}`);
+    } else {
+      const diff = Math.abs(actual[i] - expected[i]);
+      ok(
+        diff < 0.5 * 10 ** -digits,
+        `index ${i}: expected ${expected[i]}, got ${actual[i]}`,
+      );
+    }
+  }
+}
+
+/** Pushes rows one at a time, twice with a reset in between */
+function pushAll<T>(indicator: Indicator<T>, rows: Row[]): T[] {
+  const first = rows.map((row) => structuredClone(indicator.push(row)));
+  indicator.reset();
+  const second = rows.map((row) => structuredClone(indicator.push(row)));
+  deepStrictEqual(second, first);
+  deepStrictEqual(indicator.value, first[first.length - 1]);
+  return first;
+}
+
+/** Splits a series of objects into one array per field */
+function columns<T extends object>(values: T[]): Record<keyof T, number[]> {
+  const out = {} as Record<keyof T, number[]>;
+  for (const key of Object.keys(values[0]) as (keyof T)[]) {
+    out[key] = values.map((value) => value[key] as number);
+  }
+  return out;
+}
+
+// Deterministic hourly rows with trends, reversals and flat stretches
+const hourly: Row[] = Array.from({ length: 120 }, (_, i) => {
+  const c = 100 + 10 * Math.sin(i / 7) + (i % 5) - (i > 60 ? 4 : 0);
+  return {
+    ts: 1672531200 + i * 3600,
+    o: c - 0.5,
+    h: c + 1 + (i % 3),
+    l: c - 1 - (i % 4),
+    c,
+    v: 100 + ((i * 37) % 50),
+  };
+});
+
+// Reference series from the StockCharts EMA and RSI worked examples
+const emaCloses = [
+  22.27,
+  22.19,
+  22.08,
+  22.17,
+  22.18,
+  22.13,
+  22.23,
+  22.43,
+  22.24,
+  22.29,
+  22.15,
+  22.39,
+  22.38,
+  22.61,
+  23.36,
+  24.05,
+  23.75,
+  23.83,
+  23.95,
+  23.63,
+  23.82,
+  23.87,
+  23.65,
+  23.19,
+  23.10,
+  23.33,
+  22.68,
+  23.10,
+  22.40,
+  22.17,
+];
+const rsiCloses = [
+  44.34,
+  44.09,
+  44.15,
+  43.61,
+  44.33,
+  44.83,
+  45.10,
+  45.42,
+  45.84,
+  46.08,
+  45.89,
+  46.03,
+  45.61,
+  46.28,
+  46.28,
+  46.00,
+  46.03,
+  46.41,
+  46.22,
+  45.64,
+  46.21,
+  46.25,
+  45.71,
+  46.45,
+  45.78,
+  45.35,
+  44.03,
+  44.18,
+  44.22,
+  44.57,
+  43.42,
+  42.66,
+  43.13,
+];
+
+Deno.test("sma averages the last period closes", () => {
+  assertClose(sma(closes([1, 2, 3, 4, 6]), 3), [NaN, NaN, 2, 3, 4.33]);
+});
+
+Deno.test("ema seeds with the simple average and matches the reference series", () => {
+  assertClose(ema(closes(emaCloses), 10), [
+    ...Array(9).fill(NaN),
+    22.22,
+    22.21,
+    22.24,
+    22.27,
+    22.33,
+    22.52,
+    22.80,
+    22.97,
+    23.13,
+    23.28,
+    23.34,
+    23.43,
+    23.51,
+    23.53,
+    23.47,
+    23.40,
+    23.39,
+    23.26,
+    23.23,
+    23.08,
+    22.92,
+  ]);
+});
+
+Deno.test("rsi uses Wilder smoothing and matches the reference series", () => {
+  assertClose(rsi(closes(rsiCloses), 14), [
+    ...Array(14).fill(NaN),
+    70.46,
+    66.25,
+    66.48,
+    69.35,
+    66.29,
+    57.92,
+    62.88,
+    63.21,
+    56.01,
+    62.34,
+    54.67,
+    50.39,
+    40.02,
+    41.49,
+    41.90,
+    45.50,
+    37.32,
+    33.09,
+    37.79,
+  ]);
+});
+
+Deno.test("rsi is 100 without losses and 50 without changes", () => {
+  strictEqual(rsi(closes([1, 2, 3, 4]), 3)[3], 100);
+  strictEqual(rsi(closes([5, 5, 5, 5]), 3)[3], 50);
+});
+
+Deno.test("macd subtracts the slow ema and smooths the line into a signal", () => {
+  const series = macd(closes([1, 2, 3, 5, 8]), { fast: 2, slow: 3, signal: 2 });
+  assertClose(series.macd, [NaN, NaN, 0.5, 0.6667, 0.9722], 4);
+  assertClose(series.signal, [NaN, NaN, NaN, 0.5833, 0.8426], 4);
+  assertClose(series.histogram, [NaN, NaN, NaN, 0.0833, 0.1296], 4);
+});
+
+Deno.test("bollingerBands uses the population standard deviation", () => {
+  const bands = bollingerBands(closes([2, 4, 4, 4, 5, 5, 7, 9]), {
+    period: 8,
+  });
+  assertClose(bands.middle, [...Array(7).fill(NaN), 5]);
+  assertClose(bands.upper, [...Array(7).fill(NaN), 9]);
+  assertClose(bands.lower, [...Array(7).fill(NaN), 1]);
+});
+
+const ranges: Row[] = [
+  [10, 8, 9],
+  [11, 9, 10],
+  [12, 9, 11],
+  [11, 10, 10.5],
+  [15, 14, 14.5],
+].map(([h, l, c], i) => ({ ts: 1672531200 + i * 86400, o: c, h, l, c, v: 1 }));
+
+Deno.test("atr includes gaps from the previous close in the true range", () => {
+  assertClose(atr(ranges, 3), [NaN, NaN, 7 / 3, 17 / 9, 74.5 / 27], 6);
+});
+
+Deno.test("stochastic places the close within the range and smooths %K into %D", () => {
+  const series = stochastic(ranges, { kPeriod: 3, dPeriod: 2 });
+  assertClose(series.k, [NaN, NaN, 75, 50, 91.67]);
+  assertClose(series.d, [NaN, NaN, NaN, 62.5, 70.83]);
+  strictEqual(stochastic(closes([5, 5, 5]), { kPeriod: 2 }).k[2], 50);
+});
+
+Deno.test("obv adds volume on up closes and subtracts it on down closes", () => {
+  const rows = closes([10, 11, 10.5, 10.5, 12]).map((row, i) => ({
+    ...row,
+    v: 100 * (i + 1),
+  }));
+  deepStrictEqual(Array.from(obv(rows)), [0, 200, -100, -100, 400]);
+});
+
+Deno.test("vwap restarts at every anchor bucket", () => {
+  const day = 1672531200;
+  const rows: Row[] = [
+    { ts: day + 3600, o: 10, h: 10, l: 10, c: 10, v: 100 },
+    { ts: day + 7200, o: 20, h: 20, l: 20, c: 20, v: 300 },
+    { ts: day + 86400 + 3600, o: 30, h: 30, l: 30, c: 30, v: 50 },
+    { ts: day + 86400 + 7200, o: 40, h: 40, l: 40, c: 40, v: 0 },
+  ];
+  assertClose(vwap(rows, { anchor: "1d" }), [10, 17.5, 30, 30]);
+  assertClose(vwap(rows), [10, 17.5, 18.89, 18.89]);
+  ok(isNaN(vwap([{ ...rows[0], v: 0 }])[0]));
+});
+
+Deno.test("priceOf combines the row fields for each source", () => {
+  const row: Row = { ts: 0, o: 1, h: 4, l: 2, c: 3, v: 0 };
+  strictEqual(priceOf(row, "hl2"), 3);
+  strictEqual(priceOf(row, "hlc3"), 3);
+  strictEqual(priceOf(row, "ohlc4"), 2.5);
+  strictEqual(priceOf(row, "open"), 1);
+});
+
+Deno.test("incremental indicators match their batch functions", () => {
+  assertClose(
+    pushAll(new Sma(10, "hl2"), hourly),
+    [...sma(hourly, 10, "hl2")],
+    9,
+  );
+  assertClose(pushAll(new Ema(10), hourly), [...ema(hourly, 10)], 9);
+  assertClose(pushAll(new Rsi(14), hourly), [...rsi(hourly, 14)], 9);
+  assertClose(pushAll(new Atr(14), hourly), [...atr(hourly, 14)], 9);
+  assertClose(pushAll(new Obv(), hourly), [...obv(hourly)], 9);
+  const anchored = { anchor: "1d", timeZone: "America/New_York" };
+  assertClose(
+    pushAll(new Vwap(anchored), hourly),
+    [...vwap(hourly, anchored)],
+    9,
+  );
+
+  const macdSeries = macd(hourly);
+  const macdValues = columns(pushAll(new Macd(), hourly));
+  assertClose(macdValues.macd, [...macdSeries.macd], 9);
+  assertClose(macdValues.signal, [...macdSeries.signal], 9);
+  assertClose(macdValues.histogram, [...macdSeries.histogram], 9);
+
+  const bands = bollingerBands(hourly);
+  const bandValues = columns(pushAll(new BollingerBands(), hourly));
+  assertClose(bandValues.middle, [...bands.middle], 9);
+  assertClose(bandValues.upper, [...bands.upper], 9);
+  assertClose(bandValues.lower, [...bands.lower], 9);
+
+  const stoch = stochastic(hourly);
+  const stochValues = columns(pushAll(new Stochastic(), hourly));
+  assertClose(stochValues.k, [...stoch.k], 9);
+  assertClose(stochValues.d, [...stoch.d], 9);
+});
+
+Deno.test("sma pushValue matches push on the same prices", () => {
+  const byRow = new Sma(5);
+  const byValue = new Sma(5);
+  for (const row of hourly) {
+    strictEqual(byValue.pushValue(row.c), byRow.push(row));
+  }
+});
+
+Deno.test("indicators reject invalid periods", () => {
+  throws(() => new Sma(0), IndicatorError);
+  throws(() => new Ema(2.5), IndicatorError);
+  throws(() => new Rsi(-1), IndicatorError);
+  throws(() => new Atr(NaN), IndicatorError);
+  throws(() => new BollingerBands({ period: 0 }), IndicatorError);
+  throws(() => new Stochastic({ kPeriod: 0 }), IndicatorError);
+  throws(() => new Stochastic({ dPeriod: 0 }), IndicatorError);
+  throws(() => new Macd({ fast: 26, slow: 12 }), IndicatorError);
+  throws(() => macd(hourly, { fast: 12, slow: 12 }), IndicatorError);
+});
@@ -0,0 +1,120 @@
+// src/indicators/macd.ts
+import type { Row } from "../core/row.ts";
+import { IndicatorError } from "../core/errors.ts";
+import type { Indicator, PriceSource } from "./common.ts";
+import { Ema } from "./moving_average.ts";
+
+/**
+ * A MACD reading.
+ */
+export interface MacdValue {
+  /** Fast EMA minus slow EMA */
+  macd: number;
+  /** EMA of the MACD line */
+  signal: number;
+  /** MACD line minus signal line */
+  histogram: number;
+}
+
+/**
+ * MACD series for a batch of rows, one entry per row.
+ */
+export interface MacdSeries {
+  macd: Float64Array;
+  signal: Float64Array;
+  histogram: Float64Array;
+}
+
+/**
+ * Options for {@link Macd}.
+ */
+export interface MacdOptions {
+  /** Fast EMA period. Defaults to 12 */
+  fast?: number;
+  /** Slow EMA period. Defaults to 26 */
+  slow?: number;
+  /** Signal EMA period. Defaults to 9 */
+  signal?: number;
+  /** Price to use. Defaults to `"close"` */
+  source?: PriceSource;
+}
+
+/**
+ * Moving Average Convergence Divergence, updated incrementally.
+ *
+ * @example
+ * ```typescript
+ * const macd = new Macd();
+ * const { histogram } = macd.push(row);
+ * ```
+ */
+export class Macd implements Indicator<MacdValue> {
+  private fastEma: Ema;
+  private slowEma: Ema;
+  private signalEma: Ema;
+  public value: MacdValue = { macd: NaN, signal: NaN, histogram: NaN };
+
+  /**
+   * @throws {IndicatorError} When a period is invalid or `fast >= slow`
+   */
+  constructor(options: MacdOptions = {}) {
+    const fast = options.fast ?? 12;
+    const slow = options.slow ?? 26;
+    this.fastEma = new Ema(fast, options.source);
+    this.slowEma = new Ema(slow, options.source);
+    this.signalEma = new Ema(options.signal ?? 9);
+    if (fast >= slow) {
+      throw new IndicatorError(
+        `MACD fast period (${fast}) must be shorter than slow period (${slow})`,
+      );
+    }
+  }
+
+  public push(row: Row): MacdValue {
+    const fast = this.fastEma.push(row);
+    const slow = this.slowEma.push(row);
+    const macd = fast - slow;
+    const signal = isNaN(macd) ? NaN : this.signalEma.pushValue(macd);
+    this.value = { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+
+  public reset(): void {
+    this.fastEma.reset();
+    this.slowEma.reset();
+    this.signalEma.reset();
+    this.value = { macd: NaN, signal: NaN, histogram: NaN };
+  }
+}
+
+/**
+ * Computes MACD for a row series.
+ *
+ * @param rows - Input rows
+ * @param options - Periods and price source
+ * @returns MACD, signal and histogram series
+ *
+ * @throws {IndicatorError} When a period is invalid or `fast >= slow`
+ *
+ * @example
+ * ```typescript
+ * import { macd } from "@mso/ohlcv/indicators";
+ *
+ * const { macd: line, signal } = macd(rows, { fast: 12, slow: 26, signal: 9 });
+ * ```
+ */
+export function macd(rows: ArrayLike<Row>, options?: MacdOptions): MacdSeries {
+  const indicator = new Macd(options);
+  const out: MacdSeries = {
+    macd: new Float64Array(rows.length),
+    signal: new Float64Array(rows.length),
+    histogram: new Float64Array(rows.length),
+  };
+  for (let i = 0; i < rows.length; i++) {
+    const value = indicator.push(rows[i]);
+    out.macd[i] = value.macd;
+    out.signal[i] = value.signal;
+    out.histogram[i] = value.histogram;
+  }
+  return out;
+}
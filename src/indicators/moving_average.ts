@@ -0,0 +1,155 @@
+// src/indicators/moving_average.ts
+import type { Row } from "../core/row.ts";
+import {
+  assertPeriod,
+  collect,
+  type Indicator,
+  priceOf,
+  type PriceSource,
+  RollingWindow,
+} from "./common.ts";
+
+/**
+ * Simple moving average, updated incrementally.
+ *
+ * @example
+ * ```typescript
+ * const sma20 = new Sma(20);
+ * for (const row of rows) sma20.push(row);
+ * console.log(sma20.value);
+ * ```
+ */
+export class Sma implements Indicator<number> {
+  private window: RollingWindow;
+  private source: PriceSource;
+  public value = NaN;
+
+  /**
+   * @param period - Number of rows averaged
+   * @param source - Price to average. Defaults to `"close"`
+   *
+   * @throws {IndicatorError} When the period is not a positive integer
+   */
+  constructor(period: number, source: PriceSource = "close") {
+    assertPeriod("SMA period", period);
+    this.window = new RollingWindow(period);
+    this.source = source;
+  }
+
+  public push(row: Row): number {
+    return this.pushValue(priceOf(row, this.source));
+  }
+
+  /** Adds a raw value instead of a row */
+  public pushValue(value: number): number {
+    this.window.push(value);
+    this.value = this.window.full ? this.window.sum / this.window.size : NaN;
+    return this.value;
+  }
+
+  public reset(): void {
+    this.window.clear();
+    this.value = NaN;
+  }
+}
+
+/**
+ * Exponential moving average, updated incrementally.
+ *
+ * Uses a smoothing factor of `2 / (period + 1)` and is seeded with the simple
+ * average of the first `period` values.
+ *
+ * @example
+ * ```typescript
+ * const ema = new Ema(12);
+ * const latest = ema.push(row);
+ * ```
+ */
+export class Ema implements Indicator<number> {
+  private period: number;
+  private alpha: number;
+  private source: PriceSource;
+  private count = 0;
+  private seedSum = 0;
+  public value = NaN;
+
+  /**
+   * @param period - Smoothing period
+   * @param source - Price to average. Defaults to `"close"`
+   *
+   * @throws {IndicatorError} When the period is not a positive integer
+   */
+  constructor(period: number, source: PriceSource = "close") {
+    assertPeriod("EMA period", period);
+    this.period = period;
+    this.alpha = 2 / (period + 1);
+    this.source = source;
+  }
+
+  public push(row: Row): number {
+    return this.pushValue(priceOf(row, this.source));
+  }
+
+  /** Adds a raw value instead of a row */
+  public pushValue(value: number): number {
+    this.count++;
+    if (this.count < this.period) {
+      this.seedSum += value;
+    } else if (this.count === this.period) {
+      this.value = (this.seedSum + value) / this.period;
+    } else {
+      this.value += this.alpha * (value - this.value);
+    }
+    return this.value;
+  }
+
+  public reset(): void {
+    this.count = 0;
+    this.seedSum = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * Computes the simple moving average of a row series.
+ *
+ * @param rows - Input rows
+ * @param period - Number of rows averaged
+ * @param source - Price to average. Defaults to `"close"`
+ * @returns One value per row, `NaN` for the first `period - 1` rows
+ *
+ * @throws {IndicatorError} When the period is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * import { sma } from "@mso/ohlcv/indicators";
+ *
+ * const ma20 = sma(rows, 20);
+ * console.log(ma20[ma20.length - 1]);
+ * ```
+ */
+export function sma(
+  rows: ArrayLike<Row>,
+  period: number,
+  source?: PriceSource,
+): Float64Array {
+  return collect(rows, new Sma(period, source));
+}
+
+/**
+ * Computes the exponential moving average of a row series.
+ *
+ * @param rows - Input rows
+ * @param period - Smoothing period
+ * @param source - Price to average. Defaults to `"close"`
+ * @returns One value per row, `NaN` for the first `period - 1` rows
+ *
+ * @throws {IndicatorError} When the period is not a positive integer
+ */
+export function ema(
+  rows: ArrayLike<Row>,
+  period: number,
+  source?: PriceSource,
+): Float64Array {
+  return collect(rows, new Ema(period, source));
+}
@@ -0,0 +1,97 @@
+// src/indicators/rsi.ts
+import type { Row } from "../core/row.ts";
+import {
+  assertPeriod,
+  collect,
+  type Indicator,
+  priceOf,
+  type PriceSource,
+} from "./common.ts";
+
+/**
+ * Relative Strength Index with Wilder smoothing, updated incrementally.
+ *
+ * The first average gain and loss are simple averages over `period`
+ * changes; later ones are smoothed as `(previous * (period - 1) + current) /
+ * period`. A series without losses reads 100, one without any change 50.
+ *
+ * @example
+ * ```typescript
+ * const rsi = new Rsi(14);
+ * for (const row of rows) rsi.push(row);
+ * console.log(`RSI(14): ${rsi.value.toFixed(2)}`);
+ * ```
+ */
+export class Rsi implements Indicator<number> {
+  private period: number;
+  private source: PriceSource;
+  private previous = NaN;
+  private changes = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  public value = NaN;
+
+  /**
+   * @param period - Smoothing period. Defaults to 14
+   * @param source - Price to use. Defaults to `"close"`
+   *
+   * @throws {IndicatorError} When the period is not a positive integer
+   */
+  constructor(period: number = 14, source: PriceSource = "close") {
+    assertPeriod("RSI period", period);
+    this.period = period;
+    this.source = source;
+  }
+
+  public push(row: Row): number {
+    const price = priceOf(row, this.source);
+    const previous = this.previous;
+    this.previous = price;
+    if (isNaN(previous)) return this.value;
+
+    const change = price - previous;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    this.changes++;
+
+    if (this.changes <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.changes < this.period) return this.value;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.value = this.avgLoss === 0
+      ? (this.avgGain === 0 ? 50 : 100)
+      : 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    return this.value;
+  }
+
+  public reset(): void {
+    this.previous = NaN;
+    this.changes = 0;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * Computes the Relative Strength Index of a row series.
+ *
+ * @param rows - Input rows
+ * @param period - Smoothing period. Defaults to 14
+ * @param source - Price to use. Defaults to `"close"`
+ * @returns One value per row, `NaN` for the first `period` rows
+ *
+ * @throws {IndicatorError} When the period is not a positive integer
+ */
+export function rsi(
+  rows: ArrayLike<Row>,
+  period?: number,
+  source?: PriceSource,
+): Float64Array {
+  return collect(rows, new Rsi(period, source));
+}
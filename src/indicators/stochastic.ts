@@ -0,0 +1,108 @@
+// src/indicators/stochastic.ts
+import type { Row } from "../core/row.ts";
+import { assertPeriod, type Indicator, RollingWindow } from "./common.ts";
+import { Sma } from "./moving_average.ts";
+
+/**
+ * A Stochastic Oscillator reading.
+ */
+export interface StochasticValue {
+  /** %K: position of the close within the recent high-low range, 0-100 */
+  k: number;
+  /** %D: simple moving average of %K */
+  d: number;
+}
+
+/**
+ * Stochastic Oscillator series for a batch of rows, one entry per row.
+ */
+export interface StochasticSeries {
+  k: Float64Array;
+  d: Float64Array;
+}
+
+/**
+ * Options for {@link Stochastic}.
+ */
+export interface StochasticOptions {
+  /** Look-back period for the high-low range. Defaults to 14 */
+  kPeriod?: number;
+  /** Smoothing period of %D. Defaults to 3 */
+  dPeriod?: number;
+}
+
+/**
+ * Fast Stochastic Oscillator, updated incrementally.
+ *
+ * When the high-low range is zero, %K reads 50.
+ *
+ * @example
+ * ```typescript
+ * const stoch = new Stochastic({ kPeriod: 14, dPeriod: 3 });
+ * const { k, d } = stoch.push(row);
+ * ```
+ */
+export class Stochastic implements Indicator<StochasticValue> {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+  private dSma: Sma;
+  public value: StochasticValue = { k: NaN, d: NaN };
+
+  /**
+   * @throws {IndicatorError} When a period is not a positive integer
+   */
+  constructor(options: StochasticOptions = {}) {
+    const kPeriod = options.kPeriod ?? 14;
+    assertPeriod("Stochastic %K period", kPeriod);
+    this.highs = new RollingWindow(kPeriod);
+    this.lows = new RollingWindow(kPeriod);
+    this.dSma = new Sma(options.dPeriod ?? 3);
+  }
+
+  public push(row: Row): StochasticValue {
+    this.highs.push(row.h);
+    this.lows.push(row.l);
+    if (!this.highs.full) return this.value;
+
+    const highest = this.highs.max();
+    const lowest = this.lows.min();
+    const k = highest === lowest
+      ? 50
+      : (100 * (row.c - lowest)) / (highest - lowest);
+    this.value = { k, d: this.dSma.pushValue(k) };
+    return this.value;
+  }
+
+  public reset(): void {
+    this.highs.clear();
+    this.lows.clear();
+    this.dSma.reset();
+    this.value = { k: NaN, d: NaN };
+  }
+}
+
+/**
+ * Computes the Stochastic Oscillator for a row series.
+ *
+ * @param rows - Input rows
+ * @param options - %K and %D periods
+ * @returns %K and %D series, `NaN` during warm-up
+ *
+ * @throws {IndicatorError} When a period is not a positive integer
+ */
+export function stochastic(
+  rows: ArrayLike<Row>,
+  options?: StochasticOptions,
+): StochasticSeries {
+  const indicator = new Stochastic(options);
+  const out: StochasticSeries = {
+    k: new Float64Array(rows.length),
+    d: new Float64Array(rows.length),
+  };
+  for (let i = 0; i < rows.length; i++) {
+    const value = indicator.push(rows[i]);
+    out.k[i] = value.k;
+    out.d[i] = value.d;
+  }
+  return out;
+}
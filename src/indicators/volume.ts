@@ -0,0 +1,144 @@
+// src/indicators/volume.ts
+import type { Row } from "../core/row.ts";
+import {
+  type BucketAlignment,
+  bucketStart,
+  parseTimeframe,
+  type Timeframe,
+} from "../resample/timeframe.ts";
+import {
+  collect,
+  type Indicator,
+  priceOf,
+  type PriceSource,
+} from "./common.ts";
+
+/**
+ * Options for {@link Vwap}.
+ */
+export interface VwapOptions extends BucketAlignment {
+  /**
+   * Restart the average at every bucket of this timeframe, e.g. `"1d"` for a
+   * session VWAP on intraday data. Cumulative over all rows when omitted.
+   */
+  anchor?: string | Timeframe;
+  /** Price to weight. Defaults to `"hlc3"`, the typical price */
+  source?: PriceSource;
+}
+
+/**
+ * Volume Weighted Average Price, updated incrementally.
+ *
+ * `NaN` while no volume has been traded since the last anchor.
+ *
+ * @example
+ * ```typescript
+ * const vwap = new Vwap({ anchor: "1d", timeZone: "America/New_York" });
+ * const value = vwap.push(row);
+ * ```
+ */
+export class Vwap implements Indicator<number> {
+  private anchor?: Timeframe;
+  private alignment: BucketAlignment;
+  private source: PriceSource;
+  private currentBucket = NaN;
+  private priceVolume = 0;
+  private volume = 0;
+  public value = NaN;
+
+  /**
+   * @throws {ResampleError} When the anchor timeframe is not recognised
+   */
+  constructor(options: VwapOptions = {}) {
+    this.anchor = options.anchor !== undefined
+      ? parseTimeframe(options.anchor)
+      : undefined;
+    this.alignment = {
+      weekStart: options.weekStart,
+      timeZone: options.timeZone,
+    };
+    this.source = options.source ?? "hlc3";
+  }
+
+  public push(row: Row): number {
+    if (this.anchor) {
+      const bucket = bucketStart(row.ts, this.anchor, this.alignment);
+      if (bucket !== this.currentBucket) {
+        this.currentBucket = bucket;
+        this.priceVolume = 0;
+        this.volume = 0;
+      }
+    }
+    this.priceVolume += priceOf(row, this.source) * row.v;
+    this.volume += row.v;
+    this.value = this.volume === 0 ? NaN : this.priceVolume / this.volume;
+    return this.value;
+  }
+
+  public reset(): void {
+    this.currentBucket = NaN;
+    this.priceVolume = 0;
+    this.volume = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * On-Balance Volume, updated incrementally.
+ *
+ * Starts at 0 and adds the row's volume when the close rises, subtracts it
+ * when the close falls.
+ *
+ * @example
+ * ```typescript
+ * const obv = new Obv();
+ * for (const row of rows) obv.push(row);
+ * ```
+ */
+export class Obv implements Indicator<number> {
+  private previousClose = NaN;
+  public value = NaN;
+
+  public push(row: Row): number {
+    if (isNaN(this.previousClose)) {
+      this.value = 0;
+    } else if (row.c > this.previousClose) {
+      this.value += row.v;
+    } else if (row.c < this.previousClose) {
+      this.value -= row.v;
+    }
+    this.previousClose = row.c;
+    return this.value;
+  }
+
+  public reset(): void {
+    this.previousClose = NaN;
+    this.value = NaN;
+  }
+}
+
+/**
+ * Computes the Volume Weighted Average Price of a row series.
+ *
+ * @param rows - Input rows in ascending timestamp order
+ * @param options - Anchor timeframe and price source
+ * @returns One value per row
+ *
+ * @throws {ResampleError} When the anchor timeframe is not recognised
+ */
+export function vwap(
+  rows: ArrayLike<Row>,
+  options?: VwapOptions,
+): Float64Array {
+  return collect(rows, new Vwap(options));
+}
+
+/**
+ * Computes the On-Balance Volume of a row series.
+ *
+ * @param rows - Input rows
+ * @returns One value per row
+ */
+export function obv(rows: ArrayLike<Row>): Float64Array {
+  return collect(rows, new Obv());
+}
@@ -0,0 +1,267 @@
+// src/parser/_json_row.ts
+import type { Row } from "../core/row.ts";
+import { createTimestampParser, type TimestampParser } from "../utils/date.ts";
+import {
+  DateError,
+  InvalidCloseError,
+  InvalidFormatError,
+  InvalidHighError,
+  InvalidLowError,
+  InvalidOpenError,
+  InvalidTimestampError,
+  InvalidVolumeError,
+  type ParseError,
+} from "../core/errors.ts";
+import {
+  type ColumnMapping,
+  resolveColumnMapping,
+  ROW_FIELD_NAMES,
+  ROW_FIELDS,
+  type RowField,
+} from "./columns.ts";
+import type { ParseOptions, RowCallback, SkipErrorCallback } from "./common.ts";
+import { stripBom } from "./dialect.ts";
+import { createValidator, validateParsedRow } from "./_validation.ts";
+import type { RowValidator } from "../validation/validator.ts";
+
+type PriceField = Exclude<RowField, "ts">;
+
+const FIELD_ERRORS: Readonly<Record<PriceField, typeof ParseError>> = {
+  o: InvalidOpenError,
+  h: InvalidHighError,
+  l: InvalidLowError,
+  c: InvalidCloseError,
+  v: InvalidVolumeError,
+};
+
+const FIELD_LABELS: Readonly<Record<PriceField, string>> = {
+  o: "Open",
+  h: "High",
+  l: "Low",
+  c: "Close",
+  v: "Volume",
+};
+
+function describe(value: unknown): string {
+  return value === undefined ? "missing" : JSON.stringify(value);
+}
+
+/**
+ * Converts parsed JSON values, either `[ts, o, h, l, c, v]` arrays or
+ * objects keyed by field name, into rows.
+ *
+ * Array positions follow `options.schema`, or the canonical order; elements
+ * past the mapped positions are ignored, as exchange klines carry extra
+ * fields. Object keys are resolved from the first object, by schema names or
+ * the default header aliases. Numbers may be JSON numbers or numeric strings.
+ */
+export class JsonRowReader {
+  private parseTimestamp: TimestampParser;
+  private schema: ParseOptions["schema"];
+  private arrayMapping?: ColumnMapping;
+  private objectKeys?: Record<RowField, string>;
+
+  constructor(options: ParseOptions = {}) {
+    this.parseTimestamp = createTimestampParser(options.timestamp);
+    this.schema = options.schema;
+  }
+
+  private resolveObjectKeys(value: object): Record<RowField, string> {
+    const keys = Object.keys(value);
+    const mapping = resolveColumnMapping(this.schema, keys);
+    const objectKeys = {} as Record<RowField, string>;
+    for (const field of ROW_FIELDS) {
+      objectKeys[field] = keys[mapping.indexes[field]];
+    }
+    return objectKeys;
+  }
+
+  private readTimestamp(
+    value: unknown,
+    lineNumber: number,
+    lineContent: string,
+  ): number {
+    try {
+      if (typeof value === "number") return this.parseTimestamp(String(value));
+      if (typeof value === "string") return this.parseTimestamp(value.trim());
+      throw new TypeError("Expected a number or string");
+    } catch (e) {
+      if (e instanceof DateError) throw e;
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new InvalidTimestampError(
+        `Timestamp: ${describe(value)} - ${reason}`,
+        { lineNumber, lineContent, invalidField: "timestamp", reason },
+      );
+    }
+  }
+
+  private readNumber(
+    field: PriceField,
+    value: unknown,
+    lineNumber: number,
+    lineContent: string,
+  ): number {
+    const number = typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim().length > 0
+      ? +value
+      : NaN;
+    if (isNaN(number)) {
+      throw new FIELD_ERRORS[field](
+        `${FIELD_LABELS[field]}: ${describe(value)}`,
+        { lineNumber, lineContent, invalidField: ROW_FIELD_NAMES[field] },
+      );
+    }
+    return number;
+  }
+
+  /**
+   * Converts one JSON value to a row.
+   *
+   * @throws {ParseError} A subclass naming the invalid field, as thrown by
+   * the CSV parsers, or an `InvalidFormatError` when the value has the wrong
+   * shape or, for the first object, keys that cannot be mapped to the fields
+   */
+  public read(value: unknown, lineNumber: number, lineContent: string): Row {
+    let get: (field: RowField) => unknown;
+    if (Array.isArray(value)) {
+      const mapping = this.arrayMapping ??= resolveColumnMapping(this.schema);
+      if (value.length < mapping.minFields) {
+        throw new InvalidFormatError(
+          `Expected at least ${mapping.minFields} values, got ${value.length}.`,
+          { lineNumber, lineContent },
+        );
+      }
+      get = (field) => value[mapping.indexes[field]];
+    } else if (value !== null && typeof value === "object") {
+      const keys = this.objectKeys ??= this.resolveObjectKeys(value);
+      const record = value as Record<string, unknown>;
+      get = (field) => record[keys[field]];
+    } else {
+      throw new InvalidFormatError(
+        `Expected an array or object, got ${describe(value)}.`,
+        { lineNumber, lineContent },
+      );
+    }
+
+    const row: Row = {
+      ts: this.readTimestamp(get("ts"), lineNumber, lineContent),
+      o: this.readNumber("o", get("o"), lineNumber, lineContent),
+      h: this.readNumber("h", get("h"), lineNumber, lineContent),
+      l: this.readNumber("l", get("l"), lineNumber, lineContent),
+      c: this.readNumber("c", get("c"), lineNumber, lineContent),
+      v: this.readNumber("v", get("v"), lineNumber, lineContent),
+    };
+    if (
+      row.o === 0 && row.h === 0 && row.l === 0 && row.c === 0 && row.v === 0
+    ) {
+      throw new InvalidFormatError("All zero values", {
+        lineNumber,
+        lineContent,
+      });
+    }
+    return row;
+  }
+}
+
+/**
+ * Reads JSON values through a {@link JsonRowReader}, validating the rows and
+ * reporting malformed values as skipped lines.
+ */
+export class JsonRowSink {
+  private reader: JsonRowReader;
+  private validator?: RowValidator;
+  private onRow: RowCallback;
+  private onSkip?: SkipErrorCallback;
+  public rowCount: number = 0;
+
+  constructor(
+    onRow: RowCallback,
+    onSkip: SkipErrorCallback | undefined,
+    options: ParseOptions,
+  ) {
+    this.reader = new JsonRowReader(options);
+    this.validator = createValidator(options);
+    this.onRow = onRow;
+    this.onSkip = onSkip;
+  }
+
+  public push(value: unknown, lineNumber: number, lineContent: string): void {
+    let row: Row;
+    try {
+      row = this.reader.read(value, lineNumber, lineContent);
+    } catch (e) {
+      const error = e as ParseError;
+      this.onSkip?.(error, lineNumber, lineContent, error.details);
+      return;
+    }
+    const validated = validateParsedRow(
+      this.validator,
+      row,
+      lineNumber,
+      lineContent,
+      this.onSkip,
+    );
+    if (validated) {
+      this.onRow(validated);
+      this.rowCount++;
+    }
+  }
+}
+
+/**
+ * Splits NDJSON text into lines and parses each as a JSON value.
+ */
+export class NdjsonScanner {
+  private lineBuffer: string = "";
+  private currentLineNumber: number = 0;
+  private atInputStart: boolean = true;
+  private sink: JsonRowSink;
+  private onSkip?: SkipErrorCallback;
+
+  constructor(sink: JsonRowSink, onSkip?: SkipErrorCallback) {
+    this.sink = sink;
+    this.onSkip = onSkip;
+  }
+
+  private processLine(rawLine: string): void {
+    this.currentLineNumber++;
+    const line = rawLine.trim();
+    if (line.length === 0) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      const error = new InvalidFormatError(`Invalid JSON: ${reason}`, {
+        lineNumber: this.currentLineNumber,
+        lineContent: line,
+        reason,
+      });
+      this.onSkip?.(error, this.currentLineNumber, line, error.details);
+      return;
+    }
+    this.sink.push(value, this.currentLineNumber, line);
+  }
+
+  public push(text: string): void {
+    if (this.atInputStart && text.length > 0) {
+      this.atInputStart = false;
+      text = stripBom(text);
+    }
+    this.lineBuffer += text;
+    let newlineIndex;
+    let lineStart = 0;
+    while ((newlineIndex = this.lineBuffer.indexOf("\n", lineStart)) >= 0) {
+      this.processLine(this.lineBuffer.slice(lineStart, newlineIndex));
+      lineStart = newlineIndex + 1;
+    }
+    this.lineBuffer = this.lineBuffer.slice(lineStart);
+  }
+
+  public finish(decoderRemainder: string = ""): void {
+    this.push(decoderRemainder);
+    if (this.lineBuffer.length > 0) this.processLine(this.lineBuffer);
+    this.lineBuffer = "";
+  }
+}
@@ -0,0 +1,423 @@
+// src/parser/_ohlcv_line.ts
+import type { Row } from "../core/row.ts";
+import { createTimestampParser, type TimestampParser } from "../utils/date.ts";
+import {
+  EXPECTED_FIELDS,
+  type ParseOptions,
+  type SkipErrorCallback,
+  SKIPPED_HEADER,
+  SKIPPED_HEADER_LAST_LINE,
+} from "./common.ts";
+import {
+  DateError,
+  HeaderSkipError,
+  InvalidCloseError,
+  InvalidFormatError,
+  InvalidHighError,
+  InvalidLowError,
+  InvalidOpenError,
+  InvalidTimestampError,
+  InvalidVolumeError,
+  ParseError,
+  type ParseErrorDetails,
+} from "../core/errors.ts";
+import {
+  type ColumnMapping,
+  resolveColumnMapping,
+  ROW_FIELD_NAMES,
+} from "./columns.ts";
+import {
+  DEFAULT_DIALECT,
+  isCommentLine,
+  normalizeNumber,
+  type ResolvedDialect,
+  resolveDialect,
+  splitFields,
+  stripBom,
+} from "./dialect.ts";
+
+/**
+ * Why a line could not be parsed: the error to report, as the other parsers
+ * would, and the details to pass to the skip callback.
+ */
+export interface LineFailure {
+  error: ParseError | DateError;
+  details?: ParseErrorDetails;
+}
+
+type PriceField = "o" | "h" | "l" | "c" | "v";
+
+const FIELD_ERRORS: Readonly<
+  Record<PriceField, new (message: string) => ParseError>
+> = {
+  o: InvalidOpenError,
+  h: InvalidHighError,
+  l: InvalidLowError,
+  c: InvalidCloseError,
+  v: InvalidVolumeError,
+};
+
+const FIELD_LABELS: Readonly<Record<PriceField, string>> = {
+  o: "Open",
+  h: "High",
+  l: "Low",
+  c: "Close",
+  v: "Volume",
+};
+
+function fieldCountFailure(count: number, expected: number): LineFailure {
+  return {
+    error: new InvalidFormatError(
+      `Incorrect field count (${count}), expected ${expected}`,
+    ),
+    details: { reason: `Expected ${expected} fields, got ${count}` },
+  };
+}
+
+function timestampFailure(value: string, e: unknown): LineFailure {
+  const reason = e instanceof Error ? e.message : "Not a valid timestamp";
+  return {
+    error: e instanceof ParseError || e instanceof DateError
+      ? e
+      : new InvalidTimestampError(`Date: "${value}" - ${reason}`),
+    details: { invalidField: "timestamp", reason },
+  };
+}
+
+/**
+ * Finds the first field of a parsed row that is not a number.
+ */
+function numberFailure(
+  row: Row,
+  value: (field: PriceField) => string,
+): LineFailure | undefined {
+  for (const field of ["o", "h", "l", "c", "v"] as const) {
+    if (isNaN(row[field])) {
+      const raw = value(field);
+      return {
+        error: new FIELD_ERRORS[field](`${FIELD_LABELS[field]}: "${raw}"`),
+        details: {
+          invalidField: ROW_FIELD_NAMES[field],
+          reason: `Expected a number, got "${raw}"`,
+        },
+      };
+    }
+  }
+  return undefined;
+}
+
+function isAllZero(row: Row): boolean {
+  return row.o === 0 && row.h === 0 && row.l === 0 && row.c === 0 &&
+    row.v === 0 && row.ts !== 0;
+}
+
+function allZeroFailure(): LineFailure {
+  return { error: new InvalidFormatError("All zero values") };
+}
+
+function parseOhlcvLineMappedInternal(
+  line: string,
+  mapping: ColumnMapping,
+  parseTimestamp: TimestampParser,
+  row: Row,
+  dialect: ResolvedDialect,
+): LineFailure | undefined {
+  const fields = splitFields(line, dialect);
+  if (fields.length < mapping.minFields) {
+    return fieldCountFailure(fields.length, mapping.minFields);
+  }
+  if (fields.length > mapping.maxFields) {
+    return fieldCountFailure(fields.length, mapping.maxFields);
+  }
+  const { indexes } = mapping;
+
+  const timestamp = fields[indexes.ts].trim();
+  try {
+    row.ts = parseTimestamp(timestamp);
+  } catch (e) {
+    return timestampFailure(timestamp, e);
+  }
+  if (isNaN(row.ts)) return timestampFailure(timestamp, undefined);
+  row.o = +normalizeNumber(fields[indexes.o], dialect);
+  row.h = +normalizeNumber(fields[indexes.h], dialect);
+  row.l = +normalizeNumber(fields[indexes.l], dialect);
+  row.c = +normalizeNumber(fields[indexes.c], dialect);
+  row.v = +normalizeNumber(fields[indexes.v], dialect);
+  if (
+    isNaN(row.o) || isNaN(row.h) || isNaN(row.l) || isNaN(row.c) ||
+    isNaN(row.v)
+  ) {
+    return numberFailure(row, (field) => fields[indexes[field]].trim());
+  }
+  return isAllZero(row) ? allZeroFailure() : undefined;
+}
+
+/**
+ * Parses an OHLCV line into `row`, overwriting its fields.
+ *
+ * Lines in the canonical six-column layout are split by a manual comma scan;
+ * other column mappings, other dialects and quoted lines fall back to
+ * splitting into fields.
+ *
+ * @returns Undefined when the line holds a valid row, otherwise why it does
+ * not
+ */
+export function parseOhlcvLineOptimized(
+  line: string,
+  mapping: ColumnMapping,
+  parseTimestamp: TimestampParser,
+  row: Row,
+  dialect: ResolvedDialect = DEFAULT_DIALECT,
+): LineFailure | undefined {
+  if (!mapping.isDefault || !dialect.isDefault) {
+    return parseOhlcvLineMappedInternal(
+      line,
+      mapping,
+      parseTimestamp,
+      row,
+      dialect,
+    );
+  }
+  const failure = parseCanonicalLine(line, parseTimestamp, row);
+  // Quotes make the comma scan fail, so only then is the line split properly.
+  if (
+    failure !== undefined && dialect.quote !== null &&
+    line.includes(dialect.quote)
+  ) {
+    return parseOhlcvLineMappedInternal(
+      line,
+      mapping,
+      parseTimestamp,
+      row,
+      dialect,
+    );
+  }
+  return failure;
+}
+
+function parseCanonicalLine(
+  line: string,
+  parseTimestamp: TimestampParser,
+  row: Row,
+): LineFailure | undefined {
+  let p1 = -1, p2 = -1, p3 = -1, p4 = -1, p5 = -1;
+  let commaCount = 0;
+
+  for (let i = 0; i < line.length; ++i) {
+    // comma acii
+    if (line.charCodeAt(i) === 44) {
+      commaCount++;
+      if (commaCount === 1) p1 = i;
+      else if (commaCount === 2) p2 = i;
+      else if (commaCount === 3) p3 = i;
+      else if (commaCount === 4) p4 = i;
+      else if (commaCount === 5) {
+        p5 = i;
+        break;
+      }
+    }
+  }
+
+  if (commaCount !== 5) {
+    return fieldCountFailure(commaCount + 1, EXPECTED_FIELDS);
+  }
+
+  const timestamp = line.substring(0, p1);
+  try {
+    row.ts = parseTimestamp(timestamp);
+  } catch (e) {
+    return timestampFailure(timestamp, e);
+  }
+  if (isNaN(row.ts)) return timestampFailure(timestamp, undefined);
+  row.o = +line.substring(p1 + 1, p2);
+  row.h = +line.substring(p2 + 1, p3);
+  row.l = +line.substring(p3 + 1, p4);
+  row.c = +line.substring(p4 + 1, p5);
+  row.v = +line.substring(p5 + 1);
+
+  if (
+    isNaN(row.o) || isNaN(row.h) || isNaN(row.l) || isNaN(row.c) ||
+    isNaN(row.v)
+  ) {
+    // The scan stops at the fifth comma, so extra fields end up in the volume.
+    const volume = line.substring(p5 + 1);
+    if (volume.includes(",")) {
+      return fieldCountFailure(line.split(",").length, EXPECTED_FIELDS);
+    }
+    const bounds = { o: [p1, p2], h: [p2, p3], l: [p3, p4], c: [p4, p5] };
+    return numberFailure(
+      row,
+      (field) =>
+        field === "v"
+          ? volume
+          : line.substring(bounds[field][0] + 1, bounds[field][1]),
+    );
+  }
+  return isAllZero(row) ? allZeroFailure() : undefined;
+}
+
+/**
+ * Resolves the column mapping from a skipped header line, falling back to
+ * positional columns when its names are not recognised.
+ */
+export function resolveHeaderMapping(
+  headerLine: string,
+  options: ParseOptions,
+  dialect: ResolvedDialect = DEFAULT_DIALECT,
+): ColumnMapping {
+  if (options.detectHeader === false) {
+    return resolveColumnMapping(options.schema);
+  }
+  try {
+    return resolveColumnMapping(
+      options.schema,
+      splitFields(headerLine, dialect),
+    );
+  } catch (e) {
+    if (!(e instanceof InvalidFormatError)) throw e;
+    // Unrecognised header names: fall back to positional columns.
+    return resolveColumnMapping(options.schema);
+  }
+}
+
+/**
+ * Copies a reused row into a new object.
+ */
+export function copyRow(row: Row): Row {
+  return { ts: row.ts, o: row.o, h: row.h, l: row.l, c: row.c, v: row.v };
+}
+
+/**
+ * Receives each successfully parsed line. `row` is reused for the next line,
+ * so it must be copied to be kept.
+ */
+export type ParsedLineSink = (
+  row: Row,
+  lineNumber: number,
+  line: string,
+) => void;
+
+/**
+ * Incremental line scanner behind `parseStreamOptimizedOhlcv`.
+ *
+ * Decoded text is pushed as it arrives; complete lines are parsed and handed
+ * to `onLine`, while headers and malformed lines are reported through
+ * `onSkipLine`.
+ */
+export class OptimizedOhlcvScanner {
+  private lineBuffer: string = "";
+  private isFirstNonEmptyLine: boolean = true;
+  private currentLineNumber: number = 0;
+  private row: Row = { ts: 0, o: 0, h: 0, l: 0, c: 0, v: 0 };
+  private onLine: ParsedLineSink;
+  private skipHeader: boolean;
+  private onSkipLine?: SkipErrorCallback;
+  private options: ParseOptions;
+  private mapping?: ColumnMapping;
+  private parseTimestamp: TimestampParser;
+  private dialect: ResolvedDialect;
+  private atInputStart: boolean = true;
+
+  constructor(
+    onLine: ParsedLineSink,
+    skipHeader: boolean,
+    onSkipLine?: SkipErrorCallback,
+    options: ParseOptions = {},
+  ) {
+    this.onLine = onLine;
+    this.skipHeader = skipHeader;
+    this.onSkipLine = onSkipLine;
+    this.options = options;
+    // With a header, the mapping is resolved once the header line is read.
+    if (!skipHeader) this.mapping = resolveColumnMapping(options.schema);
+    this.parseTimestamp = createTimestampParser(options.timestamp);
+    this.dialect = resolveDialect(options.dialect);
+  }
+
+  /**
+   * Parses a data line, handing the row to `onLine` or the reason it failed
+   * to `onSkipLine`.
+   */
+  private processDataLine(line: string): void {
+    const failure = parseOhlcvLineOptimized(
+      line,
+      this.mapping ??= resolveColumnMapping(this.options.schema),
+      this.parseTimestamp,
+      this.row,
+      this.dialect,
+    );
+    if (failure === undefined) {
+      this.onLine(this.row, this.currentLineNumber, line);
+    } else {
+      this.onSkipLine?.(
+        failure.error,
+        this.currentLineNumber,
+        line,
+        failure.details,
+      );
+    }
+  }
+
+  /**
+   * Adds decoded text and processes every line it completes.
+   */
+  public push(text: string): void {
+    if (this.atInputStart && text.length > 0) {
+      this.atInputStart = false;
+      text = stripBom(text);
+    }
+    this.lineBuffer += text;
+
+    let newlineIndex;
+    while ((newlineIndex = this.lineBuffer.indexOf("\n")) >= 0) {
+      this.currentLineNumber++;
+      const line = this.lineBuffer.substring(0, newlineIndex).trimEnd(); // Handle \r
+      this.lineBuffer = this.lineBuffer.substring(newlineIndex + 1);
+
+      if (line.length === 0 || isCommentLine(line, this.dialect)) continue;
+
+      if (this.skipHeader && this.isFirstNonEmptyLine) {
+        this.isFirstNonEmptyLine = false;
+        this.mapping = resolveHeaderMapping(line, this.options, this.dialect);
+        this.onSkipLine?.(
+          new HeaderSkipError(SKIPPED_HEADER),
+          this.currentLineNumber,
+          line,
+        );
+        continue;
+      }
+      this.isFirstNonEmptyLine = false;
+
+      this.processDataLine(line);
+    }
+  }
+
+  /**
+   * Processes the final line, which has no trailing newline.
+   *
+   * @param decoderRemainder - Text flushed from the decoder at end of input
+   */
+  public finish(decoderRemainder: string = ""): void {
+    const lastLine = this.lineBuffer.trimEnd();
+    this.lineBuffer = "";
+    if (lastLine.length > 0 && !isCommentLine(lastLine, this.dialect)) {
+      this.currentLineNumber++;
+      if (!(this.skipHeader && this.isFirstNonEmptyLine)) {
+        this.processDataLine(lastLine);
+      } else {
+        this.onSkipLine?.(
+          new HeaderSkipError(SKIPPED_HEADER_LAST_LINE),
+          this.currentLineNumber,
+          lastLine,
+        );
+      }
+    }
+    if (decoderRemainder.trim().length > 0) {
+      this.currentLineNumber++;
+      const line = decoderRemainder.trim();
+      if (!this.isFirstNonEmptyLine || !this.skipHeader) {
+        this.processDataLine(line);
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+// src/parser/_report.ts
+import { ParseError, type ParseErrorDetails } from "../core/errors.ts";
+import {
+  isHeaderSkip,
+  type ParseOptions,
+  type SkipErrorCallback,
+  type SkippedLineSample,
+} from "./common.ts";
+
+const DEFAULT_REPORT_SAMPLES = 10;
+
+/**
+ * Returns the error to throw for a skipped line, with its line number and
+ * content in `details`. Errors other than `ParseError` are wrapped.
+ */
+export function toLineError(
+  error: Error,
+  lineNumber: number,
+  lineContent: string,
+  details?: ParseErrorDetails,
+): ParseError {
+  const lineDetails = {
+    reason: error.message,
+    ...details,
+    ...(error instanceof ParseError ? error.details : undefined),
+    lineNumber,
+    lineContent,
+  };
+  if (error instanceof ParseError) {
+    error.details = lineDetails;
+    return error;
+  }
+  return new ParseError(
+    `Line ${lineNumber}: ${error.name}: ${error.message}`,
+    lineDetails,
+  );
+}
+
+/**
+ * Implements the `strict`, `onReport` and `reportSamples` parse options.
+ *
+ * Parsers pass {@link ParseReporter.onSkip} in place of the caller's skip
+ * callback and call {@link ParseReporter.finish} once done. Without either
+ * option the caller's callback is used unchanged.
+ */
+export class ParseReporter {
+  /** Skip callback to hand to the parser */
+  public readonly onSkip?: SkipErrorCallback;
+  private options: ParseOptions;
+  private startedAt: number = performance.now();
+  private linesSkipped: number = 0;
+  private skippedByError: Record<string, number> = {};
+  private samples: SkippedLineSample[] = [];
+  private sawHeader: boolean = false;
+
+  constructor(options: ParseOptions, onSkip?: SkipErrorCallback) {
+    this.options = options;
+    this.onSkip = options.strict || options.onReport
+      ? (error, lineNumber, lineContent, details) => {
+        this.skip(error, lineNumber, lineContent, details);
+        onSkip?.(error, lineNumber, lineContent, details);
+      }
+      : onSkip;
+  }
+
+  private skip(
+    error: Error,
+    lineNumber: number,
+    lineContent: string,
+    details?: ParseErrorDetails,
+  ): void {
+    if (isHeaderSkip(error)) {
+      if (error.headerFound) this.sawHeader = true;
+      return;
+    }
+    if (this.options.strict) {
+      throw toLineError(error, lineNumber, lineContent, details);
+    }
+    this.linesSkipped++;
+    this.skippedByError[error.name] = (this.skippedByError[error.name] ?? 0) +
+      1;
+    if (
+      this.samples.length <
+        (this.options.reportSamples ?? DEFAULT_REPORT_SAMPLES)
+    ) {
+      this.samples.push({
+        error: error.name,
+        reason: error.message,
+        ...details,
+        lineNumber,
+        lineContent,
+      });
+    }
+  }
+
+  /**
+   * Sends the report to `onReport`.
+   *
+   * @param rowsAccepted - Rows the parser emitted
+   * @param headerDetected - Whether a header was read. Defaults to whether a
+   * header line was reported as skipped
+   */
+  public finish(
+    rowsAccepted: number,
+    headerDetected: boolean = this.sawHeader,
+  ): void {
+    this.options.onReport?.({
+      rowsAccepted,
+      linesSkipped: this.linesSkipped,
+      skippedByError: { ...this.skippedByError },
+      samples: this.samples.slice(),
+      headerDetected,
+      elapsedMs: performance.now() - this.startedAt,
+    });
+  }
+}
@@ -3,6 +3,7 @@ import type { Row } from "../core/row.ts";
 import {
   type DateBeforeEpochError,
   DateError,
+  HeaderSkipError,
   InvalidCloseError,
   type InvalidDateFormatError,
   InvalidFormatError,
@@ -14,9 +15,27 @@ import {
   ParseError,
   type ParseErrorDetails,
 } from "../core/errors.ts";
-import { yyyymmddToUnix } from "../utils/date.ts";
-import type { RowCallback, SkipErrorCallback } from "./common.ts";
-import { EXPECTED_FIELDS } from "./common.ts";
+import { createTimestampParser, type TimestampParser } from "../utils/date.ts";
+import {
+  NO_HEADER_FOUND,
+  type ParseOptions,
+  type RowCallback,
+  type SkipErrorCallback,
+} from "./common.ts";
+import {
+  type ColumnMapping,
+  looksLikeHeader,
+  resolveColumnMapping,
+  ROW_FIELD_NAMES,
+} from "./columns.ts";
+import { createValidator, validateParsedRow } from "./_validation.ts";
+import {
+  normalizeNumber,
+  type ResolvedDialect,
+  resolveDialect,
+  stripBom,
+} from "./dialect.ts";
+import type { RowValidator } from "../validation/validator.ts";
 
 enum ParserMachineInternalState {
   WaitingForHeaderStart,
@@ -24,6 +43,7 @@ enum ParserMachineInternalState {
   WaitingForDataRowStart,
   ProcessingField,
   SkippingLineDueToError,
+  SkippingComment,
 }
 
 export class InternalStateMachineCore {
@@ -36,23 +56,118 @@ export class InternalStateMachineCore {
   private currentLineContentForError: string = "";
   private onRow: RowCallback;
   private onSkip?: SkipErrorCallback;
+  private options: ParseOptions;
+  private mapping?: ColumnMapping;
+  private headerFields: string[] = [];
+  private parseTimestamp: TimestampParser;
+  private validator?: RowValidator;
+  private pendingSkip?: { error: Error; details: ParseErrorDetails };
+  private dialect: ResolvedDialect;
+  private inQuotes: boolean = false;
+  private pendingEscape: boolean = false;
+  private stateAfterComment: ParserMachineInternalState =
+    ParserMachineInternalState.WaitingForDataRowStart;
+  private atInputStart: boolean = true;
+  private header?: boolean;
   public totalRowsProcessed: number = 0;
+  public headerDetected: boolean = false;
 
+  /**
+   * @param header - Whether the first line is a header. Detected from the
+   * line when undefined
+   */
   constructor(
     onRowCallback: RowCallback,
     onSkipErrorCallback?: SkipErrorCallback,
+    options: ParseOptions = {},
+    header?: boolean,
   ) {
     this.onRow = onRowCallback;
     this.onSkip = onSkipErrorCallback;
+    this.options = options;
+    this.header = header;
+    if (header === false) {
+      this.state = ParserMachineInternalState.WaitingForDataRowStart;
+    }
+    this.parseTimestamp = createTimestampParser(options.timestamp);
+    this.validator = createValidator(options);
+    this.dialect = resolveDialect(options.dialect);
+  }
+
+  private get columnMapping(): ColumnMapping {
+    return this.mapping ??= resolveColumnMapping(this.options.schema);
+  }
+
+  private processHeaderEnd(): boolean {
+    const headerFields = this.headerFields;
+    this.headerFields = [];
+
+    if (this.header || looksLikeHeader(headerFields, this.dialect)) {
+      this.headerDetected = true;
+      if (this.options.detectHeader !== false) {
+        try {
+          this.mapping = resolveColumnMapping(
+            this.options.schema,
+            headerFields,
+          );
+        } catch (e) {
+          if (!(e instanceof InvalidFormatError)) throw e;
+          // Unrecognised header names: fall back to positional columns.
+        }
+      }
+      this.state = ParserMachineInternalState.WaitingForDataRowStart;
+      this.resetForNewLine();
+      return true;
+    }
+
+    const err = new HeaderSkipError(NO_HEADER_FOUND, false);
+    this.onSkip?.(
+      err,
+      this.currentLineNumber,
+      this.currentLineContentForError,
+      { reason: "header format" },
+    );
+
+    // Re-process the buffered fields as a data row.
+    this.state = ParserMachineInternalState.ProcessingField;
+    this.resetCurrentRowState();
+    for (const field of headerFields) {
+      this.fieldBuffer = field;
+      if (!this.processFieldEnd()) {
+        this.state = ParserMachineInternalState.WaitingForDataRowStart;
+        this.resetForNewLine();
+        return false;
+      }
+    }
+    return this.processRowEnd();
   }
 
   private resetCurrentRowState() {
     this.fieldBuffer = "";
+    this.inQuotes = false;
+    this.pendingEscape = false;
     this.currentRow = {};
     this.fieldIndex = 0;
   }
 
+  /**
+   * Reports a field error deferred until the rest of its line was read, so
+   * the skip callback receives the whole line.
+   */
+  private reportPendingSkip() {
+    if (!this.pendingSkip) return;
+    const { error, details } = this.pendingSkip;
+    this.pendingSkip = undefined;
+    this.onSkip?.(
+      error,
+      this.currentLineNumber,
+      this.currentLineContentForError,
+      details,
+    );
+  }
+
   private resetForNewLine() {
+    this.reportPendingSkip();
     this.resetCurrentRowState();
     this.currentLineContentForError = "";
   }
@@ -68,21 +183,7 @@ export class InternalStateMachineCore {
 
     if (this.state === ParserMachineInternalState.ProcessingHeader) {
       this.fieldIndex++;
-      if (this.fieldIndex === 1 && !fieldValue.toLowerCase().includes("date")) {
-        const err = new InvalidFormatError(
-          "First header field doesn't look like 'Date'",
-        );
-        this.onSkip?.(
-          err,
-          this.currentLineNumber,
-          this.currentLineContentForError,
-          { invalidField: "timestamp", reason: "header format" },
-        );
-        this.state = ParserMachineInternalState.WaitingForDataRowStart;
-        this.resetCurrentRowState();
-        this.fieldBuffer = fieldValue;
-        return this.processFieldEnd();
-      }
+      this.headerFields.push(fieldValue);
       return true;
     }
 
@@ -101,62 +202,57 @@ export class InternalStateMachineCore {
       return false;
     }
 
+    const numberValue = normalizeNumber(fieldValue, this.dialect);
+    const mapping = this.columnMapping;
+    const field = this.fieldIndex < mapping.maxFields
+      ? mapping.byColumn[this.fieldIndex]
+      : undefined;
     try {
-      // let fieldName: ParseErrorDetails['invalidField']; // Removed as it's not directly used for error construction here
-      switch (this.fieldIndex) {
-        case 0:
-          this.currentRow.ts = yyyymmddToUnix(fieldValue);
+      switch (field) {
+        case "ts":
+          this.currentRow.ts = this.parseTimestamp(fieldValue);
           break;
-        case 1:
-          this.currentRow.o = parseFloat(fieldValue);
+        case "o":
+          this.currentRow.o = parseFloat(numberValue);
           if (isNaN(this.currentRow.o!)) {
             throw new InvalidOpenError("Invalid open value");
           }
           break;
-        case 2:
-          this.currentRow.h = parseFloat(fieldValue);
+        case "h":
+          this.currentRow.h = parseFloat(numberValue);
           if (isNaN(this.currentRow.h!)) {
             throw new InvalidHighError("Invalid high value");
           }
           break;
-        case 3:
-          this.currentRow.l = parseFloat(fieldValue);
+        case "l":
+          this.currentRow.l = parseFloat(numberValue);
           if (isNaN(this.currentRow.l!)) {
             throw new InvalidLowError("Invalid low value");
           }
           break;
-        case 4:
-          this.currentRow.c = parseFloat(fieldValue);
+        case "c":
+          this.currentRow.c = parseFloat(numberValue);
           if (isNaN(this.currentRow.c!)) {
             throw new InvalidCloseError("Invalid close value");
           }
           break;
-        case 5:
-          this.currentRow.v = parseInt(fieldValue, 10);
+        case "v":
+          this.currentRow.v = parseFloat(numberValue);
           if (isNaN(this.currentRow.v!)) {
             throw new InvalidVolumeError("Invalid volume value");
           }
           break;
         default:
-          throw new InvalidFormatError(
-            `Too many fields (${this.fieldIndex + 1})`,
-          );
+          if (this.fieldIndex >= mapping.maxFields) {
+            throw new InvalidFormatError(
+              `Too many fields (${this.fieldIndex + 1})`,
+            );
+          }
+          // Unmapped column: ignored.
       }
     } catch (e) {
       const errorDetails: ParseErrorDetails = {
-        invalidField: this.fieldIndex === 0
-          ? "timestamp"
-          : this.fieldIndex === 1
-          ? "open"
-          : this.fieldIndex === 2
-          ? "high"
-          : this.fieldIndex === 3
-          ? "low"
-          : this.fieldIndex === 4
-          ? "close"
-          : this.fieldIndex === 5
-          ? "volume"
-          : undefined,
+        invalidField: field ? ROW_FIELD_NAMES[field] : undefined,
         reason: e instanceof Error ? e.message : String(e),
       };
       const err = e instanceof ParseError
@@ -166,12 +262,7 @@ export class InternalStateMachineCore {
         : new ParseError(
           `Field ${this.fieldIndex} ("${fieldValue}") error: ${errorDetails.reason}`,
         );
-      this.onSkip?.(
-        err,
-        this.currentLineNumber,
-        this.currentLineContentForError,
-        errorDetails,
-      );
+      this.pendingSkip = { error: err, details: errorDetails };
       this.state = ParserMachineInternalState.SkippingLineDueToError;
       return false;
     }
@@ -187,9 +278,7 @@ export class InternalStateMachineCore {
     }
 
     if (this.state === ParserMachineInternalState.ProcessingHeader) {
-      this.state = ParserMachineInternalState.WaitingForDataRowStart;
-      this.resetForNewLine();
-      return true;
+      return this.processHeaderEnd();
     }
 
     if (this.state !== ParserMachineInternalState.ProcessingField) {
@@ -216,13 +305,14 @@ export class InternalStateMachineCore {
       return true;
     }
 
-    if (this.fieldIndex !== EXPECTED_FIELDS) {
+    const { minFields } = this.columnMapping;
+    if (this.fieldIndex < minFields) {
       if (
         !(this.fieldIndex === 1 &&
           this.currentLineContentForError.trim().replace(/,/g, "") === "")
       ) {
         const fieldCountErr = new InvalidFormatError(
-          `Incorrect field count (${this.fieldIndex}), expected ${EXPECTED_FIELDS}`,
+          `Incorrect field count (${this.fieldIndex}), expected ${minFields}`,
         );
         this.onSkip?.(
           fieldCountErr,
@@ -242,8 +332,17 @@ export class InternalStateMachineCore {
       c !== undefined && v !== undefined &&
       !(o === 0.0 && h === 0.0 && l === 0.0 && c === 0.0 && v === 0)
     ) {
-      this.onRow(this.currentRow as Row);
-      this.totalRowsProcessed++;
+      const row = validateParsedRow(
+        this.validator,
+        this.currentRow as Row,
+        this.currentLineNumber,
+        this.currentLineContentForError,
+        this.onSkip,
+      );
+      if (row) {
+        this.onRow(row);
+        this.totalRowsProcessed++;
+      }
     } else {
       const zeroValErr = new InvalidFormatError(
         "All zero values or undefined essential fields after parsing",
@@ -261,12 +360,67 @@ export class InternalStateMachineCore {
   }
 
   public processChunk(chunk: string): void {
+    if (this.atInputStart && chunk.length > 0) {
+      this.atInputStart = false;
+      chunk = stripBom(chunk);
+    }
     for (let i = 0; i < chunk.length; i++) {
       const char = chunk[i];
       this.processCharInternal(char);
     }
   }
 
+  /**
+   * Handles a character inside a quoted field. Returns false when the
+   * character closed the quotes and still needs processing.
+   */
+  private processQuotedChar(char: string): boolean {
+    const { quote, escape } = this.dialect;
+    if (this.pendingEscape) {
+      this.pendingEscape = false;
+      if (char === quote || escape !== quote) {
+        this.fieldBuffer += char;
+        return true;
+      }
+      // A lone quote closed the field.
+      this.inQuotes = false;
+      return false;
+    }
+    if (char === escape) {
+      this.pendingEscape = true;
+    } else if (char === quote) {
+      this.inQuotes = false;
+    } else {
+      if (char === "\n") this.currentLineNumber++;
+      this.fieldBuffer += char;
+    }
+    return true;
+  }
+
+  private processFieldChar(char: string): void {
+    if (this.inQuotes && this.processQuotedChar(char)) return;
+
+    if (char === this.dialect.delimiter) {
+      if (!this.processFieldEnd()) { /* State handled */ }
+    } else if (char === "\n") {
+      let continueProcessingRow = true;
+      if (this.fieldBuffer.length > 0 || this.fieldIndex > 0) {
+        continueProcessingRow = this.processFieldEnd();
+      }
+      if (continueProcessingRow) {
+        this.processRowEnd();
+      } else {
+        this.state = ParserMachineInternalState.WaitingForDataRowStart;
+        this.resetForNewLine();
+      }
+      this.currentLineNumber++;
+    } else if (char === "\r") { /* Ignore */ }
+    else if (char === this.dialect.quote && this.fieldBuffer.trim() === "") {
+      this.inQuotes = true;
+      this.fieldBuffer = "";
+    } else this.fieldBuffer += char;
+  }
+
   private processCharInternal(char: string): void {
     if (char !== "\n" && char !== "\r") {
       this.currentLineContentForError += char;
@@ -274,47 +428,38 @@ export class InternalStateMachineCore {
 
     switch (this.state) {
       case ParserMachineInternalState.WaitingForHeaderStart:
+      case ParserMachineInternalState.WaitingForDataRowStart:
         if (char === "\n") {
           this.currentLineNumber++;
           this.currentLineContentForError = "";
           return;
         }
         if (char === "\r") return;
-        this.state = ParserMachineInternalState.ProcessingHeader;
-        this.fieldBuffer += char;
+        if (char === this.dialect.comment) {
+          this.stateAfterComment = this.state;
+          this.state = ParserMachineInternalState.SkippingComment;
+          return;
+        }
+        this.state =
+          this.state === ParserMachineInternalState.WaitingForHeaderStart
+            ? ParserMachineInternalState.ProcessingHeader
+            : ParserMachineInternalState.ProcessingField;
+        this.processFieldChar(char);
         break;
       case ParserMachineInternalState.ProcessingHeader:
       case ParserMachineInternalState.ProcessingField:
-        if (char === ",") {
-          if (!this.processFieldEnd()) { /* State handled */ }
-        } else if (char === "\n") {
-          let continueProcessingRow = true;
-          if (this.fieldBuffer.length > 0 || this.fieldIndex > 0) {
-            continueProcessingRow = this.processFieldEnd();
-          }
-          if (continueProcessingRow) {
-            this.processRowEnd();
-          } else {
-            this.state = ParserMachineInternalState.WaitingForDataRowStart;
-            this.resetForNewLine();
-          }
-          this.currentLineNumber++;
-        } else if (char === "\r") { /* Ignore */ }
-        else this.fieldBuffer += char;
+        this.processFieldChar(char);
         break;
-      case ParserMachineInternalState.WaitingForDataRowStart:
+      case ParserMachineInternalState.SkippingLineDueToError:
         if (char === "\n") {
+          this.state = ParserMachineInternalState.WaitingForDataRowStart;
+          this.resetForNewLine();
           this.currentLineNumber++;
-          this.currentLineContentForError = "";
-          return;
         }
-        if (char === "\r") return;
-        this.state = ParserMachineInternalState.ProcessingField;
-        this.fieldBuffer += char;
         break;
-      case ParserMachineInternalState.SkippingLineDueToError:
+      case ParserMachineInternalState.SkippingComment:
         if (char === "\n") {
-          this.state = ParserMachineInternalState.WaitingForDataRowStart;
+          this.state = this.stateAfterComment;
           this.resetForNewLine();
           this.currentLineNumber++;
         }
@@ -323,6 +468,11 @@ export class InternalStateMachineCore {
   }
 
   public finalize(): void {
+    // A closing quote at the very end of the input.
+    if (this.pendingEscape && this.dialect.escape === this.dialect.quote) {
+      this.pendingEscape = false;
+      this.inQuotes = false;
+    }
     if (
       this.fieldBuffer.length > 0 &&
       (this.state === ParserMachineInternalState.ProcessingField ||
@@ -341,11 +491,13 @@ export class InternalStateMachineCore {
       this.state === ParserMachineInternalState.SkippingLineDueToError &&
       this.currentLineContentForError.length > 0
     ) {
+      this.reportPendingSkip();
       this.onSkip?.(
         new ParseError("Incomplete errored line at EOF"),
         this.currentLineNumber,
         this.currentLineContentForError,
       );
     }
+    this.reportPendingSkip();
   }
 }
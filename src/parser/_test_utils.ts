@@ -0,0 +1,92 @@
+// src/parser/_test_utils.ts
+import { deepStrictEqual } from "node:assert";
+import type { Row } from "../core/row.ts";
+import type { ParseOptions } from "./common.ts";
+import { parseOhlcv } from "./iterate.ts";
+import { parse } from "./parse.ts";
+import { createParseStream } from "./parse_stream.ts";
+import { parseWithSimpleSplit } from "./simple_split.ts";
+import { parseFullStringWithStateMachine } from "./state_machine_full_string.ts";
+import { parseStreamBytesOhlcv } from "./stream_bytes_ohlcv.ts";
+import { parseStreamOptimizedOhlcv } from "./stream_optimized_ohlcv.ts";
+import { parseStreamWithStateMachine } from "./stream_state_machine.ts";
+
+function bytesOf(csv: string): ReadableStream<Uint8Array> {
+  return ReadableStream.from([new TextEncoder().encode(csv)]);
+}
+
+async function collect(
+  run: (onRow: (row: Row) => void) => Promise<number>,
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  await run((row) => rows.push(row));
+  return rows;
+}
+
+/**
+ * Parses CSV text with every parser, keyed by parser name. `skipHeader` is
+ * passed to the parsers that do not detect the header themselves, and to
+ * the explicit header variants of the others.
+ */
+export async function parseWithEvery(
+  csv: string,
+  options: ParseOptions = {},
+  skipHeader: boolean = true,
+): Promise<Record<string, Row[]>> {
+  return {
+    simpleSplit: parseWithSimpleSplit(csv, skipHeader, options),
+    stateMachine: parseFullStringWithStateMachine(csv, undefined, options),
+    streamStateMachine: await collect((onRow) =>
+      parseStreamWithStateMachine(bytesOf(csv), onRow, undefined, options)
+    ),
+    optimized: await collect((onRow) =>
+      parseStreamOptimizedOhlcv(
+        bytesOf(csv),
+        onRow,
+        skipHeader,
+        undefined,
+        options,
+      )
+    ),
+    bytes: await collect((onRow) =>
+      parseStreamBytesOhlcv(bytesOf(csv), onRow, skipHeader, undefined, options)
+    ),
+    parse: await parse(csv, options),
+    parseBytes: await parse(new TextEncoder().encode(csv), options),
+    parseHeader: await parse(csv, { ...options, header: skipHeader }),
+    parseBytesHeader: await parse(new TextEncoder().encode(csv), {
+      ...options,
+      header: skipHeader,
+    }),
+    parseOptimizedHeader: await parse(csv, {
+      ...options,
+      header: skipHeader,
+      strategy: "optimized",
+    }),
+    iterate: await Array.fromAsync(parseOhlcv(bytesOf(csv), options)),
+    transform: await Array.fromAsync(
+      bytesOf(csv).pipeThrough(createParseStream(options)),
+    ),
+    transformHeader: await Array.fromAsync(
+      bytesOf(csv).pipeThrough(createParseStream({ ...options, skipHeader })),
+    ),
+  };
+}
+
+/**
+ * Asserts that every parser reads `csv` as `rows`.
+ */
+export async function assertEveryParser(
+  csv: string,
+  rows: Row[],
+  options?: ParseOptions,
+  skipHeader?: boolean,
+): Promise<void> {
+  for (
+    const [parser, parsed] of Object.entries(
+      await parseWithEvery(csv, options, skipHeader),
+    )
+  ) {
+    deepStrictEqual(parsed, rows, `${parser} did not read the rows`);
+  }
+}
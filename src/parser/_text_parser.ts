@@ -0,0 +1,102 @@
+// src/parser/_text_parser.ts
+import { InternalStateMachineCore } from "./_state_machine_core.ts";
+import { copyRow, OptimizedOhlcvScanner } from "./_ohlcv_line.ts";
+import { createValidator, validateParsedRow } from "./_validation.ts";
+import { ParseReporter } from "./_report.ts";
+import type {
+  ParseOptions,
+  ParseStrategy,
+  RowCallback,
+  SkipErrorCallback,
+} from "./common.ts";
+
+/**
+ * Parser selection shared by the stream and iterator entry points.
+ */
+export interface TextParserOptions extends ParseOptions {
+  strategy?: ParseStrategy;
+  /**
+   * Whether the first line is a header. The state machine detects it when
+   * unset; the optimized parser assumes one
+   */
+  skipHeader?: boolean;
+  onSkip?: SkipErrorCallback;
+}
+
+/**
+ * Decodes a byte or string chunk. A string chunk ends any multi-byte
+ * sequence left pending by a previous byte chunk.
+ */
+export function decodeChunk(
+  decoder: TextDecoder,
+  chunk: Uint8Array | string,
+): string {
+  return typeof chunk === "string"
+    ? decoder.decode() + chunk
+    : decoder.decode(chunk, { stream: true });
+}
+
+/**
+ * An incremental parser over decoded text.
+ */
+export interface TextParser {
+  push(text: string): void;
+  finish(decoderRemainder: string): void;
+}
+
+/**
+ * Creates the parser selected by `options.strategy`, defaulting to the state
+ * machine. Rows are validated as in the corresponding stream parser.
+ */
+export function createTextParser(
+  onRow: RowCallback,
+  options: TextParserOptions,
+): TextParser {
+  const reporter = new ParseReporter(options, options.onSkip);
+  const onSkip = reporter.onSkip;
+
+  if ((options.strategy ?? "state-machine") === "state-machine") {
+    const core = new InternalStateMachineCore(
+      onRow,
+      onSkip,
+      options,
+      options.skipHeader,
+    );
+    return {
+      push: (text) => core.processChunk(text),
+      finish: (decoderRemainder) => {
+        if (decoderRemainder) core.processChunk(decoderRemainder);
+        core.finalize();
+        reporter.finish(core.totalRowsProcessed, core.headerDetected);
+      },
+    };
+  }
+
+  const validator = createValidator(options);
+  let rowCount = 0;
+  const scanner = new OptimizedOhlcvScanner(
+    (parsed, lineNumber, line) => {
+      const validated = validateParsedRow(
+        validator,
+        copyRow(parsed),
+        lineNumber,
+        line,
+        onSkip,
+      );
+      if (validated) {
+        onRow(validated);
+        rowCount++;
+      }
+    },
+    options.skipHeader ?? true,
+    onSkip,
+    options,
+  );
+  return {
+    push: (text) => scanner.push(text),
+    finish: (decoderRemainder) => {
+      scanner.finish(decoderRemainder);
+      reporter.finish(rowCount);
+    },
+  };
+}
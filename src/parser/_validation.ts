@@ -0,0 +1,44 @@
+// src/parser/_validation.ts
+import type { Row } from "../core/row.ts";
+import {
+  RowValidator,
+  validationIssueToError,
+} from "../validation/validator.ts";
+import type { ParseOptions, SkipErrorCallback } from "./common.ts";
+
+/**
+ * Creates the row validator requested by the parse options, if any. Issues
+ * reach the caller through `onIssue` and the skip callback, so they are not
+ * collected.
+ */
+export function createValidator(
+  options: ParseOptions,
+): RowValidator | undefined {
+  return options.validation
+    ? new RowValidator(options.validation, false)
+    : undefined;
+}
+
+/**
+ * Runs a parsed row through the validator.
+ *
+ * Rows dropped in repair mode are reported through `onSkip`; in strict mode
+ * the `ValidationError` propagates to the caller.
+ *
+ * @returns The row to emit, or null when it was dropped
+ */
+export function validateParsedRow(
+  validator: RowValidator | undefined,
+  row: Row,
+  lineNumber: number,
+  lineContent: string,
+  onSkip?: SkipErrorCallback,
+): Row | null {
+  if (!validator) return row;
+  const validated = validator.validate(row, lineNumber, lineContent);
+  if (!validated && onSkip) {
+    const err = validationIssueToError(validator.lastIssue!);
+    onSkip(err, lineNumber, lineContent, err.details);
+  }
+  return validated;
+}
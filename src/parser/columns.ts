@@ -0,0 +1,254 @@
+// src/parser/columns.ts
+import type { Row } from "../core/row.ts";
+import { InvalidFormatError, type ParseErrorDetails } from "../core/errors.ts";
+import { type CsvDialect, normalizeNumber, resolveDialect } from "./dialect.ts";
+
+/**
+ * Name of a field on a {@link Row}.
+ */
+export type RowField = keyof Row;
+
+/**
+ * Row fields in the canonical `Date,Open,High,Low,Close,Volume` column order.
+ */
+export const ROW_FIELDS: readonly RowField[] = ["ts", "o", "h", "l", "c", "v"];
+
+/**
+ * Maps each row field to the name used in `ParseErrorDetails.invalidField`.
+ */
+export const ROW_FIELD_NAMES: Readonly<
+  Record<RowField, NonNullable<ParseErrorDetails["invalidField"]>>
+> = {
+  ts: "timestamp",
+  o: "open",
+  h: "high",
+  l: "low",
+  c: "close",
+  v: "volume",
+};
+
+/**
+ * Reference to a CSV column.
+ *
+ * Either a 0-based column index, or one or more header names that are
+ * matched case-insensitively against the header line.
+ */
+export type ColumnRef = number | string | readonly string[];
+
+/**
+ * Describes where each `Row` field is found in a CSV line.
+ *
+ * Fields that are left out are resolved from the header line using
+ * {@link DEFAULT_HEADER_ALIASES}, or fall back to their position in the
+ * canonical `Date,Open,High,Low,Close,Volume` layout when there is no header.
+ * Columns that are not mapped to any field are ignored.
+ *
+ * @example
+ * ```typescript
+ * const schema: ColumnSchema = {
+ *   ts: "timestamp",
+ *   c: ["Adj Close", "Close"],
+ *   v: 5,
+ * };
+ * ```
+ */
+export type ColumnSchema = Partial<Record<RowField, ColumnRef>>;
+
+/**
+ * Header names recognised for each field when auto-detecting the column
+ * mapping. Names are compared after trimming, lower-casing and collapsing
+ * whitespace; earlier names take precedence.
+ */
+export const DEFAULT_HEADER_ALIASES: Readonly<
+  Record<RowField, readonly string[]>
+> = {
+  ts: [
+    "date",
+    "timestamp",
+    "time",
+    "datetime",
+    "date time",
+    "open time",
+    "unix",
+    "ts",
+  ],
+  o: ["open", "open price", "o"],
+  h: ["high", "high price", "h"],
+  l: ["low", "low price", "l"],
+  c: [
+    "close",
+    "close price",
+    "adj close",
+    "adj. close",
+    "adjusted close",
+    "price",
+    "last",
+    "c",
+  ],
+  v: ["volume", "vol", "vol.", "v"],
+};
+
+/**
+ * A column schema resolved to concrete column indexes.
+ */
+export interface ColumnMapping {
+  /** Column index holding each row field */
+  indexes: Readonly<Record<RowField, number>>;
+  /** Row field stored in each column, `undefined` for ignored columns */
+  byColumn: readonly (RowField | undefined)[];
+  /** Minimum number of fields a data line must have */
+  minFields: number;
+  /** Maximum number of fields a data line may have */
+  maxFields: number;
+  /** True for the canonical six-column `Date,Open,High,Low,Close,Volume` layout */
+  isDefault: boolean;
+}
+
+/**
+ * Normalizes a header cell for alias comparison.
+ */
+export function normalizeHeaderName(name: string): string {
+  return name
+    .replace(/^\uFEFF/, "")
+    .trim()
+    .replace(/^"(.*)"$/, "$1")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Heuristically decides whether a line's fields are a header row.
+ *
+ * A line is considered a header when none of its non-empty fields is numeric.
+ *
+ * @param fields - The line's fields
+ * @param dialect - Decimal and thousands separators used by numbers
+ */
+export function looksLikeHeader(
+  fields: readonly string[],
+  dialect: CsvDialect = {},
+): boolean {
+  const resolved = resolveDialect(dialect);
+  let nonEmpty = 0;
+  for (const field of fields) {
+    const value = field.trim();
+    if (value.length === 0) continue;
+    nonEmpty++;
+    if (!isNaN(+normalizeNumber(value, resolved))) return false;
+  }
+  return nonEmpty > 0;
+}
+
+function findHeaderIndex(
+  header: readonly string[],
+  names: readonly string[],
+): number {
+  const normalizedHeader = header.map(normalizeHeaderName);
+  for (const name of names) {
+    const index = normalizedHeader.indexOf(normalizeHeaderName(name));
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * Resolves a {@link ColumnSchema} to concrete column indexes.
+ *
+ * When `header` is given, named columns and unspecified fields are looked up
+ * in it, and data lines may not be wider than the header. Without a header,
+ * named columns cannot be resolved and unspecified fields use their canonical
+ * position.
+ *
+ * @param schema - Optional column schema
+ * @param header - Optional header fields
+ * @returns The resolved column mapping
+ *
+ * @throws {InvalidFormatError} When a column cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * const mapping = resolveColumnMapping(undefined, [
+ *   "timestamp", "open", "high", "low", "close", "volume", "trades", "vwap",
+ * ]);
+ * console.log(mapping.indexes.c); // 4
+ * ```
+ */
+export function resolveColumnMapping(
+  schema?: ColumnSchema,
+  header?: readonly string[],
+): ColumnMapping {
+  const indexes = {} as Record<RowField, number>;
+  const missing: string[] = [];
+
+  for (let position = 0; position < ROW_FIELDS.length; position++) {
+    const field = ROW_FIELDS[position];
+    const ref = schema?.[field];
+    let index: number;
+
+    if (typeof ref === "number") {
+      if (!Number.isInteger(ref) || ref < 0) {
+        throw new InvalidFormatError(
+          `Invalid column index ${ref} for field "${field}"`,
+          { invalidField: ROW_FIELD_NAMES[field], reason: "schema" },
+        );
+      }
+      index = ref;
+    } else if (ref !== undefined) {
+      const names = typeof ref === "string" ? [ref] : ref;
+      if (!header) {
+        throw new InvalidFormatError(
+          `Column "${
+            names.join(" | ")
+          }" for field "${field}" requires a header line`,
+          { invalidField: ROW_FIELD_NAMES[field], reason: "schema" },
+        );
+      }
+      index = findHeaderIndex(header, names);
+      if (index < 0) missing.push(names.join(" | "));
+    } else if (header) {
+      index = findHeaderIndex(header, DEFAULT_HEADER_ALIASES[field]);
+      if (index < 0) missing.push(ROW_FIELD_NAMES[field]);
+    } else {
+      index = position;
+    }
+    indexes[field] = index;
+  }
+
+  if (missing.length > 0) {
+    throw new InvalidFormatError(
+      `Header has no column for ${missing.join(", ")}`,
+      { lineContent: header?.join(","), reason: "header format" },
+    );
+  }
+
+  const minFields = Math.max(...ROW_FIELDS.map((f) => indexes[f])) + 1;
+  const byColumn: (RowField | undefined)[] = new Array(minFields);
+  for (const field of ROW_FIELDS) {
+    const existing = byColumn[indexes[field]];
+    if (existing !== undefined) {
+      throw new InvalidFormatError(
+        `Fields "${existing}" and "${field}" both map to column ${
+          indexes[field]
+        }`,
+        { invalidField: ROW_FIELD_NAMES[field], reason: "schema" },
+      );
+    }
+    byColumn[indexes[field]] = field;
+  }
+
+  const isIdentity = ROW_FIELDS.every((f, i) => indexes[f] === i);
+  const maxFields = header
+    ? Math.max(header.length, minFields)
+    : schema
+    ? Infinity
+    : ROW_FIELDS.length;
+
+  return {
+    indexes,
+    byColumn,
+    minFields,
+    maxFields,
+    isDefault: isIdentity && maxFields === ROW_FIELDS.length,
+  };
+}
@@ -0,0 +1,80 @@
+// src/parser/columns_test.ts
+import { strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { InvalidFormatError } from "../core/errors.ts";
+import type { ParseReport } from "./common.ts";
+import { assertEveryParser } from "./_test_utils.ts";
+import { resolveColumnMapping } from "./columns.ts";
+
+const rows: Row[] = [
+  { ts: 1672531200, o: 1, h: 2, l: 0.5, c: 1.5, v: 100 },
+  { ts: 1672617600, o: 1.5, h: 3, l: 1.25, c: 2.75, v: 250 },
+];
+
+Deno.test("every parser reads the canonical layout with or without a header", async () => {
+  const body = "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,1.5,3,1.25,2.75,250\n";
+  await assertEveryParser("Date,Open,High,Low,Close,Volume\n" + body, rows);
+  await assertEveryParser(body, rows, {}, false);
+});
+
+Deno.test("every parser maps reordered and extra columns from the header", async () => {
+  await assertEveryParser(
+    "timestamp,open,high,low,close,volume,trades,vwap\n" +
+      "2023-01-01,1,2,0.5,1.5,100,7,1.2\n" +
+      "2023-01-02,1.5,3,1.25,2.75,250,9,2.1\n",
+    rows,
+  );
+  await assertEveryParser(
+    "Vol.,Low,High,Symbol,OPEN,Adj Close,Date\n" +
+      "100,0.5,2,BTC,1,1.5,2023-01-01\n" +
+      "250,1.25,3,BTC,1.5,2.75,2023-01-02\n",
+    rows,
+  );
+});
+
+Deno.test("every parser falls back to positions for unrecognised header names", async () => {
+  const csv = "Datum,Eroeffnung,Hoch,Tief,Schluss,Volumen\n" +
+    "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,1.5,3,1.25,2.75,250\n";
+  await assertEveryParser(csv, rows);
+  await assertEveryParser(csv, rows, { strict: true });
+
+  const reports: ParseReport[] = [];
+  await assertEveryParser(csv, rows, {
+    onReport: (report) => reports.push(report),
+  });
+  for (const report of reports) strictEqual(report.linesSkipped, 0);
+});
+
+Deno.test("every parser follows a schema of names and indexes", async () => {
+  const csv = "when,first,max,min,last,close,qty\n" +
+    "2023-01-01,1,2,0.5,1.5,9,100\n" +
+    "2023-01-02,1.5,3,1.25,2.75,9,250\n";
+  await assertEveryParser(csv, rows, {
+    schema: { ts: "When", o: 1, h: ["high", "max"], l: "min", c: 4, v: "qty" },
+  });
+  await assertEveryParser(
+    "2023-01-01,x,100,1,2,0.5,1.5\n2023-01-02,y,250,1.5,3,1.25,2.75\n",
+    rows,
+    { schema: { ts: 0, v: 2, o: 3, h: 4, l: 5, c: 6 } },
+    false,
+  );
+});
+
+Deno.test("every parser ignores header names when detectHeader is false", async () => {
+  await assertEveryParser(
+    "Volume,Close,Low,High,Open,Date\n" +
+      "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,1.5,3,1.25,2.75,250\n",
+    rows,
+    { detectHeader: false },
+  );
+});
+
+Deno.test("resolveColumnMapping rejects missing and shared columns", () => {
+  throws(
+    () =>
+      resolveColumnMapping(undefined, ["Date", "Open", "High", "Low", "Close"]),
+    InvalidFormatError,
+  );
+  throws(() => resolveColumnMapping({ o: 1, h: 1 }), InvalidFormatError);
+  throws(() => resolveColumnMapping({ ts: "date" }), InvalidFormatError);
+});
@@ -1,6 +1,10 @@
 // src/parser/common.ts
 import type { Row } from "../core/row.ts";
-import type { ParseErrorDetails } from "../core/errors.ts";
+import { HeaderSkipError, type ParseErrorDetails } from "../core/errors.ts";
+import type { TimestampOptions } from "../utils/date.ts";
+import type { ValidationOptions } from "../validation/validator.ts";
+import type { ColumnSchema } from "./columns.ts";
+import type { CsvDialect } from "./dialect.ts";
 
 /**
  * Callback function that is called for each successfully parsed row.
@@ -48,8 +52,130 @@ export type SkipErrorCallback = (
 ) => void;
 
 /**
- * The expected number of fields in a valid OHLCV CSV line.
+ * Which parser drives a stream or iterator entry point.
+ *
+ * - `"state-machine"`: the character-level parser behind
+ *   `parseStreamWithStateMachine`, which detects headers itself
+ * - `"optimized"`: the line-based parser behind `parseStreamOptimizedOhlcv`
+ */
+export type ParseStrategy = "state-machine" | "optimized";
+
+/**
+ * The expected number of fields in a valid OHLCV CSV line when no column
+ * schema or header is available.
  *
  * Format: Date,Open,High,Low,Close,Volume (6 fields total)
  */
 export const EXPECTED_FIELDS = 6;
+
+/** Skip message for a header line that was skipped. */
+export const SKIPPED_HEADER = "Skipped header";
+/** Skip message for a header that was the only line. */
+export const SKIPPED_HEADER_LAST_LINE = "Skipped header (was last line)";
+/** Skip message for a first line parsed as data because it has no names. */
+export const NO_HEADER_FOUND = "First line doesn't look like a header";
+
+/**
+ * Checks whether a skip report is about the header line rather than a
+ * malformed data row.
+ */
+export function isHeaderSkip(error: Error): error is HeaderSkipError {
+  return error instanceof HeaderSkipError;
+}
+
+/**
+ * Options shared by all CSV parsers.
+ *
+ * @example
+ * ```typescript
+ * const options: ParseOptions = {
+ *   schema: { ts: "timestamp", c: ["Adj Close", "Close"] },
+ *   timestamp: { format: "unix-millis" },
+ * };
+ * const rows = parseFullStringWithStateMachine(csvData, undefined, options);
+ * ```
+ */
+export interface ParseOptions {
+  /**
+   * Where each `Row` field is found in a line. Unspecified fields are
+   * detected from the header line, or use the canonical
+   * `Date,Open,High,Low,Close,Volume` positions when there is no header.
+   */
+  schema?: ColumnSchema;
+  /**
+   * CSV flavour: delimiter, quoting, decimal and thousands separators and
+   * comment lines. Defaults to RFC 4180 with `.` decimals. A leading byte
+   * order mark is always ignored.
+   */
+  dialect?: CsvDialect;
+  /**
+   * Whether to resolve the column mapping from the header line.
+   * When false, the header is skipped but its names are not used.
+   * Defaults to true.
+   */
+  detectHeader?: boolean;
+  /**
+   * How the timestamp column is parsed. By default the format (date,
+   * datetime, ISO-8601, Unix seconds or milliseconds) is detected from the
+   * first data row, and dates before 1970 yield negative timestamps; set
+   * `rejectBeforeEpoch` to skip such rows with a `DateBeforeEpochError`.
+   */
+  timestamp?: TimestampOptions;
+  /**
+   * Integrity rules applied to every parsed row. In strict mode the first
+   * violation is thrown as a `ValidationError`; in repair mode rows are fixed
+   * or dropped (dropped rows are passed to the skip callback); in report mode
+   * rows are kept and violations passed to `onIssue`. Disabled by default.
+   */
+  validation?: ValidationOptions;
+  /**
+   * Whether to throw the first malformed line instead of skipping it. The
+   * thrown `ParseError` carries the line number and content in `details`.
+   * Header lines are not errors. Defaults to false.
+   */
+  strict?: boolean;
+  /**
+   * Called once parsing completes with a summary of accepted rows and
+   * skipped lines. Not called when parsing throws.
+   */
+  onReport?: (report: ParseReport) => void;
+  /** Number of skipped lines sampled in the report. Defaults to 10. */
+  reportSamples?: number;
+}
+
+/**
+ * A skipped line sampled in a {@link ParseReport}.
+ */
+export interface SkippedLineSample extends ParseErrorDetails {
+  /** Error class name, e.g. `"InvalidOpenError"` */
+  error: string;
+}
+
+/**
+ * Summary of a parse, passed to {@link ParseOptions.onReport}.
+ *
+ * @example
+ * ```typescript
+ * const rows = parseWithSimpleSplit(csvData, true, {
+ *   onReport: (report) => {
+ *     if (report.linesSkipped > 0) {
+ *       console.warn(`Skipped ${report.linesSkipped} lines`, report.skippedByError);
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export interface ParseReport {
+  /** Rows returned or passed to the row callback */
+  rowsAccepted: number;
+  /** Malformed lines and rows dropped by validation */
+  linesSkipped: number;
+  /** Skipped line counts keyed by error class name */
+  skippedByError: Record<string, number>;
+  /** The first skipped lines, up to `reportSamples` */
+  samples: SkippedLineSample[];
+  /** Whether the first line was read as a header */
+  headerDetected: boolean;
+  /** Wall-clock parse time in milliseconds */
+  elapsedMs: number;
+}
@@ -0,0 +1,203 @@
+// src/parser/dialect.ts
+import { ParseError } from "../core/errors.ts";
+
+/**
+ * Describes the CSV flavour of a file, following RFC 4180 by default.
+ *
+ * Every option is a single character.
+ *
+ * @example
+ * ```typescript
+ * // European broker export: "Datum;Eröffnung;...", "02.01.2024;1.234,50;..."
+ * const dialect: CsvDialect = {
+ *   delimiter: ";",
+ *   decimal: ",",
+ *   thousands: ".",
+ *   comment: "#",
+ * };
+ * ```
+ */
+export interface CsvDialect {
+  /** Field separator. Defaults to `","` */
+  delimiter?: string;
+  /** Quote around fields, or null to disable quoting. Defaults to `'"'` */
+  quote?: string | null;
+  /**
+   * Escapes a quote inside a quoted field. Defaults to the quote itself, so
+   * `""` stands for `"`
+   */
+  escape?: string | null;
+  /** Decimal separator in numbers. Defaults to `"."` */
+  decimal?: string;
+  /** Thousands separator removed from numbers. Defaults to none */
+  thousands?: string | null;
+  /** Lines starting with this character are ignored. Defaults to none */
+  comment?: string | null;
+}
+
+/**
+ * A {@link CsvDialect} with defaults applied.
+ */
+export interface ResolvedDialect {
+  delimiter: string;
+  quote: string | null;
+  escape: string | null;
+  decimal: string;
+  thousands: string | null;
+  comment: string | null;
+  /** Whether numbers need no separator handling */
+  plainNumbers: boolean;
+  /**
+   * Whether unquoted lines can take the comma-splitting fast paths: comma
+   * delimiter, plain numbers and no comment lines
+   */
+  isDefault: boolean;
+}
+
+/** The RFC 4180 dialect used when none is given. */
+export const DEFAULT_DIALECT: ResolvedDialect = resolveDialect();
+
+const BOM = "\uFEFF";
+
+/**
+ * Applies defaults to a dialect and checks it for conflicting characters.
+ *
+ * @throws {ParseError} When an option is not a single character, is a line
+ * break, or clashes with another option
+ */
+export function resolveDialect(dialect: CsvDialect = {}): ResolvedDialect {
+  const delimiter = dialect.delimiter ?? ",";
+  const quote = dialect.quote === undefined ? '"' : dialect.quote;
+  const escape = dialect.escape === undefined ? quote : dialect.escape;
+  const decimal = dialect.decimal ?? ".";
+  const thousands = dialect.thousands ?? null;
+  const comment = dialect.comment ?? null;
+
+  const characters: [string, string | null][] = [
+    ["delimiter", delimiter],
+    ["quote", quote],
+    ["decimal", decimal],
+    ["thousands", thousands],
+    ["comment", comment],
+  ];
+  for (const [name, value] of [...characters, ["escape", escape]]) {
+    if (value === null) continue;
+    if (value.length !== 1 || value === "\n" || value === "\r") {
+      throw new ParseError(
+        `Invalid CSV dialect: ${name} ${
+          JSON.stringify(value)
+        } must be a single character other than a line break`,
+      );
+    }
+  }
+  // Separators inside quoted numbers may equal the delimiter, e.g.
+  // "1,234.50" in a comma-separated file, and the escape may equal the quote.
+  // No other two options may coincide.
+  for (let i = 0; i < characters.length; i++) {
+    for (let j = i + 1; j < characters.length; j++) {
+      const [name, value] = characters[i];
+      const [otherName, other] = characters[j];
+      if (
+        value !== null && value === other &&
+        !(name === "delimiter" &&
+          (otherName === "decimal" || otherName === "thousands"))
+      ) {
+        throw new ParseError(
+          `Invalid CSV dialect: ${name} and ${otherName} are both ${
+            JSON.stringify(value)
+          }`,
+        );
+      }
+    }
+  }
+  if (quote === null && escape !== null) {
+    throw new ParseError("Invalid CSV dialect: escape requires a quote");
+  }
+
+  const plainNumbers = decimal === "." && thousands === null;
+  return {
+    delimiter,
+    quote,
+    escape,
+    decimal,
+    thousands,
+    comment,
+    plainNumbers,
+    isDefault: delimiter === "," && plainNumbers && comment === null,
+  };
+}
+
+/**
+ * Removes a leading UTF-8 byte order mark.
+ */
+export function stripBom(text: string): string {
+  return text.startsWith(BOM) ? text.slice(1) : text;
+}
+
+/**
+ * Checks whether a line is a comment in the dialect.
+ */
+export function isCommentLine(line: string, dialect: ResolvedDialect): boolean {
+  return dialect.comment !== null && line.startsWith(dialect.comment);
+}
+
+/**
+ * Splits a line into fields, removing quotes and unescaping quoted quotes.
+ *
+ * Text after a closing quote is kept, so malformed quoting degrades to the
+ * raw characters rather than failing.
+ */
+export function splitFields(line: string, dialect: ResolvedDialect): string[] {
+  const { delimiter, quote, escape } = dialect;
+  if (quote === null || !line.includes(quote)) return line.split(delimiter);
+
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === escape && i + 1 < line.length && line[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else if (char === escape && escape !== quote && i + 1 < line.length) {
+        field += line[++i];
+      } else {
+        field += char;
+      }
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === quote && field.trim().length === 0) {
+      inQuotes = true;
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Rewrites a number in the dialect to JavaScript syntax, removing thousands
+ * separators and replacing the decimal separator with `.`.
+ */
+export function normalizeNumber(
+  value: string,
+  dialect: ResolvedDialect,
+): string {
+  if (dialect.plainNumbers) return value;
+  let normalized = value;
+  if (dialect.thousands !== null) {
+    normalized = normalized.replaceAll(dialect.thousands, "");
+  }
+  if (dialect.decimal !== ".") {
+    // A "." would otherwise be read as a decimal point.
+    if (normalized.includes(".")) return "NaN";
+    normalized = normalized.replace(dialect.decimal, ".");
+  }
+  return normalized;
+}
@@ -0,0 +1,75 @@
+// src/parser/dialect_test.ts
+import { deepStrictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { ParseError } from "../core/errors.ts";
+import { assertEveryParser } from "./_test_utils.ts";
+import { resolveDialect, splitFields } from "./dialect.ts";
+
+const rows: Row[] = [
+  { ts: 1672531200, o: 1234.5, h: 1300, l: 1200.25, c: 1250, v: 100 },
+  { ts: 1672617600, o: 1250, h: 1310.75, l: 1240, c: 1305.5, v: 2500 },
+];
+
+Deno.test("every parser reads semicolons with comma decimals and thousands", async () => {
+  await assertEveryParser(
+    "Date;Open;High;Low;Close;Volume\n" +
+      "2023-01-01;1.234,5;1.300;1.200,25;1.250;100\n" +
+      "2023-01-02;1.250;1.310,75;1.240;1.305,5;2.500\n",
+    rows,
+    { dialect: { delimiter: ";", decimal: ",", thousands: "." } },
+  );
+});
+
+Deno.test("every parser reads quoted fields with escaped quotes and separators", async () => {
+  await assertEveryParser(
+    '"Date","Open","High","Low","Close","Volume","Note"\n' +
+      '"2023-01-01","1,234.5","1,300","1,200.25","1,250","100","say ""hi"", then"\n' +
+      '2023-01-02,1250,"1,310.75",1240,1305.5,"2,500",plain\n',
+    rows,
+    { dialect: { thousands: "," } },
+  );
+});
+
+Deno.test("every parser skips a byte order mark, comments and CRLF line ends", async () => {
+  await assertEveryParser(
+    "\uFEFF# exported 2023-01-03\r\n" +
+      "Date,Open,High,Low,Close,Volume\r\n" +
+      "2023-01-01,1234.5,1300,1200.25,1250,100\r\n" +
+      "# gap\r\n" +
+      "2023-01-02,1250,1310.75,1240,1305.5,2500\r\n",
+    rows,
+    { dialect: { comment: "#" } },
+  );
+  await assertEveryParser(
+    "\uFEFFDate,Open,High,Low,Close,Volume\n" +
+      "2023-01-01,1234.5,1300,1200.25,1250,100\n" +
+      "2023-01-02,1250,1310.75,1240,1305.5,2500\n",
+    rows,
+  );
+});
+
+Deno.test("splitFields honours quotes and custom escapes", () => {
+  deepStrictEqual(
+    splitFields('a,"b,c","d""e",', resolveDialect()),
+    ["a", "b,c", 'd"e', ""],
+  );
+  deepStrictEqual(
+    splitFields(
+      "'x\\'y';z",
+      resolveDialect({
+        delimiter: ";",
+        quote: "'",
+        escape: "\\",
+      }),
+    ),
+    ["x'y", "z"],
+  );
+});
+
+Deno.test("resolveDialect rejects clashing and multi-character options", () => {
+  throws(() => resolveDialect({ delimiter: ";;" }), ParseError);
+  throws(() => resolveDialect({ delimiter: "\n" }), ParseError);
+  throws(() => resolveDialect({ delimiter: ";", comment: ";" }), ParseError);
+  throws(() => resolveDialect({ decimal: ",", thousands: "," }), ParseError);
+  throws(() => resolveDialect({ quote: null, escape: "\\" }), ParseError);
+});
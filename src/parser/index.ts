@@ -2,6 +2,53 @@
 export { parseWithSimpleSplit } from "./simple_split.ts";
 export { parseFullStringWithStateMachine } from "./state_machine_full_string.ts";
 export { parseStreamWithStateMachine } from "./stream_state_machine.ts";
-export { parseStreamOptimizedOhlcv } from "./stream_optimized_ohlcv.ts";
+export { parseStreamBytesOhlcv } from "./stream_bytes_ohlcv.ts";
+export {
+  parseStreamOptimizedOhlcv,
+  parseStreamOptimizedOhlcvToSeries,
+} from "./stream_optimized_ohlcv.ts";
+export { createBatchedParseStream, createParseStream } from "./parse_stream.ts";
+export { parseOhlcv, parseOhlcvBatches } from "./iterate.ts";
+export { parse } from "./parse.ts";
+export {
+  parseJsonOhlcv,
+  parseNdjsonOhlcv,
+  parseStreamNdjsonOhlcv,
+} from "./json.ts";
 
-export type { RowCallback, SkipErrorCallback } from "./common.ts";
+export {
+  DEFAULT_HEADER_ALIASES,
+  looksLikeHeader,
+  resolveColumnMapping,
+} from "./columns.ts";
+
+export type {
+  ParseOptions,
+  ParseReport,
+  ParseStrategy,
+  RowCallback,
+  SkipErrorCallback,
+  SkippedLineSample,
+} from "./common.ts";
+export type {
+  BatchedParseStreamOptions,
+  ParseStreamOptions,
+} from "./parse_stream.ts";
+export type {
+  BatchedParseIteratorOptions,
+  ParseIteratorOptions,
+  SkippedLineMode,
+} from "./iterate.ts";
+export type {
+  ParseInput,
+  ParseMode,
+  UnifiedParseOptions,
+  UnifiedParseStrategy,
+} from "./parse.ts";
+export type {
+  ColumnMapping,
+  ColumnRef,
+  ColumnSchema,
+  RowField,
+} from "./columns.ts";
+export type { CsvDialect } from "./dialect.ts";
@@ -0,0 +1,196 @@
+// src/parser/iterate.ts
+import type { Row } from "../core/row.ts";
+import { ParseError } from "../core/errors.ts";
+import { createTextParser, decodeChunk } from "./_text_parser.ts";
+import { toLineError } from "./_report.ts";
+import {
+  isHeaderSkip,
+  type ParseOptions,
+  type ParseStrategy,
+  type SkipErrorCallback,
+} from "./common.ts";
+
+/**
+ * How an iterator surfaces malformed lines.
+ *
+ * - `"report"`: pass them to `onSkip` and keep iterating
+ * - `"throw"`: throw the first one from the iterator, after yielding the rows
+ *   before it
+ */
+export type SkippedLineMode = "report" | "throw";
+
+/**
+ * Options for {@link parseOhlcv}.
+ */
+export interface ParseIteratorOptions extends ParseOptions {
+  /** Parser to use. Defaults to `"state-machine"` */
+  strategy?: ParseStrategy;
+  /**
+   * Whether the first line is a header to skip. The state machine detects
+   * it when unset; the optimized strategy defaults to true
+   */
+  skipHeader?: boolean;
+  /** How malformed lines are surfaced. Defaults to `"report"` */
+  skipped?: SkippedLineMode;
+  /**
+   * Called for each skipped line. In `"throw"` mode only header lines are
+   * reported here
+   */
+  onSkip?: SkipErrorCallback;
+  /**
+   * Aborting cancels the stream, including a read waiting for data, and
+   * makes the iterator throw the signal's reason
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for {@link parseOhlcvBatches}.
+ */
+export interface BatchedParseIteratorOptions extends ParseIteratorOptions {
+  /** Maximum number of rows per batch. Defaults to 1000 */
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+/**
+ * Yields the rows parsed from each chunk of the stream.
+ */
+async function* parseChunks(
+  stream: ReadableStream<Uint8Array | string>,
+  options: ParseIteratorOptions,
+): AsyncGenerator<Row[], void, undefined> {
+  const { signal } = options;
+  const throwOnSkip = options.skipped === "throw";
+  let rows: Row[] = [];
+  let failure: Error | undefined;
+  let rowsBeforeFailure = 0;
+
+  const parser = createTextParser((row) => rows.push(row), {
+    ...options,
+    onSkip: (error, lineNumber, lineContent, details) => {
+      if (!throwOnSkip || isHeaderSkip(error)) {
+        options.onSkip?.(error, lineNumber, lineContent, details);
+      } else if (!failure) {
+        failure = toLineError(error, lineNumber, lineContent, details);
+        rowsBeforeFailure = rows.length;
+      }
+    },
+  });
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  // Cancelling the stream settles a read that is waiting for data.
+  const onAbort = () => {
+    reader.cancel(signal!.reason).catch(() => {});
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      signal?.throwIfAborted();
+      if (done) parser.finish(decoder.decode());
+      else parser.push(decodeChunk(decoder, value));
+
+      if (failure) {
+        if (rowsBeforeFailure > 0) yield rows.slice(0, rowsBeforeFailure);
+        throw failure;
+      }
+      if (rows.length > 0) {
+        const parsed = rows;
+        rows = [];
+        yield parsed;
+      }
+      if (done) break;
+    }
+  } finally {
+    // Also runs when the caller breaks out early, leaving the stream usable.
+    signal?.removeEventListener("abort", onAbort);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parses a CSV stream into an async iterator of rows.
+ *
+ * Rows are yielded in order as each chunk is parsed, so the stream is only
+ * read as fast as the loop consumes rows. Breaking out of the loop releases
+ * the stream's reader lock without cancelling the stream.
+ *
+ * @param stream - ReadableStream of CSV data as bytes or strings
+ * @param options - Parser strategy, skipped-line handling, abort signal and
+ * the usual column schema, header, timestamp and validation handling
+ * @returns An async generator of rows
+ *
+ * @throws {ParseError} In `"throw"` mode, the first malformed line, with its
+ * line number and content in `details`
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsStream, parseOhlcv, DataSource } from "@mso/ohlcv";
+ *
+ * const stream = await fetchCsvAsStream(DataSource.BTC_CSV);
+ * for await (const row of parseOhlcv(stream, { strategy: "optimized" })) {
+ *   if (row.c > 100_000) break;
+ * }
+ * ```
+ */
+export async function* parseOhlcv(
+  stream: ReadableStream<Uint8Array | string>,
+  options: ParseIteratorOptions = {},
+): AsyncGenerator<Row, void, undefined> {
+  for await (const rows of parseChunks(stream, options)) yield* rows;
+}
+
+/**
+ * Variant of {@link parseOhlcv} that yields arrays of up to `batchSize`
+ * rows. Every batch but the last holds exactly `batchSize` rows.
+ *
+ * @param stream - ReadableStream of CSV data as bytes or strings
+ * @param options - As for {@link parseOhlcv}, plus the batch size
+ * @returns An async generator of row batches
+ *
+ * @throws {ParseError} When `batchSize` is not a positive integer, or in
+ * `"throw"` mode for the first malformed line
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ *
+ * @example
+ * ```typescript
+ * for await (const batch of parseOhlcvBatches(stream, { batchSize: 5000 })) {
+ *   await db.insertMany(batch);
+ * }
+ * ```
+ */
+export async function* parseOhlcvBatches(
+  stream: ReadableStream<Uint8Array | string>,
+  options: BatchedParseIteratorOptions = {},
+): AsyncGenerator<Row[], void, undefined> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new ParseError(
+      `Invalid batch size: ${batchSize}. Expected a positive integer.`,
+    );
+  }
+  let batch: Row[] = [];
+  try {
+    for await (const rows of parseChunks(stream, options)) {
+      for (const row of rows) {
+        batch.push(row);
+        if (batch.length === batchSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+    }
+  } catch (e) {
+    // Rows parsed before the error are still delivered.
+    if (batch.length > 0) yield batch;
+    throw e;
+  }
+  if (batch.length > 0) yield batch;
+}
@@ -0,0 +1,69 @@
+// src/parser/iterate_test.ts
+import { deepStrictEqual, rejects, strictEqual } from "node:assert";
+import { InvalidOpenError } from "../core/errors.ts";
+import { parseOhlcv, parseOhlcvBatches } from "./iterate.ts";
+
+const header = "Date,Open,High,Low,Close,Volume\n";
+
+Deno.test("parseOhlcv cancels a stream waiting for data when the signal aborts", async () => {
+  let cancelled: unknown;
+  const stream = new ReadableStream<string>({
+    start(controller) {
+      controller.enqueue(header + "2023-01-01,1,2,0.5,1.5,100\n");
+    },
+    cancel(reason) {
+      cancelled = reason;
+    },
+  });
+  const controller = new AbortController();
+  const reason = new Error("stop");
+  const rows = [];
+  setTimeout(() => controller.abort(reason), 20);
+  await rejects(
+    (async () => {
+      for await (
+        const row of parseOhlcv(stream, { signal: controller.signal })
+      ) {
+        rows.push(row);
+      }
+    })(),
+    (error) => error === reason,
+  );
+  strictEqual(rows.length, 1);
+  strictEqual(cancelled, reason);
+  strictEqual(stream.locked, false);
+});
+
+Deno.test("parseOhlcv releases the stream without cancelling it on break", async () => {
+  const stream = ReadableStream.from([
+    header + "2023-01-01,1,2,0.5,1.5,100\n",
+    "2023-01-02,1,2,0.5,1.5,100\n",
+  ]);
+  for await (const _row of parseOhlcv(stream)) break;
+  strictEqual(stream.locked, false);
+  strictEqual(
+    await new Response(stream.pipeThrough(new TextEncoderStream())).text(),
+    "2023-01-02,1,2,0.5,1.5,100\n",
+  );
+});
+
+Deno.test("parseOhlcvBatches yields the rows before a line that throws", async () => {
+  const stream = ReadableStream.from([
+    header + "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,x,2,0.5,1.5,100\n",
+  ]);
+  const batches: number[][] = [];
+  await rejects(
+    (async () => {
+      for await (
+        const batch of parseOhlcvBatches(stream, {
+          skipped: "throw",
+          batchSize: 10,
+        })
+      ) {
+        batches.push(batch.map((row) => row.ts));
+      }
+    })(),
+    InvalidOpenError,
+  );
+  deepStrictEqual(batches, [[1672531200]]);
+});
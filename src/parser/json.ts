@@ -0,0 +1,175 @@
+// src/parser/json.ts
+import type { Row } from "../core/row.ts";
+import { InvalidFormatError } from "../core/errors.ts";
+import type { ParseOptions, RowCallback, SkipErrorCallback } from "./common.ts";
+import { JsonRowSink, NdjsonScanner } from "./_json_row.ts";
+import { decodeChunk } from "./_text_parser.ts";
+import { ParseReporter } from "./_report.ts";
+
+/**
+ * Parses a JSON array of OHLCV rows, as returned by exchange REST APIs.
+ *
+ * Each element is either an array in `[ts, o, h, l, c, v]` order, such as a
+ * kline, or an object keyed by field name. Array positions can be changed
+ * with `options.schema` indexes, and values past the mapped positions are
+ * ignored. Object keys are matched like CSV header names, from the first
+ * object, by the default aliases (`timestamp`, `open`, ...) or schema names.
+ * Prices and volumes may be numbers or numeric strings; timestamps are parsed
+ * as CSV timestamps, so Unix seconds and milliseconds are both detected.
+ *
+ * Malformed elements are skipped with the same error classes as the CSV
+ * parsers. Skip callbacks and `ParseErrorDetails` receive the element's
+ * 1-based index as its line number, and its JSON text as the line content.
+ *
+ * @param json - JSON text, or an already parsed array
+ * @param onSkip - Optional callback for handling parsing errors
+ * @param options - Optional column schema, timestamp, validation, strictness
+ * and report handling
+ * @returns Array of parsed Row objects
+ *
+ * @throws {InvalidFormatError} When the text is not valid JSON or not an array
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * element
+ *
+ * @example
+ * ```typescript
+ * import { parseJsonOhlcv } from "@mso/ohlcv";
+ *
+ * // Binance klines: [openTime, "open", "high", "low", "close", "volume", ...]
+ * const response = await fetch(
+ *   "https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1d",
+ * );
+ * const rows = parseJsonOhlcv(await response.json());
+ *
+ * parseJsonOhlcv('[{"time": "2023-01-01", "open": 1, "high": 2, "low": 0.5, "close": 1.5, "volume": 10}]');
+ * ```
+ */
+export function parseJsonOhlcv(
+  json: string | readonly unknown[],
+  onSkip?: SkipErrorCallback,
+  options: ParseOptions = {},
+): Row[] {
+  let values: unknown = json;
+  if (typeof json === "string") {
+    try {
+      values = JSON.parse(json);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new InvalidFormatError(`Invalid JSON: ${reason}`, { reason });
+    }
+  }
+  if (!Array.isArray(values)) {
+    throw new InvalidFormatError("Expected a JSON array of rows", {
+      reason: "JSON format",
+    });
+  }
+
+  const rows: Row[] = [];
+  const reporter = new ParseReporter(options, onSkip);
+  const sink = new JsonRowSink(
+    (row) => rows.push(row),
+    reporter.onSkip,
+    options,
+  );
+  for (let i = 0; i < values.length; i++) {
+    sink.push(values[i], i + 1, JSON.stringify(values[i]) ?? "");
+  }
+  reporter.finish(rows.length, false);
+  return rows;
+}
+
+/**
+ * Parses newline-delimited JSON, one row per line.
+ *
+ * Each line holds an array or object as for {@link parseJsonOhlcv}. Blank
+ * lines are ignored, and lines that are not valid JSON are skipped with an
+ * `InvalidFormatError`.
+ *
+ * @param ndjson - The complete NDJSON content
+ * @param onSkip - Optional callback for handling parsing errors
+ * @param options - Optional column schema, timestamp, validation, strictness
+ * and report handling
+ * @returns Array of parsed Row objects
+ *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
+ * @example
+ * ```typescript
+ * import { parseNdjsonOhlcv } from "@mso/ohlcv";
+ *
+ * const rows = parseNdjsonOhlcv(await Deno.readTextFile("archive.ndjson"));
+ * ```
+ */
+export function parseNdjsonOhlcv(
+  ndjson: string,
+  onSkip?: SkipErrorCallback,
+  options: ParseOptions = {},
+): Row[] {
+  const rows: Row[] = [];
+  const reporter = new ParseReporter(options, onSkip);
+  const sink = new JsonRowSink(
+    (row) => rows.push(row),
+    reporter.onSkip,
+    options,
+  );
+  new NdjsonScanner(sink, reporter.onSkip).finish(ndjson);
+  reporter.finish(rows.length, false);
+  return rows;
+}
+
+/**
+ * Parses an NDJSON stream line by line, as {@link parseNdjsonOhlcv} does for
+ * a string.
+ *
+ * @param stream - ReadableStream of NDJSON data as bytes or strings
+ * @param onRow - Callback function called for each successfully parsed row
+ * @param onSkip - Optional callback for handling parsing errors
+ * @param options - Optional column schema, timestamp, validation, strictness
+ * and report handling
+ * @returns Promise resolving to the total number of rows processed
+ *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
+ * @example
+ * ```typescript
+ * import { parseStreamNdjsonOhlcv } from "@mso/ohlcv";
+ *
+ * const file = await Deno.open("archive.ndjson");
+ * const total = await parseStreamNdjsonOhlcv(file.readable, (row) => {
+ *   console.log(row.ts, row.c);
+ * });
+ * ```
+ */
+export async function parseStreamNdjsonOhlcv(
+  stream: ReadableStream<Uint8Array | string>,
+  onRow: RowCallback,
+  onSkip?: SkipErrorCallback,
+  options: ParseOptions = {},
+): Promise<number> {
+  const reporter = new ParseReporter(options, onSkip);
+  const sink = new JsonRowSink(onRow, reporter.onSkip, options);
+  const scanner = new NdjsonScanner(sink, reporter.onSkip);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      scanner.push(decodeChunk(decoder, value));
+    }
+    scanner.finish(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+  reporter.finish(sink.rowCount, false);
+  return sink.rowCount;
+}
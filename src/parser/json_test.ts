@@ -0,0 +1,256 @@
+// src/parser/json_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import {
+  InvalidDateFormatError,
+  InvalidFormatError,
+  InvalidOpenError,
+  InvalidVolumeError,
+  type ParseError,
+  ValidationError,
+} from "../core/errors.ts";
+import type { ParseReport } from "./common.ts";
+import {
+  parseJsonOhlcv,
+  parseNdjsonOhlcv,
+  parseStreamNdjsonOhlcv,
+} from "./json.ts";
+
+const rows: Row[] = [
+  { ts: 1672531200, o: 16547.1, h: 16630.44, l: 16499.01, c: 16625.08, v: 12 },
+  { ts: 1672617600, o: 16625.5, h: 16759.34, l: 16572.23, c: 16688.47, v: 7.5 },
+];
+
+// Binance klines: open time in milliseconds, prices as strings, extra fields
+const klines = rows.map((row) => [
+  row.ts * 1000,
+  String(row.o),
+  String(row.h),
+  String(row.l),
+  String(row.c),
+  String(row.v),
+  row.ts * 1000 + 86_399_999,
+  "0",
+  42,
+]);
+
+/** Collects skipped lines as [error class, line number] pairs */
+function skipCollector() {
+  const skipped: [string, number][] = [];
+  const onSkip = (error: ParseError, lineNumber: number) => {
+    skipped.push([error.constructor.name, lineNumber]);
+  };
+  return { skipped, onSkip };
+}
+
+Deno.test("parseJsonOhlcv reads kline arrays from text or parsed values", () => {
+  deepStrictEqual(parseJsonOhlcv(JSON.stringify(klines)), rows);
+  deepStrictEqual(parseJsonOhlcv(klines), rows);
+  deepStrictEqual(parseJsonOhlcv("[]"), []);
+});
+
+Deno.test("parseJsonOhlcv maps array positions with a schema", () => {
+  const reordered = rows.map((
+    row,
+  ) => [row.c, row.o, row.h, row.l, row.v, row.ts]);
+  deepStrictEqual(
+    parseJsonOhlcv(reordered, undefined, {
+      schema: { ts: 5, o: 1, h: 2, l: 3, c: 0, v: 4 },
+    }),
+    rows,
+  );
+});
+
+Deno.test("parseJsonOhlcv matches object keys by the header aliases", () => {
+  const objects = [
+    {
+      "Open Time": "2023-01-01",
+      Open: 16547.1,
+      High: 16630.44,
+      Low: 16499.01,
+      "Adj Close": 16625.08,
+      Vol: 12,
+    },
+    {
+      "Open Time": "2023-01-02",
+      Open: 16625.5,
+      High: 16759.34,
+      Low: 16572.23,
+      "Adj Close": 16688.47,
+      Vol: 7.5,
+    },
+  ];
+  deepStrictEqual(parseJsonOhlcv(objects), rows);
+  const short = rows.map(({ ts, o, h, l, c, v }) => ({ c, v, ts, o, h, l }));
+  deepStrictEqual(parseJsonOhlcv(JSON.stringify(short)), rows);
+});
+
+Deno.test("parseJsonOhlcv matches object keys by schema names", () => {
+  const objects = rows.map((row) => ({
+    t: row.ts,
+    first: row.o,
+    max: row.h,
+    min: row.l,
+    last: row.c,
+    amount: row.v,
+  }));
+  deepStrictEqual(
+    parseJsonOhlcv(objects, undefined, {
+      schema: {
+        ts: "t",
+        o: "first",
+        h: "max",
+        l: "min",
+        c: "last",
+        v: "amount",
+      },
+    }),
+    rows,
+  );
+});
+
+Deno.test("parseJsonOhlcv throws InvalidFormatError for text that is not a JSON array", () => {
+  throws(() => parseJsonOhlcv("[1, 2"), InvalidFormatError);
+  throws(() => parseJsonOhlcv('{"rows": []}'), /Expected a JSON array/);
+  throws(() => parseJsonOhlcv(""), InvalidFormatError);
+});
+
+Deno.test("parseJsonOhlcv skips malformed elements with their index", () => {
+  const { skipped, onSkip } = skipCollector();
+  const values = [
+    klines[0],
+    [rows[0].ts, 1, 2, 3],
+    null,
+    [rows[0].ts, "abc", 2, 1, 1.5, 10],
+    [true, 1, 2, 1, 1.5, 10],
+    [rows[0].ts, 1, 2, 1, 1.5, ""],
+    [rows[0].ts, 0, 0, 0, 0, 0],
+    klines[1],
+  ];
+  deepStrictEqual(parseJsonOhlcv(values, onSkip), rows);
+  deepStrictEqual(skipped, [
+    ["InvalidFormatError", 2],
+    ["InvalidFormatError", 3],
+    ["InvalidOpenError", 4],
+    ["InvalidTimestampError", 5],
+    ["InvalidVolumeError", 6],
+    ["InvalidFormatError", 7],
+  ]);
+});
+
+Deno.test("parseJsonOhlcv reports unrecognised object keys for the first object", () => {
+  const { skipped, onSkip } = skipCollector();
+  deepStrictEqual(parseJsonOhlcv([{ a: 1, b: 2 }], onSkip), []);
+  deepStrictEqual(skipped, [["InvalidFormatError", 1]]);
+});
+
+Deno.test("parseJsonOhlcv throws the first malformed element in strict mode", () => {
+  throws(
+    () =>
+      parseJsonOhlcv([klines[0], [rows[0].ts, "x", 1, 1, 1, 1]], undefined, {
+        strict: true,
+      }),
+    (e: unknown) =>
+      e instanceof InvalidOpenError &&
+      e.details?.lineNumber === 2 &&
+      e.details?.lineContent === `[${rows[0].ts},"x",1,1,1,1]`,
+  );
+});
+
+Deno.test("parseJsonOhlcv validates rows", () => {
+  const broken = [klines[0], [rows[1].ts, 1, 0.5, 1, 1, 1]];
+  throws(
+    () => parseJsonOhlcv(broken, undefined, { validation: { mode: "strict" } }),
+    ValidationError,
+  );
+  const { skipped, onSkip } = skipCollector();
+  deepStrictEqual(
+    parseJsonOhlcv([klines[0], klines[0]], onSkip, {
+      validation: { mode: "repair" },
+    }),
+    [rows[0]],
+  );
+  deepStrictEqual(skipped, [["ValidationError", 2]]);
+});
+
+const ndjson = [
+  JSON.stringify(klines[0]),
+  "",
+  "{not json}",
+  JSON.stringify({ ...rows[1], ts: klines[1][0], symbol: "€" }),
+].join("\r\n");
+
+Deno.test("parseNdjsonOhlcv reads one row per line", () => {
+  const { skipped, onSkip } = skipCollector();
+  deepStrictEqual(parseNdjsonOhlcv(ndjson, onSkip), rows);
+  // Blank lines are counted but not reported
+  deepStrictEqual(skipped, [["InvalidFormatError", 3]]);
+  deepStrictEqual(parseNdjsonOhlcv(`﻿${ndjson}\n\n`), rows);
+  deepStrictEqual(parseNdjsonOhlcv(""), []);
+});
+
+Deno.test("parseNdjsonOhlcv mixes arrays and objects by line", () => {
+  const object = { ...rows[1], ts: klines[1][0] };
+  const mixed = `${JSON.stringify(klines[0])}\n${JSON.stringify(object)}\n`;
+  deepStrictEqual(parseNdjsonOhlcv(mixed), rows);
+});
+
+Deno.test("parseNdjsonOhlcv reports skipped lines", () => {
+  const reports: ParseReport[] = [];
+  parseNdjsonOhlcv(ndjson, undefined, { onReport: (r) => reports.push(r) });
+  strictEqual(reports[0].rowsAccepted, 2);
+  strictEqual(reports[0].linesSkipped, 1);
+  deepStrictEqual(reports[0].skippedByError, { InvalidFormatError: 1 });
+  strictEqual(reports[0].samples[0].lineContent, "{not json}");
+});
+
+Deno.test("parseNdjsonOhlcv throws invalid JSON lines in strict mode", () => {
+  throws(
+    () => parseNdjsonOhlcv(ndjson, undefined, { strict: true }),
+    (e: unknown) =>
+      e instanceof InvalidFormatError && e.details?.lineNumber === 3,
+  );
+});
+
+Deno.test("parseStreamNdjsonOhlcv reads lines split across any chunks", async () => {
+  const bytes = new TextEncoder().encode(`﻿${ndjson}`);
+  for (const size of [1, 2, 5, bytes.length]) {
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += size) {
+      chunks.push(bytes.slice(i, i + size));
+    }
+    const parsed: Row[] = [];
+    const { skipped, onSkip } = skipCollector();
+    const count = await parseStreamNdjsonOhlcv(
+      ReadableStream.from(chunks),
+      (row) => parsed.push(row),
+      onSkip,
+    );
+    strictEqual(count, 2);
+    deepStrictEqual(parsed, rows, `chunks of ${size}`);
+    deepStrictEqual(skipped, [["InvalidFormatError", 3]]);
+  }
+});
+
+Deno.test("parseStreamNdjsonOhlcv accepts string chunks", async () => {
+  const parsed: Row[] = [];
+  await parseStreamNdjsonOhlcv(
+    ReadableStream.from([ndjson.slice(0, 10), ndjson.slice(10)]),
+    (row) => parsed.push(row),
+  );
+  deepStrictEqual(parsed, rows);
+});
+
+Deno.test("parseJsonOhlcv raises the CSV parsers' error classes", () => {
+  const errors: Error[] = [];
+  const values = [
+    [rows[0].ts, "x", 1, 1, 1, 1],
+    ["yesterday", 1, 1, 1, 1, 1],
+    [rows[0].ts, 1, 1, 1, 1, "?"],
+  ];
+  parseJsonOhlcv(values, (error) => errors.push(error));
+  strictEqual(errors[0] instanceof InvalidOpenError, true);
+  strictEqual(errors[1] instanceof InvalidDateFormatError, true);
+  strictEqual(errors[2] instanceof InvalidVolumeError, true);
+  strictEqual(errors[2].message, 'Volume: "?"');
+});
@@ -0,0 +1,326 @@
+// src/parser/parse.ts
+import type { Row } from "../core/row.ts";
+import { ParseError } from "../core/errors.ts";
+import {
+  decompressStream,
+  detectCompression,
+} from "../compression/decompress.ts";
+import { ZipArchive } from "../compression/zip.ts";
+import { looksLikeHeader } from "./columns.ts";
+import {
+  isCommentLine,
+  resolveDialect,
+  splitFields,
+  stripBom,
+} from "./dialect.ts";
+import type {
+  ParseOptions,
+  ParseStrategy,
+  SkipErrorCallback,
+} from "./common.ts";
+import { parseFullStringWithStateMachine } from "./state_machine_full_string.ts";
+import { parseStreamBytesOhlcv } from "./stream_bytes_ohlcv.ts";
+import { createParseStream } from "./parse_stream.ts";
+import { parseOhlcv } from "./iterate.ts";
+
+/**
+ * Data accepted by {@link parse}: CSV text, UTF-8 bytes, a `Blob` or `File`,
+ * or a stream or async iterable of byte or string chunks.
+ */
+export type ParseInput =
+  | string
+  | Uint8Array
+  | Blob
+  | ReadableStream<Uint8Array | string>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Parser used by {@link parse}: one of the streaming strategies, the
+ * byte-level parser, or `"auto"` to choose by input type and size.
+ */
+export type UnifiedParseStrategy = "auto" | ParseStrategy | "bytes";
+
+/**
+ * Whether {@link parse} collects rows into an array or streams them.
+ */
+export type ParseMode = "rows" | "stream";
+
+/**
+ * Options for {@link parse}.
+ */
+export interface UnifiedParseOptions extends ParseOptions {
+  /**
+   * Whether the first line is a header. With `"auto"`, it is a header when
+   * none of its fields is numeric. Defaults to `"auto"`
+   */
+  header?: boolean | "auto";
+  /** Parser to use. Defaults to `"auto"` */
+  strategy?: UnifiedParseStrategy;
+  /** Called for each skipped line */
+  onSkip?: SkipErrorCallback;
+  /** Aborting rejects the parse, or errors the returned stream */
+  signal?: AbortSignal;
+  /** Result shape. Defaults to `"rows"` */
+  mode?: ParseMode;
+  /**
+   * Detect and decompress gzip, deflate and zip input. Strings are never
+   * decompressed. Defaults to true
+   */
+  decompress?: boolean;
+  /**
+   * Entry to parse when the input is a zip archive. Defaults to the first
+   * entry whose name ends in `.csv`
+   */
+  zipEntry?: string;
+}
+
+/** Inputs larger than this, in bytes or characters, use a faster parser. */
+const LARGE_INPUT_SIZE = 1 << 20;
+/** Amount of input read to find the first line when sniffing a header. */
+const SNIFF_SIZE = 64 * 1024;
+
+type SizedInput = string | Uint8Array | Blob;
+
+function isSized(input: ParseInput): input is SizedInput {
+  return typeof input === "string" || input instanceof Uint8Array ||
+    input instanceof Blob;
+}
+
+function sizeOf(input: SizedInput): number {
+  return typeof input === "string"
+    ? input.length
+    : input instanceof Uint8Array
+    ? input.byteLength
+    : input.size;
+}
+
+function toStream(input: ParseInput): ReadableStream<Uint8Array | string> {
+  if (typeof input === "string" || input instanceof Uint8Array) {
+    return ReadableStream.from([input]);
+  }
+  if (input instanceof Blob) return input.stream();
+  if (input instanceof ReadableStream) return input;
+  if (input && typeof input === "object" && Symbol.asyncIterator in input) {
+    return ReadableStream.from(input);
+  }
+  throw new ParseError(
+    `Unsupported input: ${Object.prototype.toString.call(input)}`,
+  );
+}
+
+function toByteStream(input: ParseInput): ReadableStream<Uint8Array> {
+  if (typeof input === "string") {
+    return ReadableStream.from([new TextEncoder().encode(input)]);
+  }
+  return toStream(input).pipeThrough(
+    new TransformStream<Uint8Array | string, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(
+          typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk,
+        );
+      },
+    }),
+  );
+}
+
+/**
+ * Replaces compressed input with a stream of its uncompressed bytes. Bytes
+ * and `Blob`s are returned unchanged when not compressed; streams are always
+ * read through {@link decompressStream}, which detects compression from the
+ * first chunks.
+ */
+async function decompressInput(
+  input: ParseInput,
+  options: UnifiedParseOptions,
+): Promise<ParseInput> {
+  if (options.decompress === false || typeof input === "string") return input;
+  if (input instanceof Uint8Array || input instanceof Blob) {
+    // Four bytes identify every supported format.
+    const head = input instanceof Uint8Array
+      ? input
+      : new Uint8Array(await input.slice(0, 4).arrayBuffer());
+    const format = detectCompression(head);
+    if (format === undefined) return input;
+    if (format === "zip") {
+      const archive = input instanceof Uint8Array
+        ? await ZipArchive.fromBytes(input)
+        : await ZipArchive.fromBlob(input);
+      return archive.stream(options.zipEntry);
+    }
+    return decompressStream(toByteStream(input));
+  }
+  return decompressStream(toByteStream(input), { zipEntry: options.zipEntry });
+}
+
+async function sniffHeader(
+  input: SizedInput,
+  options: UnifiedParseOptions,
+): Promise<boolean> {
+  const dialect = resolveDialect(options.dialect);
+  const head = typeof input === "string"
+    ? input.slice(0, SNIFF_SIZE)
+    : input instanceof Uint8Array
+    ? new TextDecoder().decode(input.subarray(0, SNIFF_SIZE))
+    : await input.slice(0, SNIFF_SIZE).text();
+  const firstLine = stripBom(head).split(/\r?\n/)
+    .find((line) => line.trim().length > 0 && !isCommentLine(line, dialect));
+  return firstLine !== undefined &&
+    looksLikeHeader(splitFields(firstLine, dialect), dialect);
+}
+
+function chooseStrategy(
+  input: ParseInput,
+  options: UnifiedParseOptions,
+): ParseStrategy | "bytes" {
+  const strategy = options.strategy ?? "auto";
+  if (strategy !== "auto") return strategy;
+  if (!isSized(input)) {
+    // Only the state machine can detect a header without buffering.
+    return (options.header ?? "auto") === "auto"
+      ? "state-machine"
+      : "optimized";
+  }
+  if (sizeOf(input) <= LARGE_INPUT_SIZE) return "state-machine";
+  return typeof input === "string" ? "optimized" : "bytes";
+}
+
+/**
+ * The explicit `header` option, or undefined when the header is to be
+ * detected.
+ */
+function explicitHeader(options: UnifiedParseOptions): boolean | undefined {
+  return options.header === "auto" ? undefined : options.header;
+}
+
+async function resolveSkipHeader(
+  input: ParseInput,
+  options: UnifiedParseOptions,
+): Promise<boolean> {
+  const header = options.header ?? "auto";
+  if (header !== "auto") return header;
+  return isSized(input) ? await sniffHeader(input, options) : true;
+}
+
+async function parseToRows(
+  source: ParseInput,
+  options: UnifiedParseOptions,
+): Promise<Row[]> {
+  const { signal, onSkip } = options;
+  signal?.throwIfAborted();
+  const input = await decompressInput(source, options);
+  const strategy = chooseStrategy(input, options);
+
+  if (
+    strategy === "state-machine" && typeof input === "string" &&
+    explicitHeader(options) === undefined
+  ) {
+    return parseFullStringWithStateMachine(input, onSkip, options);
+  }
+  if (strategy === "bytes") {
+    const skipHeader = await resolveSkipHeader(input, options);
+    const rows: Row[] = [];
+    const stream = toByteStream(input).pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>(),
+      { signal },
+    );
+    await parseStreamBytesOhlcv(
+      stream,
+      (row) => rows.push(row),
+      skipHeader,
+      onSkip,
+      options,
+    );
+    return rows;
+  }
+  return await Array.fromAsync(
+    parseOhlcv(toStream(input), {
+      ...options,
+      strategy,
+      skipHeader: strategy === "optimized"
+        ? await resolveSkipHeader(input, options)
+        : explicitHeader(options),
+    }),
+  );
+}
+
+function parseToStream(
+  source: ParseInput,
+  options: UnifiedParseOptions,
+): ReadableStream<Row> {
+  const { readable, writable } = new TransformStream<Row, Row>();
+  (async () => {
+    const input = await decompressInput(source, options);
+    const strategy = chooseStrategy(input, options);
+    // The byte-level parser has no incremental form; streams use the
+    // optimized parser instead.
+    const streamStrategy = strategy === "bytes" ? "optimized" : strategy;
+    const skipHeader = streamStrategy === "optimized"
+      ? await resolveSkipHeader(input, options)
+      : explicitHeader(options);
+    await toStream(input)
+      .pipeThrough(
+        createParseStream({ ...options, strategy: streamStrategy, skipHeader }),
+      )
+      .pipeTo(writable);
+  })().catch((e) => writable.abort(e).catch(() => {}));
+  return readable;
+}
+
+/**
+ * Parses OHLCV CSV data from any supported input with one set of options.
+ *
+ * With the default `strategy: "auto"`, inputs up to 1 MiB use the state
+ * machine parser. Larger strings use the optimized parser, and larger bytes,
+ * `Blob`s and `File`s the byte-level parser, with the header detected from
+ * the first line. Streams and async iterables, whose size is unknown, use the
+ * state machine unless `header` is given, in which case the optimized parser
+ * is used.
+ *
+ * Gzip, deflate and zip input is detected from its first bytes and
+ * decompressed as it is parsed, then treated as a stream. Pass
+ * `decompress: false` to parse bytes as they are.
+ *
+ * @param input - CSV text, bytes, a `Blob` or `File`, or a stream or async
+ * iterable of chunks
+ * @param options - Header handling, strategy, result mode, skip callback,
+ * abort signal, decompression and the usual column schema, timestamp,
+ * validation, strictness and report handling
+ * @returns A promise of all rows, or a stream of rows with `mode: "stream"`
+ *
+ * @throws {ParseError} When the input type is not supported, or when
+ * `options.strict` is set, for the first malformed line
+ * @throws {CompressionError} When compressed input is corrupt, or a zip
+ * archive is invalid or lacks the entry
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ *
+ * @example
+ * ```typescript
+ * import { parse } from "@mso/ohlcv";
+ *
+ * const rows = await parse(await Deno.readFile("btc.csv"));
+ *
+ * const stream = parse(response.body!, { mode: "stream", strict: true });
+ * for await (const row of stream) console.log(row.c);
+ * ```
+ */
+export function parse(
+  input: ParseInput,
+  options: UnifiedParseOptions & { mode: "stream" },
+): ReadableStream<Row>;
+export function parse(
+  input: ParseInput,
+  options?: UnifiedParseOptions & { mode?: "rows" },
+): Promise<Row[]>;
+export function parse(
+  input: ParseInput,
+  options?: UnifiedParseOptions,
+): Promise<Row[]> | ReadableStream<Row>;
+export function parse(
+  input: ParseInput,
+  options: UnifiedParseOptions = {},
+): Promise<Row[]> | ReadableStream<Row> {
+  return options.mode === "stream"
+    ? parseToStream(input, options)
+    : parseToRows(input, options);
+}
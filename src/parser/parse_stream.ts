@@ -0,0 +1,182 @@
+// src/parser/parse_stream.ts
+import type { Row } from "../core/row.ts";
+import { ParseError } from "../core/errors.ts";
+import {
+  createTextParser,
+  decodeChunk,
+  type TextParser,
+} from "./_text_parser.ts";
+import type {
+  ParseOptions,
+  ParseStrategy,
+  RowCallback,
+  SkipErrorCallback,
+} from "./common.ts";
+
+/**
+ * Options for {@link createParseStream}.
+ */
+export interface ParseStreamOptions extends ParseOptions {
+  /** Parser to use. Defaults to `"state-machine"` */
+  strategy?: ParseStrategy;
+  /**
+   * Whether the first line is a header to skip. The state machine detects
+   * it when unset; the optimized strategy defaults to true
+   */
+  skipHeader?: boolean;
+  /** Called for each skipped line; an exception thrown here errors the stream */
+  onSkip?: SkipErrorCallback;
+  /** Aborting errors the stream with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for {@link createBatchedParseStream}.
+ */
+export interface BatchedParseStreamOptions extends ParseStreamOptions {
+  /** Maximum number of rows per batch. Defaults to 1000 */
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+/**
+ * A row consumer bound to a stream controller.
+ */
+interface RowSink {
+  push: RowCallback;
+  flush?(): void;
+}
+
+function createParsingStream<O>(
+  options: ParseStreamOptions,
+  createSink: (controller: TransformStreamDefaultController<O>) => RowSink,
+): TransformStream<Uint8Array | string, O> {
+  const { signal } = options;
+  const decoder = new TextDecoder();
+  let sink: RowSink;
+  let parser: TextParser;
+  let onAbort: (() => void) | undefined;
+  const stopListening = () => {
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  };
+
+  // Parser and callback errors propagate out of the transformer methods,
+  // which errors both sides of the stream. The `cancel` hook is missing
+  // from the DOM typings, hence the wider type.
+  const transformer: Transformer<Uint8Array | string, O> & {
+    cancel(reason: unknown): void;
+  } = {
+    start(controller) {
+      signal?.throwIfAborted();
+      sink = createSink(controller);
+      parser = createTextParser(sink.push, options);
+      if (signal) {
+        onAbort = () => controller.error(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    },
+    transform(chunk) {
+      try {
+        signal?.throwIfAborted();
+        parser.push(decodeChunk(decoder, chunk));
+      } catch (e) {
+        stopListening();
+        throw e;
+      }
+    },
+    flush() {
+      stopListening();
+      parser.finish(decoder.decode());
+      sink.flush?.();
+    },
+    // Called when either side is cancelled or aborted.
+    cancel() {
+      stopListening();
+    },
+  };
+  return new TransformStream(transformer);
+}
+
+/**
+ * Creates a `TransformStream` that parses CSV text into rows.
+ *
+ * Chunks may be bytes, decoded as UTF-8 across chunk boundaries, or strings.
+ * Rows are enqueued as each chunk is parsed, and the writable side waits
+ * while the readable side is full, so a slow consumer pauses the source.
+ *
+ * Malformed lines are passed to `options.onSkip`. A strict-mode
+ * `ValidationError`, an exception from `onSkip`, or aborting
+ * `options.signal` errors the stream instead.
+ *
+ * @param options - Parser strategy, skip callback, abort signal and the usual
+ * column schema, header, timestamp and validation handling
+ * @returns A stream transforming CSV chunks into rows
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsStream, createParseStream, DataSource } from "@mso/ohlcv";
+ *
+ * const controller = new AbortController();
+ * const stream = await fetchCsvAsStream(DataSource.BTC_CSV);
+ * const rows = stream.pipeThrough(
+ *   createParseStream({ strategy: "optimized", signal: controller.signal }),
+ * );
+ *
+ * for await (const row of rows) {
+ *   if (row.c > 100_000) controller.abort();
+ * }
+ * ```
+ */
+export function createParseStream(
+  options: ParseStreamOptions = {},
+): TransformStream<Uint8Array | string, Row> {
+  return createParsingStream<Row>(options, (controller) => ({
+    push: (row) => controller.enqueue(row),
+  }));
+}
+
+/**
+ * Variant of {@link createParseStream} that enqueues rows in arrays of up to
+ * `batchSize`, cutting per-chunk stream overhead for large files.
+ *
+ * Every batch but the last holds exactly `batchSize` rows.
+ *
+ * @param options - As for {@link createParseStream}, plus the batch size
+ * @returns A stream transforming CSV chunks into batches of rows
+ *
+ * @throws {ParseError} When `batchSize` is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const batches = stream.pipeThrough(
+ *   createBatchedParseStream({ batchSize: 5000 }),
+ * );
+ * for await (const batch of batches) await db.insertMany(batch);
+ * ```
+ */
+export function createBatchedParseStream(
+  options: BatchedParseStreamOptions = {},
+): TransformStream<Uint8Array | string, Row[]> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new ParseError(
+      `Invalid batch size: ${batchSize}. Expected a positive integer.`,
+    );
+  }
+  return createParsingStream<Row[]>(options, (controller) => {
+    let batch: Row[] = [];
+    return {
+      push: (row) => {
+        batch.push(row);
+        if (batch.length === batchSize) {
+          controller.enqueue(batch);
+          batch = [];
+        }
+      },
+      flush: () => {
+        if (batch.length > 0) controller.enqueue(batch);
+      },
+    };
+  });
+}
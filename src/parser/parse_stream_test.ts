@@ -0,0 +1,76 @@
+// src/parser/parse_stream_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import { ParseError } from "../core/errors.ts";
+import { createBatchedParseStream, createParseStream } from "./parse_stream.ts";
+
+const csv = "Date,Open,High,Low,Close,Volume\n" +
+  "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,1,2,0.5,1.5,100\n";
+
+/**
+ * An abort signal that counts the listeners still attached to it.
+ */
+function countingSignal(): {
+  controller: AbortController;
+  attached: () => number;
+} {
+  const controller = new AbortController();
+  const listeners = new Set<unknown>();
+  const { signal } = controller;
+  const add = signal.addEventListener.bind(signal);
+  const remove = signal.removeEventListener.bind(signal);
+  signal.addEventListener = (
+    type: string,
+    listener: EventListener,
+    options?: AddEventListenerOptions,
+  ) => {
+    listeners.add(listener);
+    add(type, listener, options);
+  };
+  signal.removeEventListener = (type: string, listener: EventListener) => {
+    listeners.delete(listener);
+    remove(type, listener);
+  };
+  return { controller, attached: () => listeners.size };
+}
+
+Deno.test("createParseStream detaches from the signal when done or cancelled", async () => {
+  const finished = countingSignal();
+  const rows = await Array.fromAsync(
+    ReadableStream.from([csv]).pipeThrough(
+      createParseStream({ signal: finished.controller.signal }),
+    ),
+  );
+  strictEqual(rows.length, 2);
+  strictEqual(finished.attached(), 0);
+
+  const cancelled = countingSignal();
+  const stream = ReadableStream.from([csv, csv]).pipeThrough(
+    createParseStream({ signal: cancelled.controller.signal }),
+  );
+  for await (const _row of stream) break;
+  strictEqual(cancelled.attached(), 0);
+});
+
+Deno.test("createParseStream errors with the signal's reason when aborted", async () => {
+  const controller = new AbortController();
+  const reason = new Error("stop");
+  const rows = new ReadableStream<string>({
+    start(source) {
+      source.enqueue(csv);
+    },
+  }).pipeThrough(createParseStream({ signal: controller.signal }));
+  const reader = rows.getReader();
+  strictEqual((await reader.read()).value?.ts, 1672531200);
+  controller.abort(reason);
+  await rejects(reader.read(), (error) => error === reason);
+});
+
+Deno.test("createBatchedParseStream batches rows and rejects bad sizes", async () => {
+  const batches = await Array.fromAsync(
+    ReadableStream.from([csv, "2023-01-03,1,2,0.5,1.5,100\n"]).pipeThrough(
+      createBatchedParseStream({ batchSize: 2 }),
+    ),
+  );
+  deepStrictEqual(batches.map((batch) => batch.length), [2, 1]);
+  throws(() => createBatchedParseStream({ batchSize: 0 }), ParseError);
+});
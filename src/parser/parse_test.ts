@@ -0,0 +1,84 @@
+// src/parser/parse_test.ts
+import { deepStrictEqual, rejects, strictEqual } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { InvalidDateFormatError, ParseError } from "../core/errors.ts";
+import { parse, type UnifiedParseStrategy } from "./parse.ts";
+
+const header = "Date,Open,High,Low,Close,Volume\n";
+const body = "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,1.5,3,1.25,2.75,250\n";
+const rows: Row[] = [
+  { ts: 1672531200, o: 1, h: 2, l: 0.5, c: 1.5, v: 100 },
+  { ts: 1672617600, o: 1.5, h: 3, l: 1.25, c: 2.75, v: 250 },
+];
+const strategies: UnifiedParseStrategy[] = [
+  "auto",
+  "state-machine",
+  "optimized",
+  "bytes",
+];
+
+Deno.test("parse reads every input type", async () => {
+  const csv = header + body;
+  const bytes = new TextEncoder().encode(csv);
+  const inputs = [
+    csv,
+    bytes,
+    new Blob([csv]),
+    ReadableStream.from([bytes.subarray(0, 20), bytes.subarray(20)]),
+    ReadableStream.from([csv]),
+    (async function* () {
+      yield csv.slice(0, 40);
+      yield csv.slice(40);
+    })(),
+  ];
+  for (const input of inputs) deepStrictEqual(await parse(input), rows);
+  deepStrictEqual(await Array.fromAsync(parse(csv, { mode: "stream" })), rows);
+});
+
+Deno.test("parse honours an explicit header with every strategy", async () => {
+  for (const strategy of strategies) {
+    for (const input of [header + body, "0,1,2,3,4,5\n" + body]) {
+      deepStrictEqual(
+        await parse(input, { header: true, strategy }),
+        rows,
+        `${strategy}: ${input.split("\n")[0]}`,
+      );
+      deepStrictEqual(
+        await Array.fromAsync(
+          parse(input, { header: true, strategy, mode: "stream" }),
+        ),
+        rows,
+      );
+    }
+
+    const skipped: Error[] = [];
+    deepStrictEqual(
+      await parse(header + body, {
+        header: false,
+        strategy,
+        onSkip: (error) => skipped.push(error),
+      }),
+      rows,
+    );
+    strictEqual(skipped.length, 1, strategy);
+    strictEqual(skipped[0] instanceof InvalidDateFormatError, true, strategy);
+    deepStrictEqual(await parse(body, { header: false, strategy }), rows);
+  }
+});
+
+Deno.test("parse detects a header line by default", async () => {
+  for (const strategy of strategies) {
+    deepStrictEqual(await parse(header + body, { strategy }), rows, strategy);
+    deepStrictEqual(await parse(body, { strategy }), rows, strategy);
+  }
+});
+
+Deno.test("parse rejects aborted signals and unsupported input", async () => {
+  const controller = new AbortController();
+  controller.abort(new Error("stop"));
+  await rejects(
+    parse(header + body, { signal: controller.signal }),
+    (error: Error) => error.message === "stop",
+  );
+  await rejects(parse(42 as unknown as string), ParseError);
+});
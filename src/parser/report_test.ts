@@ -0,0 +1,159 @@
+// src/parser/report_test.ts
+import { deepStrictEqual, ok, rejects, strictEqual } from "node:assert";
+import { InvalidOpenError, ParseError } from "../core/errors.ts";
+import type { ParseOptions, ParseReport } from "./common.ts";
+import { parseWithEvery } from "./_test_utils.ts";
+import { parse } from "./parse.ts";
+import { parseWithSimpleSplit } from "./simple_split.ts";
+import { parseFullStringWithStateMachine } from "./state_machine_full_string.ts";
+import { parseStreamBytesOhlcv } from "./stream_bytes_ohlcv.ts";
+import { parseStreamOptimizedOhlcv } from "./stream_optimized_ohlcv.ts";
+import { parseStreamWithStateMachine } from "./stream_state_machine.ts";
+
+const header = "Date,Open,High,Low,Close,Volume\n";
+const body = "2023-01-01,100,105,95,101,1000\n" +
+  "2023-01-02,abc,106,96,102,2000\n" +
+  "2023-01-03,101,106,96,102\n" +
+  "2023-01-04,101,106,96,102,x\n" +
+  "2023-01-05,101,106,96,102,2000\n";
+
+/** Parses with every parser and returns the reports they sent */
+async function reportsOf(
+  csv: string,
+  options: ParseOptions = {},
+  skipHeader: boolean = true,
+): Promise<ParseReport[]> {
+  const reports: ParseReport[] = [];
+  const parsed = await parseWithEvery(
+    csv,
+    { ...options, onReport: (report) => reports.push(report) },
+    skipHeader,
+  );
+  strictEqual(reports.length, Object.keys(parsed).length);
+  return reports;
+}
+
+Deno.test("every parser reports accepted rows and skipped lines by error class", async () => {
+  for (const report of await reportsOf(header + body)) {
+    strictEqual(report.rowsAccepted, 2);
+    strictEqual(report.linesSkipped, 3);
+    deepStrictEqual(report.skippedByError, {
+      InvalidOpenError: 1,
+      InvalidFormatError: 1,
+      InvalidVolumeError: 1,
+    });
+    strictEqual(report.headerDetected, true);
+    ok(report.elapsedMs >= 0);
+    deepStrictEqual(
+      report.samples.map((sample) => [sample.error, sample.lineNumber]),
+      [["InvalidOpenError", 3], ["InvalidFormatError", 4], [
+        "InvalidVolumeError",
+        5,
+      ]],
+    );
+    strictEqual(
+      report.samples[0].lineContent,
+      "2023-01-02,abc,106,96,102,2000",
+    );
+    ok(report.samples[0].reason);
+  }
+});
+
+Deno.test("reports say whether a header was read", async () => {
+  for (const report of await reportsOf(body, {}, false)) {
+    strictEqual(report.headerDetected, false);
+    strictEqual(report.rowsAccepted, 2);
+    strictEqual(report.samples[0].lineNumber, 2);
+  }
+});
+
+Deno.test("reportSamples limits the samples but not the counts", async () => {
+  for (const report of await reportsOf(header + body, { reportSamples: 1 })) {
+    strictEqual(report.linesSkipped, 3);
+    deepStrictEqual(report.samples.map((sample) => sample.error), [
+      "InvalidOpenError",
+    ]);
+  }
+  for (const report of await reportsOf(header + body, { reportSamples: 0 })) {
+    deepStrictEqual(report.samples, []);
+  }
+});
+
+Deno.test("the skip callback still sees every skipped line with a report", () => {
+  const skipped: number[] = [];
+  const reports: ParseReport[] = [];
+  const rows = parseFullStringWithStateMachine(
+    header + body,
+    (_error, lineNumber) => skipped.push(lineNumber),
+    { onReport: (report) => reports.push(report) },
+  );
+  strictEqual(rows.length, 2);
+  deepStrictEqual(skipped, [3, 4, 5]);
+  strictEqual(reports[0].linesSkipped, 3);
+});
+
+const bytesOf = (csv: string) =>
+  ReadableStream.from([new TextEncoder().encode(csv)]);
+
+/** Runs each parser in strict mode, keyed by parser name */
+const strictParsers: Record<string, (csv: string) => Promise<unknown>> = {
+  simpleSplit: (csv) =>
+    Promise.resolve().then(() =>
+      parseWithSimpleSplit(csv, true, { strict: true })
+    ),
+  stateMachine: (csv) =>
+    Promise.resolve().then(() =>
+      parseFullStringWithStateMachine(csv, undefined, { strict: true })
+    ),
+  streamStateMachine: (csv) =>
+    parseStreamWithStateMachine(bytesOf(csv), () => {}, undefined, {
+      strict: true,
+    }),
+  optimized: (csv) =>
+    parseStreamOptimizedOhlcv(bytesOf(csv), () => {}, true, undefined, {
+      strict: true,
+    }),
+  bytes: (csv) =>
+    parseStreamBytesOhlcv(bytesOf(csv), () => {}, true, undefined, {
+      strict: true,
+    }),
+  parse: (csv) => parse(csv, { strict: true }),
+};
+
+Deno.test("strict mode throws the first malformed line with its number and content", async () => {
+  for (const [name, run] of Object.entries(strictParsers)) {
+    await rejects(
+      run(header + body),
+      (e: unknown) =>
+        e instanceof InvalidOpenError &&
+        e.details?.lineNumber === 3 &&
+        e.details?.lineContent === "2023-01-02,abc,106,96,102,2000",
+      name,
+    );
+  }
+});
+
+Deno.test("strict mode wraps errors that are not ParseErrors", async () => {
+  const badDate = header + "2023-01-01,100,105,95,101,1000\n" +
+    "01/02/2023,100,105,95,101,1000\n";
+  for (const [name, run] of Object.entries(strictParsers)) {
+    await rejects(
+      run(badDate),
+      (e: unknown) =>
+        e instanceof ParseError &&
+        e.message.startsWith("Line 3: InvalidDateFormatError: ") &&
+        e.details?.lineNumber === 3 &&
+        e.details?.lineContent === "01/02/2023,100,105,95,101,1000",
+      name,
+    );
+  }
+});
+
+Deno.test("strict mode accepts well-formed input and ignores the header", async () => {
+  const clean = header + "2023-01-01,100,105,95,101,1000\n";
+  for (const [name, run] of Object.entries(strictParsers)) {
+    await run(clean).catch((e) => {
+      throw new Error(`${name}: ${e}`);
+    });
+  }
+});
@@ -1,6 +1,6 @@
 // src/parser/simple_split.ts
 import type { Row } from "../core/row.ts";
-import { yyyymmddToUnix } from "../utils/date.ts";
+import { createTimestampParser, type TimestampParser } from "../utils/date.ts";
 import {
   DateBeforeEpochError,
   InvalidCloseError,
@@ -11,23 +11,52 @@ import {
   InvalidOpenError,
   InvalidTimestampError,
   InvalidVolumeError,
+  ParseError,
+  ValidationError,
 } from "../core/errors.ts";
-import { EXPECTED_FIELDS } from "./common.ts";
+import type { ParseOptions } from "./common.ts";
+import { type ColumnMapping, resolveColumnMapping } from "./columns.ts";
+import {
+  isCommentLine,
+  normalizeNumber,
+  type ResolvedDialect,
+  resolveDialect,
+  splitFields,
+  stripBom,
+} from "./dialect.ts";
+import { createValidator, validateParsedRow } from "./_validation.ts";
+import { ParseReporter } from "./_report.ts";
 
-function parseLineToRowSimple(line: string, lineNumber?: number): Row {
-  const fields = line.split(",");
-  if (fields.length !== EXPECTED_FIELDS) {
+function parseLineToRowSimple(
+  line: string,
+  mapping: ColumnMapping,
+  parseTimestamp: TimestampParser,
+  dialect: ResolvedDialect,
+  lineNumber?: number,
+): Row {
+  const fields = splitFields(line, dialect);
+  if (
+    fields.length < mapping.minFields || fields.length > mapping.maxFields
+  ) {
     throw new InvalidFormatError(
-      `Expected ${EXPECTED_FIELDS}, got ${fields.length}.`,
+      `Expected ${
+        mapping.minFields === mapping.maxFields
+          ? mapping.minFields
+          : `at least ${mapping.minFields}`
+      }, got ${fields.length}.`,
       { lineNumber, lineContent: line },
     );
   }
-  const [dateStr, openStr, highStr, lowStr, closeStr, volumeStr] = fields.map(
-    (f) => f.trim(),
-  );
+  const { indexes } = mapping;
+  const dateStr = fields[indexes.ts].trim();
+  const openStr = fields[indexes.o].trim();
+  const highStr = fields[indexes.h].trim();
+  const lowStr = fields[indexes.l].trim();
+  const closeStr = fields[indexes.c].trim();
+  const volumeStr = fields[indexes.v].trim();
   let ts;
   try {
-    ts = yyyymmddToUnix(dateStr);
+    ts = parseTimestamp(dateStr);
   } catch (e) {
     const reason = e instanceof Error ? e.message : String(e);
     if (e instanceof DateBeforeEpochError) {
@@ -41,35 +70,35 @@ function parseLineToRowSimple(line: string, lineNumber?: number): Row {
       lineContent: line,
     });
   }
-  const o = +openStr;
+  const o = +normalizeNumber(openStr, dialect);
   if (isNaN(o)) {
     throw new InvalidOpenError(`Open: "${openStr}"`, {
       lineNumber,
       lineContent: line,
     });
   }
-  const h = +highStr;
+  const h = +normalizeNumber(highStr, dialect);
   if (isNaN(h)) {
     throw new InvalidHighError(`High: "${highStr}"`, {
       lineNumber,
       lineContent: line,
     });
   }
-  const l = +lowStr;
+  const l = +normalizeNumber(lowStr, dialect);
   if (isNaN(l)) {
     throw new InvalidLowError(`Low: "${lowStr}"`, {
       lineNumber,
       lineContent: line,
     });
   }
-  const c = +closeStr;
+  const c = +normalizeNumber(closeStr, dialect);
   if (isNaN(c)) {
     throw new InvalidCloseError(`Close: "${closeStr}"`, {
       lineNumber,
       lineContent: line,
     });
   }
-  const v = +volumeStr;
+  const v = +normalizeNumber(volumeStr, dialect);
   if (isNaN(v)) {
     throw new InvalidVolumeError(`Volume: "${volumeStr}"`, {
       lineNumber,
@@ -86,6 +115,24 @@ function parseLineToRowSimple(line: string, lineNumber?: number): Row {
   return { ts, o, h, l, c, v };
 }
 
+function resolveSimpleMapping(
+  headerLine: string | undefined,
+  options: ParseOptions,
+  dialect: ResolvedDialect,
+): ColumnMapping {
+  if (headerLine === undefined || options.detectHeader === false) {
+    return resolveColumnMapping(options.schema);
+  }
+  const header = splitFields(headerLine, dialect);
+  try {
+    return resolveColumnMapping(options.schema, header);
+  } catch (e) {
+    if (!(e instanceof InvalidFormatError)) throw e;
+    // Unrecognised header names: fall back to positional columns.
+    return resolveColumnMapping(options.schema);
+  }
+}
+
 /**
  * Parses CSV data from a string using a simple line-by-line split.
  *
@@ -93,17 +140,22 @@ function parseLineToRowSimple(line: string, lineNumber?: number): Row {
  * the entire CSV content into memory and processes it line by line using
  * basic string splitting. Best for small to medium datasets.
  *
+ * When `skipHeader` is true, the column mapping is resolved from the header
+ * line (see {@link ParseOptions}), so files with extra or reordered columns
+ * are supported.
+ *
  * @param csvContent - The complete CSV content as a string
  * @param skipHeader - Whether to skip the first line (header row). Defaults to true
+ * @param options - Optional column schema, header, timestamp and validation
+ * handling
  * @returns Array of parsed Row objects
  *
- * @throws {InvalidFormatError} When a line has the wrong number of fields
- * @throws {InvalidTimestampError} When the date field cannot be parsed
- * @throws {InvalidOpenError} When the open price is not a valid number
- * @throws {InvalidHighError} When the high price is not a valid number
- * @throws {InvalidLowError} When the low price is not a valid number
- * @throws {InvalidCloseError} When the close price is not a valid number
- * @throws {InvalidVolumeError} When the volume is not a valid number
+ * @throws {InvalidFormatError} When a column in `options.schema` cannot be resolved
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line. Otherwise malformed lines are skipped and counted in the report
+ * passed to `options.onReport`
  *
  * @example
  * ```typescript
@@ -119,19 +171,54 @@ function parseLineToRowSimple(line: string, lineNumber?: number): Row {
 export function parseWithSimpleSplit(
   csvContent: string,
   skipHeader: boolean = true,
+  options: ParseOptions = {},
 ): Row[] {
-  const lines = csvContent.split(/\r?\n/);
+  const dialect = resolveDialect(options.dialect);
+  const lines = stripBom(csvContent).split(/\r?\n/);
   const rows: Row[] = [];
-  const startLine = skipHeader ? 1 : 0;
+  // The header is the first line that is not a comment.
+  let headerIndex = 0;
+  while (
+    headerIndex < lines.length - 1 && isCommentLine(lines[headerIndex], dialect)
+  ) {
+    headerIndex++;
+  }
+  const startLine = skipHeader ? headerIndex + 1 : 0;
+  const mapping = resolveSimpleMapping(
+    skipHeader ? lines[headerIndex] : undefined,
+    options,
+    dialect,
+  );
+  const parseTimestamp = createTimestampParser(options.timestamp);
+  const validator = createValidator(options);
+  const reporter = new ParseReporter(options);
 
   for (let i = startLine; i < lines.length; i++) {
     const line = lines[i].trim();
-    if (line.length === 0) continue;
+    if (line.length === 0 || isCommentLine(line, dialect)) continue;
     try {
-      rows.push(parseLineToRowSimple(line, i + 1));
+      const row = validateParsedRow(
+        validator,
+        parseLineToRowSimple(line, mapping, parseTimestamp, dialect, i + 1),
+        i + 1,
+        line,
+        reporter.onSkip,
+      );
+      if (row) rows.push(row);
     } catch (e) {
-      // console.warn(`SimpleSplit L${i + 1}: Skip - ${e instanceof Error ? e.message : String(e)} Line: "${line.slice(0,50)}"`);
+      if (e instanceof ValidationError) throw e;
+      reporter.onSkip?.(
+        e as Error,
+        i + 1,
+        line,
+        e instanceof ParseError ? e.details : undefined,
+      );
     }
   }
+  reporter.finish(
+    rows.length,
+    skipHeader && lines[headerIndex].trim().length > 0 &&
+      !isCommentLine(lines[headerIndex], dialect),
+  );
   return rows;
 }
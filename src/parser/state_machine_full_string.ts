@@ -1,7 +1,8 @@
 // src/parser/state_machine_full_string.ts
 import type { Row } from "../core/row.ts";
 import { InternalStateMachineCore } from "./_state_machine_core.ts";
-import type { RowCallback, SkipErrorCallback } from "./common.ts";
+import { ParseReporter } from "./_report.ts";
+import type { ParseOptions, RowCallback, SkipErrorCallback } from "./common.ts";
 
 /**
  * Parses CSV data from a full string using the core state machine logic.
@@ -12,8 +13,15 @@ import type { RowCallback, SkipErrorCallback } from "./common.ts";
  *
  * @param csvContent - The complete CSV content as a string
  * @param onSkippedLine - Optional callback for handling parsing errors
+ * @param options - Optional column schema, header, timestamp and validation
+ * handling
  * @returns Array of parsed Row objects
  *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
  * @example
  * ```typescript
  * import { parseFullStringWithStateMachine } from "@mso/ohlcv";
@@ -28,12 +36,15 @@ import type { RowCallback, SkipErrorCallback } from "./common.ts";
 export function parseFullStringWithStateMachine(
   csvContent: string,
   onSkippedLine?: SkipErrorCallback,
+  options?: ParseOptions,
 ): Row[] {
   const rows: Row[] = [];
   const onRow: RowCallback = (row: Row) => rows.push(row);
 
-  const parser = new InternalStateMachineCore(onRow, onSkippedLine);
+  const reporter = new ParseReporter(options ?? {}, onSkippedLine);
+  const parser = new InternalStateMachineCore(onRow, reporter.onSkip, options);
   parser.processChunk(csvContent);
   parser.finalize();
+  reporter.finish(rows.length, parser.headerDetected);
   return rows;
 }
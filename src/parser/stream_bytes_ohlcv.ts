@@ -0,0 +1,452 @@
+// src/parser/stream_bytes_ohlcv.ts
+import type { Row } from "../core/row.ts";
+import {
+  createTimestampParser,
+  detectTimestampFormat,
+  type TimestampOptions,
+} from "../utils/date.ts";
+import {
+  type ParseOptions,
+  type RowCallback,
+  type SkipErrorCallback,
+  SKIPPED_HEADER,
+  SKIPPED_HEADER_LAST_LINE,
+} from "./common.ts";
+import { HeaderSkipError } from "../core/errors.ts";
+import { type ColumnMapping, resolveColumnMapping } from "./columns.ts";
+import { isCommentLine, resolveDialect } from "./dialect.ts";
+import { createValidator, validateParsedRow } from "./_validation.ts";
+import { ParseReporter } from "./_report.ts";
+import {
+  parseOhlcvLineOptimized,
+  resolveHeaderMapping,
+} from "./_ohlcv_line.ts";
+
+// ASCII codes
+const NEWLINE = 10;
+const CARRIAGE_RETURN = 13;
+const SPACE = 32;
+const TAB = 9;
+const VERTICAL_TAB = 11;
+const FORM_FEED = 12;
+const COMMA = 44;
+const PLUS = 43;
+const MINUS = 45;
+const DOT = 46;
+const ZERO = 48;
+const NINE = 57;
+
+/** Largest integer mantissa that is exactly representable as a double. */
+const MAX_EXACT_MANTISSA = 2 ** 53;
+/** Powers of ten that are exactly representable as doubles. */
+const EXACT_POWERS_OF_TEN = Array.from({ length: 23 }, (_, i) => 10 ** i);
+
+const SECONDS_PER_DAY = 86_400;
+
+const reusableBytesRow: Row = { ts: 0, o: 0, h: 0, l: 0, c: 0, v: 0 };
+
+function isTrailingWhitespace(byte: number): boolean {
+  return byte === SPACE || byte === CARRIAGE_RETURN || byte === TAB ||
+    byte === VERTICAL_TAB || byte === FORM_FEED;
+}
+
+/** Decodes one byte per character, so fields of any length are safe. */
+const LATIN1_DECODER = new TextDecoder("latin1");
+
+function asciiToString(bytes: Uint8Array, start: number, end: number): string {
+  return LATIN1_DECODER.decode(bytes.subarray(start, end));
+}
+
+/**
+ * Parses a decimal number such as `-123.45` directly from ASCII bytes.
+ *
+ * Values that cannot be converted exactly this way (exponents, hex, surrounding
+ * whitespace, more than 15 significant digits, ...) are converted with
+ * `Number()` like the string parsers, so results are always identical.
+ */
+function parseNumberBytes(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+): number {
+  let i = start;
+  let negative = false;
+  if (i < end && (bytes[i] === MINUS || bytes[i] === PLUS)) {
+    negative = bytes[i] === MINUS;
+    i++;
+  }
+  let mantissa = 0;
+  let digits = 0;
+  let fractionDigits = 0;
+  let seenDot = false;
+  for (; i < end; i++) {
+    const byte = bytes[i];
+    if (byte >= ZERO && byte <= NINE) {
+      mantissa = mantissa * 10 + (byte - ZERO);
+      digits++;
+      if (seenDot) fractionDigits++;
+    } else if (byte === DOT && !seenDot) {
+      seenDot = true;
+    } else {
+      return +asciiToString(bytes, start, end);
+    }
+  }
+  if (
+    digits === 0 || mantissa > MAX_EXACT_MANTISSA ||
+    fractionDigits >= EXACT_POWERS_OF_TEN.length
+  ) {
+    return +asciiToString(bytes, start, end);
+  }
+  // Both operands are exact, so a single division is correctly rounded.
+  const value = fractionDigits === 0
+    ? mantissa
+    : mantissa / EXACT_POWERS_OF_TEN[fractionDigits];
+  return negative ? -value : value;
+}
+
+function digitAt(bytes: Uint8Array, index: number): number {
+  const digit = bytes[index] - ZERO;
+  return digit >= 0 && digit <= 9 ? digit : NaN;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Parses a `YYYY-MM-DD` field directly from bytes, with the same result as
+ * `yyyymmddToUnix`.
+ *
+ * @returns Unix timestamp in seconds, or NaN when the field is not a valid date
+ */
+function parseDateBytes(bytes: Uint8Array, start: number, end: number): number {
+  if (
+    end - start !== 10 || bytes[start + 4] !== MINUS ||
+    bytes[start + 7] !== MINUS
+  ) {
+    return NaN;
+  }
+  const year = digitAt(bytes, start) * 1000 + digitAt(bytes, start + 1) * 100 +
+    digitAt(bytes, start + 2) * 10 + digitAt(bytes, start + 3);
+  const month = digitAt(bytes, start + 5) * 10 + digitAt(bytes, start + 6);
+  const day = digitAt(bytes, start + 8) * 10 + digitAt(bytes, start + 9);
+  if (isNaN(year) || isNaN(month) || isNaN(day)) return NaN;
+  if (month < 1 || month > 12 || day < 1) return NaN;
+  const monthDays = month === 2 && isLeapYear(year)
+    ? 29
+    : DAYS_IN_MONTH[month - 1];
+  if (day > monthDays) return NaN;
+
+  // Days from 1970-01-01 to the civil date (proleptic Gregorian calendar).
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const dayOfYear = Math.floor((153 * (month + (month > 2 ? -3 : 9)) + 2) / 5) +
+    day - 1;
+  const dayOfEra = yearOfEra * 365 + Math.floor(yearOfEra / 4) -
+    Math.floor(yearOfEra / 100) + dayOfYear;
+  return (era * 146_097 + dayOfEra - 719_468) * SECONDS_PER_DAY;
+}
+
+/**
+ * Whether the timestamp options parse plain `YYYY-MM-DD` dates exactly like
+ * `yyyymmddToUnix`, so they can be read straight from bytes.
+ */
+function allowsByteDates(options: TimestampOptions = {}): boolean {
+  const format = options.format ?? "auto";
+  return (format === "auto" || format === "date") &&
+    options.pattern === undefined && options.timeZone === undefined &&
+    options.sessionTime === undefined && !options.rejectBeforeEpoch;
+}
+
+/** Code of a dialect character when it is ASCII, or -1. */
+function asciiCode(char: string | null): number {
+  return char !== null && char.charCodeAt(0) < 0x80 ? char.charCodeAt(0) : -1;
+}
+
+/**
+ * Streaming OHLCV parser that works on the raw bytes of the stream.
+ *
+ * Produces exactly the same rows and skip callbacks as
+ * {@link parseStreamOptimizedOhlcv}, but never decodes the stream as a
+ * whole: it scans each `Uint8Array` chunk for newlines and commas and parses
+ * ASCII dates and decimal numbers straight from the buffer. Only headers,
+ * skipped lines, quoted lines, lines containing non-ASCII bytes and lines in
+ * a non-default dialect are decoded to strings.
+ *
+ * @param stream - ReadableStream of UTF-8 CSV data as Uint8Array chunks
+ * @param onRow - Callback function called for each successfully parsed row
+ * @param skipHeader - Whether to skip the first line (header row). Defaults to true
+ * @param onSkipLine - Optional callback for handling parsing errors
+ * @param options - Optional column schema, header, timestamp and validation
+ * handling, as for {@link parseStreamOptimizedOhlcv}
+ * @returns Promise resolving to the total number of rows processed
+ *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsStream, parseStreamBytesOhlcv, DataSource } from "@mso/ohlcv";
+ *
+ * const stream = await fetchCsvAsStream(DataSource.BTC_CSV);
+ * const total = await parseStreamBytesOhlcv(stream, (row) => {
+ *   console.log(row.ts, row.c);
+ * });
+ * ```
+ */
+export async function parseStreamBytesOhlcv(
+  stream: ReadableStream<Uint8Array>,
+  onRow: RowCallback,
+  skipHeader: boolean = true,
+  onSkipLine?: SkipErrorCallback,
+  options: ParseOptions = {},
+): Promise<number> {
+  const reporter = new ParseReporter(options, onSkipLine);
+  const onSkip = reporter.onSkip;
+  // With a header, the mapping is resolved once the header line is read.
+  let mapping: ColumnMapping | undefined = skipHeader
+    ? undefined
+    : resolveColumnMapping(options.schema);
+  const parseTimestamp = createTimestampParser(options.timestamp);
+  const dialect = resolveDialect(options.dialect);
+  const quoteByte = asciiCode(dialect.quote);
+  const commentByte = asciiCode(dialect.comment);
+  const timestampFormat = options.timestamp?.format ?? "auto";
+  const byteDates = allowsByteDates(options.timestamp);
+  // Whether the timestamp parser has settled on plain dates. With "auto"
+  // this is only known once it has detected the format of a value.
+  let datesDetected = byteDates && timestampFormat === "date";
+  let formatDetected = timestampFormat !== "auto";
+  const validator = createValidator(options);
+  const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+  const reader = stream.getReader();
+  const row = reusableBytesRow;
+  let rowCount = 0;
+  let isFirstNonEmptyLine = true;
+  let isStreamStart = true;
+  let currentLineNumber = 0;
+  let carry: Uint8Array | null = null;
+
+  const emitRow = (lineNumber: number, line: () => string) => {
+    const parsed: Row = {
+      ts: row.ts,
+      o: row.o,
+      h: row.h,
+      l: row.l,
+      c: row.c,
+      v: row.v,
+    };
+    const validated = validator
+      ? validateParsedRow(validator, parsed, lineNumber, line(), onSkip)
+      : parsed;
+    if (validated) {
+      onRow(validated);
+      rowCount++;
+    }
+  };
+
+  const parseTimestampString = (value: string): number => {
+    try {
+      return parseTimestamp(value);
+    } finally {
+      if (!formatDetected) {
+        const format = detectTimestampFormat(value);
+        if (format !== undefined) {
+          formatDetected = true;
+          datesDetected = byteDates && format === "date";
+        }
+      }
+    }
+  };
+
+  /** Parses a line of ASCII bytes in the canonical layout into `row`. */
+  const parseAsciiLine = (
+    bytes: Uint8Array,
+    start: number,
+    end: number,
+    p1: number,
+    p2: number,
+    p3: number,
+    p4: number,
+    p5: number,
+  ): boolean => {
+    try {
+      row.ts = datesDetected
+        ? parseDateBytes(bytes, start, p1)
+        : parseTimestampString(asciiToString(bytes, start, p1));
+      row.o = parseNumberBytes(bytes, p1 + 1, p2);
+      row.h = parseNumberBytes(bytes, p2 + 1, p3);
+      row.l = parseNumberBytes(bytes, p3 + 1, p4);
+      row.c = parseNumberBytes(bytes, p4 + 1, p5);
+      row.v = parseNumberBytes(bytes, p5 + 1, end);
+    } catch {
+      // The string parser reports why the line failed.
+      return false;
+    }
+    if (
+      isNaN(row.ts) || isNaN(row.o) || isNaN(row.h) || isNaN(row.l) ||
+      isNaN(row.c) || isNaN(row.v)
+    ) {
+      return false;
+    }
+    return !(row.o === 0 && row.h === 0 && row.l === 0 && row.c === 0 &&
+      row.v === 0 && row.ts !== 0);
+  };
+
+  /** Parses a decoded line, emitting the row or reporting why it failed. */
+  const processText = (line: string, lineNumber: number) => {
+    const failure = parseOhlcvLineOptimized(
+      line,
+      mapping ??= resolveColumnMapping(options.schema),
+      parseTimestampString,
+      row,
+      dialect,
+    );
+    if (failure === undefined) {
+      emitRow(lineNumber, () => line);
+    } else {
+      onSkip?.(failure.error, lineNumber, line, failure.details);
+    }
+  };
+
+  /** Handles one complete line, excluding its newline. */
+  const processLine = (bytes: Uint8Array, start: number, end: number) => {
+    currentLineNumber++;
+    if (isStreamStart) {
+      isStreamStart = false;
+      // TextDecoder drops a leading byte order mark.
+      if (
+        end - start >= 3 && bytes[start] === 0xef &&
+        bytes[start + 1] === 0xbb && bytes[start + 2] === 0xbf
+      ) {
+        start += 3;
+      }
+    }
+
+    let asciiEnd = end;
+    while (asciiEnd > start && isTrailingWhitespace(bytes[asciiEnd - 1])) {
+      asciiEnd--;
+    }
+    if (asciiEnd === start) return; // Blank line
+
+    const decodeLine = () =>
+      decoder.decode(bytes.subarray(start, end)).trimEnd();
+    // Non-ASCII whitespace, e.g. a no-break space, is trimmed by trimEnd too.
+    if (bytes[asciiEnd - 1] >= 0x80 && decodeLine().length === 0) return;
+    if (
+      commentByte >= 0
+        ? bytes[start] === commentByte
+        : isCommentLine(decodeLine(), dialect)
+    ) {
+      return;
+    }
+
+    if (skipHeader && isFirstNonEmptyLine) {
+      isFirstNonEmptyLine = false;
+      const line = decodeLine();
+      mapping = resolveHeaderMapping(line, options, dialect);
+      onSkip?.(new HeaderSkipError(SKIPPED_HEADER), currentLineNumber, line);
+      return;
+    }
+    isFirstNonEmptyLine = false;
+    mapping ??= resolveColumnMapping(options.schema);
+
+    let p1 = -1, p2 = -1, p3 = -1, p4 = -1, p5 = -1;
+    let commaCount = 0;
+    let ascii = true;
+    let quoted = false;
+    for (let i = start; i < asciiEnd; i++) {
+      const byte = bytes[i];
+      if (byte === COMMA) {
+        commaCount++;
+        if (commaCount === 1) p1 = i;
+        else if (commaCount === 2) p2 = i;
+        else if (commaCount === 3) p3 = i;
+        else if (commaCount === 4) p4 = i;
+        else if (commaCount === 5) p5 = i;
+      } else if (byte === quoteByte) {
+        quoted = true;
+      } else if (byte >= 0x80) {
+        ascii = false;
+        break;
+      }
+    }
+
+    if (ascii && !quoted && mapping.isDefault && dialect.isDefault) {
+      // Extra commas end up in the volume field, which then fails to parse.
+      if (
+        commaCount >= 5 &&
+        parseAsciiLine(bytes, start, asciiEnd, p1, p2, p3, p4, p5)
+      ) {
+        emitRow(currentLineNumber, decodeLine);
+        return;
+      }
+    }
+
+    // Other layouts and dialects, quoted and non-ASCII lines go through the
+    // string parser, as do lines the byte scan rejected, to find out why.
+    processText(decodeLine(), currentLineNumber);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let bytes = value;
+      let searchFrom = 0;
+      if (carry) {
+        bytes = new Uint8Array(carry.length + value.length);
+        bytes.set(carry);
+        bytes.set(value, carry.length);
+        searchFrom = carry.length;
+        carry = null;
+      }
+
+      let lineStart = 0;
+      let newlineIndex;
+      while ((newlineIndex = bytes.indexOf(NEWLINE, searchFrom)) >= 0) {
+        processLine(bytes, lineStart, newlineIndex);
+        lineStart = newlineIndex + 1;
+        searchFrom = lineStart;
+      }
+      if (lineStart < bytes.length) carry = bytes.slice(lineStart);
+    }
+
+    // The final line has no newline. Decode it the way the string parser
+    // does, including any incomplete UTF-8 sequence at the end of the stream.
+    const tailDecoder = new TextDecoder("utf-8", { ignoreBOM: !isStreamStart });
+    const lastLine = tailDecoder.decode(carry ?? new Uint8Array(), {
+      stream: true,
+    }).trimEnd();
+    if (lastLine.length > 0 && !isCommentLine(lastLine, dialect)) {
+      currentLineNumber++;
+      if (!(skipHeader && isFirstNonEmptyLine)) {
+        processText(lastLine, currentLineNumber);
+      } else {
+        onSkip?.(
+          new HeaderSkipError(SKIPPED_HEADER_LAST_LINE),
+          currentLineNumber,
+          lastLine,
+        );
+      }
+    }
+    const remainingDecoderContent = tailDecoder.decode();
+    if (remainingDecoderContent.trim().length > 0) {
+      currentLineNumber++;
+      const line = remainingDecoderContent.trim();
+      if (!isFirstNonEmptyLine || !skipHeader) {
+        processText(line, currentLineNumber);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  reporter.finish(rowCount);
+  return rowCount;
+}
@@ -0,0 +1,266 @@
+// src/parser/stream_bytes_ohlcv_test.ts
+import { deepStrictEqual, strictEqual } from "node:assert";
+import type { Row } from "../core/row.ts";
+import type { ParseOptions } from "./common.ts";
+import { parseStreamBytesOhlcv } from "./stream_bytes_ohlcv.ts";
+import { parseStreamOptimizedOhlcv } from "./stream_optimized_ohlcv.ts";
+
+const header = "Date,Open,High,Low,Close,Volume\n";
+
+/** Splits the encoded text into chunks of `size` bytes */
+function chunksOf(text: string, size: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(bytes.slice(i, i + size));
+  }
+  return ReadableStream.from(chunks);
+}
+
+type Parser = typeof parseStreamBytesOhlcv;
+
+interface Result {
+  count: number;
+  rows: Row[];
+  skipped: [string, number, string | undefined][];
+}
+
+async function run(
+  parser: Parser,
+  stream: ReadableStream<Uint8Array>,
+  skipHeader: boolean,
+  options: ParseOptions,
+): Promise<Result> {
+  const rows: Row[] = [];
+  const skipped: Result["skipped"] = [];
+  const count = await parser(
+    stream,
+    (row) => rows.push(row),
+    skipHeader,
+    (error, lineNumber, lineContent) =>
+      skipped.push([error.constructor.name, lineNumber, lineContent]),
+    options,
+  );
+  return { count, rows, skipped };
+}
+
+/**
+ * Asserts that the byte parser matches the string-based stream parser for
+ * every chunk size, and returns its result.
+ */
+async function assertMatchesOptimized(
+  csv: string,
+  options: ParseOptions = {},
+  skipHeader: boolean = true,
+): Promise<Result> {
+  const expected = await run(
+    parseStreamOptimizedOhlcv,
+    chunksOf(csv, Infinity),
+    skipHeader,
+    options,
+  );
+  for (const size of [1, 2, 7, Infinity]) {
+    deepStrictEqual(
+      await run(
+        parseStreamBytesOhlcv,
+        chunksOf(csv, size),
+        skipHeader,
+        options,
+      ),
+      expected,
+      `chunk size ${size}`,
+    );
+  }
+  return expected;
+}
+
+Deno.test("parseStreamBytesOhlcv reads numbers exactly like Number()", async () => {
+  const values = [
+    "0",
+    "-0",
+    "+1.5",
+    "-1.5",
+    "0.1",
+    "0.3",
+    "4.35",
+    "123.456789",
+    "0.000123",
+    ".5",
+    "5.",
+    "1e3",
+    "1.5E-7",
+    "0x1F",
+    "123456789012345",
+    "1234567890123456789",
+    "0.123456789012345678",
+    "3.14159265358979323846",
+    "16625.08",
+    "99999999999999.99",
+  ];
+  const csv = header +
+    values.map((value, i) =>
+      // A non-zero high keeps "0" rows from being read as placeholders
+      `2023-01-${
+        String(i + 1).padStart(2, "0")
+      },${value},1,${value},${value},${value}\n`
+    ).join("");
+  const { rows } = await assertMatchesOptimized(csv);
+  strictEqual(rows.length, values.length);
+  for (const [i, value] of values.entries()) {
+    strictEqual(Object.is(rows[i].o, Number(value)), true, value);
+    strictEqual(Object.is(rows[i].v, Number(value)), true, value);
+  }
+});
+
+Deno.test("parseStreamBytesOhlcv rejects malformed numbers like the string parser", async () => {
+  const csv = header +
+    "2023-01-01,1..5,2,0.5,1.5,100\n" +
+    "2023-01-02,-,2,0.5,1.5,100\n" +
+    "2023-01-03,,2,0.5,1.5,100\n" +
+    "2023-01-04,1,2,0.5,1.5,1 0\n" +
+    "2023-01-05,1,2,0.5,1.5,100,extra\n" +
+    "2023-01-06, 1 ,2,0.5,1.5,100\n" +
+    "2023-01-07,0,0,0,0,0\n";
+  const { rows, skipped } = await assertMatchesOptimized(csv);
+  // Like Number(), both parsers read an empty field as 0
+  deepStrictEqual(rows.map((row) => row.o), [0, 1]);
+  deepStrictEqual(skipped.map(([name, lineNumber]) => [name, lineNumber]), [
+    ["HeaderSkipError", 1],
+    ["InvalidOpenError", 2],
+    ["InvalidOpenError", 3],
+    ["InvalidVolumeError", 5],
+    ["InvalidFormatError", 6],
+    ["InvalidFormatError", 8],
+  ]);
+});
+
+Deno.test("parseStreamBytesOhlcv reads dates before 1970 and leap days", async () => {
+  const csv = header +
+    "0099-12-31,1,2,0.5,1.5,100\n" +
+    "1600-02-29,1,2,0.5,1.5,100\n" +
+    "1900-02-28,1,2,0.5,1.5,100\n" +
+    "1969-12-31,1,2,0.5,1.5,100\n" +
+    "2000-02-29,1,2,0.5,1.5,100\n" +
+    "2024-12-31,1,2,0.5,1.5,100\n";
+  const { rows } = await assertMatchesOptimized(csv);
+  deepStrictEqual(rows.map((row) => row.ts), [
+    -59011545600,
+    Date.UTC(1600, 1, 29) / 1000,
+    Date.UTC(1900, 1, 28) / 1000,
+    -86400,
+    Date.UTC(2000, 1, 29) / 1000,
+    Date.UTC(2024, 11, 31) / 1000,
+  ]);
+});
+
+Deno.test("parseStreamBytesOhlcv skips invalid dates like the string parser", async () => {
+  const csv = header +
+    "2023-01-01,1,2,0.5,1.5,100\n" +
+    "1900-02-29,1,2,0.5,1.5,100\n" +
+    "2023-02-30,1,2,0.5,1.5,100\n" +
+    "2023-13-01,1,2,0.5,1.5,100\n" +
+    "2023-00-10,1,2,0.5,1.5,100\n" +
+    "2023-01-00,1,2,0.5,1.5,100\n" +
+    "2023-1-01,1,2,0.5,1.5,100\n" +
+    "2023-01-0a,1,2,0.5,1.5,100\n" +
+    "2023-01-02,1,2,0.5,1.5,100\n";
+  const { rows, skipped } = await assertMatchesOptimized(csv);
+  strictEqual(rows.length, 2);
+  strictEqual(skipped.length, 8);
+});
+
+Deno.test("parseStreamBytesOhlcv matches the string parser for other timestamp formats", async () => {
+  const body = "1672531200,1,2,0.5,1.5,100\n" +
+    "1672617600,1,2,0.5,1.5,100\n" +
+    "2023-01-03,1,2,0.5,1.5,100\n";
+  await assertMatchesOptimized(header + body);
+  await assertMatchesOptimized(
+    header + "2023-01-01 09:30:00,1,2,0.5,1.5,100\n" +
+      "2023-01-01T09:31:00Z,1,2,0.5,1.5,100\n",
+  );
+  const dates = header + "2023-03-12,1,2,0.5,1.5,100\n";
+  for (
+    const timestamp of [
+      { timeZone: "America/New_York" },
+      { sessionTime: "16:00", timeZone: "America/New_York" },
+      { pattern: "YYYY-MM-DD" },
+      { format: "date" as const },
+    ]
+  ) {
+    await assertMatchesOptimized(dates, { timestamp });
+  }
+  const { skipped } = await assertMatchesOptimized(
+    header + "1969-12-31,1,2,0.5,1.5,100\n",
+    { timestamp: { rejectBeforeEpoch: true } },
+  );
+  strictEqual(skipped[1][0], "DateBeforeEpochError");
+});
+
+Deno.test("parseStreamBytesOhlcv handles CRLF, BOM, blank lines and a final line without newline", async () => {
+  const csv = "﻿" + header.replace("\n", "\r\n") +
+    "2023-01-01,1,2,0.5,1.5,100\r\n" +
+    "\r\n" +
+    "   \n" +
+    "2023-01-02,1,2,0.5,1.5,100 \t\r\n" +
+    "2023-01-03,1,2,0.5,1.5,100";
+  const { count, rows, skipped } = await assertMatchesOptimized(csv);
+  strictEqual(count, 3);
+  strictEqual(rows[2].ts, Date.UTC(2023, 0, 3) / 1000);
+  deepStrictEqual(skipped, [[
+    "HeaderSkipError",
+    1,
+    "Date,Open,High,Low,Close,Volume",
+  ]]);
+  await assertMatchesOptimized(header.trimEnd());
+  await assertMatchesOptimized("");
+});
+
+Deno.test("parseStreamBytesOhlcv decodes non-ASCII lines in skip reports", async () => {
+  const csv = header +
+    "2023-01-01,1,2,0.5,1.5,100\n" +
+    "2023-01-02,1€,2,0.5,1.5,100\n" +
+    "2023-01-03,1,2,0.5,1.5,100 \n" +
+    "2023-01-04,1,2,0.5,1.5,100\n" +
+    "2023-01-05,1,2,0.5,1.5,1é";
+  const { rows, skipped } = await assertMatchesOptimized(csv);
+  strictEqual(rows.length, 3);
+  deepStrictEqual(
+    skipped.slice(1).map(([, line, content]) => [line, content]),
+    [
+      [3, "2023-01-02,1€,2,0.5,1.5,100"],
+      [6, "2023-01-05,1,2,0.5,1.5,1é"],
+    ],
+  );
+});
+
+Deno.test("parseStreamBytesOhlcv reads other dialects, quotes, comments and schemas", async () => {
+  await assertMatchesOptimized(
+    header + '"2023-01-01","1","2","0.5","1.5","1,000"\n' +
+      "# comment\n" +
+      "2023-01-02,1,2,0.5,1.5,100\n",
+    { dialect: { comment: "#" } },
+  );
+  await assertMatchesOptimized(
+    "Date;Open;High;Low;Close;Volume\n2023-01-01;1,5;2;0,5;1,5;100\n",
+    { dialect: { delimiter: ";", decimal: "," } },
+  );
+  await assertMatchesOptimized(
+    "Volume,Close,Low,High,Open,Date\n100,1.5,0.5,2,1,2023-01-01\n",
+  );
+  const { rows } = await assertMatchesOptimized(
+    "2023-01-01,1,2,0.5,1.5,100\n2023-01-02,1,2,0.5,1.5,100\n",
+    {},
+    false,
+  );
+  strictEqual(rows.length, 2);
+});
+
+Deno.test("parseStreamBytesOhlcv validates rows like the string parser", async () => {
+  const csv = header +
+    "2023-01-02,1,2,0.5,1.5,100\n" +
+    "2023-01-01,1,2,0.5,1.5,100\n" +
+    "2023-01-03,1,0.5,2,1.5,100\n";
+  for (const mode of ["report", "repair"] as const) {
+    await assertMatchesOptimized(csv, { validation: { mode } });
+  }
+});
@@ -1,69 +1,43 @@
 // src/parser/stream_optimized_ohlcv.ts
-import type { Row } from "../core/row.ts";
-import { yyyymmddToUnix } from "../utils/date.ts";
-import type { RowCallback, SkipErrorCallback } from "./common.ts";
-import { InvalidFormatError, ParseError } from "../core/errors.ts";
+import type { ParseOptions, RowCallback, SkipErrorCallback } from "./common.ts";
+import { createValidator, validateParsedRow } from "./_validation.ts";
+import { ParseReporter } from "./_report.ts";
+import {
+  copyRow,
+  OptimizedOhlcvScanner,
+  type ParsedLineSink,
+} from "./_ohlcv_line.ts";
+import { type OhlcvSeries, OhlcvSeriesBuilder } from "../series/series.ts";
 
-const reusableOptimizedRow: Partial<Row> = {};
-
-function parseOhlcvLineOptimizedInternal(line: string): Row | null {
-  let p1 = -1, p2 = -1, p3 = -1, p4 = -1, p5 = -1;
-  let commaCount = 0;
-
-  for (let i = 0; i < line.length; ++i) {
-    // comma acii
-    if (line.charCodeAt(i) === 44) {
-      commaCount++;
-      if (commaCount === 1) p1 = i;
-      else if (commaCount === 2) p2 = i;
-      else if (commaCount === 3) p3 = i;
-      else if (commaCount === 4) p4 = i;
-      else if (commaCount === 5) {
-        p5 = i;
-        break;
-      }
-    }
-  }
-
-  if (commaCount !== 5) return null;
+/**
+ * Reads CSV lines from a stream and hands each successfully parsed row to
+ * `onLine`, reporting headers and malformed lines through `onSkipLine`.
+ */
+async function scanOptimizedOhlcv(
+  stream: ReadableStream<Uint8Array>,
+  onLine: ParsedLineSink,
+  skipHeader: boolean,
+  onSkipLine: SkipErrorCallback | undefined,
+  options: ParseOptions,
+): Promise<void> {
+  const scanner = new OptimizedOhlcvScanner(
+    onLine,
+    skipHeader,
+    onSkipLine,
+    options,
+  );
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
 
   try {
-    reusableOptimizedRow.ts = yyyymmddToUnix(line.substring(0, p1));
-    reusableOptimizedRow.o = +line.substring(p1 + 1, p2);
-    reusableOptimizedRow.h = +line.substring(p2 + 1, p3);
-    reusableOptimizedRow.l = +line.substring(p3 + 1, p4);
-    reusableOptimizedRow.c = +line.substring(p4 + 1, p5);
-    reusableOptimizedRow.v = +line.substring(p5 + 1);
-
-    if (
-      isNaN(reusableOptimizedRow.ts) || isNaN(reusableOptimizedRow.o) ||
-      isNaN(reusableOptimizedRow.h) ||
-      isNaN(reusableOptimizedRow.l) || isNaN(reusableOptimizedRow.c) ||
-      isNaN(reusableOptimizedRow.v)
-    ) {
-      return null;
-    }
-    if (
-      reusableOptimizedRow.o === 0 && reusableOptimizedRow.h === 0 &&
-      reusableOptimizedRow.l === 0 &&
-      reusableOptimizedRow.c === 0 && reusableOptimizedRow.v === 0 &&
-      reusableOptimizedRow.ts !== 0
-    ) {
-      return null;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      scanner.push(decoder.decode(value, { stream: true }));
     }
-
-    return {
-      ts: reusableOptimizedRow.ts as number,
-      o: reusableOptimizedRow.o as number,
-      h: reusableOptimizedRow.h as number,
-      l: reusableOptimizedRow.l as number,
-      c: reusableOptimizedRow.c as number,
-      v: reusableOptimizedRow.v as number,
-    };
-  } catch (e) {
-    // Catch potential errors from yyyymmddToUnix specifically if needed for logging
-    // if (e instanceof DateError) { console.warn(`Optimized date parse error: ${e.message} on line ${line}`);}
-    return null;
+    scanner.finish(decoder.decode());
+  } finally {
+    reader.releaseLock();
   }
 }
 
@@ -79,8 +53,16 @@ function parseOhlcvLineOptimizedInternal(line: string): Row | null {
  * @param onRow - Callback function called for each successfully parsed row
  * @param skipHeader - Whether to skip the first line (header row). Defaults to true
  * @param onSkipLine - Optional callback for handling parsing errors
+ * @param options - Optional column schema, header, timestamp and validation
+ * handling. The column mapping is resolved from the skipped header line when
+ * possible.
  * @returns Promise resolving to the total number of rows processed
  *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
  * @example
  * ```typescript
  * import { fetchCsvAsStream, parseStreamOptimizedOhlcv, DataSource } from "@mso/ohlcv";
@@ -107,95 +89,101 @@ export async function parseStreamOptimizedOhlcv(
   onRow: RowCallback,
   skipHeader: boolean = true,
   onSkipLine?: SkipErrorCallback,
+  options: ParseOptions = {},
 ): Promise<number> {
-  const decoder = new TextDecoder();
-  const reader = stream.getReader();
-  let lineBuffer = "";
+  const validator = createValidator(options);
+  const reporter = new ParseReporter(options, onSkipLine);
+  const onSkip = reporter.onSkip;
   let rowCount = 0;
-  let isFirstNonEmptyLine = true;
-  let currentLineNumber = 0;
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      lineBuffer += decoder.decode(value, { stream: true });
-
-      let newlineIndex;
-      while ((newlineIndex = lineBuffer.indexOf("\n")) >= 0) {
-        currentLineNumber++;
-        const line = lineBuffer.substring(0, newlineIndex).trimEnd(); // Handle \r
-        lineBuffer = lineBuffer.substring(newlineIndex + 1);
-
-        if (line.length === 0) continue;
-
-        if (skipHeader && isFirstNonEmptyLine) {
-          isFirstNonEmptyLine = false;
-          onSkipLine?.(
-            new ParseError("Skipped header"),
-            currentLineNumber,
-            line,
-          );
-          continue;
-        }
-        isFirstNonEmptyLine = false;
-
-        const parsedRow = parseOhlcvLineOptimizedInternal(line);
-        if (parsedRow) {
-          onRow(parsedRow);
-          rowCount++;
-        } else {
-          onSkipLine?.(
-            new InvalidFormatError("Line did not match optimized OHLCV format"),
-            currentLineNumber,
-            line,
-          );
-        }
+  await scanOptimizedOhlcv(
+    stream,
+    (parsed, lineNumber, line) => {
+      const validated = validateParsedRow(
+        validator,
+        copyRow(parsed),
+        lineNumber,
+        line,
+        onSkip,
+      );
+      if (validated) {
+        onRow(validated);
+        rowCount++;
       }
-    }
-    const lastLine = lineBuffer.trimEnd();
-    if (lastLine.length > 0) {
-      currentLineNumber++;
-      if (!(skipHeader && isFirstNonEmptyLine)) {
-        const parsedRow = parseOhlcvLineOptimizedInternal(lastLine);
-        if (parsedRow) {
-          onRow(parsedRow);
-          rowCount++;
-        } else {
-          onSkipLine?.(
-            new InvalidFormatError(
-              "Last line did not match optimized OHLCV format",
-            ),
-            currentLineNumber,
-            lastLine,
-          );
-        }
-      } else {
-        onSkipLine?.(
-          new ParseError("Skipped header (was last line)"),
-          currentLineNumber,
-          lastLine,
+    },
+    skipHeader,
+    onSkip,
+    options,
+  );
+  reporter.finish(rowCount);
+  return rowCount;
+}
+
+/**
+ * Variant of {@link parseStreamOptimizedOhlcv} that collects the stream into
+ * a columnar {@link OhlcvSeries}.
+ *
+ * Parsed values are written straight into the series' typed-array columns,
+ * so no `Row` object is allocated per line unless validation is enabled.
+ *
+ * @param stream - ReadableStream of CSV data as Uint8Array chunks
+ * @param skipHeader - Whether to skip the first line (header row). Defaults to true
+ * @param onSkipLine - Optional callback for handling parsing errors
+ * @param options - Optional column schema, header, timestamp and validation
+ * handling, as for {@link parseStreamOptimizedOhlcv}
+ * @returns Promise resolving to the parsed series
+ *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsStream, parseStreamOptimizedOhlcvToSeries, DataSource } from "@mso/ohlcv";
+ *
+ * const series = await parseStreamOptimizedOhlcvToSeries(
+ *   await fetchCsvAsStream(DataSource.BTC_CSV),
+ * );
+ * console.log(`${series.length} rows, last close ${series.c[series.length - 1]}`);
+ * ```
+ */
+export async function parseStreamOptimizedOhlcvToSeries(
+  stream: ReadableStream<Uint8Array>,
+  skipHeader: boolean = true,
+  onSkipLine?: SkipErrorCallback,
+  options: ParseOptions = {},
+): Promise<OhlcvSeries> {
+  const validator = createValidator(options);
+  const reporter = new ParseReporter(options, onSkipLine);
+  const onSkip = reporter.onSkip;
+  const builder = new OhlcvSeriesBuilder();
+  await scanOptimizedOhlcv(
+    stream,
+    (parsed, lineNumber, line) => {
+      if (!validator) {
+        builder.append(
+          parsed.ts,
+          parsed.o,
+          parsed.h,
+          parsed.l,
+          parsed.c,
+          parsed.v,
         );
+        return;
       }
-    }
-    const remainingDecoderContent = decoder.decode();
-    if (remainingDecoderContent.trim().length > 0) {
-      currentLineNumber++;
-      const line = remainingDecoderContent.trim();
-      if (!isFirstNonEmptyLine || !skipHeader) {
-        const parsedRow = parseOhlcvLineOptimizedInternal(line);
-        if (parsedRow) {
-          onRow(parsedRow);
-          rowCount++;
-        } else {onSkipLine?.(
-            new InvalidFormatError("Final decoder content did not match"),
-            currentLineNumber,
-            line,
-          );}
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
-  return rowCount;
+      const validated = validateParsedRow(
+        validator,
+        copyRow(parsed),
+        lineNumber,
+        line,
+        onSkip,
+      );
+      if (validated) builder.push(validated);
+    },
+    skipHeader,
+    onSkip,
+    options,
+  );
+  reporter.finish(builder.length);
+  return builder.build();
 }
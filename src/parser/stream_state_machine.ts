@@ -1,6 +1,7 @@
 // src/parser/stream_state_machine.ts
 import { InternalStateMachineCore } from "./_state_machine_core.ts";
-import type { RowCallback, SkipErrorCallback } from "./common.ts";
+import { ParseReporter } from "./_report.ts";
+import type { ParseOptions, RowCallback, SkipErrorCallback } from "./common.ts";
 
 /**
  * Parses a CSV stream using the core state machine logic.
@@ -12,8 +13,15 @@ import type { RowCallback, SkipErrorCallback } from "./common.ts";
  * @param stream - ReadableStream of CSV data as Uint8Array chunks
  * @param onRow - Callback function called for each successfully parsed row
  * @param onSkip - Optional callback for handling parsing errors
+ * @param options - Optional column schema, header, timestamp and validation
+ * handling
  * @returns Promise resolving to the total number of rows processed
  *
+ * @throws {ValidationError} When `options.validation` is in strict mode and a
+ * row violates a rule
+ * @throws {ParseError} When `options.strict` is set, for the first malformed
+ * line
+ *
  * @example
  * ```typescript
  * import { fetchCsvAsStream, parseStreamWithStateMachine, DataSource } from "@mso/ohlcv";
@@ -39,9 +47,11 @@ export async function parseStreamWithStateMachine(
   stream: ReadableStream<Uint8Array>,
   onRow: RowCallback,
   onSkip?: SkipErrorCallback,
+  options?: ParseOptions,
 ): Promise<number> {
   const decoder = new TextDecoder();
-  const parser = new InternalStateMachineCore(onRow, onSkip);
+  const reporter = new ParseReporter(options ?? {}, onSkip);
+  const parser = new InternalStateMachineCore(onRow, reporter.onSkip, options);
   const reader = stream.getReader();
 
   try {
@@ -54,6 +64,7 @@ export async function parseStreamWithStateMachine(
     const remaining = decoder.decode();
     if (remaining) parser.processChunk(remaining);
     parser.finalize();
+    reporter.finish(parser.totalRowsProcessed, parser.headerDetected);
     return parser.totalRowsProcessed;
   } finally {
     reader.releaseLock();
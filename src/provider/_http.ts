@@ -0,0 +1,258 @@
+// src/provider/_http.ts
+import {
+  FetchError,
+  type FetchErrorDetails,
+  HttpError,
+  ProviderError,
+} from "../core/errors.ts";
+import type { FetchOptions, RetryOptions } from "./provider.ts";
+
+/**
+ * Wraps a failure in a `FetchError` naming the URL, passing fetch errors
+ * through unchanged.
+ */
+export function wrapFetchError(url: string, error: unknown): FetchError {
+  if (error instanceof FetchError) return error;
+  return new FetchError(
+    `Request for ${url} failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+    error instanceof Error ? error : undefined,
+  );
+}
+
+/** Defaults for {@link RetryOptions}. */
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 3,
+  minDelay: 500,
+  maxDelay: 30_000,
+  statuses: [408, 429, 500, 502, 503, 504],
+};
+
+function resolveRetry(
+  retry: boolean | RetryOptions | undefined,
+): Required<RetryOptions> {
+  if (!retry) return { ...DEFAULT_RETRY, retries: 0 };
+  const resolved = { ...DEFAULT_RETRY, ...(retry === true ? {} : retry) };
+  if (!Number.isInteger(resolved.retries) || resolved.retries < 0) {
+    throw new ProviderError(
+      `Invalid retries: ${resolved.retries}. Expected a non-negative integer.`,
+    );
+  }
+  if (!(resolved.minDelay >= 0) || !(resolved.maxDelay >= 0)) {
+    throw new ProviderError(
+      `Invalid retry delays: ${resolved.minDelay} to ${resolved.maxDelay}. Expected non-negative milliseconds.`,
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Wait before retry number `retry`, with jitter between half and all of the
+ * exponential delay.
+ */
+function backoff(retry: number, options: Required<RetryOptions>): number {
+  const ceiling = Math.min(
+    options.maxDelay,
+    options.minDelay * 2 ** (retry - 1),
+  );
+  return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+/**
+ * Reads a `Retry-After` header, given in seconds or as an HTTP date, as
+ * milliseconds from now.
+ */
+function retryAfter(response: Response): number | undefined {
+  const header = response.headers.get("Retry-After")?.trim();
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Makes a single request, aborting it when the headers take longer than
+ * `headersTimeout`. The caller's signal stays attached so that it can still
+ * cancel the body.
+ */
+async function attempt(
+  url: string,
+  init: RequestInit | undefined,
+  signal: AbortSignal | undefined,
+  headersTimeout: number | undefined,
+): Promise<Response> {
+  if (headersTimeout === undefined) {
+    return await fetch(url, { ...init, signal });
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, headersTimeout);
+  try {
+    return await fetch(url, {
+      ...init,
+      signal: signal
+        ? AbortSignal.any([signal, controller.signal])
+        : controller.signal,
+    });
+  } catch (error) {
+    if (!timedOut) throw error;
+    throw new FetchError(
+      `No response headers from ${url} within ${headersTimeout} ms`,
+      error instanceof Error ? error : undefined,
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a request, failing on responses other than 2xx and 304 Not Modified.
+ * Transient failures are retried as set by `options.retry`, and errors carry
+ * the URL, attempt count and elapsed time in their details.
+ *
+ * @param kind - What is being fetched, for the error message
+ *
+ * @throws {HttpError} When the response status is not 2xx or 304
+ * @throws {FetchError} When the request fails or times out
+ * @throws {ProviderError} When the retry or headers timeout options are
+ * invalid
+ * @throws The signal's abort reason when `options.signal` is aborted
+ */
+export async function request(
+  url: string,
+  init: RequestInit | undefined,
+  kind: "text" | "stream",
+  options: FetchOptions = {},
+): Promise<Response> {
+  const retry = resolveRetry(options.retry);
+  const { headersTimeout } = options;
+  if (headersTimeout !== undefined && !(headersTimeout > 0)) {
+    throw new ProviderError(
+      `Invalid headers timeout: ${headersTimeout}. Expected a positive number of milliseconds.`,
+    );
+  }
+  const signal = options.signal ?? init?.signal ?? undefined;
+  const started = Date.now();
+  const details = (attempts: number): FetchErrorDetails => ({
+    url,
+    attempts,
+    elapsed: Date.now() - started,
+  });
+
+  for (let attempts = 1;; attempts++) {
+    signal?.throwIfAborted();
+    let response: Response;
+    try {
+      response = await attempt(url, init, signal, headersTimeout);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const failure = wrapFetchError(url, error);
+      failure.details = details(attempts);
+      if (attempts > retry.retries) throw failure;
+      await sleep(backoff(attempts, retry), signal);
+      continue;
+    }
+    if (response.ok || response.status === 304) return response;
+
+    await response.body?.cancel();
+    if (attempts > retry.retries || !retry.statuses.includes(response.status)) {
+      throw new HttpError(
+        `Failed to fetch ${kind}`,
+        response.status,
+        response.statusText,
+        details(attempts),
+      );
+    }
+    await sleep(
+      Math.min(
+        retry.maxDelay,
+        retryAfter(response) ?? backoff(attempts, retry),
+      ),
+      signal,
+    );
+  }
+}
+
+/**
+ * Returns the body of a successful response as a stream.
+ *
+ * @throws {FetchError} When the response has no body
+ */
+export function responseBody(
+  url: string,
+  response: Response,
+): ReadableStream<Uint8Array> {
+  if (!response.body) {
+    throw new FetchError(`Response body is null for ${url}. Cannot stream.`);
+  }
+  return response.body;
+}
+
+/**
+ * Downloads a URL as a string, through the cache when one is given.
+ *
+ * @throws {HttpError} When the response status is not 2xx
+ * @throws {FetchError} When the request fails for other reasons
+ * @throws The signal's abort reason when `options.signal` is aborted
+ */
+export async function fetchUrlAsText(
+  url: string,
+  init?: RequestInit,
+  options: FetchOptions = {},
+): Promise<string> {
+  if (options.cache) return await options.cache.fetchText(url, init, options);
+  const response = await request(url, init, "text", options);
+  try {
+    return await response.text();
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw wrapFetchError(url, error);
+  }
+}
+
+/**
+ * Requests a URL and returns the response body as a stream, through the
+ * cache when one is given.
+ *
+ * @param kind - What the caller is fetching, for the error message. Text is
+ * streamed too when it may need decompressing
+ *
+ * @throws {HttpError} When the response status is not 2xx
+ * @throws {FetchError} When the request fails or the response has no body
+ * @throws The signal's abort reason when `options.signal` is aborted
+ */
+export async function fetchUrlAsStream(
+  url: string,
+  init?: RequestInit,
+  options: FetchOptions = {},
+  kind: "text" | "stream" = "stream",
+): Promise<ReadableStream<Uint8Array>> {
+  if (options.cache) {
+    return await options.cache.fetchStream(url, init, options, kind);
+  }
+  return responseBody(url, await request(url, init, kind, options));
+}
@@ -0,0 +1,372 @@
+// src/provider/cache.ts
+import { FetchError, ProviderError } from "../core/errors.ts";
+import { request, responseBody, wrapFetchError } from "./_http.ts";
+import type { FetchOptions } from "./provider.ts";
+
+/**
+ * Options for {@link DiskCache}.
+ */
+export interface DiskCacheOptions {
+  /** Directory holding the cached files. Created when first written */
+  directory: string;
+  /**
+   * Seconds after a download or revalidation during which the cached copy
+   * is served without contacting the server. Defaults to 0, revalidating on
+   * every fetch
+   */
+  ttl?: number;
+  /**
+   * Serve the cached copy, however old, when a request fails with a
+   * `FetchError` or `HttpError`. Defaults to false
+   */
+  offline?: boolean;
+}
+
+/**
+ * Validators and bookkeeping stored next to each cached body.
+ */
+interface CacheEntry {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  /** Time of the last download or revalidation, in milliseconds */
+  storedAt: number;
+  size: number;
+}
+
+/**
+ * Caches downloads on disk, keyed by URL, and revalidates them with
+ * conditional requests.
+ *
+ * A cached copy younger than `ttl` is served without a request. Older copies
+ * are revalidated with `If-None-Match` and `If-Modified-Since` from the
+ * stored `ETag` and `Last-Modified` headers, and a 304 Not Modified response
+ * serves the copy from disk. Fresh downloads are written to the cache while
+ * they are read, so streamed bodies are never buffered in memory. With
+ * `offline` set, the cached copy is served when the server cannot be
+ * reached.
+ *
+ * Pass a cache to {@link fetchCsvAsText} or {@link fetchCsvAsStream} to use
+ * it for URL-based sources.
+ *
+ * @throws {ProviderError} When the ttl is invalid
+ *
+ * @example
+ * ```typescript
+ * import { DataSource, DiskCache, fetchCsvAsText } from "@mso/ohlcv";
+ *
+ * const cache = new DiskCache({
+ *   directory: ".cache/ohlcv",
+ *   ttl: 3600,
+ *   offline: true,
+ * });
+ * const csv = await fetchCsvAsText(DataSource.BTC_CSV, { cache });
+ * ```
+ */
+export class DiskCache {
+  /** Directory holding the cached files */
+  public readonly directory: string;
+  private ttl: number;
+  private offline: boolean;
+
+  constructor(options: DiskCacheOptions) {
+    const ttl = options.ttl ?? 0;
+    if (!(ttl >= 0)) {
+      throw new ProviderError(
+        `Invalid cache ttl: ${ttl}. Expected a non-negative number of seconds.`,
+      );
+    }
+    this.directory = options.directory.replace(/[\\/]+$/, "");
+    this.ttl = ttl;
+    this.offline = options.offline ?? false;
+  }
+
+  /**
+   * Fetches a URL as a string, from the cache when it is fresh or unchanged.
+   *
+   * @param options - Abort signal, headers timeout and retries for the
+   * request
+   *
+   * @throws {HttpError} When the response status is not 2xx and no cached
+   * copy can be served
+   * @throws {FetchError} When the request fails and no cached copy can be
+   * served
+   */
+  public async fetchText(
+    url: string,
+    init?: RequestInit,
+    options: FetchOptions = {},
+  ): Promise<string> {
+    const result = await this.resolve(url, init, "text", options);
+    if (!(result instanceof Response)) {
+      return new TextDecoder().decode(
+        await Deno.readFile(this.bodyPath(result)),
+      );
+    }
+    const key = await this.key(url);
+    let body: Uint8Array;
+    try {
+      body = new Uint8Array(await result.arrayBuffer());
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw wrapFetchError(url, error);
+    }
+    const temp = this.tempPath(key);
+    try {
+      await this.ensureDirectory();
+      await Deno.writeFile(temp, body);
+      await this.commit(key, temp, entryFor(url, result, body.length));
+    } catch {
+      await removeQuietly(temp);
+    }
+    return new TextDecoder().decode(body);
+  }
+
+  /**
+   * Fetches a URL as a stream, from the cache when it is fresh or unchanged.
+   *
+   * A downloaded body is written to the cache as the stream is read, and
+   * committed once it is read to the end. Cancelling the stream discards
+   * the partial copy.
+   *
+   * @param options - Abort signal, headers timeout and retries for the
+   * request
+   * @param kind - What the caller is fetching, named in the `HttpError`
+   * message. Defaults to `"stream"`
+   *
+   * @throws {HttpError} When the response status is not 2xx and no cached
+   * copy can be served
+   * @throws {FetchError} When the request fails or the response has no body,
+   * and no cached copy can be served
+   */
+  public async fetchStream(
+    url: string,
+    init?: RequestInit,
+    options: FetchOptions = {},
+    kind: "text" | "stream" = "stream",
+  ): Promise<ReadableStream<Uint8Array>> {
+    const result = await this.resolve(url, init, kind, options);
+    if (!(result instanceof Response)) {
+      return (await Deno.open(this.bodyPath(result))).readable;
+    }
+    const key = await this.key(url);
+    const body = responseBody(url, result);
+    const temp = this.tempPath(key);
+    let file: Deno.FsFile;
+    try {
+      await this.ensureDirectory();
+      file = await Deno.open(temp, { write: true, createNew: true });
+    } catch {
+      // The cache cannot be written, so the download is streamed as is.
+      return body;
+    }
+    const reader = body.getReader();
+    let size = 0;
+    let writable = true;
+    const discard = async () => {
+      if (writable) file.close();
+      writable = false;
+      await removeQuietly(temp);
+    };
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          await discard();
+          throw wrapFetchError(url, error);
+        }
+        if (chunk.done) {
+          if (writable) {
+            file.close();
+            writable = false;
+            try {
+              await this.commit(key, temp, entryFor(url, result, size));
+            } catch {
+              await removeQuietly(temp);
+            }
+          }
+          controller.close();
+          return;
+        }
+        if (writable) {
+          try {
+            await writeAll(file, chunk.value);
+            size += chunk.value.length;
+          } catch {
+            // The download goes on without being cached.
+            await discard();
+          }
+        }
+        controller.enqueue(chunk.value);
+      },
+      cancel: async (reason) => {
+        await discard();
+        await reader.cancel(reason);
+      },
+    });
+  }
+
+  /**
+   * Removes the cached copy of a URL.
+   *
+   * @returns Whether a copy was cached
+   */
+  public async delete(url: string): Promise<boolean> {
+    const key = await this.key(url);
+    const existed = await this.readEntry(key) !== undefined;
+    await removeQuietly(this.entryPath(key));
+    await removeQuietly(this.bodyPath(key));
+    return existed;
+  }
+
+  /**
+   * Removes every cached copy by deleting the cache directory.
+   */
+  public async clear(): Promise<void> {
+    try {
+      await Deno.remove(this.directory, { recursive: true });
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  /**
+   * Decides between the cache and the network. Returns the cache key when
+   * the cached copy should be served, or the response of a new download.
+   */
+  private async resolve(
+    url: string,
+    init: RequestInit | undefined,
+    kind: "text" | "stream",
+    options: FetchOptions,
+  ): Promise<string | Response> {
+    const key = await this.key(url);
+    const entry = await this.readEntry(key);
+    if (entry && Date.now() - entry.storedAt < this.ttl * 1000) return key;
+
+    const headers = new Headers(init?.headers);
+    if (entry?.etag) headers.set("If-None-Match", entry.etag);
+    if (entry?.lastModified) {
+      headers.set("If-Modified-Since", entry.lastModified);
+    }
+
+    let response: Response;
+    try {
+      response = await request(url, { ...init, headers }, kind, options);
+    } catch (error) {
+      if (entry && this.offline && error instanceof FetchError) return key;
+      throw error;
+    }
+    if (response.status !== 304) return response;
+
+    await response.body?.cancel();
+    if (!entry) {
+      throw new FetchError(
+        `Received 304 Not Modified for ${url} with no cached copy`,
+      );
+    }
+    entry.storedAt = Date.now();
+    await this.writeEntry(key, entry).catch(() => {});
+    return key;
+  }
+
+  /**
+   * Moves a downloaded body and its entry into place. The old entry is
+   * removed before the body is replaced, so an interrupted commit leaves a
+   * body without an entry, which is never served, rather than a new body
+   * paired with old validators.
+   */
+  private async commit(
+    key: string,
+    temp: string,
+    entry: CacheEntry,
+  ): Promise<void> {
+    const entryTemp = this.tempPath(key);
+    await Deno.writeTextFile(entryTemp, JSON.stringify(entry));
+    try {
+      try {
+        await Deno.remove(this.entryPath(key));
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      }
+      await Deno.rename(temp, this.bodyPath(key));
+      await Deno.rename(entryTemp, this.entryPath(key));
+    } catch (error) {
+      await removeQuietly(entryTemp);
+      throw error;
+    }
+  }
+
+  private async readEntry(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const entry = JSON.parse(
+        await Deno.readTextFile(this.entryPath(key)),
+      ) as CacheEntry;
+      const { size } = await Deno.stat(this.bodyPath(key));
+      return size === entry.size ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeEntry(key: string, entry: CacheEntry): Promise<void> {
+    const temp = this.tempPath(key);
+    await Deno.writeTextFile(temp, JSON.stringify(entry));
+    await Deno.rename(temp, this.entryPath(key));
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    await Deno.mkdir(this.directory, { recursive: true });
+  }
+
+  private async key(url: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(url),
+    );
+    return Array.from(
+      new Uint8Array(digest),
+      (byte) => byte.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+
+  private bodyPath(key: string): string {
+    return `${this.directory}/${key}.body`;
+  }
+
+  private entryPath(key: string): string {
+    return `${this.directory}/${key}.json`;
+  }
+
+  private tempPath(key: string): string {
+    return `${this.directory}/${key}.${crypto.randomUUID()}.tmp`;
+  }
+}
+
+function entryFor(url: string, response: Response, size: number): CacheEntry {
+  return {
+    url,
+    etag: response.headers.get("ETag") ?? undefined,
+    lastModified: response.headers.get("Last-Modified") ?? undefined,
+    storedAt: Date.now(),
+    size,
+  };
+}
+
+async function writeAll(file: Deno.FsFile, bytes: Uint8Array): Promise<void> {
+  let written = 0;
+  while (written < bytes.length) {
+    written += await file.write(bytes.subarray(written));
+  }
+}
+
+async function removeQuietly(path: string): Promise<void> {
+  try {
+    await Deno.remove(path);
+  } catch {
+    // Already gone
+  }
+}
@@ -0,0 +1,177 @@
+// src/provider/cache_test.ts
+import { deepStrictEqual, rejects, strictEqual } from "node:assert";
+import { FetchError, HttpError } from "../core/errors.ts";
+import { DiskCache } from "./cache.ts";
+
+const csv = "Date,Open,High,Low,Close,Volume\n2023-01-01,1,2,0.5,1.5,100\n";
+
+/**
+ * Serves `csv` with an ETag, answering conditional requests with 304, and
+ * records the `If-None-Match` header of every request.
+ */
+function serveCsv(): {
+  url: string;
+  requests: (string | null)[];
+  server: Deno.HttpServer<Deno.NetAddr>;
+} {
+  const requests: (string | null)[] = [];
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    (req) => {
+      const tag = req.headers.get("If-None-Match");
+      requests.push(tag);
+      if (tag === '"v1"') return new Response(null, { status: 304 });
+      return new Response(csv, { headers: { ETag: '"v1"' } });
+    },
+  );
+  return {
+    url: `http://127.0.0.1:${server.addr.port}/a.csv`,
+    requests,
+    server,
+  };
+}
+
+Deno.test("DiskCache revalidates with the ETag and serves a 304 from disk", async () => {
+  const directory = await Deno.makeTempDir();
+  const { url, requests, server } = serveCsv();
+  try {
+    const cache = new DiskCache({ directory });
+    strictEqual(await cache.fetchText(url), csv);
+    strictEqual(await cache.fetchText(url), csv);
+    strictEqual(
+      await new Response(await cache.fetchStream(url)).text(),
+      csv,
+    );
+    deepStrictEqual(requests, [null, '"v1"', '"v1"']);
+  } finally {
+    await server.shutdown();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("DiskCache serves a copy younger than the ttl without a request", async () => {
+  const directory = await Deno.makeTempDir();
+  const { url, requests, server } = serveCsv();
+  try {
+    const cache = new DiskCache({ directory, ttl: 3600 });
+    strictEqual(await cache.fetchText(url), csv);
+    strictEqual(await cache.fetchText(url), csv);
+    strictEqual(requests.length, 1);
+
+    const stale = new DiskCache({ directory, ttl: 0 });
+    strictEqual(await stale.fetchText(url), csv);
+    strictEqual(requests.length, 2);
+  } finally {
+    await server.shutdown();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("DiskCache falls back to the cached copy when offline", async () => {
+  const directory = await Deno.makeTempDir();
+  const { url, server } = serveCsv();
+  try {
+    strictEqual(await new DiskCache({ directory }).fetchText(url), csv);
+  } finally {
+    await server.shutdown();
+  }
+  try {
+    const offline = new DiskCache({ directory, offline: true });
+    strictEqual(await offline.fetchText(url), csv);
+    strictEqual(await new Response(await offline.fetchStream(url)).text(), csv);
+    await rejects(new DiskCache({ directory }).fetchText(url), FetchError);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("DiskCache serves the cached copy when offline and the server fails", async () => {
+  const directory = await Deno.makeTempDir();
+  let status = 200;
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    () => new Response(status === 200 ? csv : "down", { status }),
+  );
+  const url = `http://127.0.0.1:${server.addr.port}/a.csv`;
+  try {
+    const cache = new DiskCache({ directory, offline: true });
+    strictEqual(await cache.fetchText(url), csv);
+    status = 503;
+    strictEqual(await cache.fetchText(url), csv);
+    await rejects(new DiskCache({ directory }).fetchText(url), HttpError);
+  } finally {
+    await server.shutdown();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("DiskCache writes a streamed download to disk only once it is read to the end", async () => {
+  const directory = await Deno.makeTempDir();
+  const { url, requests, server } = serveCsv();
+  try {
+    const cache = new DiskCache({ directory, ttl: 3600 });
+    const cancelled = await cache.fetchStream(url);
+    await cancelled.cancel();
+    strictEqual(await cache.delete(url), false);
+    deepStrictEqual(
+      await Array.fromAsync(Deno.readDir(directory), (entry) => entry.name),
+      [],
+    );
+
+    strictEqual(await new Response(await cache.fetchStream(url)).text(), csv);
+    strictEqual(await cache.fetchText(url), csv);
+    strictEqual(requests.length, 2);
+
+    strictEqual(await cache.delete(url), true);
+    strictEqual(await cache.fetchText(url), csv);
+    strictEqual(requests.length, 3);
+  } finally {
+    await server.shutdown();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("DiskCache never pairs a new body with the old entry when a commit fails", async () => {
+  const directory = await Deno.makeTempDir();
+  const versions = [csv, csv.replace("100", "200")];
+  let version = 0;
+  const requests: (string | null)[] = [];
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    (req) => {
+      const tag = `"v${version}"`;
+      requests.push(req.headers.get("If-None-Match"));
+      if (req.headers.get("If-None-Match") === tag) {
+        return new Response(null, { status: 304 });
+      }
+      return new Response(versions[version], { headers: { ETag: tag } });
+    },
+  );
+  const url = `http://127.0.0.1:${server.addr.port}/a.csv`;
+  const rename = Deno.rename;
+  try {
+    const cache = new DiskCache({ directory });
+    strictEqual(await cache.fetchText(url), versions[0]);
+
+    // The new body is moved into place, then writing its entry fails
+    version = 1;
+    Deno.rename = (from, to) =>
+      String(to).endsWith(".json")
+        ? Promise.reject(new Deno.errors.PermissionDenied())
+        : rename(from, to);
+    strictEqual(await cache.fetchText(url), versions[1]);
+    Deno.rename = rename;
+
+    strictEqual(await cache.fetchText(url), versions[1]);
+    deepStrictEqual(requests, [null, '"v0"', null]);
+    deepStrictEqual(
+      (await Array.fromAsync(Deno.readDir(directory), (entry) => entry.name))
+        .filter((name) => name.endsWith(".tmp")),
+      [],
+    );
+  } finally {
+    Deno.rename = rename;
+    await server.shutdown();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -1,6 +1,25 @@
 // src/provider/fetch.ts
-import { FetchError, HttpError } from "../core/errors.ts";
+import { ProviderError } from "../core/errors.ts";
 import type { DataSource } from "./data_sources.ts";
+import type { DataProvider, FetchOptions } from "./provider.ts";
+import { providerForDataSource, providers } from "./registry.ts";
+
+/**
+ * Resolves a data source, provider or registered provider id to a provider.
+ */
+export function resolveProvider(
+  source: DataSource | DataProvider | string,
+): DataProvider {
+  if (typeof source !== "string") return source;
+  if (providers.has(source)) return providers.get(source);
+  const builtIn = providerForDataSource(source);
+  if (builtIn) return builtIn;
+  throw new ProviderError(
+    `Unknown data source: "${source}". Expected a DataSource, a DataProvider or a registered provider id (${
+      providers.list().map((provider) => provider.id).join(", ")
+    }).`,
+  );
+}
 
 /**
  * Fetches the content of a given data source as a single string.
@@ -9,11 +28,17 @@ import type { DataSource } from "./data_sources.ts";
  * fetching method, suitable for small to medium datasets that can fit in memory.
  * For large files, consider using `fetchCsvAsStream` instead.
  *
- * @param source - The data source URL or enum value to fetch from
+ * @param source - A `DataSource` value, a `DataProvider`, or the id of a
+ * provider in the default `providers` registry
+ * @param options - Optional disk cache, abort signal, headers timeout and
+ * retries for URL-based sources
  * @returns Promise resolving to the complete CSV content as a string
  *
  * @throws {HttpError} When the HTTP request fails (404, 500, etc.)
- * @throws {FetchError} When the network request fails for other reasons
+ * @throws {FetchError} When the network request fails or times out
+ * @throws {ProviderError} When the source is not a known data source or
+ * registered provider id, or the options are invalid
+ * @throws The signal's abort reason when `options.signal` is aborted
  *
  * @example
  * ```typescript
@@ -27,29 +52,19 @@ import type { DataSource } from "./data_sources.ts";
  *     console.error(`HTTP ${error.statusCode}: ${error.statusText}`);
  *   }
  * }
+ *
+ * const eth = await fetchCsvAsText("eth", {
+ *   headersTimeout: 10_000,
+ *   retry: { retries: 5 },
+ *   signal: AbortSignal.timeout(60_000),
+ * });
  * ```
  */
-export async function fetchCsvAsText(source: DataSource): Promise<string> {
-  const url = source as string;
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new HttpError(
-        "Failed to fetch text",
-        response.status,
-        response.statusText,
-      );
-    }
-    return await response.text();
-  } catch (error) {
-    if (error instanceof HttpError) throw error;
-    throw new FetchError(
-      `fetchCsvAsText failed for ${url}: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-      error instanceof Error ? error : undefined,
-    );
-  }
+export async function fetchCsvAsText(
+  source: DataSource | DataProvider | string,
+  options?: FetchOptions,
+): Promise<string> {
+  return await resolveProvider(source).fetchText(options);
 }
 
 /**
@@ -59,11 +74,18 @@ export async function fetchCsvAsText(source: DataSource): Promise<string> {
  * of large files. The data arrives as chunks that can be processed incrementally
  * without loading the entire file into memory. Use with streaming parsers.
  *
- * @param source - The data source URL or enum value to fetch from
+ * @param source - A `DataSource` value, a `DataProvider`, or the id of a
+ * provider in the default `providers` registry
+ * @param options - Optional disk cache, abort signal, headers timeout and
+ * retries for URL-based sources
  * @returns Promise resolving to a ReadableStream of Uint8Array chunks
  *
  * @throws {HttpError} When the HTTP request fails (404, 500, etc.)
- * @throws {FetchError} When the network request fails or response body is null
+ * @throws {FetchError} When the network request fails or times out, or the
+ * response body is null
+ * @throws {ProviderError} When the source is not a known data source or
+ * registered provider id, or the options are invalid
+ * @throws The signal's abort reason when `options.signal` is aborted
  *
  * @example
  * ```typescript
@@ -85,29 +107,8 @@ export async function fetchCsvAsText(source: DataSource): Promise<string> {
  * ```
  */
 export async function fetchCsvAsStream(
-  source: DataSource,
+  source: DataSource | DataProvider | string,
+  options?: FetchOptions,
 ): Promise<ReadableStream<Uint8Array>> {
-  const url = source as string;
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new HttpError(
-        "Failed to fetch stream",
-        response.status,
-        response.statusText,
-      );
-    }
-    if (!response.body) {
-      throw new FetchError(`Response body is null for ${url}. Cannot stream.`);
-    }
-    return response.body;
-  } catch (error) {
-    if (error instanceof HttpError || error instanceof FetchError) throw error;
-    throw new FetchError(
-      `fetchCsvAsStream failed for ${url}: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-      error instanceof Error ? error : undefined,
-    );
-  }
+  return await resolveProvider(source).fetchStream(options);
 }
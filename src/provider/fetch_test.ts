@@ -0,0 +1,197 @@
+// src/provider/fetch_test.ts
+import { rejects, strictEqual } from "node:assert";
+import { type FetchError, HttpError, ProviderError } from "../core/errors.ts";
+import { DiskCache } from "./cache.ts";
+import { fetchCsvAsStream, fetchCsvAsText } from "./fetch.ts";
+import { UrlProvider } from "./provider.ts";
+
+const csv = "Date,Open,High,Low,Close,Volume\n2023-01-01,1,2,0.5,1.5,100\n";
+
+/**
+ * Serves responses from `respond`, called with the 1-based request count.
+ */
+async function withServer(
+  respond: (count: number) => Response | Promise<Response>,
+  run: (provider: UrlProvider, count: () => number) => Promise<void>,
+): Promise<void> {
+  let count = 0;
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    () => respond(++count),
+  );
+  const provider = new UrlProvider({
+    id: "local",
+    url: `http://127.0.0.1:${server.addr.port}/a.csv`,
+  });
+  try {
+    await run(provider, () => count);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+const fast = { minDelay: 1, maxDelay: 5 };
+
+Deno.test("fetchCsvAsText retries transient statuses until one succeeds", async () => {
+  await withServer(
+    (count) =>
+      count < 3 ? new Response("busy", { status: 503 }) : new Response(csv),
+    async (provider, count) => {
+      strictEqual(
+        await fetchCsvAsText(provider, { retry: { retries: 3, ...fast } }),
+        csv,
+      );
+      strictEqual(count(), 3);
+    },
+  );
+});
+
+Deno.test("fetchCsvAsText waits for Retry-After, capped at maxDelay", async () => {
+  await withServer(
+    (count) =>
+      count === 1
+        ? new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "3600" },
+        })
+        : new Response(csv),
+    async (provider, count) => {
+      const started = Date.now();
+      strictEqual(
+        await fetchCsvAsText(provider, {
+          retry: { retries: 1, minDelay: 1, maxDelay: 20 },
+        }),
+        csv,
+      );
+      strictEqual(count(), 2);
+      strictEqual(Date.now() - started < 1000, true);
+    },
+  );
+});
+
+Deno.test("fetchCsvAsText reports the attempts once retries run out", async () => {
+  await withServer(
+    () => new Response("down", { status: 500 }),
+    async (provider, count) => {
+      const error = await fetchCsvAsText(provider, {
+        retry: { retries: 2, ...fast },
+      }).catch((error) => error);
+      strictEqual(error instanceof HttpError, true);
+      strictEqual(error.statusCode, 500);
+      strictEqual(error.details.attempts, 3);
+      strictEqual(error.details.url, provider.url);
+      strictEqual(count(), 3);
+    },
+  );
+});
+
+Deno.test("fetchCsvAsText does not retry other statuses", async () => {
+  await withServer(
+    () => new Response("missing", { status: 404 }),
+    async (provider, count) => {
+      await rejects(
+        fetchCsvAsText(provider, { retry: { retries: 3, ...fast } }),
+        (error: HttpError) => error.statusCode === 404,
+      );
+      strictEqual(count(), 1);
+    },
+  );
+});
+
+Deno.test("fetchCsvAsText retries attempts whose headers time out", async () => {
+  await withServer(
+    async (count) => {
+      if (count === 1) await new Promise((resolve) => setTimeout(resolve, 200));
+      return new Response(csv);
+    },
+    async (provider, count) => {
+      await rejects(
+        fetchCsvAsText(provider, { headersTimeout: 20 }),
+        (error: FetchError) =>
+          !(error instanceof HttpError) && error.details?.attempts === 1,
+      );
+      strictEqual(
+        await fetchCsvAsText(provider, {
+          headersTimeout: 20,
+          retry: { retries: 1, ...fast },
+        }),
+        csv,
+      );
+      strictEqual(count(), 2);
+    },
+  );
+});
+
+Deno.test("fetchCsvAsStream stops retrying when the signal aborts", async () => {
+  await withServer(
+    () => new Response("busy", { status: 503 }),
+    async (provider, count) => {
+      const controller = new AbortController();
+      const reason = new Error("stop");
+      setTimeout(() => controller.abort(reason), 50);
+      await rejects(
+        fetchCsvAsStream(provider, {
+          signal: controller.signal,
+          retry: { retries: 100, minDelay: 1000, maxDelay: 1000 },
+        }),
+        (error) => error === reason,
+      );
+      strictEqual(count(), 1);
+    },
+  );
+});
+
+Deno.test("fetchCsvAsText rejects invalid retry and timeout options", async () => {
+  const provider = new UrlProvider({ id: "unused", url: "http://127.0.0.1:9" });
+  await rejects(fetchCsvAsText(provider, { headersTimeout: 0 }), ProviderError);
+  await rejects(
+    fetchCsvAsText(provider, { retry: { retries: -1 } }),
+    ProviderError,
+  );
+});
+
+Deno.test("fetchCsvAsText names text in HTTP errors, with or without a cache", async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    await withServer(
+      () => new Response("missing", { status: 404 }),
+      async (provider) => {
+        for (const cache of [undefined, new DiskCache({ directory })]) {
+          await rejects(
+            fetchCsvAsText(provider, { cache }),
+            (error: HttpError) =>
+              error.message.startsWith("Failed to fetch text"),
+          );
+          await rejects(
+            fetchCsvAsStream(provider, { cache }),
+            (error: HttpError) =>
+              error.message.startsWith("Failed to fetch stream"),
+          );
+        }
+      },
+    );
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("fetchCsvAsText decompresses gzip responses", async () => {
+  const gzip = await new Response(
+    ReadableStream.from([csv]).pipeThrough(new TextEncoderStream())
+      .pipeThrough(new CompressionStream("gzip")),
+  ).arrayBuffer();
+  await withServer(
+    () => new Response(gzip),
+    async (provider) => {
+      strictEqual(await fetchCsvAsText(provider), csv);
+      strictEqual(
+        await new Response(await fetchCsvAsStream(provider)).text(),
+        csv,
+      );
+      strictEqual(
+        (await fetchCsvAsText(provider, { decompress: false })) === csv,
+        false,
+      );
+    },
+  );
+});
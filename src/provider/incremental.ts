@@ -0,0 +1,353 @@
+// src/provider/incremental.ts
+import type { Row } from "../core/row.ts";
+import { HttpError, ProviderError } from "../core/errors.ts";
+import { detectCompression } from "../compression/decompress.ts";
+import { looksLikeHeader } from "../parser/columns.ts";
+import {
+  isCommentLine,
+  resolveDialect,
+  splitFields,
+  stripBom,
+} from "../parser/dialect.ts";
+import { parse, type UnifiedParseOptions } from "../parser/parse.ts";
+import { request, wrapFetchError } from "./_http.ts";
+import type { DataSource } from "./data_sources.ts";
+import { resolveProvider } from "./fetch.ts";
+import {
+  type DataProvider,
+  type FetchOptions,
+  UrlProvider,
+} from "./provider.ts";
+
+/**
+ * What is known about previously fetched data, to fetch only what was
+ * appended since. Plain JSON, so it can be saved between runs.
+ */
+export interface IncrementalState {
+  /** Bytes of data up to the end of its last complete line */
+  byteLength: number;
+  /** Rows fetched so far */
+  rowCount: number;
+  /** Timestamp of the last row, absent when there are no rows */
+  lastTimestamp?: number;
+  /** Header line, absent when the data has none */
+  header?: string;
+  /** Number of bytes before `byteLength` covered by the checksum */
+  overlap: number;
+  /** SHA-256 of the overlap, in hex */
+  checksum: string;
+}
+
+/**
+ * Options for {@link fetchCsvIncremental}.
+ */
+export interface IncrementalFetchOptions extends FetchOptions {
+  /** Options for parsing the fetched CSV */
+  parse?: Omit<UnifiedParseOptions, "mode">;
+  /**
+   * Bytes of already fetched data re-read and compared by checksum to
+   * detect a changed prefix. Defaults to 1024
+   */
+  overlap?: number;
+}
+
+/**
+ * Result of {@link fetchCsvIncremental}.
+ */
+export interface IncrementalUpdate {
+  /**
+   * `"append"` when `rows` holds only the rows added since the previous
+   * fetch, `"full"` when the data was fetched whole and `rows` replaces
+   * everything fetched before
+   */
+  mode: "append" | "full";
+  /** New rows, or every row after a full fetch */
+  rows: Row[];
+  /** State to pass to the next update */
+  state: IncrementalState;
+}
+
+const DEFAULT_OVERLAP = 1024;
+const NEWLINE = 0x0a;
+
+async function checksum(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes.slice());
+  return Array.from(
+    new Uint8Array(digest),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Builds the state for data whose complete lines end at `end` within
+ * `window`, the last bytes of the data.
+ */
+async function stateFor(
+  window: Uint8Array,
+  end: number,
+  byteLength: number,
+  rowCount: number,
+  lastTimestamp: number | undefined,
+  header: string | undefined,
+  overlapSize: number,
+): Promise<IncrementalState> {
+  const overlap = Math.min(overlapSize, end);
+  const state: IncrementalState = {
+    byteLength,
+    rowCount,
+    overlap,
+    checksum: await checksum(window.subarray(end - overlap, end)),
+  };
+  if (lastTimestamp !== undefined) state.lastTimestamp = lastTimestamp;
+  if (header !== undefined) state.header = header;
+  return state;
+}
+
+/**
+ * Length of the data up to and including its last newline.
+ */
+function completeLength(bytes: Uint8Array): number {
+  return bytes.lastIndexOf(NEWLINE) + 1;
+}
+
+/**
+ * Finds the header line of CSV text, as `parse` would.
+ */
+function findHeader(
+  text: string,
+  options: UnifiedParseOptions,
+): string | undefined {
+  if (options.header === false) return undefined;
+  const dialect = resolveDialect(options.dialect);
+  const firstLine = stripBom(text).split(/\r?\n/)
+    .find((line) => line.trim().length > 0 && !isCommentLine(line, dialect));
+  if (firstLine === undefined) return undefined;
+  return options.header === true ||
+      looksLikeHeader(splitFields(firstLine, dialect), options.dialect)
+    ? firstLine
+    : undefined;
+}
+
+/**
+ * Fetches the whole data. URL data is fetched as stored, so that compressed
+ * data is recognised by {@link fullUpdate}.
+ */
+async function fetchBytes(
+  provider: DataProvider,
+  options: FetchOptions,
+): Promise<Uint8Array> {
+  const stream = await provider.fetchStream(
+    provider instanceof UrlProvider
+      ? { ...options, decompress: false }
+      : options,
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function fullUpdate(
+  bytes: Uint8Array,
+  options: IncrementalFetchOptions,
+  overlapSize: number,
+  zipEntry?: string,
+): Promise<IncrementalUpdate> {
+  const parseOptions = options.parse ?? {};
+  if (detectCompression(bytes) !== undefined) {
+    const rows = await parse(bytes, {
+      ...parseOptions,
+      zipEntry,
+      mode: "rows",
+    });
+    // Offsets into compressed data cannot be resumed from, so a zero length
+    // makes the next update fetch it whole.
+    const state = await stateFor(
+      bytes,
+      0,
+      0,
+      rows.length,
+      rows.at(-1)?.ts,
+      undefined,
+      overlapSize,
+    );
+    return { mode: "full", rows, state };
+  }
+  // An unterminated last line may still be being written.
+  const end = completeLength(bytes);
+  const rows = await parse(bytes.subarray(0, end), {
+    ...parseOptions,
+    mode: "rows",
+  });
+  const state = await stateFor(
+    bytes,
+    end,
+    end,
+    rows.length,
+    rows.at(-1)?.ts,
+    findHeader(new TextDecoder().decode(bytes), parseOptions),
+    overlapSize,
+  );
+  return { mode: "full", rows, state };
+}
+
+/**
+ * Requests the data from the start of the overlap on.
+ *
+ * @returns The response body from the overlap on, the whole data when the
+ * server ignored the range, or undefined when the range was not served as
+ * asked, for instance because the data shrank
+ */
+async function fetchRange(
+  provider: UrlProvider,
+  start: number,
+  options: FetchOptions,
+): Promise<{ partial: boolean; bytes: Uint8Array } | undefined> {
+  const headers = new Headers(provider.init?.headers);
+  headers.set("Range", `bytes=${start}-`);
+  // Offsets refer to the uncompressed data.
+  headers.set("Accept-Encoding", "identity");
+
+  let response: Response;
+  try {
+    response = await request(
+      provider.url,
+      { ...provider.init, headers },
+      "text",
+      options,
+    );
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 416) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw wrapFetchError(provider.url, error);
+  }
+  if (response.status !== 206) return { partial: false, bytes };
+  const range = /^bytes (\d+)-/.exec(
+    response.headers.get("Content-Range") ?? "",
+  );
+  if (!range || Number(range[1]) !== start) return undefined;
+  return { partial: true, bytes };
+}
+
+/**
+ * Fetches only the rows appended to CSV data since a previous fetch.
+ *
+ * Without a previous state, the data is fetched and parsed whole. With one,
+ * an HTTP `Range` request asks for the bytes after those already fetched,
+ * starting `overlap` bytes early. The re-read overlap is compared with the
+ * checksum from the previous fetch, and only the appended lines are parsed,
+ * using the header seen by the first fetch. A last line without a newline
+ * is left for a later update, as it may still be being written.
+ *
+ * The data is fetched whole, with `mode: "full"` and every row in `rows`,
+ * when the server ignores ranges, the data shrank, or the overlap changed
+ * because earlier data was rewritten. Sources other than URLs, such as
+ * files and in-memory data, are always fetched whole, as is compressed data,
+ * which cannot be resumed from a byte offset.
+ *
+ * @param source - A `DataSource` value, a `DataProvider`, or the id of a
+ * provider in the default `providers` registry
+ * @param previous - State returned by the previous update, if any
+ * @param options - Optional parse options, overlap size, abort signal,
+ * headers timeout and retries. The disk cache is only used for full fetches
+ * @returns Promise resolving to the new rows and the state for the next
+ * update
+ *
+ * @throws {HttpError} When the HTTP request fails (404, 500, etc.)
+ * @throws {FetchError} When the network request fails or times out
+ * @throws {ProviderError} When the source is not a known data source or
+ * registered provider id, or the options are invalid
+ * @throws The signal's abort reason when `options.signal` is aborted
+ *
+ * @example
+ * ```typescript
+ * import { DataSource, fetchCsvIncremental } from "@mso/ohlcv";
+ *
+ * const saved = await Deno.readTextFile("btc.state.json").catch(() => null);
+ * const update = await fetchCsvIncremental(
+ *   DataSource.BTC_CSV,
+ *   saved ? JSON.parse(saved) : undefined,
+ * );
+ * if (update.mode === "full") rows = update.rows;
+ * else rows.push(...update.rows);
+ * await Deno.writeTextFile("btc.state.json", JSON.stringify(update.state));
+ * ```
+ */
+export async function fetchCsvIncremental(
+  source: DataSource | DataProvider | string,
+  previous?: IncrementalState,
+  options: IncrementalFetchOptions = {},
+): Promise<IncrementalUpdate> {
+  const overlapSize = options.overlap ?? DEFAULT_OVERLAP;
+  if (!Number.isInteger(overlapSize) || overlapSize < 1) {
+    throw new ProviderError(
+      `Invalid overlap: ${overlapSize}. Expected a positive whole number of bytes.`,
+    );
+  }
+  const provider = resolveProvider(source);
+  const zipEntry = provider instanceof UrlProvider
+    ? provider.zipEntry
+    : undefined;
+  if (
+    !previous || previous.byteLength === 0 ||
+    !(provider instanceof UrlProvider)
+  ) {
+    return fullUpdate(
+      await fetchBytes(provider, options),
+      options,
+      overlapSize,
+      zipEntry,
+    );
+  }
+
+  const start = previous.byteLength - previous.overlap;
+  const fetchOptions = { ...options, cache: undefined };
+  const fetched = await fetchRange(provider, start, fetchOptions);
+  const changed = !fetched || fetched.bytes.length < previous.overlap ||
+    await checksum(fetched.bytes.subarray(0, previous.overlap)) !==
+      previous.checksum;
+  if (fetched && (!fetched.partial || (changed && start === 0))) {
+    // The response holds the whole data.
+    return fullUpdate(fetched.bytes, options, overlapSize, zipEntry);
+  }
+  if (!fetched || changed) {
+    return fullUpdate(
+      await fetchBytes(provider, options),
+      options,
+      overlapSize,
+      zipEntry,
+    );
+  }
+
+  const window = fetched.bytes;
+  const tail = window.subarray(previous.overlap);
+  // An unterminated last line may still be being written.
+  const appended = completeLength(tail);
+  const text = new TextDecoder().decode(tail.subarray(0, appended));
+  const { header } = previous;
+  const parsed = await parse(
+    header === undefined ? text : `${header}\n${text}`,
+    { ...options.parse, header: header !== undefined, mode: "rows" },
+  );
+  const lastTimestamp = previous.lastTimestamp;
+  const rows = lastTimestamp === undefined
+    ? parsed
+    : parsed.filter((row) => row.ts > lastTimestamp);
+
+  const state = await stateFor(
+    window,
+    previous.overlap + appended,
+    previous.byteLength + appended,
+    previous.rowCount + rows.length,
+    rows.at(-1)?.ts ?? lastTimestamp,
+    header,
+    overlapSize,
+  );
+  return { mode: "append", rows, state };
+}
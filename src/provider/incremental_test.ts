@@ -0,0 +1,169 @@
+// src/provider/incremental_test.ts
+import { deepStrictEqual, strictEqual } from "node:assert";
+import { fetchCsvIncremental } from "./incremental.ts";
+import { MemoryProvider, UrlProvider } from "./provider.ts";
+
+const header = "Date,Open,High,Low,Close,Volume\n";
+
+function line(day: number, volume = 100): string {
+  return `2023-01-${String(day).padStart(2, "0")},1,2,0.5,1.5,${volume}\n`;
+}
+
+function days(from: number, to: number): string {
+  let lines = "";
+  for (let day = from; day <= to; day++) lines += line(day);
+  return lines;
+}
+
+function timestamp(day: number): number {
+  return Date.UTC(2023, 0, day) / 1000;
+}
+
+/**
+ * Serves `data.content` with byte range support, unless `data.ranges` is
+ * false, and records the `Range` header of every request.
+ */
+async function withServer(
+  run: (
+    provider: UrlProvider,
+    data: { content: string; ranges: boolean },
+    ranges: (string | null)[],
+  ) => Promise<void>,
+): Promise<void> {
+  const data = { content: "", ranges: true };
+  const ranges: (string | null)[] = [];
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    (req) => {
+      const bytes = new TextEncoder().encode(data.content);
+      const range = req.headers.get("Range");
+      ranges.push(range);
+      const start = Number(/^bytes=(\d+)-$/.exec(range ?? "")?.[1]);
+      if (!data.ranges || Number.isNaN(start)) return new Response(bytes);
+      if (start >= bytes.length) {
+        return new Response(null, {
+          status: 416,
+          headers: { "Content-Range": `bytes */${bytes.length}` },
+        });
+      }
+      return new Response(bytes.subarray(start), {
+        status: 206,
+        headers: {
+          "Content-Range": `bytes ${start}-${bytes.length - 1}/${bytes.length}`,
+        },
+      });
+    },
+  );
+  try {
+    await run(
+      new UrlProvider({
+        id: "local",
+        url: `http://127.0.0.1:${server.addr.port}/a.csv`,
+      }),
+      data,
+      ranges,
+    );
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.test("fetchCsvIncremental fetches only appended rows with a range request", async () => {
+  await withServer(async (provider, data, ranges) => {
+    data.content = header + days(1, 20);
+    const first = await fetchCsvIncremental(provider, undefined, {
+      overlap: 64,
+    });
+    strictEqual(first.mode, "full");
+    strictEqual(first.rows.length, 20);
+
+    data.content += days(21, 25);
+    const second = await fetchCsvIncremental(
+      provider,
+      JSON.parse(JSON.stringify(first.state)),
+      { overlap: 64 },
+    );
+    strictEqual(second.mode, "append");
+    deepStrictEqual(
+      second.rows.map((row) => row.ts),
+      [21, 22, 23, 24, 25].map(timestamp),
+    );
+    strictEqual(second.state.rowCount, 25);
+    strictEqual(second.state.byteLength, data.content.length);
+    strictEqual(ranges[1], `bytes=${first.state.byteLength - 64}-`);
+
+    const third = await fetchCsvIncremental(provider, second.state, {
+      overlap: 64,
+    });
+    strictEqual(third.mode, "append");
+    deepStrictEqual(third.rows, []);
+    deepStrictEqual(third.state, second.state);
+  });
+});
+
+Deno.test("fetchCsvIncremental leaves an unterminated last line for a later update", async () => {
+  await withServer(async (provider, data) => {
+    data.content = header + days(1, 3) + line(4, 200).slice(0, -4);
+    const first = await fetchCsvIncremental(provider);
+    strictEqual(first.mode, "full");
+    deepStrictEqual(first.rows.map((row) => row.ts), [1, 2, 3].map(timestamp));
+
+    data.content = header + days(1, 3) + line(4, 200) + line(5).slice(0, 10);
+    const second = await fetchCsvIncremental(provider, first.state);
+    strictEqual(second.mode, "append");
+    deepStrictEqual(second.rows, [
+      { ts: timestamp(4), o: 1, h: 2, l: 0.5, c: 1.5, v: 200 },
+    ]);
+
+    data.content = header + days(1, 3) + line(4, 200) + line(5);
+    const third = await fetchCsvIncremental(provider, second.state);
+    deepStrictEqual(third.rows.map((row) => row.ts), [timestamp(5)]);
+  });
+});
+
+Deno.test("fetchCsvIncremental refetches everything when earlier data changes", async () => {
+  await withServer(async (provider, data) => {
+    data.content = header + days(1, 5);
+    const first = await fetchCsvIncremental(provider, undefined, {
+      overlap: 16,
+    });
+
+    data.content = header + days(1, 4) + line(5, 999) + line(6);
+    const rewritten = await fetchCsvIncremental(provider, first.state, {
+      overlap: 16,
+    });
+    strictEqual(rewritten.mode, "full");
+    strictEqual(rewritten.rows.length, 6);
+    strictEqual(rewritten.rows[4].v, 999);
+
+    data.content = header + days(1, 2);
+    const shrunk = await fetchCsvIncremental(provider, rewritten.state);
+    strictEqual(shrunk.mode, "full");
+    strictEqual(shrunk.rows.length, 2);
+  });
+});
+
+Deno.test("fetchCsvIncremental fetches everything when the server ignores ranges", async () => {
+  await withServer(async (provider, data) => {
+    data.content = header + days(1, 3);
+    const first = await fetchCsvIncremental(provider);
+
+    data.ranges = false;
+    data.content += days(4, 5);
+    const second = await fetchCsvIncremental(provider, first.state);
+    strictEqual(second.mode, "full");
+    strictEqual(second.rows.length, 5);
+    strictEqual(second.state.byteLength, data.content.length);
+  });
+});
+
+Deno.test("fetchCsvIncremental fetches other providers whole", async () => {
+  const provider = new MemoryProvider({
+    id: "memory",
+    content: header + days(1, 3),
+  });
+  const first = await fetchCsvIncremental(provider);
+  const second = await fetchCsvIncremental(provider, first.state);
+  strictEqual(second.mode, "full");
+  deepStrictEqual(second.rows, first.rows);
+});
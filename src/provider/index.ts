@@ -1,3 +1,26 @@
 // src/provider/index.ts
 export { DataSource } from "./data_sources.ts";
 export { fetchCsvAsStream, fetchCsvAsText } from "./fetch.ts";
+export { FileProvider, MemoryProvider, UrlProvider } from "./provider.ts";
+export { ProviderRegistry, providers } from "./registry.ts";
+export { DiskCache } from "./cache.ts";
+export { fetchCsvIncremental } from "./incremental.ts";
+
+export type {
+  DataFormat,
+  DataProvider,
+  FetchOptions,
+  FileProviderOptions,
+  MemoryProviderOptions,
+  ProviderMetadata,
+  ProviderOptions,
+  RetryOptions,
+  UrlProviderOptions,
+} from "./provider.ts";
+export type { RegisterProviderOptions } from "./registry.ts";
+export type { DiskCacheOptions } from "./cache.ts";
+export type {
+  IncrementalFetchOptions,
+  IncrementalState,
+  IncrementalUpdate,
+} from "./incremental.ts";
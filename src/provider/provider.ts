@@ -0,0 +1,432 @@
+// src/provider/provider.ts
+import { CompressionError, FetchError, ProviderError } from "../core/errors.ts";
+import {
+  type CompressionFormat,
+  decompressStream,
+  detectCompression,
+} from "../compression/decompress.ts";
+import { ZipArchive } from "../compression/zip.ts";
+import { fetchUrlAsStream, fetchUrlAsText, wrapFetchError } from "./_http.ts";
+import type { DiskCache } from "./cache.ts";
+
+/**
+ * Formats of data served by a provider.
+ *
+ * - `csv` - OHLCV CSV, for the CSV parsers and `parse`
+ * - `json` - A JSON array of rows, for `parseJsonOhlcv`
+ * - `ndjson` - One JSON row per line, for `parseNdjsonOhlcv`
+ * - `binary` - The OHLCV binary format, for `OhlcvBinaryReader`
+ * - `delta` - Delta-encoded rows, for `decodeOhlcvDelta`
+ */
+export type DataFormat = "csv" | "json" | "ndjson" | "binary" | "delta";
+
+/**
+ * Describes the data a provider serves.
+ */
+export interface ProviderMetadata {
+  /** Instrument symbol, e.g. `"BTC-USD"` */
+  symbol?: string;
+  /** Bar interval in seconds, when known */
+  interval?: number;
+  /** Data format */
+  format: DataFormat;
+}
+
+/**
+ * When and how often failed requests are retried.
+ *
+ * Network errors, timeouts and the listed statuses are retried with
+ * exponential backoff: the n-th retry waits between half and all of
+ * `minDelay * 2 ** (n - 1)`, capped at `maxDelay`. A `Retry-After` header
+ * on the response sets the wait instead, also capped at `maxDelay`.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt. Defaults to 3 */
+  retries?: number;
+  /** Milliseconds before the first retry. Defaults to 500 */
+  minDelay?: number;
+  /** Longest wait between attempts in milliseconds. Defaults to 30000 */
+  maxDelay?: number;
+  /** Statuses to retry. Defaults to 408, 429, 500, 502, 503 and 504 */
+  statuses?: readonly number[];
+}
+
+/**
+ * Options for fetching from a provider.
+ */
+export interface FetchOptions {
+  /**
+   * Disk cache for URL downloads. Providers that do not fetch over HTTP
+   * ignore it
+   */
+  cache?: DiskCache;
+  /** Cancels the request, including retries and any wait between them */
+  signal?: AbortSignal;
+  /**
+   * Milliseconds to wait for the response headers of each attempt. Reading
+   * the body is not limited. Defaults to no limit
+   */
+  headersTimeout?: number;
+  /**
+   * Retries transient failures; `true` uses the {@link RetryOptions}
+   * defaults. Defaults to a single attempt
+   */
+  retry?: boolean | RetryOptions;
+  /**
+   * Detect and decompress gzip, deflate and zip data. Defaults to true;
+   * `false` returns the bytes as stored
+   */
+  decompress?: boolean;
+}
+
+/**
+ * A source of OHLCV data that can be fetched whole or as a stream.
+ *
+ * Implement this to serve data from anywhere, then pass the provider to
+ * {@link fetchCsvAsText} or {@link fetchCsvAsStream} directly, or register
+ * it with a {@link ProviderRegistry} to fetch it by id.
+ *
+ * @example
+ * ```typescript
+ * const mirror: DataProvider = {
+ *   id: "btc-mirror",
+ *   metadata: { symbol: "BTC-USD", interval: 86_400, format: "csv" },
+ *   fetchText: () => fetchCsvAsText(DataSource.BTC_CSV),
+ *   fetchStream: () => fetchCsvAsStream(DataSource.BTC_CSV),
+ * };
+ * ```
+ */
+export interface DataProvider {
+  /** Unique id used to register and look up the provider */
+  readonly id: string;
+  /** Description of the served data */
+  readonly metadata: ProviderMetadata;
+  /** Fetches the complete data as a string */
+  fetchText(options?: FetchOptions): Promise<string>;
+  /** Fetches the data as a stream of bytes */
+  fetchStream(options?: FetchOptions): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Options shared by the built-in provider implementations.
+ */
+export interface ProviderOptions {
+  /** Unique id of the provider */
+  id: string;
+  /** Instrument symbol */
+  symbol?: string;
+  /** Bar interval in seconds */
+  interval?: number;
+  /** Data format. Defaults to `"csv"` */
+  format?: DataFormat;
+  /**
+   * Entry to read when the data is a zip archive. Defaults to the first
+   * entry whose name ends in `.csv`
+   */
+  zipEntry?: string;
+}
+
+/**
+ * Options for {@link UrlProvider}.
+ */
+export interface UrlProviderOptions extends ProviderOptions {
+  /** URL of the data */
+  url: string | URL;
+  /** Request options such as headers, passed to `fetch` */
+  init?: RequestInit;
+}
+
+/**
+ * Options for {@link FileProvider}.
+ */
+export interface FileProviderOptions extends ProviderOptions {
+  /** Path of the file */
+  path: string | URL;
+}
+
+/**
+ * Options for {@link MemoryProvider}.
+ */
+export interface MemoryProviderOptions extends ProviderOptions {
+  /** The data, as text or bytes */
+  content: string | Uint8Array;
+}
+
+function resolveMetadata(options: ProviderOptions): ProviderMetadata {
+  if (typeof options.id !== "string" || options.id.trim() === "") {
+    throw new ProviderError(
+      `Invalid provider id: ${
+        JSON.stringify(options.id)
+      }. Expected a non-empty string.`,
+    );
+  }
+  if (
+    options.interval !== undefined &&
+    !(Number.isFinite(options.interval) && options.interval > 0)
+  ) {
+    throw new ProviderError(
+      `Invalid interval for provider "${options.id}": ${options.interval}. Expected a positive number of seconds.`,
+    );
+  }
+  return {
+    symbol: options.symbol,
+    interval: options.interval,
+    format: options.format ?? "csv",
+  };
+}
+
+/**
+ * Reads a possibly compressed stream to the end as text.
+ */
+async function readText(
+  stream: ReadableStream<Uint8Array>,
+  options: FetchOptions | undefined,
+  wrapError: (error: unknown) => Error,
+): Promise<string> {
+  try {
+    return await new Response(stream).text();
+  } catch (error) {
+    if (
+      error instanceof CompressionError || error instanceof FetchError ||
+      options?.signal?.aborted
+    ) {
+      throw error;
+    }
+    throw wrapError(error);
+  }
+}
+
+/**
+ * Serves data from a URL, such as a mirror of a {@link DataSource}.
+ *
+ * @throws {ProviderError} When the id or interval is invalid
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsText, UrlProvider } from "@mso/ohlcv";
+ *
+ * const mirror = new UrlProvider({
+ *   id: "btc-mirror",
+ *   url: "https://data.example.com/btc.csv",
+ *   init: { headers: { Authorization: `Bearer ${token}` } },
+ *   symbol: "BTC-USD",
+ *   interval: 86_400,
+ * });
+ * const csv = await fetchCsvAsText(mirror);
+ * ```
+ */
+export class UrlProvider implements DataProvider {
+  public readonly id: string;
+  public readonly metadata: ProviderMetadata;
+  /** URL of the data */
+  public readonly url: string;
+  /** Request options passed to `fetch` */
+  public readonly init?: RequestInit;
+  /** Entry read from zip archives, by default the first `.csv` entry */
+  public readonly zipEntry?: string;
+
+  constructor(options: UrlProviderOptions) {
+    this.metadata = resolveMetadata(options);
+    this.id = options.id;
+    this.url = options.url.toString();
+    this.init = options.init;
+    this.zipEntry = options.zipEntry;
+  }
+
+  /**
+   * @throws {HttpError} When the response status is not 2xx
+   * @throws {FetchError} When the request fails for other reasons
+   * @throws {CompressionError} When the data is corrupt, or a zip archive is
+   * invalid or lacks the entry
+   */
+  public async fetchText(options?: FetchOptions): Promise<string> {
+    if (options?.decompress === false) {
+      return fetchUrlAsText(this.url, this.init, options);
+    }
+    return readText(
+      await this.open(options, "text"),
+      options,
+      (error) => wrapFetchError(this.url, error),
+    );
+  }
+
+  /**
+   * Compressed data is decompressed as the stream is read; a zip archive is
+   * downloaded whole before its entry is streamed.
+   *
+   * @throws {HttpError} When the response status is not 2xx
+   * @throws {FetchError} When the request fails or the response has no body
+   */
+  public fetchStream(
+    options?: FetchOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.open(options, "stream");
+  }
+
+  private async open(
+    options: FetchOptions | undefined,
+    kind: "text" | "stream",
+  ): Promise<ReadableStream<Uint8Array>> {
+    const stream = await fetchUrlAsStream(this.url, this.init, options, kind);
+    return options?.decompress === false
+      ? stream
+      : decompressStream(stream, { zipEntry: this.zipEntry });
+  }
+}
+
+/**
+ * Serves data from a local file, for offline runs. Gzip, deflate and zip
+ * files are decompressed unless `decompress: false` is passed when fetching.
+ *
+ * @throws {ProviderError} When the id or interval is invalid
+ *
+ * @example
+ * ```typescript
+ * import { FileProvider, parse } from "@mso/ohlcv";
+ *
+ * const local = new FileProvider({ id: "btc-local", path: "./data/btc.csv" });
+ * const rows = await parse(await local.fetchStream());
+ * ```
+ */
+export class FileProvider implements DataProvider {
+  public readonly id: string;
+  public readonly metadata: ProviderMetadata;
+  /** Path of the file */
+  public readonly path: string | URL;
+  /** Entry read from zip archives, by default the first `.csv` entry */
+  public readonly zipEntry?: string;
+
+  constructor(options: FileProviderOptions) {
+    this.metadata = resolveMetadata(options);
+    this.id = options.id;
+    this.path = options.path;
+    this.zipEntry = options.zipEntry;
+  }
+
+  private wrapError(error: unknown): FetchError {
+    return new FetchError(
+      `Reading ${this.path} failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  /**
+   * @throws {FetchError} When the file cannot be read
+   * @throws {CompressionError} When the data is corrupt, or a zip archive is
+   * invalid or lacks the entry
+   */
+  public async fetchText(options?: FetchOptions): Promise<string> {
+    if (options?.decompress === false) {
+      try {
+        return await Deno.readTextFile(this.path);
+      } catch (error) {
+        throw this.wrapError(error);
+      }
+    }
+    return readText(
+      await this.fetchStream(options),
+      options,
+      (error) => this.wrapError(error),
+    );
+  }
+
+  /**
+   * Opens the file for reading. The file is closed when the stream is read to
+   * the end or cancelled. Only the requested entry of a zip archive is read.
+   *
+   * @throws {FetchError} When the file cannot be opened
+   * @throws {CompressionError} When a zip archive is invalid or lacks the
+   * entry
+   */
+  public async fetchStream(
+    options?: FetchOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    let file: Deno.FsFile;
+    try {
+      file = await Deno.open(this.path, { read: true });
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+    if (options?.decompress === false) return file.readable;
+
+    let format: CompressionFormat | undefined;
+    try {
+      const head = new Uint8Array(4);
+      format = detectCompression(head.subarray(0, await file.read(head) ?? 0));
+      await file.seek(0, Deno.SeekMode.Start);
+    } catch (error) {
+      file.close();
+      throw this.wrapError(error);
+    }
+    if (format === "zip") {
+      file.close();
+      return ZipArchive.openEntry(this.path, this.zipEntry);
+    }
+    return decompressStream(file.readable);
+  }
+}
+
+/**
+ * Serves data held in memory, for tests and fixtures that need no network
+ * or file access.
+ *
+ * @throws {ProviderError} When the id or interval is invalid
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsText, MemoryProvider } from "@mso/ohlcv";
+ *
+ * const fixture = new MemoryProvider({
+ *   id: "fixture",
+ *   content: "Date,Open,High,Low,Close,Volume\n2024-01-01,1,2,0.5,1.5,100\n",
+ * });
+ * const csv = await fetchCsvAsText(fixture);
+ * ```
+ */
+export class MemoryProvider implements DataProvider {
+  public readonly id: string;
+  public readonly metadata: ProviderMetadata;
+  private content: string | Uint8Array;
+  /** Entry read from zip archives, by default the first `.csv` entry */
+  public readonly zipEntry?: string;
+
+  constructor(options: MemoryProviderOptions) {
+    this.metadata = resolveMetadata(options);
+    this.id = options.id;
+    this.content = options.content;
+    this.zipEntry = options.zipEntry;
+  }
+
+  /**
+   * @throws {CompressionError} When byte content is corrupt, or a zip
+   * archive is invalid or lacks the entry
+   */
+  public async fetchText(options?: FetchOptions): Promise<string> {
+    if (typeof this.content === "string") return this.content;
+    if (options?.decompress === false) {
+      return new TextDecoder().decode(this.content);
+    }
+    return await new Response(await this.fetchStream(options)).text();
+  }
+
+  public fetchStream(
+    options?: FetchOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const bytes = typeof this.content === "string"
+      ? new TextEncoder().encode(this.content)
+      : this.content.slice();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (bytes.length > 0) controller.enqueue(bytes);
+        controller.close();
+      },
+    });
+    return Promise.resolve(
+      typeof this.content === "string" || options?.decompress === false
+        ? stream
+        : decompressStream(stream, { zipEntry: this.zipEntry }),
+    );
+  }
+}
@@ -0,0 +1,144 @@
+// src/provider/provider_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import { FetchError, ProviderError } from "../core/errors.ts";
+import { FileProvider, MemoryProvider, UrlProvider } from "./provider.ts";
+
+const csv = "Date,Open,High,Low,Close,Volume\n2024-01-01,1,2,0.5,1.5,100\n";
+
+async function gzip(text: string): Promise<Uint8Array> {
+  const compressed = ReadableStream.from([new TextEncoder().encode(text)])
+    .pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
+
+Deno.test("providers validate their id and interval", () => {
+  for (const id of ["", "  "]) {
+    throws(() => new MemoryProvider({ id, content: csv }), ProviderError);
+  }
+  for (const interval of [0, -60, NaN, Infinity]) {
+    throws(
+      () => new MemoryProvider({ id: "a", content: csv, interval }),
+      (e: unknown) =>
+        e instanceof ProviderError && e.message.includes(String(interval)),
+    );
+  }
+});
+
+Deno.test("providers describe their data in metadata", () => {
+  deepStrictEqual(new MemoryProvider({ id: "a", content: csv }).metadata, {
+    symbol: undefined,
+    interval: undefined,
+    format: "csv",
+  });
+  deepStrictEqual(
+    new UrlProvider({
+      id: "b",
+      url: new URL("https://example.com/b.ndjson"),
+      symbol: "BTC-USD",
+      interval: 60,
+      format: "ndjson",
+    }).metadata,
+    { symbol: "BTC-USD", interval: 60, format: "ndjson" },
+  );
+});
+
+Deno.test("MemoryProvider serves text and bytes", async () => {
+  const text = new MemoryProvider({ id: "a", content: csv });
+  strictEqual(await text.fetchText(), csv);
+  strictEqual(await new Response(await text.fetchStream()).text(), csv);
+
+  const bytes = new MemoryProvider({
+    id: "b",
+    content: new TextEncoder().encode(csv),
+  });
+  strictEqual(await bytes.fetchText(), csv);
+  strictEqual(await bytes.fetchText({ decompress: false }), csv);
+  // Each stream reads its own copy of the bytes
+  const first = await bytes.fetchStream();
+  strictEqual(await new Response(await bytes.fetchStream()).text(), csv);
+  strictEqual(await new Response(first).text(), csv);
+
+  const empty = new MemoryProvider({ id: "c", content: "" });
+  deepStrictEqual(await Array.fromAsync(await empty.fetchStream()), []);
+});
+
+Deno.test("MemoryProvider decompresses gzip bytes unless asked not to", async () => {
+  const compressed = await gzip(csv);
+  const provider = new MemoryProvider({ id: "a", content: compressed });
+  strictEqual(await provider.fetchText(), csv);
+  strictEqual(await new Response(await provider.fetchStream()).text(), csv);
+  deepStrictEqual(
+    new Uint8Array(
+      await new Response(await provider.fetchStream({ decompress: false }))
+        .arrayBuffer(),
+    ),
+    compressed,
+  );
+});
+
+Deno.test("FileProvider reads plain and compressed files", async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    const plain = `${directory}/a.csv`;
+    const compressed = `${directory}/a.csv.gz`;
+    await Deno.writeTextFile(plain, csv);
+    await Deno.writeFile(compressed, await gzip(csv));
+
+    const provider = new FileProvider({ id: "a", path: plain });
+    strictEqual(await provider.fetchText(), csv);
+    strictEqual(await provider.fetchText({ decompress: false }), csv);
+    strictEqual(await new Response(await provider.fetchStream()).text(), csv);
+
+    const gz = new FileProvider({ id: "b", path: compressed });
+    strictEqual(await gz.fetchText(), csv);
+    strictEqual(
+      (await new Response(await gz.fetchStream({ decompress: false }))
+        .arrayBuffer()).byteLength,
+      (await Deno.stat(compressed)).size,
+    );
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("FileProvider wraps missing files in FetchError", async () => {
+  const provider = new FileProvider({ id: "a", path: "./no/such/file.csv" });
+  for (
+    const read of [
+      () => provider.fetchText(),
+      () => provider.fetchText({ decompress: false }),
+      () => provider.fetchStream(),
+    ]
+  ) {
+    await rejects(
+      read(),
+      (e: unknown) =>
+        e instanceof FetchError &&
+        e.message.startsWith("Reading ./no/such/file.csv failed"),
+    );
+  }
+});
+
+Deno.test("UrlProvider fetches its URL with the request options", async () => {
+  const headers: (string | null)[] = [];
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    (req) => {
+      headers.push(req.headers.get("Authorization"));
+      return new Response(csv);
+    },
+  );
+  try {
+    const provider = new UrlProvider({
+      id: "a",
+      url: `http://127.0.0.1:${server.addr.port}/a.csv`,
+      init: { headers: { Authorization: "Bearer token" } },
+    });
+    strictEqual(await provider.fetchText(), csv);
+    strictEqual(await new Response(await provider.fetchStream()).text(), csv);
+    strictEqual(await provider.fetchText({ decompress: false }), csv);
+    deepStrictEqual(headers, Array(3).fill("Bearer token"));
+  } finally {
+    await server.shutdown();
+  }
+});
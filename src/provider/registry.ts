@@ -0,0 +1,157 @@
+// src/provider/registry.ts
+import { ProviderError } from "../core/errors.ts";
+import { DataSource } from "./data_sources.ts";
+import { type DataProvider, UrlProvider } from "./provider.ts";
+
+/**
+ * Options for {@link ProviderRegistry.register}.
+ */
+export interface RegisterProviderOptions {
+  /** Replace a provider already registered with the same id */
+  replace?: boolean;
+}
+
+/**
+ * Providers for the {@link DataSource} entries, keyed by source.
+ */
+const BUILT_IN_PROVIDERS: Record<DataSource, DataProvider> = {
+  [DataSource.BTC_CSV]: new UrlProvider({
+    id: "btc",
+    url: DataSource.BTC_CSV,
+    symbol: "BTC-USD",
+    interval: 86_400,
+  }),
+  [DataSource.SP500_CSV]: new UrlProvider({
+    id: "sp500",
+    url: DataSource.SP500_CSV,
+    symbol: "SPX",
+    interval: 86_400,
+  }),
+  [DataSource.ETH_CSV]: new UrlProvider({
+    id: "eth",
+    url: DataSource.ETH_CSV,
+    symbol: "ETH-USD",
+    interval: 86_400,
+  }),
+  [DataSource.GOLD_CSV]: new UrlProvider({
+    id: "gold",
+    url: DataSource.GOLD_CSV,
+    symbol: "XAU-USD",
+    interval: 86_400,
+  }),
+};
+
+/**
+ * Returns the built-in provider for a {@link DataSource}, or undefined when
+ * the value is not one.
+ */
+export function providerForDataSource(
+  source: string,
+): DataProvider | undefined {
+  return Object.hasOwn(BUILT_IN_PROVIDERS, source)
+    ? BUILT_IN_PROVIDERS[source as DataSource]
+    : undefined;
+}
+
+/**
+ * A set of data providers looked up by id.
+ *
+ * @example
+ * ```typescript
+ * import { FileProvider, ProviderRegistry } from "@mso/ohlcv";
+ *
+ * const registry = new ProviderRegistry();
+ * registry.register(new FileProvider({ id: "btc", path: "./data/btc.csv" }));
+ * const csv = await registry.get("btc").fetchText();
+ * ```
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, DataProvider>();
+
+  /**
+   * @param providers - Providers to register initially
+   *
+   * @throws {ProviderError} When two providers share an id
+   */
+  constructor(providers: Iterable<DataProvider> = []) {
+    for (const provider of providers) this.register(provider);
+  }
+
+  /**
+   * Adds a provider.
+   *
+   * @throws {ProviderError} When the id is already registered and
+   * `options.replace` is not set
+   */
+  public register(
+    provider: DataProvider,
+    options: RegisterProviderOptions = {},
+  ): void {
+    if (this.providers.has(provider.id) && !options.replace) {
+      throw new ProviderError(
+        `A provider with id "${provider.id}" is already registered. Pass { replace: true } to replace it.`,
+      );
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Removes a provider.
+   *
+   * @returns Whether a provider with the id was registered
+   */
+  public unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  public has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * Looks up a provider by id.
+   *
+   * @throws {ProviderError} When no provider has the id
+   */
+  public get(id: string): DataProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new ProviderError(
+        `Unknown provider: "${id}". Registered providers: ${
+          [...this.providers.keys()].join(", ") || "none"
+        }.`,
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Returns the registered providers in registration order.
+   */
+  public list(): DataProvider[] {
+    return [...this.providers.values()];
+  }
+}
+
+/**
+ * The registry searched by {@link fetchCsvAsText} and
+ * {@link fetchCsvAsStream} when given a provider id. It starts with the
+ * {@link DataSource} entries under the ids `btc`, `sp500`, `eth` and `gold`.
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsText, MemoryProvider, providers } from "@mso/ohlcv";
+ *
+ * providers.register(new MemoryProvider({ id: "fixture", content: csv }));
+ * const text = await fetchCsvAsText("fixture");
+ *
+ * // Point a built-in id at a local copy for offline runs
+ * providers.register(
+ *   new FileProvider({ id: "btc", path: "./data/btc.csv" }),
+ *   { replace: true },
+ * );
+ * ```
+ */
+export const providers: ProviderRegistry = new ProviderRegistry(
+  Object.values(BUILT_IN_PROVIDERS),
+);
@@ -0,0 +1,115 @@
+// src/provider/registry_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import { ProviderError } from "../core/errors.ts";
+import { DataSource } from "./data_sources.ts";
+import { fetchCsvAsStream, fetchCsvAsText } from "./fetch.ts";
+import { MemoryProvider, UrlProvider } from "./provider.ts";
+import {
+  providerForDataSource,
+  ProviderRegistry,
+  providers,
+} from "./registry.ts";
+
+const csv = "Date,Open,High,Low,Close,Volume\n2024-01-01,1,2,0.5,1.5,100\n";
+
+const memory = (id: string, content = csv) =>
+  new MemoryProvider({ id, content });
+
+Deno.test("ProviderRegistry looks providers up by id in registration order", () => {
+  const a = memory("a");
+  const b = memory("b");
+  const registry = new ProviderRegistry([a]);
+  registry.register(b);
+  strictEqual(registry.get("a"), a);
+  strictEqual(registry.has("b"), true);
+  strictEqual(registry.has("c"), false);
+  deepStrictEqual(registry.list(), [a, b]);
+
+  strictEqual(registry.unregister("a"), true);
+  strictEqual(registry.unregister("a"), false);
+  deepStrictEqual(registry.list(), [b]);
+});
+
+Deno.test("ProviderRegistry replaces a provider only when asked", () => {
+  const registry = new ProviderRegistry([memory("a")]);
+  throws(
+    () => registry.register(memory("a")),
+    (e: unknown) => e instanceof ProviderError && e.message.includes('"a"'),
+  );
+  const replacement = memory("a");
+  registry.register(replacement, { replace: true });
+  strictEqual(registry.get("a"), replacement);
+  throws(() => new ProviderRegistry([memory("x"), memory("x")]), ProviderError);
+});
+
+Deno.test("ProviderRegistry names the registered ids for an unknown id", () => {
+  throws(
+    () => new ProviderRegistry([memory("a"), memory("b")]).get("c"),
+    (e: unknown) =>
+      e instanceof ProviderError &&
+      e.message === 'Unknown provider: "c". Registered providers: a, b.',
+  );
+  throws(
+    () => new ProviderRegistry().get("c"),
+    /Registered providers: none\./,
+  );
+});
+
+Deno.test("the default registry wraps every DataSource", () => {
+  deepStrictEqual(
+    providers.list().slice(0, 4).map((provider) => provider.id),
+    ["btc", "sp500", "eth", "gold"],
+  );
+  for (const source of Object.values(DataSource)) {
+    const provider = providerForDataSource(source);
+    strictEqual(provider instanceof UrlProvider, true, source);
+    strictEqual((provider as UrlProvider).url, source);
+    strictEqual(providers.get(provider!.id), provider);
+    strictEqual(provider!.metadata.format, "csv");
+    strictEqual(provider!.metadata.interval, 86_400);
+  }
+  strictEqual(
+    providerForDataSource(DataSource.SP500_CSV)?.metadata.symbol,
+    "SPX",
+  );
+  strictEqual(providerForDataSource("https://example.com/a.csv"), undefined);
+  strictEqual(providerForDataSource("toString"), undefined);
+});
+
+Deno.test("fetchCsvAsText and fetchCsvAsStream accept providers and registered ids", async () => {
+  const fixture = memory("registry-test-fixture");
+  providers.register(fixture);
+  try {
+    strictEqual(await fetchCsvAsText("registry-test-fixture"), csv);
+    strictEqual(await fetchCsvAsText(fixture), csv);
+    strictEqual(
+      await new Response(await fetchCsvAsStream("registry-test-fixture"))
+        .text(),
+      csv,
+    );
+  } finally {
+    providers.unregister("registry-test-fixture");
+  }
+  await rejects(
+    fetchCsvAsText("registry-test-fixture"),
+    (e: unknown) =>
+      e instanceof ProviderError &&
+      e.message.includes('"registry-test-fixture"') &&
+      e.message.includes("btc"),
+  );
+});
+
+Deno.test("a built-in id can be pointed at an offline provider", async () => {
+  const offline = memory("btc", "Date,Open,High,Low,Close,Volume\n");
+  const builtIn = providers.get("btc");
+  providers.register(offline, { replace: true });
+  try {
+    strictEqual(
+      await fetchCsvAsText("btc"),
+      "Date,Open,High,Low,Close,Volume\n",
+    );
+  } finally {
+    providers.register(builtIn, { replace: true });
+  }
+  strictEqual(providers.get("btc"), builtIn);
+});
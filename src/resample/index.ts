@@ -0,0 +1,11 @@
+// src/resample/index.ts
+export { createResampleStream, resample, Resampler } from "./resample.ts";
+export { bucketStart, nextBucketStart, parseTimeframe } from "./timeframe.ts";
+
+export type { ResampleOptions } from "./resample.ts";
+export type {
+  BucketAlignment,
+  Timeframe,
+  TimeframeUnit,
+  WeekStart,
+} from "./timeframe.ts";
@@ -0,0 +1,170 @@
+// src/resample/resample.ts
+import type { Row } from "../core/row.ts";
+import { ResampleError } from "../core/errors.ts";
+import {
+  assertValidAlignment,
+  type BucketAlignment,
+  bucketStart,
+  parseTimeframe,
+  type Timeframe,
+} from "./timeframe.ts";
+
+/**
+ * Options for resampling OHLCV rows to a coarser timeframe.
+ *
+ * @example
+ * ```typescript
+ * const weekly: ResampleOptions = { timeframe: "1w", weekStart: "sunday" };
+ * const hourly: ResampleOptions = { timeframe: "1h" };
+ * ```
+ */
+export interface ResampleOptions extends BucketAlignment {
+  /** Target bar size, e.g. `"5m"`, `"1h"`, `"4h"`, `"1w"`, `"1M"`, `"1Q"` */
+  timeframe: string | Timeframe;
+}
+
+/**
+ * Incrementally aggregates rows into bars of a target timeframe.
+ *
+ * Each output bar is stamped with its bucket start and uses the first open,
+ * highest high, lowest low, last close and summed volume of its input rows.
+ * Rows must arrive in ascending timestamp order.
+ *
+ * @example
+ * ```typescript
+ * const resampler = new Resampler({ timeframe: "1w" });
+ * for (const row of dailyRows) {
+ *   const completed = resampler.push(row);
+ *   if (completed) console.log("week closed:", completed);
+ * }
+ * const last = resampler.flush();
+ * ```
+ */
+export class Resampler {
+  private timeframe: Timeframe;
+  private alignment: BucketAlignment;
+  private current: Row | null = null;
+  private lastTs = -Infinity;
+
+  /**
+   * @throws {ResampleError} When the timeframe is not recognised
+   * @throws {InvalidTimeZoneError} When the time zone is unknown
+   */
+  constructor(options: ResampleOptions) {
+    this.timeframe = parseTimeframe(options.timeframe);
+    this.alignment = {
+      weekStart: options.weekStart,
+      timeZone: options.timeZone,
+    };
+    assertValidAlignment(this.alignment);
+  }
+
+  /**
+   * Adds a row to the current bar.
+   *
+   * @param row - The next input row
+   * @returns The previous bar when `row` starts a new bucket, otherwise null
+   *
+   * @throws {ResampleError} When `row` is older than the previous row
+   */
+  public push(row: Row): Row | null {
+    if (row.ts < this.lastTs) {
+      throw new ResampleError(
+        `Rows must be in ascending order: ${row.ts} after ${this.lastTs}`,
+      );
+    }
+    this.lastTs = row.ts;
+
+    const ts = bucketStart(row.ts, this.timeframe, this.alignment);
+    const current = this.current;
+    if (current && current.ts === ts) {
+      if (row.h > current.h) current.h = row.h;
+      if (row.l < current.l) current.l = row.l;
+      current.c = row.c;
+      current.v += row.v;
+      return null;
+    }
+
+    this.current = { ts, o: row.o, h: row.h, l: row.l, c: row.c, v: row.v };
+    return current;
+  }
+
+  /**
+   * Completes and returns the bar in progress, if any.
+   */
+  public flush(): Row | null {
+    const current = this.current;
+    this.current = null;
+    return current;
+  }
+}
+
+/**
+ * Resamples OHLCV rows to a coarser timeframe.
+ *
+ * @param rows - Rows in ascending timestamp order
+ * @param options - Target timeframe and bucket alignment
+ * @returns Aggregated bars, one per non-empty bucket
+ *
+ * @throws {ResampleError} When the timeframe is not recognised or the rows
+ * are out of order
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { fetchCsvAsText, parseWithSimpleSplit, DataSource } from "@mso/ohlcv";
+ * import { resample } from "@mso/ohlcv/resample";
+ *
+ * const daily = parseWithSimpleSplit(await fetchCsvAsText(DataSource.BTC_CSV));
+ * const monthly = resample(daily, { timeframe: "1M" });
+ * ```
+ */
+export function resample(rows: Iterable<Row>, options: ResampleOptions): Row[] {
+  const resampler = new Resampler(options);
+  const bars: Row[] = [];
+  for (const row of rows) {
+    const completed = resampler.push(row);
+    if (completed) bars.push(completed);
+  }
+  const last = resampler.flush();
+  if (last) bars.push(last);
+  return bars;
+}
+
+/**
+ * Creates a `TransformStream` that resamples a stream of rows.
+ *
+ * @param options - Target timeframe and bucket alignment
+ * @returns A stream transforming input rows into aggregated bars
+ *
+ * @throws {ResampleError} When the timeframe is not recognised; out-of-order
+ * rows error the stream
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { createParseStream, DataSource, fetchCsvAsStream } from "@mso/ohlcv";
+ * import { createResampleStream } from "@mso/ohlcv/resample";
+ *
+ * const weeks = (await fetchCsvAsStream(DataSource.BTC_CSV))
+ *   .pipeThrough(createParseStream({ strategy: "optimized" }))
+ *   .pipeThrough(createResampleStream({ timeframe: "1w" }));
+ *
+ * for await (const week of weeks) console.log(week);
+ * ```
+ */
+export function createResampleStream(
+  options: ResampleOptions,
+): TransformStream<Row, Row> {
+  const resampler = new Resampler(options);
+  return new TransformStream<Row, Row>({
+    transform(row, controller) {
+      const completed = resampler.push(row);
+      if (completed) controller.enqueue(completed);
+    },
+    flush(controller) {
+      const last = resampler.flush();
+      if (last) controller.enqueue(last);
+    },
+  });
+}
@@ -0,0 +1,185 @@
+// src/resample/resample_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { InvalidTimeZoneError, ResampleError } from "../core/errors.ts";
+import { createResampleStream, resample, Resampler } from "./resample.ts";
+
+const utc = (...args: [number, number, number?, number?, number?]) =>
+  Date.UTC(...args) / 1000;
+
+/** One-minute bars from 2023-01-01 09:58 UTC */
+const minutes: Row[] = [
+  { ts: utc(2023, 0, 1, 9, 58), o: 10, h: 12, l: 9, c: 11, v: 1 },
+  { ts: utc(2023, 0, 1, 9, 59), o: 11, h: 11, l: 10, c: 10, v: 2 },
+  { ts: utc(2023, 0, 1, 10, 0), o: 10, h: 15, l: 10, c: 14, v: 3 },
+  { ts: utc(2023, 0, 1, 10, 1), o: 14, h: 14, l: 8, c: 9, v: 4 },
+  { ts: utc(2023, 0, 1, 10, 4), o: 9, h: 10, l: 9, c: 10, v: 5 },
+  // No rows between 10:05 and 10:15
+  { ts: utc(2023, 0, 1, 10, 16), o: 20, h: 21, l: 19, c: 20, v: 6 },
+];
+
+/** Daily bars for Friday 2022-12-30 to Tuesday 2023-01-10 */
+const days: Row[] = Array.from({ length: 12 }, (_, i) => ({
+  ts: utc(2022, 11, 30 + i),
+  o: 100 + i,
+  h: 110 + i,
+  l: 90 + i,
+  c: 101 + i,
+  v: 10,
+}));
+
+function week(first: number, last: number, ts: number): Row {
+  return {
+    ts,
+    o: days[first].o,
+    h: days[last].h,
+    l: days[first].l,
+    c: days[last].c,
+    v: 10 * (last - first + 1),
+  };
+}
+
+Deno.test("resample aggregates open, high, low, close and volume per bucket", () => {
+  deepStrictEqual(resample(minutes, { timeframe: "5m" }), [
+    { ts: utc(2023, 0, 1, 9, 55), o: 10, h: 12, l: 9, c: 10, v: 3 },
+    { ts: utc(2023, 0, 1, 10, 0), o: 10, h: 15, l: 8, c: 10, v: 12 },
+    { ts: utc(2023, 0, 1, 10, 15), o: 20, h: 21, l: 19, c: 20, v: 6 },
+  ]);
+  deepStrictEqual(resample(minutes, { timeframe: "1h" }), [
+    { ts: utc(2023, 0, 1, 9), o: 10, h: 12, l: 9, c: 10, v: 3 },
+    { ts: utc(2023, 0, 1, 10), o: 10, h: 21, l: 8, c: 20, v: 18 },
+  ]);
+  deepStrictEqual(resample([], { timeframe: "1h" }), []);
+});
+
+Deno.test("resample does not modify its input rows", () => {
+  const copy = structuredClone(minutes);
+  resample(minutes, { timeframe: "1d" });
+  deepStrictEqual(minutes, copy);
+});
+
+Deno.test("resample starts weeks on the configured day", () => {
+  // Monday weeks: Fri-Sun, Mon 2 to Sun 8, Mon 9 to Tue 10
+  deepStrictEqual(resample(days, { timeframe: "1w" }), [
+    week(0, 2, utc(2022, 11, 26)),
+    week(3, 9, utc(2023, 0, 2)),
+    week(10, 11, utc(2023, 0, 9)),
+  ]);
+  // Sunday weeks: Fri-Sat, Sun 1 to Sat 7, Sun 8 to Tue 10
+  deepStrictEqual(resample(days, { timeframe: "1w", weekStart: "sunday" }), [
+    week(0, 1, utc(2022, 11, 25)),
+    week(2, 8, utc(2023, 0, 1)),
+    week(9, 11, utc(2023, 0, 8)),
+  ]);
+});
+
+Deno.test("resample aligns buckets to the time zone's calendar", () => {
+  const hours: Row[] = Array.from({ length: 8 }, (_, i) => ({
+    ts: utc(2023, 0, 1, 2 + 3 * i),
+    o: i,
+    h: i,
+    l: i,
+    c: i,
+    v: 1,
+  }));
+  // 02:00 UTC on 1 January is still 31 December in New York
+  deepStrictEqual(
+    resample(hours, { timeframe: "1d", timeZone: "America/New_York" }).map(
+      (bar) => [bar.ts, bar.v],
+    ),
+    [[utc(2022, 11, 31, 5), 1], [utc(2023, 0, 1, 5), 7]],
+  );
+  deepStrictEqual(
+    resample(hours, { timeframe: "1M", timeZone: "America/New_York" }).map(
+      (bar) => bar.ts,
+    ),
+    [utc(2022, 11, 1, 5), utc(2023, 0, 1, 5)],
+  );
+  deepStrictEqual(
+    resample(hours, { timeframe: "1d" }).map((bar) => bar.ts),
+    [utc(2023, 0, 1)],
+  );
+});
+
+Deno.test("resample aggregates rows with equal timestamps", () => {
+  const twice = [minutes[0], { ...minutes[0], c: 42, v: 5 }];
+  deepStrictEqual(resample(twice, { timeframe: "1m" }), [
+    { ...minutes[0], c: 42, v: 6 },
+  ]);
+});
+
+Deno.test("resample throws ResampleError on rows out of order", () => {
+  throws(
+    () => resample([minutes[2], minutes[1]], { timeframe: "5m" }),
+    (e: Error) =>
+      e instanceof ResampleError &&
+      e.message.includes(`${minutes[1].ts} after ${minutes[2].ts}`),
+  );
+  // Out of order within one bucket is still an error
+  throws(
+    () => resample([minutes[3], minutes[2]], { timeframe: "1d" }),
+    ResampleError,
+  );
+});
+
+Deno.test("Resampler returns each bar once the next bucket starts", () => {
+  const resampler = new Resampler({ timeframe: "5m" });
+  strictEqual(resampler.push(minutes[0]), null);
+  strictEqual(resampler.push(minutes[1]), null);
+  deepStrictEqual(resampler.push(minutes[2]), {
+    ts: utc(2023, 0, 1, 9, 55),
+    o: 10,
+    h: 12,
+    l: 9,
+    c: 10,
+    v: 3,
+  });
+  deepStrictEqual(resampler.flush(), {
+    ts: utc(2023, 0, 1, 10),
+    o: 10,
+    h: 15,
+    l: 10,
+    c: 14,
+    v: 3,
+  });
+  strictEqual(resampler.flush(), null);
+  throws(() => resampler.push(minutes[0]), ResampleError);
+});
+
+Deno.test("Resampler validates its options up front", () => {
+  throws(() => new Resampler({ timeframe: "5 minutes" }), ResampleError);
+  throws(
+    () => new Resampler({ timeframe: "1d", timeZone: "Mars/Base" }),
+    InvalidTimeZoneError,
+  );
+  throws(() => createResampleStream({ timeframe: "0h" }), ResampleError);
+});
+
+Deno.test("createResampleStream matches resample", async () => {
+  for (const options of [{ timeframe: "5m" }, { timeframe: "1h" }]) {
+    deepStrictEqual(
+      await Array.fromAsync(
+        ReadableStream.from(minutes).pipeThrough(createResampleStream(options)),
+      ),
+      resample(minutes, options),
+    );
+  }
+  const weekly = { timeframe: "1w", weekStart: "sunday" as const };
+  deepStrictEqual(
+    await Array.fromAsync(
+      ReadableStream.from(days).pipeThrough(createResampleStream(weekly)),
+    ),
+    resample(days, weekly),
+  );
+});
+
+Deno.test("createResampleStream errors the stream on rows out of order", async () => {
+  await rejects(
+    Array.fromAsync(
+      ReadableStream.from([minutes[0], minutes[4], minutes[3]]).pipeThrough(
+        createResampleStream({ timeframe: "5m" }),
+      ),
+    ),
+    ResampleError,
+  );
+});
@@ -0,0 +1,237 @@
+// src/resample/timeframe.ts
+import { ResampleError } from "../core/errors.ts";
+import {
+  assertValidTimeZone,
+  getTimeZoneOffsetMillis,
+  zonedTimeToUtcMillis,
+} from "../utils/timezone.ts";
+
+/**
+ * Unit of a {@link Timeframe}.
+ */
+export type TimeframeUnit =
+  | "second"
+  | "minute"
+  | "hour"
+  | "day"
+  | "week"
+  | "month"
+  | "quarter"
+  | "year";
+
+/**
+ * A bar duration, e.g. 5 minutes or 1 month.
+ */
+export interface Timeframe {
+  unit: TimeframeUnit;
+  /** Number of units per bar, a positive integer */
+  count: number;
+}
+
+/**
+ * First day of the week used for weekly buckets.
+ */
+export type WeekStart = "monday" | "sunday";
+
+/**
+ * Controls how timestamps are aligned to bucket boundaries.
+ */
+export interface BucketAlignment {
+  /** First day of weekly buckets. Defaults to `"monday"` */
+  weekStart?: WeekStart;
+  /**
+   * IANA time zone whose calendar and wall clock define bucket boundaries.
+   * Defaults to UTC.
+   */
+  timeZone?: string;
+}
+
+const UNIT_SUFFIXES: Record<string, TimeframeUnit> = {
+  s: "second",
+  m: "minute",
+  h: "hour",
+  d: "day",
+  D: "day",
+  w: "week",
+  W: "week",
+  M: "month",
+  Q: "quarter",
+  y: "year",
+  Y: "year",
+};
+
+const FIXED_UNIT_MILLIS: Partial<Record<TimeframeUnit, number>> = {
+  second: 1_000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+const DAY_MILLIS = 86_400_000;
+
+/** Weekday index (Sunday = 0) of each week start. */
+const WEEK_START_DAY: Record<WeekStart, number> = { sunday: 0, monday: 1 };
+
+/**
+ * Parses a timeframe string such as `"5m"`, `"4h"`, `"1d"`, `"1w"`, `"1M"`,
+ * `"1Q"` or `"1y"`.
+ *
+ * Lower-case `m` is minutes and upper-case `M` is months.
+ *
+ * @param timeframe - Timeframe string or object
+ * @returns The parsed timeframe
+ *
+ * @throws {ResampleError} When the timeframe is not recognised
+ *
+ * @example
+ * ```typescript
+ * parseTimeframe("15m"); // { unit: "minute", count: 15 }
+ * parseTimeframe("1M");  // { unit: "month", count: 1 }
+ * ```
+ */
+export function parseTimeframe(timeframe: string | Timeframe): Timeframe {
+  if (typeof timeframe !== "string") {
+    if (!Number.isInteger(timeframe.count) || timeframe.count < 1) {
+      throw new ResampleError(
+        `Invalid timeframe count: ${timeframe.count}`,
+      );
+    }
+    return timeframe;
+  }
+  const match = timeframe.trim().match(/^(\d*)([a-zA-Z])$/);
+  const unit = match ? UNIT_SUFFIXES[match[2]] : undefined;
+  const count = match && match[1] ? +match[1] : 1;
+  if (!unit || count < 1) {
+    throw new ResampleError(
+      `Invalid timeframe: "${timeframe}". Expected e.g. 5m, 1h, 1d, 1w, 1M, 1Q, 1y.`,
+    );
+  }
+  return { unit, count };
+}
+
+/**
+ * Returns the start of the bucket containing a timestamp.
+ *
+ * Sub-daily and daily buckets are aligned to multiples of their duration
+ * since 1970-01-01 in the alignment time zone; weekly buckets start on the
+ * configured weekday; month, quarter and year buckets follow the calendar.
+ *
+ * @param ts - Unix timestamp in seconds
+ * @param timeframe - Bucket size
+ * @param alignment - Week start and time zone
+ * @returns Unix timestamp in seconds of the bucket start
+ *
+ * @throws {ResampleError} When the timeframe is not recognised
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * bucketStart(1672574400, "4h");  // 1672574400 (2023-01-01T12:00Z)
+ * bucketStart(1672790400, "1w");  // 1672617600 (Monday 2023-01-02)
+ * bucketStart(1673827200, "1M");  // 1672531200 (2023-01-01)
+ * ```
+ */
+export function bucketStart(
+  ts: number,
+  timeframe: string | Timeframe,
+  alignment: BucketAlignment = {},
+): number {
+  const { unit, count } = parseTimeframe(timeframe);
+  const timeZone = alignment.timeZone ?? "UTC";
+  const utcMillis = Math.floor(ts * 1000);
+  // Wall-clock time in the alignment zone, expressed as if it were UTC.
+  const localMillis = utcMillis + getTimeZoneOffsetMillis(utcMillis, timeZone);
+
+  let startLocalMillis: number;
+  const fixed = FIXED_UNIT_MILLIS[unit];
+  if (fixed !== undefined) {
+    const size = fixed * count;
+    startLocalMillis = Math.floor(localMillis / size) * size;
+  } else if (unit === "week") {
+    const weekStartDay = WEEK_START_DAY[alignment.weekStart ?? "monday"];
+    // 1970-01-01 was a Thursday (weekday 4).
+    const firstWeekStart = (weekStartDay - 4) * DAY_MILLIS;
+    const size = 7 * DAY_MILLIS * count;
+    startLocalMillis = firstWeekStart +
+      Math.floor((localMillis - firstWeekStart) / size) * size;
+  } else {
+    const monthsPerBucket = count *
+      (unit === "month" ? 1 : unit === "quarter" ? 3 : 12);
+    const local = new Date(localMillis);
+    const monthIndex = local.getUTCFullYear() * 12 + local.getUTCMonth();
+    const startMonth = Math.floor(monthIndex / monthsPerBucket) *
+      monthsPerBucket;
+    const date = new Date(0);
+    date.setUTCFullYear(Math.floor(startMonth / 12), startMonth % 12, 1);
+    startLocalMillis = date.getTime();
+  }
+
+  if (timeZone === "UTC") return startLocalMillis / 1000;
+
+  const start = new Date(startLocalMillis);
+  return Math.floor(
+    zonedTimeToUtcMillis({
+      year: start.getUTCFullYear(),
+      month: start.getUTCMonth() + 1,
+      day: start.getUTCDate(),
+      hour: start.getUTCHours(),
+      minute: start.getUTCMinutes(),
+      second: start.getUTCSeconds(),
+      millisecond: start.getUTCMilliseconds(),
+    }, timeZone) / 1000,
+  );
+}
+
+/** Approximate length of each unit, used to step into the next bucket. */
+const NOMINAL_UNIT_SECONDS: Record<TimeframeUnit, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3_600,
+  day: 86_400,
+  week: 604_800,
+  month: 2_629_800,
+  quarter: 7_889_400,
+  year: 31_557_600,
+};
+
+/**
+ * Returns the start of the bucket following the one containing a timestamp.
+ *
+ * Handles calendar units and daylight saving changes in the alignment time
+ * zone, where buckets are not all the same length.
+ *
+ * @param ts - Unix timestamp in seconds
+ * @param timeframe - Bucket size
+ * @param alignment - Week start and time zone
+ * @returns Unix timestamp in seconds of the next bucket start
+ *
+ * @throws {ResampleError} When the timeframe is not recognised
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * nextBucketStart(1672531200, "1M"); // 1675209600 (2023-02-01)
+ * ```
+ */
+export function nextBucketStart(
+  ts: number,
+  timeframe: string | Timeframe,
+  alignment: BucketAlignment = {},
+): number {
+  const parsed = parseTimeframe(timeframe);
+  const start = bucketStart(ts, parsed, alignment);
+  // One and a half nominal buckets always lands inside the next bucket.
+  const step = 1.5 * parsed.count * NOMINAL_UNIT_SECONDS[parsed.unit];
+  return bucketStart(start + step, parsed, alignment);
+}
+
+/**
+ * Validates bucket alignment options up front.
+ *
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ */
+export function assertValidAlignment(alignment: BucketAlignment): void {
+  if (alignment.timeZone !== undefined) {
+    assertValidTimeZone(alignment.timeZone);
+  }
+}
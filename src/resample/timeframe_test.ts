@@ -0,0 +1,117 @@
+// src/resample/timeframe_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import { InvalidTimeZoneError, ResampleError } from "../core/errors.ts";
+import { bucketStart, nextBucketStart, parseTimeframe } from "./timeframe.ts";
+
+const utc = (...args: [number, number, number?, number?, number?]) =>
+  Date.UTC(...args) / 1000;
+
+Deno.test("parseTimeframe reads counts and unit suffixes", () => {
+  deepStrictEqual(parseTimeframe("15m"), { unit: "minute", count: 15 });
+  deepStrictEqual(parseTimeframe("1M"), { unit: "month", count: 1 });
+  deepStrictEqual(parseTimeframe(" 4h "), { unit: "hour", count: 4 });
+  deepStrictEqual(parseTimeframe("D"), { unit: "day", count: 1 });
+  deepStrictEqual(parseTimeframe("2W"), { unit: "week", count: 2 });
+  deepStrictEqual(parseTimeframe("1Q"), { unit: "quarter", count: 1 });
+  deepStrictEqual(parseTimeframe("1y"), { unit: "year", count: 1 });
+  deepStrictEqual(parseTimeframe({ unit: "second", count: 30 }), {
+    unit: "second",
+    count: 30,
+  });
+});
+
+Deno.test("parseTimeframe rejects unknown timeframes", () => {
+  for (const timeframe of ["0m", "5x", "1hour", "", "-1d", "1.5h"]) {
+    throws(() => parseTimeframe(timeframe), ResampleError, timeframe);
+  }
+  throws(() => parseTimeframe({ unit: "day", count: 0 }), ResampleError);
+  throws(() => parseTimeframe({ unit: "day", count: 1.5 }), ResampleError);
+});
+
+Deno.test("bucketStart aligns fixed timeframes to multiples since the epoch", () => {
+  const ts = utc(2023, 0, 1, 13, 47) + 29.75;
+  strictEqual(bucketStart(ts, "1s"), Math.floor(ts));
+  strictEqual(bucketStart(ts, "15m"), utc(2023, 0, 1, 13, 45));
+  strictEqual(bucketStart(ts, "4h"), utc(2023, 0, 1, 12));
+  strictEqual(bucketStart(ts, "1d"), utc(2023, 0, 1));
+  strictEqual(bucketStart(utc(2023, 0, 1, 12), "4h"), utc(2023, 0, 1, 12));
+});
+
+Deno.test("bucketStart aligns weeks to the configured first day", () => {
+  // Sunday 2023-01-01 and Wednesday 2023-01-04
+  const sunday = utc(2023, 0, 1, 10);
+  const wednesday = utc(2023, 0, 4, 10);
+  strictEqual(bucketStart(sunday, "1w"), utc(2022, 11, 26));
+  strictEqual(bucketStart(wednesday, "1w"), utc(2023, 0, 2));
+  strictEqual(
+    bucketStart(sunday, "1w", { weekStart: "sunday" }),
+    utc(2023, 0, 1),
+  );
+  strictEqual(
+    bucketStart(wednesday, "1w", { weekStart: "sunday" }),
+    utc(2023, 0, 1),
+  );
+});
+
+Deno.test("bucketStart follows the calendar for months, quarters and years", () => {
+  const ts = utc(2023, 4, 15, 8);
+  strictEqual(bucketStart(ts, "1M"), utc(2023, 4, 1));
+  strictEqual(bucketStart(ts, "2M"), utc(2023, 4, 1));
+  strictEqual(bucketStart(utc(2023, 3, 30), "2M"), utc(2023, 2, 1));
+  strictEqual(bucketStart(ts, "1Q"), utc(2023, 3, 1));
+  strictEqual(bucketStart(ts, "1y"), utc(2023, 0, 1));
+});
+
+Deno.test("bucketStart handles timestamps before 1970", () => {
+  strictEqual(bucketStart(-1, "1d"), -86400);
+  // Wednesday 1969-12-31 falls in the week of Monday 1969-12-29
+  strictEqual(bucketStart(-3600, "1w"), utc(1969, 11, 29));
+  strictEqual(bucketStart(utc(1929, 9, 29, 15), "1M"), utc(1929, 9, 1));
+});
+
+Deno.test("bucketStart uses the wall clock of the alignment time zone", () => {
+  const timeZone = "America/New_York";
+  // 03:00 UTC on 2 January is 22:00 on 1 January in New York
+  const ts = utc(2023, 0, 2, 3);
+  strictEqual(bucketStart(ts, "1d", { timeZone }), utc(2023, 0, 1, 5));
+  strictEqual(
+    bucketStart(ts, "1M", { timeZone: "Asia/Tokyo" }),
+    utc(2022, 11, 31, 15),
+  );
+  // Kolkata is UTC+05:30, so four-hour buckets start at half past in UTC
+  strictEqual(
+    bucketStart(utc(2023, 0, 1), "4h", { timeZone: "Asia/Kolkata" }),
+    utc(2022, 11, 31, 22, 30),
+  );
+  // Sunday evening in New York is already Monday in UTC
+  strictEqual(
+    bucketStart(utc(2023, 0, 2, 1), "1w", { timeZone }),
+    utc(2022, 11, 26, 5),
+  );
+  throws(
+    () => bucketStart(ts, "1d", { timeZone: "Mars/Base" }),
+    InvalidTimeZoneError,
+  );
+});
+
+Deno.test("nextBucketStart steps over calendar units and daylight saving changes", () => {
+  strictEqual(nextBucketStart(utc(2023, 0, 31), "1M"), utc(2023, 1, 1));
+  strictEqual(nextBucketStart(utc(2023, 1, 10), "1M"), utc(2023, 2, 1));
+  strictEqual(nextBucketStart(utc(2024, 1, 29), "1Q"), utc(2024, 3, 1));
+  strictEqual(nextBucketStart(utc(2023, 11, 31), "1y"), utc(2024, 0, 1));
+  strictEqual(
+    nextBucketStart(utc(2023, 0, 1, 13, 47), "15m"),
+    utc(2023, 0, 1, 14),
+  );
+
+  const timeZone = "America/New_York";
+  // 12 March 2023 has 23 hours in New York, 5 November 2023 has 25
+  strictEqual(
+    nextBucketStart(utc(2023, 2, 12, 12), "1d", { timeZone }),
+    utc(2023, 2, 13, 4),
+  );
+  strictEqual(
+    nextBucketStart(utc(2023, 10, 5, 12), "1d", { timeZone }),
+    utc(2023, 10, 6, 5),
+  );
+});
@@ -0,0 +1,4 @@
+// src/series/index.ts
+export { OhlcvSeries, OhlcvSeriesBuilder } from "./series.ts";
+
+export type { OhlcvColumns } from "./series.ts";
@@ -0,0 +1,356 @@
+// src/series/series.ts
+import type { Row } from "../core/row.ts";
+import { SeriesError } from "../core/errors.ts";
+
+/**
+ * The six columns of an {@link OhlcvSeries}, one `Float64Array` per `Row`
+ * field, all of the same length.
+ */
+export interface OhlcvColumns {
+  /** Unix timestamps in seconds, ascending */
+  ts: Float64Array;
+  o: Float64Array;
+  h: Float64Array;
+  l: Float64Array;
+  c: Float64Array;
+  v: Float64Array;
+}
+
+/** Fields of a `Row`, in their usual order. */
+const ROW_FIELDS = ["ts", "o", "h", "l", "c", "v"] as const;
+
+/**
+ * A `Row` backed by one index of an {@link OhlcvSeries}.
+ *
+ * Reads and writes go straight to the series' columns; no values are copied.
+ * The fields are own enumerable properties, so spreading a view or passing it
+ * to `JSON.stringify` gives a plain row.
+ */
+class RowView implements Row {
+  declare ts: number;
+  declare o: number;
+  declare h: number;
+  declare l: number;
+  declare c: number;
+  declare v: number;
+  readonly #columns: OhlcvColumns;
+  readonly #index: number;
+
+  static #fields: PropertyDescriptorMap = Object.fromEntries(
+    ROW_FIELDS.map((field) => [field, {
+      enumerable: true,
+      get(this: RowView): number {
+        return this.#columns[field][this.#index];
+      },
+      set(this: RowView, value: number) {
+        this.#columns[field][this.#index] = value;
+      },
+    }]),
+  );
+
+  constructor(columns: OhlcvColumns, index: number) {
+    this.#columns = columns;
+    this.#index = index;
+    Object.defineProperties(this, RowView.#fields);
+  }
+
+  /**
+   * Copies the current values into a plain `Row`.
+   */
+  public toJSON(): Row {
+    const columns = this.#columns;
+    const i = this.#index;
+    return {
+      ts: columns.ts[i],
+      o: columns.o[i],
+      h: columns.h[i],
+      l: columns.l[i],
+      c: columns.c[i],
+      v: columns.v[i],
+    };
+  }
+}
+
+/**
+ * An OHLCV series stored column-wise in `Float64Array`s.
+ *
+ * Uses a fraction of the memory of a `Row[]` for large datasets and lets
+ * numeric code work on whole columns. Rows are kept in ascending timestamp
+ * order so time ranges can be found by binary search.
+ *
+ * Slices share their parent's buffers, so writes through one are visible in
+ * the other. The series is iterable and can be passed anywhere an
+ * `Iterable<Row>` is accepted, such as `resample` or `findGaps`.
+ *
+ * @example
+ * ```typescript
+ * import { OhlcvSeries } from "@mso/ohlcv/series";
+ *
+ * const series = OhlcvSeries.fromRows(rows);
+ * const year2023 = series.sliceByTime(1672531200, 1704067200);
+ *
+ * let maxClose = -Infinity;
+ * for (const close of year2023.c) maxClose = Math.max(maxClose, close);
+ *
+ * for (const row of year2023) console.log(row.ts, row.c);
+ * ```
+ */
+export class OhlcvSeries implements Iterable<Row> {
+  /** Unix timestamps in seconds, ascending */
+  public readonly ts: Float64Array;
+  /** Opening prices */
+  public readonly o: Float64Array;
+  /** Highest prices */
+  public readonly h: Float64Array;
+  /** Lowest prices */
+  public readonly l: Float64Array;
+  /** Closing prices */
+  public readonly c: Float64Array;
+  /** Volumes */
+  public readonly v: Float64Array;
+
+  /**
+   * @param columns - Columns of equal length, with ascending timestamps
+   *
+   * @throws {SeriesError} When the columns differ in length
+   */
+  constructor(columns: OhlcvColumns) {
+    const { ts, o, h, l, c, v } = columns;
+    for (const column of [o, h, l, c, v]) {
+      if (column.length !== ts.length) {
+        throw new SeriesError(
+          `Column lengths differ: ${column.length} values for ${ts.length} timestamps`,
+        );
+      }
+    }
+    this.ts = ts;
+    this.o = o;
+    this.h = h;
+    this.l = l;
+    this.c = c;
+    this.v = v;
+  }
+
+  /**
+   * Copies rows into a new series.
+   *
+   * @param rows - Rows in ascending timestamp order
+   */
+  public static fromRows(rows: Iterable<Row>): OhlcvSeries {
+    const builder = new OhlcvSeriesBuilder(
+      Array.isArray(rows) ? rows.length : undefined,
+    );
+    for (const row of rows) builder.push(row);
+    return builder.build();
+  }
+
+  /** Number of rows */
+  public get length(): number {
+    return this.ts.length;
+  }
+
+  /**
+   * Returns a view of the row at an index.
+   *
+   * @param index - Row index; negative values count back from the end
+   *
+   * @throws {SeriesError} When the index is out of range
+   */
+  public row(index: number): Row {
+    const i = index < 0 ? this.length + index : index;
+    if (!Number.isInteger(i) || i < 0 || i >= this.length) {
+      throw new SeriesError(
+        `Row index ${index} is out of range for ${this.length} rows`,
+      );
+    }
+    return new RowView(this, i);
+  }
+
+  /**
+   * Iterates over views of each row.
+   */
+  public *[Symbol.iterator](): Iterator<Row> {
+    for (let i = 0; i < this.length; i++) yield new RowView(this, i);
+  }
+
+  /**
+   * Copies the series into plain `Row` objects.
+   */
+  public toRows(): Row[] {
+    const rows: Row[] = new Array(this.length);
+    for (let i = 0; i < this.length; i++) {
+      rows[i] = {
+        ts: this.ts[i],
+        o: this.o[i],
+        h: this.h[i],
+        l: this.l[i],
+        c: this.c[i],
+        v: this.v[i],
+      };
+    }
+    return rows;
+  }
+
+  /**
+   * Returns a series of rows `start` to `end` (exclusive) sharing this
+   * series' buffers. Indexes behave like `Array.prototype.slice`.
+   */
+  public slice(start?: number, end?: number): OhlcvSeries {
+    return new OhlcvSeries({
+      ts: this.ts.subarray(start, end),
+      o: this.o.subarray(start, end),
+      h: this.h.subarray(start, end),
+      l: this.l.subarray(start, end),
+      c: this.c.subarray(start, end),
+      v: this.v.subarray(start, end),
+    });
+  }
+
+  /**
+   * Returns the index of the first row at or after a timestamp, or `length`
+   * when every row is earlier.
+   *
+   * @param ts - Unix timestamp in seconds
+   */
+  public indexAtOrAfter(ts: number): number {
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.ts[mid] < ts) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Returns the index of the row with exactly this timestamp, or -1.
+   *
+   * @param ts - Unix timestamp in seconds
+   */
+  public indexOf(ts: number): number {
+    const index = this.indexAtOrAfter(ts);
+    return index < this.length && this.ts[index] === ts ? index : -1;
+  }
+
+  /**
+   * Returns the rows with `from <= ts < to`, sharing this series' buffers.
+   *
+   * @param from - Inclusive start timestamp. Defaults to the first row
+   * @param to - Exclusive end timestamp. Defaults to after the last row
+   */
+  public sliceByTime(
+    from: number = -Infinity,
+    to: number = Infinity,
+  ): OhlcvSeries {
+    const start = this.indexAtOrAfter(from);
+    return this.slice(start, Math.max(start, this.indexAtOrAfter(to)));
+  }
+}
+
+const DEFAULT_CAPACITY = 1024;
+
+/**
+ * Builds an {@link OhlcvSeries} incrementally, growing its columns as
+ * needed.
+ *
+ * @example
+ * ```typescript
+ * const builder = new OhlcvSeriesBuilder();
+ * await parseStreamOptimizedOhlcv(stream, (row) => builder.push(row));
+ * const series = builder.build();
+ * ```
+ */
+export class OhlcvSeriesBuilder {
+  private columns: OhlcvColumns;
+  private size = 0;
+
+  /**
+   * @param initialCapacity - Number of rows to allocate up front
+   */
+  constructor(initialCapacity: number = DEFAULT_CAPACITY) {
+    this.columns = allocateColumns(Math.max(1, initialCapacity));
+  }
+
+  /** Number of rows appended so far */
+  public get length(): number {
+    return this.size;
+  }
+
+  /**
+   * Appends a row's values.
+   */
+  public push(row: Row): void {
+    this.append(row.ts, row.o, row.h, row.l, row.c, row.v);
+  }
+
+  /**
+   * Appends a row given as separate values, without needing a `Row` object.
+   */
+  public append(
+    ts: number,
+    o: number,
+    h: number,
+    l: number,
+    c: number,
+    v: number,
+  ): void {
+    if (this.size === this.columns.ts.length) this.grow();
+    const i = this.size++;
+    const columns = this.columns;
+    columns.ts[i] = ts;
+    columns.o[i] = o;
+    columns.h[i] = h;
+    columns.l[i] = l;
+    columns.c[i] = c;
+    columns.v[i] = v;
+  }
+
+  /**
+   * Returns a series of the rows appended so far, trimmed to size.
+   *
+   * The builder can keep being used; later rows do not affect the result.
+   */
+  public build(): OhlcvSeries {
+    const { ts, o, h, l, c, v } = this.columns;
+    const size = this.size;
+    return new OhlcvSeries({
+      ts: ts.slice(0, size),
+      o: o.slice(0, size),
+      h: h.slice(0, size),
+      l: l.slice(0, size),
+      c: c.slice(0, size),
+      v: v.slice(0, size),
+    });
+  }
+
+  /**
+   * Removes all rows, keeping the allocated capacity.
+   */
+  public clear(): void {
+    this.size = 0;
+  }
+
+  private grow(): void {
+    const grown = allocateColumns(this.columns.ts.length * 2);
+    const columns = this.columns;
+    grown.ts.set(columns.ts);
+    grown.o.set(columns.o);
+    grown.h.set(columns.h);
+    grown.l.set(columns.l);
+    grown.c.set(columns.c);
+    grown.v.set(columns.v);
+    this.columns = grown;
+  }
+}
+
+function allocateColumns(capacity: number): OhlcvColumns {
+  return {
+    ts: new Float64Array(capacity),
+    o: new Float64Array(capacity),
+    h: new Float64Array(capacity),
+    l: new Float64Array(capacity),
+    c: new Float64Array(capacity),
+    v: new Float64Array(capacity),
+  };
+}
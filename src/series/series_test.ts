@@ -0,0 +1,174 @@
+// src/series/series_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { SeriesError } from "../core/errors.ts";
+import {
+  parseStreamOptimizedOhlcv,
+  parseStreamOptimizedOhlcvToSeries,
+} from "../parser/stream_optimized_ohlcv.ts";
+import { resample } from "../resample/resample.ts";
+import { OhlcvSeries, OhlcvSeriesBuilder } from "./series.ts";
+
+const DAY = 86400;
+const START = 1672531200;
+
+const rowAt = (i: number): Row => ({
+  ts: START + i * DAY,
+  o: 100 + i,
+  h: 105 + i,
+  l: 95 + i,
+  c: 101 + i,
+  v: 1000 * (i + 1),
+});
+
+const rows: Row[] = Array.from({ length: 10 }, (_, i) => rowAt(i));
+
+Deno.test("OhlcvSeries round-trips rows through its columns", () => {
+  const series = OhlcvSeries.fromRows(rows);
+  strictEqual(series.length, 10);
+  deepStrictEqual(series.toRows(), rows);
+  deepStrictEqual(Array.from(series.c.subarray(0, 3)), [101, 102, 103]);
+  deepStrictEqual(
+    OhlcvSeries.fromRows(rows.values()).toRows(),
+    rows,
+  );
+  deepStrictEqual(OhlcvSeries.fromRows([]).toRows(), []);
+});
+
+Deno.test("OhlcvSeries rejects columns of different lengths", () => {
+  const columns = OhlcvSeries.fromRows(rows);
+  throws(
+    () => new OhlcvSeries({ ...columns, v: columns.v.subarray(1) }),
+    (e: unknown) =>
+      e instanceof SeriesError &&
+      e.message === "Column lengths differ: 9 values for 10 timestamps",
+  );
+});
+
+Deno.test("row views read and write through to the columns", () => {
+  const series = OhlcvSeries.fromRows(rows);
+  const last = series.row(-1);
+  deepStrictEqual({ ...last }, rows[9]);
+  deepStrictEqual(JSON.parse(JSON.stringify(last)), rows[9]);
+  last.c = 42;
+  strictEqual(series.c[9], 42);
+  series.h[9] = 43;
+  strictEqual(last.h, 43);
+  for (const index of [10, -11, 1.5]) {
+    throws(() => series.row(index), SeriesError, String(index));
+  }
+});
+
+Deno.test("iterating a series yields views of each row", () => {
+  const series = OhlcvSeries.fromRows(rows);
+  deepStrictEqual([...series].map((row) => ({ ...row })), rows);
+  for (const row of series) row.v = 0;
+  deepStrictEqual(Array.from(series.v), new Array(10).fill(0));
+  // A series can stand in for an Iterable<Row>
+  deepStrictEqual(
+    resample(OhlcvSeries.fromRows(rows), { timeframe: "1M" }).map((row) =>
+      row.c
+    ),
+    [110],
+  );
+});
+
+Deno.test("slice shares buffers with its parent", () => {
+  const series = OhlcvSeries.fromRows(rows);
+  const middle = series.slice(2, 5);
+  deepStrictEqual(middle.toRows(), rows.slice(2, 5));
+  deepStrictEqual(series.slice(-2).toRows(), rows.slice(-2));
+  middle.o[0] = -1;
+  strictEqual(series.o[2], -1);
+});
+
+Deno.test("indexAtOrAfter and indexOf search the timestamps", () => {
+  const series = OhlcvSeries.fromRows([...rows.slice(0, 3), rows[3], rows[3]]);
+  strictEqual(series.indexAtOrAfter(START - 1), 0);
+  strictEqual(series.indexAtOrAfter(START), 0);
+  strictEqual(series.indexAtOrAfter(START + 1), 1);
+  strictEqual(series.indexAtOrAfter(START + 3 * DAY), 3);
+  strictEqual(series.indexAtOrAfter(START + 4 * DAY), 5);
+  strictEqual(series.indexOf(START + DAY), 1);
+  strictEqual(series.indexOf(START + DAY + 1), -1);
+  strictEqual(series.indexOf(START + 9 * DAY), -1);
+  strictEqual(OhlcvSeries.fromRows([]).indexAtOrAfter(START), 0);
+});
+
+Deno.test("sliceByTime keeps rows with from <= ts < to", () => {
+  const series = OhlcvSeries.fromRows(rows);
+  deepStrictEqual(
+    series.sliceByTime(START + 2 * DAY, START + 5 * DAY).toRows(),
+    rows.slice(2, 5),
+  );
+  deepStrictEqual(
+    series.sliceByTime(START + 2 * DAY - 1, START + 4 * DAY + 1).toRows(),
+    rows.slice(2, 5),
+  );
+  deepStrictEqual(series.sliceByTime(START + 8 * DAY).toRows(), rows.slice(8));
+  deepStrictEqual(series.sliceByTime(undefined, START + DAY).toRows(), [
+    rows[0],
+  ]);
+  strictEqual(series.sliceByTime().length, 10);
+  strictEqual(series.sliceByTime(START + 5 * DAY, START).length, 0);
+  strictEqual(series.sliceByTime(START + 20 * DAY).length, 0);
+});
+
+Deno.test("OhlcvSeriesBuilder grows past its initial capacity", () => {
+  const builder = new OhlcvSeriesBuilder(1);
+  for (const row of rows) builder.push(row);
+  strictEqual(builder.length, 10);
+  const first = builder.build();
+  deepStrictEqual(first.toRows(), rows);
+  strictEqual(first.ts.buffer.byteLength, 10 * 8);
+
+  // Later rows do not change a built series
+  builder.append(START + 10 * DAY, 1, 2, 0.5, 1.5, 10);
+  strictEqual(first.length, 10);
+  deepStrictEqual({ ...builder.build().row(-1) }, {
+    ts: START + 10 * DAY,
+    o: 1,
+    h: 2,
+    l: 0.5,
+    c: 1.5,
+    v: 10,
+  });
+
+  builder.clear();
+  strictEqual(builder.length, 0);
+  deepStrictEqual(builder.build().toRows(), []);
+  strictEqual(new OhlcvSeriesBuilder(0).build().length, 0);
+});
+
+const csv = "Date,Open,High,Low,Close,Volume\n" +
+  "2023-01-01,100,105,95,101,1000\n" +
+  "not,a,row\n" +
+  "2023-01-02,101,106,96,102,2000\n" +
+  "2023-01-02,101,106,96,102,2000\n";
+
+const bytesOf = (text: string) =>
+  ReadableStream.from([new TextEncoder().encode(text)]);
+
+Deno.test("parseStreamOptimizedOhlcvToSeries matches parseStreamOptimizedOhlcv", async () => {
+  const parsed: Row[] = [];
+  const skipped: [string, number][] = [];
+  await parseStreamOptimizedOhlcv(bytesOf(csv), (row) => parsed.push(row));
+  const series = await parseStreamOptimizedOhlcvToSeries(
+    bytesOf(csv),
+    true,
+    (error, lineNumber) => skipped.push([error.constructor.name, lineNumber]),
+  );
+  deepStrictEqual(series.toRows(), parsed);
+  strictEqual(series.length, 3);
+  deepStrictEqual(skipped, [["HeaderSkipError", 1], ["InvalidFormatError", 3]]);
+});
+
+Deno.test("parseStreamOptimizedOhlcvToSeries applies validation", async () => {
+  const series = await parseStreamOptimizedOhlcvToSeries(
+    bytesOf(csv),
+    true,
+    undefined,
+    { validation: { mode: "repair" } },
+  );
+  deepStrictEqual(Array.from(series.ts), [START, START + DAY]);
+});
@@ -3,18 +3,38 @@ import {
   DateBeforeEpochError,
   InvalidDateFormatError,
 } from "../core/errors.ts";
+import {
+  assertValidTimeZone,
+  utcMillisToZonedParts,
+  zonedTimeToUtcMillis,
+} from "./timezone.ts";
+
+/**
+ * Options shared by the date parsing functions.
+ */
+export interface DateParseOptions {
+  /**
+   * Throw `DateBeforeEpochError` for dates before 1970-01-01 instead of
+   * returning a negative timestamp. Defaults to false.
+   */
+  rejectBeforeEpoch?: boolean;
+}
 
 /**
  * Parses a date string in `YYYY-MM-DD` format (UTC) to seconds since Unix epoch.
  *
  * Converts a date string in ISO date format to a Unix timestamp (seconds since
  * January 1, 1970, 00:00:00 UTC). The input date is treated as UTC midnight.
+ * Dates before 1970 produce negative timestamps unless
+ * `options.rejectBeforeEpoch` is set.
  *
  * @param dateStr - Date string in YYYY-MM-DD format (e.g., "2023-01-01")
+ * @param options - Optional strictness options
  * @returns Unix timestamp in seconds (not milliseconds)
  *
  * @throws {InvalidDateFormatError} When the date string format is invalid
- * @throws {DateBeforeEpochError} When the date is before 1970-01-01
+ * @throws {DateBeforeEpochError} When the date is before 1970-01-01 and
+ * `options.rejectBeforeEpoch` is set
  *
  * @example
  * ```typescript
@@ -25,9 +45,14 @@ import {
  *
  * const date = new Date(timestamp * 1000);
  * console.log(date.toISOString()); // "2023-01-01T00:00:00.000Z"
+ *
+ * yyyymmddToUnix("1950-01-03"); // -630979200
  * ```
  */
-export function yyyymmddToUnix(dateStr: string): number {
+export function yyyymmddToUnix(
+  dateStr: string,
+  options?: DateParseOptions,
+): number {
   if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
     throw new InvalidDateFormatError(
       `Invalid date format: "${dateStr}". Expected YYYY-MM-DD.`,
@@ -45,7 +70,7 @@ export function yyyymmddToUnix(dateStr: string): number {
     );
   }
 
-  if (year < 1970) {
+  if (options?.rejectBeforeEpoch && year < 1970) {
     throw new DateBeforeEpochError(
       `Date ${dateStr} is before Unix epoch (1970-01-01).`,
     );
@@ -56,7 +81,9 @@ export function yyyymmddToUnix(dateStr: string): number {
     );
   }
 
-  const date = new Date(Date.UTC(year, month - 1, day));
+  // setUTCFullYear, unlike Date.UTC, does not map years 0-99 to 1900-1999.
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
 
   if (
     date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 ||
@@ -69,3 +96,563 @@ export function yyyymmddToUnix(dateStr: string): number {
 
   return Math.floor(date.getTime() / 1000);
 }
+
+/**
+ * Timestamp formats understood by {@link createTimestampParser}.
+ *
+ * - `date`: `YYYY-MM-DD` (midnight, or `sessionTime`)
+ * - `datetime`: `YYYY-MM-DD HH:MM[:SS[.fff]]`
+ * - `iso8601`: `YYYY-MM-DDTHH:MM[:SS[.fff]]` with optional `Z` or `±HH:MM` offset
+ * - `unix-seconds`: seconds since the Unix epoch
+ * - `unix-millis`: milliseconds since the Unix epoch
+ */
+export type TimestampFormat =
+  | "date"
+  | "datetime"
+  | "iso8601"
+  | "unix-seconds"
+  | "unix-millis";
+
+/**
+ * Options controlling how timestamp fields are parsed.
+ *
+ * @example
+ * ```typescript
+ * const options: TimestampOptions = { pattern: "DD/MM/YYYY HH:mm" };
+ *
+ * // NYSE daily bars stamped at the session close
+ * const sessionClose: TimestampOptions = {
+ *   timeZone: "America/New_York",
+ *   sessionTime: "16:00",
+ * };
+ * ```
+ */
+export interface TimestampOptions extends DateParseOptions {
+  /**
+   * Format of the timestamp field. `"auto"` detects the format from the
+   * first value parsed. Defaults to `"auto"`.
+   */
+  format?: "auto" | TimestampFormat;
+  /**
+   * Custom format pattern, overriding `format`. Supported tokens are `YYYY`,
+   * `MM`, `DD`, `HH`, `mm`, `ss` and `SSS`; any other character must match
+   * literally.
+   */
+  pattern?: string;
+  /**
+   * Keep fractional seconds in the result instead of flooring to whole
+   * seconds. Defaults to false.
+   */
+  subSecond?: boolean;
+  /**
+   * IANA time zone (e.g. `"America/New_York"`) that values without an
+   * explicit UTC offset are expressed in. Defaults to UTC.
+   */
+  timeZone?: string;
+  /**
+   * Wall-clock time `HH:MM[:SS]` assigned to values that only carry a date,
+   * e.g. `"09:30"` for a session open or `"16:00"` for a session close.
+   * Defaults to midnight.
+   */
+  sessionTime?: string;
+}
+
+/**
+ * Parses a timestamp string into seconds since the Unix epoch.
+ */
+export type TimestampParser = (value: string) => number;
+
+interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Offset from UTC in minutes, when the value carries one */
+  offsetMinutes?: number;
+}
+
+const DATETIME_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?$/;
+const ISO8601_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const NUMERIC_REGEX = /^[+-]?\d+(?:\.\d+)?$/;
+
+/** Numeric timestamps at or above this magnitude are taken as milliseconds. */
+const UNIX_MILLIS_THRESHOLD = 1e11;
+
+function fractionToMillis(fraction: string | undefined): number {
+  return fraction ? +(fraction + "00").slice(0, 3) : 0;
+}
+
+function parseOffsetMinutes(offset: string | undefined): number | undefined {
+  if (offset === undefined) return undefined;
+  if (offset === "Z" || offset === "z") return 0;
+  const sign = offset[0] === "-" ? -1 : 1;
+  const digits = offset.slice(1).replace(":", "");
+  const hours = +digits.slice(0, 2);
+  const minutes = +digits.slice(2, 4);
+  if (hours > 23 || minutes > 59) {
+    throw new InvalidDateFormatError(`Invalid UTC offset: "${offset}".`);
+  }
+  return sign * (hours * 60 + minutes);
+}
+
+function matchToParts(
+  match: RegExpMatchArray,
+  offset?: string,
+): DateTimeParts {
+  return {
+    year: +match[1],
+    month: +match[2],
+    day: +match[3],
+    hour: +match[4],
+    minute: +match[5],
+    second: match[6] ? +match[6] : 0,
+    millisecond: fractionToMillis(match[7]),
+    offsetMinutes: parseOffsetMinutes(offset),
+  };
+}
+
+interface TimestampContext {
+  subSecond: boolean;
+  rejectBeforeEpoch: boolean;
+  timeZone?: string;
+  sessionHour: number;
+  sessionMinute: number;
+  sessionSecond: number;
+}
+
+function createContext(options: TimestampOptions): TimestampContext {
+  const timeZone = options.timeZone;
+  if (timeZone !== undefined) assertValidTimeZone(timeZone);
+
+  let sessionHour = 0, sessionMinute = 0, sessionSecond = 0;
+  if (options.sessionTime !== undefined) {
+    const match = options.sessionTime.match(/^(\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match || +match[1] > 23 || +match[2] > 59 || +(match[3] ?? 0) > 59) {
+      throw new InvalidDateFormatError(
+        `Invalid session time: "${options.sessionTime}". Expected HH:MM[:SS].`,
+      );
+    }
+    sessionHour = +match[1];
+    sessionMinute = +match[2];
+    sessionSecond = match[3] ? +match[3] : 0;
+  }
+
+  return {
+    subSecond: options.subSecond ?? false,
+    rejectBeforeEpoch: options.rejectBeforeEpoch ?? false,
+    timeZone,
+    sessionHour,
+    sessionMinute,
+    sessionSecond,
+  };
+}
+
+function partsToUnixMillis(
+  parts: DateTimeParts,
+  source: string,
+  context: TimestampContext,
+): number {
+  const { timeZone } = context;
+  const { year, month, day, hour, minute, second, millisecond } = parts;
+  if (
+    month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 ||
+    minute > 59 || second > 59
+  ) {
+    throw new InvalidDateFormatError(
+      `Invalid date components in "${source}".`,
+    );
+  }
+
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, millisecond);
+
+  if (
+    date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new InvalidDateFormatError(
+      `Invalid date: "${source}" (e.g., February 30th).`,
+    );
+  }
+
+  const millis = parts.offsetMinutes !== undefined
+    ? date.getTime() - parts.offsetMinutes * 60_000
+    : timeZone !== undefined
+    ? zonedTimeToUtcMillis(parts, timeZone)
+    : date.getTime();
+  if (context.rejectBeforeEpoch && millis < 0) {
+    throw new DateBeforeEpochError(
+      `Date ${source} is before Unix epoch (1970-01-01).`,
+    );
+  }
+  return millis;
+}
+
+function compilePattern(
+  pattern: string,
+  context: TimestampContext,
+): (value: string) => DateTimeParts {
+  const tokens: Record<string, keyof DateTimeParts> = {
+    YYYY: "year",
+    MM: "month",
+    DD: "day",
+    HH: "hour",
+    mm: "minute",
+    ss: "second",
+    SSS: "millisecond",
+  };
+  const order: (keyof DateTimeParts)[] = [];
+  let source = "";
+  for (let i = 0; i < pattern.length;) {
+    const token = ["YYYY", "SSS", "MM", "DD", "HH", "mm", "ss"].find((t) =>
+      pattern.startsWith(t, i)
+    );
+    if (token) {
+      order.push(tokens[token]);
+      source += `(\\d{${token.length}})`;
+      i += token.length;
+    } else {
+      source += pattern[i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+  if (!order.includes("year") || !order.includes("month")) {
+    throw new InvalidDateFormatError(
+      `Timestamp pattern "${pattern}" must contain YYYY and MM.`,
+    );
+  }
+  const regex = new RegExp(`^${source}$`);
+
+  return (value: string) => {
+    const match = value.match(regex);
+    if (!match) {
+      throw new InvalidDateFormatError(
+        `Invalid date format: "${value}". Expected ${pattern}.`,
+      );
+    }
+    const hasTime = order.includes("hour");
+    const parts: DateTimeParts = {
+      year: 0,
+      month: 1,
+      day: 1,
+      hour: hasTime ? 0 : context.sessionHour,
+      minute: hasTime ? 0 : context.sessionMinute,
+      second: hasTime ? 0 : context.sessionSecond,
+      millisecond: 0,
+    };
+    order.forEach((key, index) => {
+      parts[key] = +match[index + 1];
+    });
+    return parts;
+  };
+}
+
+function toSeconds(millis: number, subSecond: boolean): number {
+  return subSecond ? millis / 1000 : Math.floor(millis / 1000);
+}
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function createFormatParser(
+  format: TimestampFormat,
+  context: TimestampContext,
+): TimestampParser {
+  const { subSecond, timeZone } = context;
+  switch (format) {
+    case "date":
+      if (
+        timeZone === undefined && context.sessionHour === 0 &&
+        context.sessionMinute === 0 && context.sessionSecond === 0
+      ) {
+        return context.rejectBeforeEpoch
+          ? (value) => yyyymmddToUnix(value, context)
+          : yyyymmddToUnix;
+      }
+      return (value) => {
+        const match = value.match(DATE_REGEX);
+        if (!match) {
+          throw new InvalidDateFormatError(
+            `Invalid date format: "${value}". Expected YYYY-MM-DD.`,
+          );
+        }
+        const parts: DateTimeParts = {
+          year: +match[1],
+          month: +match[2],
+          day: +match[3],
+          hour: context.sessionHour,
+          minute: context.sessionMinute,
+          second: context.sessionSecond,
+          millisecond: 0,
+        };
+        return toSeconds(partsToUnixMillis(parts, value, context), subSecond);
+      };
+    case "datetime":
+      return (value) => {
+        const match = value.match(DATETIME_REGEX);
+        if (!match) {
+          throw new InvalidDateFormatError(
+            `Invalid datetime format: "${value}". Expected YYYY-MM-DD HH:MM[:SS].`,
+          );
+        }
+        return toSeconds(
+          partsToUnixMillis(matchToParts(match), value, context),
+          subSecond,
+        );
+      };
+    case "iso8601":
+      return (value) => {
+        const match = value.match(ISO8601_REGEX);
+        if (!match) {
+          throw new InvalidDateFormatError(
+            `Invalid ISO-8601 format: "${value}".`,
+          );
+        }
+        return toSeconds(
+          partsToUnixMillis(matchToParts(match, match[8]), value, context),
+          subSecond,
+        );
+      };
+    case "unix-seconds":
+    case "unix-millis":
+      return (value) => {
+        if (!NUMERIC_REGEX.test(value)) {
+          throw new InvalidDateFormatError(
+            `Invalid Unix timestamp: "${value}".`,
+          );
+        }
+        const millis = format === "unix-seconds" ? +value * 1000 : +value;
+        if (context.rejectBeforeEpoch && millis < 0) {
+          throw new DateBeforeEpochError(
+            `Timestamp ${value} is before Unix epoch (1970-01-01).`,
+          );
+        }
+        return toSeconds(millis, subSecond);
+      };
+    default:
+      throw new InvalidDateFormatError(
+        `Unknown timestamp format: "${
+          String(format)
+        }". Expected "auto", "date", "datetime", "iso8601", "unix-seconds" or "unix-millis".`,
+      );
+  }
+}
+
+/**
+ * Detects the timestamp format of a single value.
+ *
+ * Numeric values with a magnitude of at least 1e11 are taken as milliseconds,
+ * smaller ones as seconds.
+ *
+ * @param value - A timestamp string, typically from the first data row
+ * @returns The detected format, or `undefined` when none matches
+ *
+ * @example
+ * ```typescript
+ * detectTimestampFormat("2023-01-01");           // "date"
+ * detectTimestampFormat("2023-01-01 09:30");     // "datetime"
+ * detectTimestampFormat("2023-01-01T09:30:00Z"); // "iso8601"
+ * detectTimestampFormat("1672531200");           // "unix-seconds"
+ * detectTimestampFormat("1672531200000");        // "unix-millis"
+ * ```
+ */
+export function detectTimestampFormat(
+  value: string,
+): TimestampFormat | undefined {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return "date";
+  if (/^\d{4}-\d{2}-\d{2} /.test(trimmed) && DATETIME_REGEX.test(trimmed)) {
+    return "datetime";
+  }
+  if (ISO8601_REGEX.test(trimmed)) return "iso8601";
+  if (NUMERIC_REGEX.test(trimmed)) {
+    return Math.abs(+trimmed) >= UNIX_MILLIS_THRESHOLD
+      ? "unix-millis"
+      : "unix-seconds";
+  }
+  return undefined;
+}
+
+/**
+ * Creates a function that parses timestamp strings into seconds since the
+ * Unix epoch.
+ *
+ * With the default `"auto"` format, the format is detected from the first
+ * value that matches a known format and then used for all later values, so
+ * one parser should be created per file.
+ *
+ * @param options - Timestamp format options
+ * @returns A timestamp parser
+ *
+ * @throws {InvalidDateFormatError} When `options.format`,
+ * `options.pattern` or `options.sessionTime` is invalid, or (from the
+ * returned parser) when a value does not match the format
+ * @throws {InvalidTimeZoneError} When `options.timeZone` is unknown
+ * @throws {DateBeforeEpochError} From the returned parser, when a value is
+ * before 1970-01-01 and `options.rejectBeforeEpoch` is set
+ *
+ * @example
+ * ```typescript
+ * import { createTimestampParser } from "@mso/ohlcv/utils";
+ *
+ * const parseTs = createTimestampParser();
+ * parseTs("2023-01-01 09:30"); // 1672565400
+ *
+ * const parseEu = createTimestampParser({ pattern: "DD.MM.YYYY HH:mm" });
+ * parseEu("01.01.2023 09:30"); // 1672565400
+ *
+ * const parseMs = createTimestampParser({ format: "unix-millis", subSecond: true });
+ * parseMs("1672565400250"); // 1672565400.25
+ *
+ * const parseNy = createTimestampParser({ timeZone: "America/New_York" });
+ * parseNy("2023-07-03 09:30"); // 1688391000 (13:30 UTC)
+ * ```
+ */
+export function createTimestampParser(
+  options: TimestampOptions = {},
+): TimestampParser {
+  const context = createContext(options);
+
+  if (options.pattern !== undefined) {
+    const parseParts = compilePattern(options.pattern, context);
+    return (value) =>
+      toSeconds(
+        partsToUnixMillis(parseParts(value.trim()), value, context),
+        context.subSecond,
+      );
+  }
+
+  const format = options.format ?? "auto";
+  if (format !== "auto") return createFormatParser(format, context);
+
+  let detected: TimestampParser | undefined;
+  return (value) => {
+    if (!detected) {
+      const detectedFormat = detectTimestampFormat(value);
+      if (!detectedFormat) {
+        throw new InvalidDateFormatError(
+          `Unrecognised timestamp format: "${value}".`,
+        );
+      }
+      detected = createFormatParser(detectedFormat, context);
+    }
+    return detected(value);
+  };
+}
+
+/**
+ * Parses a single timestamp string into seconds since the Unix epoch.
+ *
+ * Convenience wrapper around {@link createTimestampParser}; with the `"auto"`
+ * format the format is detected for this value alone.
+ *
+ * @param value - Timestamp string
+ * @param options - Timestamp format options
+ * @returns Unix timestamp in seconds
+ *
+ * @throws {InvalidDateFormatError} When the value does not match the format
+ * @throws {DateBeforeEpochError} When the value is before 1970-01-01 and
+ * `options.rejectBeforeEpoch` is set
+ *
+ * @example
+ * ```typescript
+ * import { parseTimestamp } from "@mso/ohlcv/utils";
+ *
+ * parseTimestamp("2023-01-01T09:30:00+01:00"); // 1672561800
+ * ```
+ */
+export function parseTimestamp(
+  value: string,
+  options?: TimestampOptions,
+): number {
+  return createTimestampParser(options)(value);
+}
+
+/**
+ * Options for {@link formatTimestamp}.
+ */
+export interface FormatTimestampOptions {
+  /**
+   * Output pattern using the tokens `YYYY`, `MM`, `DD`, `HH`, `mm`, `ss` and
+   * `SSS`. Defaults to `"YYYY-MM-DD"`.
+   */
+  pattern?: string;
+  /** IANA time zone to express the timestamp in. Defaults to UTC. */
+  timeZone?: string;
+}
+
+/**
+ * Formats a Unix timestamp in seconds as a date/time string.
+ *
+ * The inverse of {@link createTimestampParser} for the same pattern and
+ * time zone.
+ *
+ * @param ts - Unix timestamp in seconds, possibly fractional
+ * @param options - Output pattern and time zone
+ * @returns The formatted timestamp
+ *
+ * @throws {InvalidTimeZoneError} When `options.timeZone` is unknown
+ *
+ * @example
+ * ```typescript
+ * import { formatTimestamp } from "@mso/ohlcv/utils";
+ *
+ * formatTimestamp(1672531200); // "2023-01-01"
+ * formatTimestamp(1688391000, {
+ *   pattern: "YYYY-MM-DD HH:mm",
+ *   timeZone: "America/New_York",
+ * }); // "2023-07-03 09:30"
+ * ```
+ */
+export function formatTimestamp(
+  ts: number,
+  options: FormatTimestampOptions = {},
+): string {
+  const parts = utcMillisToZonedParts(
+    Math.round(ts * 1000),
+    options.timeZone ?? "UTC",
+  );
+  const pad = (value: number, width: number) =>
+    String(value).padStart(width, "0");
+  const values: Record<string, string> = {
+    YYYY: pad(parts.year, 4),
+    MM: pad(parts.month, 2),
+    DD: pad(parts.day, 2),
+    HH: pad(parts.hour, 2),
+    mm: pad(parts.minute, 2),
+    ss: pad(parts.second, 2),
+    SSS: pad(parts.millisecond, 3),
+  };
+  return (options.pattern ?? "YYYY-MM-DD").replace(
+    /YYYY|SSS|MM|DD|HH|mm|ss/g,
+    (token) => values[token],
+  );
+}
+
+/**
+ * Formats a Unix timestamp in seconds as a `YYYY-MM-DD` date string.
+ *
+ * The inverse of {@link yyyymmddToUnix}.
+ *
+ * @param ts - Unix timestamp in seconds
+ * @param timeZone - IANA time zone whose calendar date is returned. Defaults to UTC
+ * @returns Date string in YYYY-MM-DD format
+ *
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { unixToYyyymmdd } from "@mso/ohlcv/utils";
+ *
+ * unixToYyyymmdd(1672531200); // "2023-01-01"
+ * unixToYyyymmdd(1672531200, "America/New_York"); // "2022-12-31"
+ * ```
+ */
+export function unixToYyyymmdd(ts: number, timeZone?: string): string {
+  return formatTimestamp(ts, { timeZone });
+}
@@ -0,0 +1,323 @@
+// src/utils/date_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import {
+  DateBeforeEpochError,
+  InvalidDateFormatError,
+  InvalidTimeZoneError,
+} from "../core/errors.ts";
+import type { ParseReport } from "../parser/common.ts";
+import { assertEveryParser, parseWithEvery } from "../parser/_test_utils.ts";
+import {
+  createTimestampParser,
+  detectTimestampFormat,
+  formatTimestamp,
+  type TimestampFormat,
+  unixToYyyymmdd,
+  yyyymmddToUnix,
+} from "./date.ts";
+
+/** 2023-01-01 09:30:15 UTC */
+const TS = 1672565415;
+
+Deno.test("createTimestampParser reads every format", () => {
+  const cases: [string, number][] = [
+    ["2023-01-01", 1672531200],
+    ["2023-01-01 09:30", TS - 15],
+    ["2023-01-01 09:30:15", TS],
+    ["2023-01-01T09:30:15Z", TS],
+    ["2023-01-01T10:30:15+01:00", TS],
+    ["2023-01-01T04:30:15-05:00", TS],
+    ["1672565415", TS],
+    ["1672565415000", TS],
+  ];
+  for (const [value, expected] of cases) {
+    strictEqual(createTimestampParser()(value), expected, value);
+  }
+  strictEqual(
+    createTimestampParser({ pattern: "DD/MM/YYYY HH:mm:ss" })(
+      "01/01/2023 09:30:15",
+    ),
+    TS,
+  );
+});
+
+Deno.test("createTimestampParser keeps fractional seconds only when asked", () => {
+  strictEqual(createTimestampParser()("2023-01-01 09:30:15.250"), TS);
+  strictEqual(
+    createTimestampParser({ subSecond: true })("2023-01-01 09:30:15.250"),
+    TS + 0.25,
+  );
+  strictEqual(
+    createTimestampParser({ format: "unix-millis", subSecond: true })(
+      "1672565415250",
+    ),
+    TS + 0.25,
+  );
+});
+
+Deno.test("createTimestampParser applies time zones and session times", () => {
+  strictEqual(
+    createTimestampParser({ timeZone: "America/New_York" })(
+      "2023-07-03 09:30",
+    ),
+    1688391000,
+  );
+  strictEqual(
+    createTimestampParser({
+      timeZone: "America/New_York",
+      sessionTime: "16:00",
+    })("2023-01-03"),
+    1672779600,
+  );
+  throws(
+    () => createTimestampParser({ timeZone: "Mars/Base" }),
+    InvalidTimeZoneError,
+  );
+});
+
+Deno.test("session times follow daylight saving time in the time zone", () => {
+  const parseOpen = createTimestampParser({
+    timeZone: "America/New_York",
+    sessionTime: "09:30",
+  });
+  // The Friday before and the Monday after clocks go forward
+  strictEqual(parseOpen("2023-03-10"), Date.UTC(2023, 2, 10, 14, 30) / 1000);
+  strictEqual(parseOpen("2023-03-13"), Date.UTC(2023, 2, 13, 13, 30) / 1000);
+  strictEqual(
+    createTimestampParser({ sessionTime: "16:00:30" })("2023-01-03"),
+    Date.UTC(2023, 0, 3, 16, 0, 30) / 1000,
+  );
+  // Values with a time of their own ignore the session time
+  strictEqual(
+    createTimestampParser({ sessionTime: "16:00" })("2023-01-01 09:30:15"),
+    TS,
+  );
+  throws(
+    () => createTimestampParser({ sessionTime: "9:30" }),
+    InvalidDateFormatError,
+  );
+});
+
+Deno.test("ISO-8601 values use the time zone only without an offset", () => {
+  const parseTs = createTimestampParser({ timeZone: "Asia/Tokyo" });
+  strictEqual(parseTs("2023-01-01T09:30:15Z"), TS);
+  strictEqual(parseTs("2023-01-01T10:30:15+01:00"), TS);
+  strictEqual(parseTs("2023-01-01T18:30:15"), TS);
+});
+
+Deno.test("formatTimestamp and unixToYyyymmdd express instants in a time zone", () => {
+  strictEqual(formatTimestamp(1672531200), "2023-01-01");
+  strictEqual(unixToYyyymmdd(1672531200, "America/New_York"), "2022-12-31");
+  strictEqual(
+    formatTimestamp(1688391000, {
+      pattern: "YYYY-MM-DD HH:mm",
+      timeZone: "America/New_York",
+    }),
+    "2023-07-03 09:30",
+  );
+  strictEqual(
+    formatTimestamp(TS + 0.25, {
+      pattern: "DD.MM.YYYY HH:mm:ss.SSS",
+      timeZone: "Asia/Kolkata",
+    }),
+    "01.01.2023 15:00:15.250",
+  );
+  throws(
+    () => formatTimestamp(TS, { timeZone: "Mars/Base" }),
+    InvalidTimeZoneError,
+  );
+});
+
+Deno.test("formatTimestamp inverts createTimestampParser for the same zone", () => {
+  const pattern = "YYYY-MM-DD HH:mm:ss";
+  for (const timeZone of ["America/New_York", "Asia/Kolkata", "UTC"]) {
+    const parseTs = createTimestampParser({ pattern, timeZone });
+    // Hourly across the start of daylight saving time in New York
+    for (let ts = 1678586400; ts < 1678615200; ts += 3600) {
+      strictEqual(
+        parseTs(formatTimestamp(ts, { pattern, timeZone })),
+        ts,
+        `${timeZone} ${ts}`,
+      );
+    }
+  }
+});
+
+Deno.test("createTimestampParser keeps the detected format for later values", () => {
+  const parseTs = createTimestampParser();
+  strictEqual(parseTs("2023-01-01"), 1672531200);
+  throws(() => parseTs("2023-01-01 09:30"), InvalidDateFormatError);
+  throws(() => createTimestampParser()("01/01/2023"), InvalidDateFormatError);
+});
+
+Deno.test("createTimestampParser rejects dates before 1970 only when asked", () => {
+  strictEqual(createTimestampParser()("1969-12-31"), -86400);
+  throws(
+    () => createTimestampParser({ rejectBeforeEpoch: true })("1969-12-31"),
+    DateBeforeEpochError,
+  );
+  throws(
+    () =>
+      createTimestampParser({
+        format: "unix-seconds",
+        rejectBeforeEpoch: true,
+      })(
+        "-1",
+      ),
+    DateBeforeEpochError,
+  );
+});
+
+Deno.test("createTimestampParser rejects unknown formats and bad patterns", () => {
+  throws(
+    () =>
+      createTimestampParser({ format: "weekly" as unknown as TimestampFormat }),
+    (error: Error) =>
+      error instanceof InvalidDateFormatError &&
+      error.message.includes("weekly"),
+  );
+  throws(
+    () => createTimestampParser({ pattern: "DD HH:mm" }),
+    InvalidDateFormatError,
+  );
+});
+
+Deno.test("detectTimestampFormat tells seconds from milliseconds", () => {
+  strictEqual(detectTimestampFormat("99999999999"), "unix-seconds");
+  strictEqual(detectTimestampFormat("100000000000"), "unix-millis");
+  strictEqual(detectTimestampFormat("2023-01-01T09:30"), "iso8601");
+  strictEqual(detectTimestampFormat("Jan 1 2023"), undefined);
+});
+
+Deno.test("every parser reads intraday timestamps in every format", async () => {
+  const rows: Row[] = [
+    { ts: TS, o: 1, h: 2, l: 0.5, c: 1.5, v: 100 },
+    { ts: TS + 60, o: 1.5, h: 3, l: 1.25, c: 2.75, v: 250 },
+  ];
+  const values: [string, string][] = [
+    ["2023-01-01 09:30:15", "2023-01-01 09:31:15"],
+    ["2023-01-01T09:30:15Z", "2023-01-01T10:31:15+01:00"],
+    [String(TS), String(TS + 60)],
+    [String(TS * 1000), String((TS + 60) * 1000)],
+  ];
+  for (const [first, second] of values) {
+    await assertEveryParser(
+      "Date,Open,High,Low,Close,Volume\n" +
+        `${first},1,2,0.5,1.5,100\n${second},1.5,3,1.25,2.75,250\n`,
+      rows,
+    );
+  }
+  await assertEveryParser(
+    "Date,Open,High,Low,Close,Volume\n" +
+      "01.01.2023 09:30:15,1,2,0.5,1.5,100\n" +
+      "01.01.2023 09:31:15,1.5,3,1.25,2.75,250\n",
+    rows,
+    { timestamp: { pattern: "DD.MM.YYYY HH:mm:ss" } },
+  );
+});
+
+Deno.test("every parser dates daily rows at the session close in a time zone", async () => {
+  const rows: Row[] = [
+    {
+      ts: Date.UTC(2023, 2, 10, 21) / 1000,
+      o: 1,
+      h: 2,
+      l: 0.5,
+      c: 1.5,
+      v: 100,
+    },
+    {
+      ts: Date.UTC(2023, 2, 13, 20) / 1000,
+      o: 1.5,
+      h: 3,
+      l: 1.25,
+      c: 2.75,
+      v: 250,
+    },
+  ];
+  await assertEveryParser(
+    "Date,Open,High,Low,Close,Volume\n" +
+      "2023-03-10,1,2,0.5,1.5,100\n2023-03-13,1.5,3,1.25,2.75,250\n",
+    rows,
+    { timestamp: { timeZone: "America/New_York", sessionTime: "16:00" } },
+  );
+});
+
+Deno.test("yyyymmddToUnix returns negative timestamps before 1970", () => {
+  strictEqual(yyyymmddToUnix("1970-01-01"), 0);
+  strictEqual(yyyymmddToUnix("1969-12-31"), -86400);
+  strictEqual(yyyymmddToUnix("1950-01-03"), -630979200);
+  strictEqual(yyyymmddToUnix("1900-03-01"), Date.UTC(1900, 2, 1) / 1000);
+  strictEqual(yyyymmddToUnix("0001-01-01"), -62135596800);
+  // Two-digit years are not taken as 1900-1999
+  strictEqual(yyyymmddToUnix("0099-12-31"), -59011545600);
+  strictEqual(yyyymmddToUnix("1600-02-29"), Date.UTC(1600, 1, 29) / 1000);
+  throws(() => yyyymmddToUnix("1900-02-29"), InvalidDateFormatError);
+});
+
+Deno.test("yyyymmddToUnix rejects dates before 1970 only when asked", () => {
+  strictEqual(yyyymmddToUnix("1970-01-01", { rejectBeforeEpoch: true }), 0);
+  throws(
+    () => yyyymmddToUnix("1969-12-31", { rejectBeforeEpoch: true }),
+    (e: unknown) =>
+      e instanceof DateBeforeEpochError && e.message.includes("1969-12-31"),
+  );
+});
+
+Deno.test("unixToYyyymmdd and formatTimestamp invert pre-1970 timestamps", () => {
+  for (const date of ["1969-12-31", "1950-01-03", "1600-02-29", "0001-01-01"]) {
+    strictEqual(unixToYyyymmdd(yyyymmddToUnix(date)), date);
+  }
+  strictEqual(
+    formatTimestamp(-0.5, { pattern: "YYYY-MM-DD HH:mm:ss.SSS" }),
+    "1969-12-31 23:59:59.500",
+  );
+});
+
+Deno.test("every timestamp format reads instants before 1970", () => {
+  const crash = Date.UTC(1929, 9, 29, 9, 30) / 1000;
+  strictEqual(createTimestampParser()("1929-10-29 09:30"), crash);
+  strictEqual(createTimestampParser()("1929-10-29T14:30:00+05:00"), crash);
+  strictEqual(createTimestampParser()(String(crash)), crash);
+  strictEqual(createTimestampParser()(String(crash * 1000)), crash);
+  strictEqual(detectTimestampFormat("-86400"), "unix-seconds");
+  strictEqual(detectTimestampFormat("-1262304000000"), "unix-millis");
+  strictEqual(
+    createTimestampParser({ subSecond: true, format: "unix-millis" })("-500"),
+    -0.5,
+  );
+});
+
+const preEpochCsv = "Date,Open,High,Low,Close,Volume\n" +
+  "1929-10-28,1,2,0.5,1.5,100\n" +
+  "1969-12-31,1.5,3,1.25,2.75,250\n" +
+  "1970-01-01,2.75,3,2.5,2.5,50\n";
+
+Deno.test("every parser reads rows dated before 1970", async () => {
+  const rows: Row[] = [
+    { ts: Date.UTC(1929, 9, 28) / 1000, o: 1, h: 2, l: 0.5, c: 1.5, v: 100 },
+    { ts: -86400, o: 1.5, h: 3, l: 1.25, c: 2.75, v: 250 },
+    { ts: 0, o: 2.75, h: 3, l: 2.5, c: 2.5, v: 50 },
+  ];
+  await assertEveryParser(preEpochCsv, rows);
+  // Negative timestamps pass the default validation rules
+  await assertEveryParser(preEpochCsv, rows, {
+    validation: { mode: "strict" },
+  });
+});
+
+Deno.test("every parser skips rows before 1970 with rejectBeforeEpoch", async () => {
+  const reports: ParseReport[] = [];
+  const parsed = await parseWithEvery(preEpochCsv, {
+    timestamp: { rejectBeforeEpoch: true },
+    onReport: (report) => reports.push(report),
+  });
+  for (const [parser, rows] of Object.entries(parsed)) {
+    deepStrictEqual(rows.map((row) => row.ts), [0], parser);
+  }
+  strictEqual(reports.length, Object.keys(parsed).length);
+  for (const report of reports) {
+    deepStrictEqual(report.skippedByError, { DateBeforeEpochError: 2 });
+  }
+});
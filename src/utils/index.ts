@@ -1,2 +1,22 @@
 // src/utils/index.ts
-export { yyyymmddToUnix } from "./date.ts";
+export {
+  createTimestampParser,
+  detectTimestampFormat,
+  formatTimestamp,
+  parseTimestamp,
+  unixToYyyymmdd,
+  yyyymmddToUnix,
+} from "./date.ts";
+export {
+  getTimeZoneOffsetMillis,
+  utcMillisToZonedParts,
+  zonedTimeToUtcMillis,
+} from "./timezone.ts";
+export type {
+  DateParseOptions,
+  FormatTimestampOptions,
+  TimestampFormat,
+  TimestampOptions,
+  TimestampParser,
+} from "./date.ts";
+export type { ZonedDateTimeParts } from "./timezone.ts";
@@ -0,0 +1,189 @@
+// src/utils/timezone.ts
+import { InvalidTimeZoneError } from "../core/errors.ts";
+
+/**
+ * Calendar and wall-clock components of an instant in some time zone.
+ */
+export interface ZonedDateTimeParts {
+  year: number;
+  /** Month of the year, 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        era: "short",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    } catch (e) {
+      throw new InvalidTimeZoneError(
+        `Unknown time zone: "${timeZone}". ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+    }
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function isUtc(timeZone: string): boolean {
+  return timeZone === "UTC" || timeZone === "Etc/UTC";
+}
+
+/**
+ * Checks that a time zone name is supported by the runtime.
+ *
+ * @param timeZone - IANA time zone name, e.g. `"America/New_York"`
+ *
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ */
+export function assertValidTimeZone(timeZone: string): void {
+  if (!isUtc(timeZone)) getZoneFormatter(timeZone);
+}
+
+/**
+ * Converts an instant to wall-clock components in a time zone.
+ *
+ * @param utcMillis - Milliseconds since the Unix epoch
+ * @param timeZone - IANA time zone name. Defaults to `"UTC"`
+ * @returns The local calendar date and time
+ *
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ */
+export function utcMillisToZonedParts(
+  utcMillis: number,
+  timeZone: string = "UTC",
+): ZonedDateTimeParts {
+  const millisecond = ((utcMillis % 1000) + 1000) % 1000;
+  if (isUtc(timeZone)) {
+    const date = new Date(utcMillis);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond,
+    };
+  }
+
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(utcMillis)) {
+    parts[part.type] = part.value;
+  }
+  const year = +parts.year!;
+  return {
+    year: parts.era === "BC" || parts.era === "B" ? 1 - year : year,
+    month: +parts.month!,
+    day: +parts.day!,
+    hour: +parts.hour!,
+    minute: +parts.minute!,
+    second: +parts.second!,
+    millisecond,
+  };
+}
+
+function wallTimeAsUtcMillis(parts: ZonedDateTimeParts): number {
+  const date = new Date(0);
+  date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  date.setUTCHours(parts.hour, parts.minute, parts.second, parts.millisecond);
+  return date.getTime();
+}
+
+/**
+ * Returns the offset of a time zone from UTC at a given instant.
+ *
+ * @param utcMillis - Milliseconds since the Unix epoch
+ * @param timeZone - IANA time zone name
+ * @returns Offset in milliseconds (negative west of Greenwich)
+ *
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * getTimeZoneOffsetMillis(Date.UTC(2023, 6, 1), "America/New_York"); // -14400000
+ * ```
+ */
+export function getTimeZoneOffsetMillis(
+  utcMillis: number,
+  timeZone: string,
+): number {
+  if (isUtc(timeZone)) return 0;
+  const wholeSecond = utcMillis - (((utcMillis % 1000) + 1000) % 1000);
+  const local = utcMillisToZonedParts(wholeSecond, timeZone);
+  return wallTimeAsUtcMillis({ ...local, millisecond: 0 }) - wholeSecond;
+}
+
+const DAY_MILLIS = 86_400_000;
+
+/**
+ * Converts a wall-clock time in a time zone to an instant.
+ *
+ * Daylight saving transitions are resolved like JavaScript's `Date`: a time
+ * repeated when clocks go back maps to its earlier occurrence, and a time
+ * skipped when clocks go forward is shifted forward by the length of the gap.
+ *
+ * @param parts - Local calendar date and time
+ * @param timeZone - IANA time zone name
+ * @returns Milliseconds since the Unix epoch
+ *
+ * @throws {InvalidTimeZoneError} When the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * zonedTimeToUtcMillis(
+ *   { year: 2023, month: 3, day: 13, hour: 16, minute: 0, second: 0, millisecond: 0 },
+ *   "America/New_York",
+ * ); // Date.UTC(2023, 2, 13, 20) - EDT is UTC-4
+ * ```
+ */
+export function zonedTimeToUtcMillis(
+  parts: ZonedDateTimeParts,
+  timeZone: string,
+): number {
+  const wallMillis = wallTimeAsUtcMillis(parts);
+  if (isUtc(timeZone)) return wallMillis;
+
+  // Offsets a day either side bracket any transition near this wall time.
+  const offsetBefore = getTimeZoneOffsetMillis(
+    wallMillis - DAY_MILLIS,
+    timeZone,
+  );
+  const offsetAfter = getTimeZoneOffsetMillis(
+    wallMillis + DAY_MILLIS,
+    timeZone,
+  );
+
+  const candidateBefore = wallMillis - offsetBefore;
+  const candidateAfter = wallMillis - offsetAfter;
+  const beforeValid =
+    getTimeZoneOffsetMillis(candidateBefore, timeZone) === offsetBefore;
+  const afterValid =
+    getTimeZoneOffsetMillis(candidateAfter, timeZone) === offsetAfter;
+
+  if (beforeValid && afterValid) {
+    return Math.min(candidateBefore, candidateAfter);
+  }
+  if (afterValid) return candidateAfter;
+  // Either only the earlier offset applies, or the wall time falls in a gap.
+  return candidateBefore;
+}
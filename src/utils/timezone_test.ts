@@ -0,0 +1,154 @@
+// src/utils/timezone_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import { InvalidTimeZoneError } from "../core/errors.ts";
+import {
+  assertValidTimeZone,
+  getTimeZoneOffsetMillis,
+  utcMillisToZonedParts,
+  type ZonedDateTimeParts,
+  zonedTimeToUtcMillis,
+} from "./timezone.ts";
+
+const HOUR = 3_600_000;
+const NEW_YORK = "America/New_York";
+
+const wall = (
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+): ZonedDateTimeParts => ({
+  year,
+  month,
+  day,
+  hour,
+  minute,
+  second: 0,
+  millisecond: 0,
+});
+
+Deno.test("utcMillisToZonedParts reads the wall clock of a time zone", () => {
+  // 03:00 UTC on 2 January is 22:00 on 1 January in New York
+  deepStrictEqual(
+    utcMillisToZonedParts(Date.UTC(2023, 0, 2, 3, 15, 30) + 250, NEW_YORK),
+    { ...wall(2023, 1, 1, 22, 15), second: 30, millisecond: 250 },
+  );
+  deepStrictEqual(
+    utcMillisToZonedParts(Date.UTC(2023, 0, 1, 20), "Asia/Kolkata"),
+    wall(2023, 1, 2, 1, 30),
+  );
+  deepStrictEqual(
+    utcMillisToZonedParts(Date.UTC(2023, 6, 1, 12)),
+    wall(2023, 7, 1, 12),
+  );
+});
+
+Deno.test("utcMillisToZonedParts handles instants before 1970 and before 1 AD", () => {
+  deepStrictEqual(utcMillisToZonedParts(-1), {
+    ...wall(1969, 12, 31, 23, 59),
+    second: 59,
+    millisecond: 999,
+  });
+  deepStrictEqual(
+    utcMillisToZonedParts(Date.UTC(1960, 0, 1), "Asia/Tokyo"),
+    wall(1960, 1, 1, 9),
+  );
+  // Years before 1 AD are numbered astronomically, so 101 BC is -100
+  const bc = new Date(0);
+  bc.setUTCFullYear(-100, 5, 15);
+  bc.setUTCHours(12);
+  const parts = utcMillisToZonedParts(bc.getTime(), "Asia/Tokyo");
+  deepStrictEqual([parts.year, parts.month, parts.day], [-100, 6, 15]);
+});
+
+Deno.test("getTimeZoneOffsetMillis follows daylight saving time", () => {
+  strictEqual(
+    getTimeZoneOffsetMillis(Date.UTC(2023, 0, 15), NEW_YORK),
+    -5 * HOUR,
+  );
+  strictEqual(
+    getTimeZoneOffsetMillis(Date.UTC(2023, 6, 1), NEW_YORK),
+    -4 * HOUR,
+  );
+  // Clocks go forward at 07:00 UTC on 12 March 2023
+  strictEqual(
+    getTimeZoneOffsetMillis(Date.UTC(2023, 2, 12, 7) - 1, NEW_YORK),
+    -5 * HOUR,
+  );
+  strictEqual(
+    getTimeZoneOffsetMillis(Date.UTC(2023, 2, 12, 7), NEW_YORK),
+    -4 * HOUR,
+  );
+  strictEqual(
+    getTimeZoneOffsetMillis(Date.UTC(2023, 6, 1), "Asia/Kolkata"),
+    5.5 * HOUR,
+  );
+  strictEqual(getTimeZoneOffsetMillis(Date.UTC(2023, 6, 1), "UTC"), 0);
+  strictEqual(getTimeZoneOffsetMillis(Date.UTC(2023, 6, 1), "Etc/UTC"), 0);
+});
+
+Deno.test("zonedTimeToUtcMillis converts wall-clock times to instants", () => {
+  strictEqual(
+    zonedTimeToUtcMillis(wall(2023, 3, 13, 16), NEW_YORK),
+    Date.UTC(2023, 2, 13, 20),
+  );
+  strictEqual(
+    zonedTimeToUtcMillis(wall(2023, 1, 3, 16), NEW_YORK),
+    Date.UTC(2023, 0, 3, 21),
+  );
+  strictEqual(
+    zonedTimeToUtcMillis(wall(2023, 1, 2, 1, 30), "Asia/Kolkata"),
+    Date.UTC(2023, 0, 1, 20),
+  );
+  strictEqual(
+    zonedTimeToUtcMillis(wall(1960, 1, 1, 9), "Asia/Tokyo"),
+    Date.UTC(1960, 0, 1),
+  );
+  strictEqual(
+    zonedTimeToUtcMillis(wall(2023, 7, 1, 12), "UTC"),
+    Date.UTC(2023, 6, 1, 12),
+  );
+});
+
+Deno.test("zonedTimeToUtcMillis resolves daylight saving transitions like Date", () => {
+  // 02:30 on 12 March 2023 is skipped and moves forward to 03:30 EDT
+  strictEqual(
+    zonedTimeToUtcMillis(wall(2023, 3, 12, 2, 30), NEW_YORK),
+    Date.UTC(2023, 2, 12, 7, 30),
+  );
+  // 01:30 on 5 November 2023 happens twice; the earlier, EDT, is taken
+  strictEqual(
+    zonedTimeToUtcMillis(wall(2023, 11, 5, 1, 30), NEW_YORK),
+    Date.UTC(2023, 10, 5, 5, 30),
+  );
+});
+
+Deno.test("zonedTimeToUtcMillis inverts utcMillisToZonedParts around a transition", () => {
+  // Every quarter hour across the end of daylight saving time, except the
+  // second 01:00-01:59, which maps back to its first occurrence
+  const start = Date.UTC(2023, 10, 5, 3);
+  for (let t = start; t < start + 6 * HOUR; t += HOUR / 4) {
+    const parts = utcMillisToZonedParts(t, NEW_YORK);
+    const repeated = t >= Date.UTC(2023, 10, 5, 6) &&
+      t < Date.UTC(2023, 10, 5, 7);
+    strictEqual(
+      zonedTimeToUtcMillis(parts, NEW_YORK),
+      repeated ? t - HOUR : t,
+      new Date(t).toISOString(),
+    );
+  }
+});
+
+Deno.test("unknown time zones throw InvalidTimeZoneError", () => {
+  assertValidTimeZone("UTC");
+  assertValidTimeZone(NEW_YORK);
+  throws(() => assertValidTimeZone("Mars/Base"), InvalidTimeZoneError);
+  throws(() => utcMillisToZonedParts(0, "Mars/Base"), InvalidTimeZoneError);
+  throws(() => getTimeZoneOffsetMillis(0, "Mars/Base"), InvalidTimeZoneError);
+  throws(
+    () => zonedTimeToUtcMillis(wall(2023, 1, 1), "Mars/Base"),
+    (e: unknown) =>
+      e instanceof InvalidTimeZoneError && e.message.includes("Mars/Base"),
+  );
+});
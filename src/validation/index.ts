@@ -0,0 +1,18 @@
+// src/validation/index.ts
+export { RowValidator, validateRows } from "./validator.ts";
+export {
+  defaultRules,
+  maxGap,
+  maxPriceSpike,
+  monotonicTimestamps,
+  noDuplicateTimestamps,
+  nonNegativeVolume,
+  ohlcConsistency,
+} from "./rules.ts";
+
+export type {
+  ValidationIssue,
+  ValidationMode,
+  ValidationOptions,
+} from "./validator.ts";
+export type { RuleViolation, ValidationRule } from "./rules.ts";
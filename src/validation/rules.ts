@@ -0,0 +1,213 @@
+// src/validation/rules.ts
+import type { Row } from "../core/row.ts";
+import type { ParseErrorDetails } from "../core/errors.ts";
+
+/**
+ * Describes how a row breaks a validation rule.
+ */
+export interface RuleViolation {
+  /** Human-readable explanation */
+  reason: string;
+  /** Which field is at fault, if a single one is */
+  invalidField?: ParseErrorDetails["invalidField"];
+}
+
+/**
+ * An integrity check applied to each parsed row.
+ *
+ * Rules see the row and the previously accepted row, so they can check
+ * ordering and continuity as well as the row itself.
+ *
+ * @example
+ * ```typescript
+ * const positivePrices: ValidationRule = {
+ *   name: "positive-prices",
+ *   check: (row) =>
+ *     row.l > 0 ? null : { reason: `Low ${row.l} is not positive`, invalidField: "low" },
+ *   repair: () => null, // drop the row
+ * };
+ * ```
+ */
+export interface ValidationRule {
+  /** Identifier reported with every violation */
+  name: string;
+  /** Returns a violation, or null when the row passes */
+  check(row: Row, previous: Row | undefined): RuleViolation | null;
+  /**
+   * Returns a corrected copy of the row, or null to drop it. Rules without
+   * `repair` only report violations in repair mode.
+   */
+  repair?(row: Row, previous: Row | undefined): Row | null;
+}
+
+/**
+ * Requires `low <= open, close <= high`.
+ *
+ * Repairs by widening high and low to include open and close.
+ */
+export function ohlcConsistency(): ValidationRule {
+  return {
+    name: "ohlc-consistency",
+    check(row) {
+      if (row.h < row.l) {
+        return {
+          reason: `High ${row.h} is below low ${row.l}`,
+          invalidField: "high",
+        };
+      }
+      if (row.o > row.h || row.c > row.h) {
+        return {
+          reason: `Open ${row.o} or close ${row.c} is above high ${row.h}`,
+          invalidField: "high",
+        };
+      }
+      if (row.o < row.l || row.c < row.l) {
+        return {
+          reason: `Open ${row.o} or close ${row.c} is below low ${row.l}`,
+          invalidField: "low",
+        };
+      }
+      return null;
+    },
+    repair(row) {
+      return {
+        ...row,
+        h: Math.max(row.o, row.h, row.l, row.c),
+        l: Math.min(row.o, row.h, row.l, row.c),
+      };
+    },
+  };
+}
+
+/**
+ * Requires volume to be zero or positive.
+ *
+ * Repairs by setting negative volume to zero.
+ */
+export function nonNegativeVolume(): ValidationRule {
+  return {
+    name: "non-negative-volume",
+    check(row) {
+      return row.v < 0
+        ? { reason: `Negative volume ${row.v}`, invalidField: "volume" }
+        : null;
+    },
+    repair(row) {
+      return { ...row, v: 0 };
+    },
+  };
+}
+
+/**
+ * Requires timestamps to be non-decreasing.
+ *
+ * Repairs by dropping rows older than the previous row.
+ */
+export function monotonicTimestamps(): ValidationRule {
+  return {
+    name: "monotonic-timestamps",
+    check(row, previous) {
+      return previous && row.ts < previous.ts
+        ? {
+          reason: `Timestamp ${row.ts} is before previous ${previous.ts}`,
+          invalidField: "timestamp",
+        }
+        : null;
+    },
+    repair() {
+      return null;
+    },
+  };
+}
+
+/**
+ * Rejects a row with the same timestamp as the previous row.
+ *
+ * Only adjacent duplicates are detected, which covers sorted input.
+ * Repairs by dropping the later row.
+ */
+export function noDuplicateTimestamps(): ValidationRule {
+  return {
+    name: "duplicate-timestamp",
+    check(row, previous) {
+      return previous && row.ts === previous.ts
+        ? { reason: `Duplicate timestamp ${row.ts}`, invalidField: "timestamp" }
+        : null;
+    },
+    repair() {
+      return null;
+    },
+  };
+}
+
+/**
+ * Flags rows that follow the previous row by more than `maxSeconds`.
+ *
+ * Gaps cannot be repaired by editing or dropping a single row, so this rule
+ * only reports.
+ *
+ * @param maxSeconds - Largest allowed distance between consecutive rows
+ */
+export function maxGap(maxSeconds: number): ValidationRule {
+  return {
+    name: "max-gap",
+    check(row, previous) {
+      return previous && row.ts - previous.ts > maxSeconds
+        ? {
+          reason: `Gap of ${row.ts - previous.ts}s exceeds ${maxSeconds}s`,
+          invalidField: "timestamp",
+        }
+        : null;
+    },
+  };
+}
+
+/**
+ * Flags prices that move more than `maxChange` (a fraction, e.g. 0.5 for
+ * 50%) away from the previous close.
+ *
+ * Repairs by dropping the row.
+ *
+ * @param maxChange - Largest allowed relative change
+ */
+export function maxPriceSpike(maxChange: number): ValidationRule {
+  return {
+    name: "price-spike",
+    check(row, previous) {
+      if (!previous || previous.c === 0) return null;
+      const fields = [
+        ["open", row.o],
+        ["high", row.h],
+        ["low", row.l],
+        ["close", row.c],
+      ] as const;
+      for (const [field, price] of fields) {
+        const change = Math.abs(price / previous.c - 1);
+        if (change > maxChange) {
+          return {
+            reason: `${field} ${price} moved ${
+              (change * 100).toFixed(1)
+            }% from previous close ${previous.c}`,
+            invalidField: field,
+          };
+        }
+      }
+      return null;
+    },
+    repair() {
+      return null;
+    },
+  };
+}
+
+/**
+ * Rules applied when validation is enabled without an explicit rule list.
+ */
+export function defaultRules(): ValidationRule[] {
+  return [
+    ohlcConsistency(),
+    nonNegativeVolume(),
+    noDuplicateTimestamps(),
+    monotonicTimestamps(),
+  ];
+}
@@ -0,0 +1,106 @@
+// src/validation/rules_test.ts
+import { deepStrictEqual, strictEqual } from "node:assert";
+import type { Row } from "../core/row.ts";
+import {
+  defaultRules,
+  maxGap,
+  maxPriceSpike,
+  monotonicTimestamps,
+  noDuplicateTimestamps,
+  nonNegativeVolume,
+  ohlcConsistency,
+} from "./rules.ts";
+
+const row: Row = { ts: 1704067200, o: 100, h: 110, l: 90, c: 105, v: 1000 };
+const next: Row = { ...row, ts: row.ts + 60 };
+
+Deno.test("ohlcConsistency checks that high and low bound open and close", () => {
+  const rule = ohlcConsistency();
+  strictEqual(rule.check(row, undefined), null);
+  strictEqual(rule.check({ ...row, o: 110, c: 90 }, undefined), null);
+  deepStrictEqual(rule.check({ ...row, h: 80 }, undefined), {
+    reason: "High 80 is below low 90",
+    invalidField: "high",
+  });
+  strictEqual(rule.check({ ...row, c: 111 }, undefined)?.invalidField, "high");
+  strictEqual(rule.check({ ...row, o: 89 }, undefined)?.invalidField, "low");
+});
+
+Deno.test("ohlcConsistency repairs by widening high and low", () => {
+  const rule = ohlcConsistency();
+  deepStrictEqual(rule.repair!({ ...row, o: 120, c: 85 }, undefined), {
+    ...row,
+    o: 120,
+    h: 120,
+    l: 85,
+    c: 85,
+  });
+  deepStrictEqual(rule.repair!({ ...row, h: 90, l: 110 }, undefined), {
+    ...row,
+    h: 110,
+    l: 90,
+  });
+});
+
+Deno.test("nonNegativeVolume zeroes negative volume", () => {
+  const rule = nonNegativeVolume();
+  strictEqual(rule.check({ ...row, v: 0 }, undefined), null);
+  deepStrictEqual(rule.check({ ...row, v: -5 }, undefined), {
+    reason: "Negative volume -5",
+    invalidField: "volume",
+  });
+  deepStrictEqual(rule.repair!({ ...row, v: -5 }, undefined), { ...row, v: 0 });
+});
+
+Deno.test("monotonicTimestamps drops rows older than the previous row", () => {
+  const rule = monotonicTimestamps();
+  strictEqual(rule.check(row, undefined), null);
+  strictEqual(rule.check(next, row), null);
+  strictEqual(rule.check(row, row), null);
+  strictEqual(rule.check(row, next)?.invalidField, "timestamp");
+  strictEqual(rule.repair!(row, next), null);
+});
+
+Deno.test("noDuplicateTimestamps drops a row repeating the previous timestamp", () => {
+  const rule = noDuplicateTimestamps();
+  strictEqual(rule.check(row, undefined), null);
+  strictEqual(rule.check(next, row), null);
+  deepStrictEqual(rule.check({ ...row, c: 1 }, row), {
+    reason: `Duplicate timestamp ${row.ts}`,
+    invalidField: "timestamp",
+  });
+  strictEqual(rule.repair!(row, row), null);
+});
+
+Deno.test("maxGap reports rows too far after the previous row", () => {
+  const rule = maxGap(60);
+  strictEqual(rule.check(next, row), null);
+  strictEqual(rule.check(next, undefined), null);
+  strictEqual(
+    rule.check({ ...row, ts: row.ts + 61 }, row)?.reason,
+    "Gap of 61s exceeds 60s",
+  );
+  strictEqual(rule.repair, undefined);
+});
+
+Deno.test("maxPriceSpike compares every price with the previous close", () => {
+  const rule = maxPriceSpike(0.5);
+  strictEqual(rule.check(row, undefined), null);
+  strictEqual(rule.check({ ...next, h: 157.5 }, row), null);
+  deepStrictEqual(rule.check({ ...next, h: 160 }, row), {
+    reason: "high 160 moved 52.4% from previous close 105",
+    invalidField: "high",
+  });
+  strictEqual(rule.check({ ...next, l: 50 }, row)?.invalidField, "low");
+  strictEqual(rule.check(next, { ...row, c: 0 }), null);
+  strictEqual(rule.repair!(next, row), null);
+});
+
+Deno.test("defaultRules lists the structural rules", () => {
+  deepStrictEqual(defaultRules().map((rule) => rule.name), [
+    "ohlc-consistency",
+    "non-negative-volume",
+    "duplicate-timestamp",
+    "monotonic-timestamps",
+  ]);
+});
@@ -0,0 +1,208 @@
+// src/validation/validator.ts
+import type { Row } from "../core/row.ts";
+import { type ParseErrorDetails, ValidationError } from "../core/errors.ts";
+import { defaultRules, type ValidationRule } from "./rules.ts";
+
+/**
+ * How violations are handled.
+ *
+ * - `strict`: throw a `ValidationError` for the first violation
+ * - `repair`: fix or drop offending rows using each rule's `repair`
+ * - `report`: keep rows unchanged and only report violations
+ */
+export type ValidationMode = "strict" | "repair" | "report";
+
+/**
+ * A rule violation found while validating a row.
+ */
+export interface ValidationIssue {
+  /** Name of the violated rule */
+  rule: string;
+  /** Human-readable explanation */
+  reason: string;
+  /** Which field is at fault, if a single one is */
+  invalidField?: ParseErrorDetails["invalidField"];
+  /** The row as it was when the rule was checked */
+  row: Row;
+  /** What was done about it */
+  action: "repaired" | "dropped" | "reported";
+  /** The line number (1-indexed) the row was parsed from, if known */
+  lineNumber?: number;
+  /** The raw line the row was parsed from, if known */
+  lineContent?: string;
+}
+
+/**
+ * Options for row validation.
+ *
+ * @example
+ * ```typescript
+ * const validation: ValidationOptions = {
+ *   mode: "repair",
+ *   rules: [...defaultRules(), maxPriceSpike(0.5)],
+ *   onIssue: (issue) => console.warn(`${issue.rule}: ${issue.reason}`),
+ * };
+ * ```
+ */
+export interface ValidationOptions {
+  /** Rules to apply, in order. Defaults to {@link defaultRules} */
+  rules?: ValidationRule[];
+  /** How violations are handled. Defaults to `"report"` */
+  mode?: ValidationMode;
+  /** Called for every violation that does not throw */
+  onIssue?: (issue: ValidationIssue) => void;
+}
+
+/**
+ * Converts a validation issue to the `ValidationError` thrown in strict mode.
+ */
+export function validationIssueToError(
+  issue: ValidationIssue,
+): ValidationError {
+  return new ValidationError(
+    `Rule "${issue.rule}" failed: ${issue.reason}`,
+    issue.rule,
+    {
+      lineNumber: issue.lineNumber,
+      lineContent: issue.lineContent,
+      invalidField: issue.invalidField,
+      reason: issue.reason,
+    },
+  );
+}
+
+/**
+ * Applies validation rules to a sequence of rows.
+ *
+ * The validator remembers the last accepted row, so one instance should be
+ * used per series, in order.
+ *
+ * @example
+ * ```typescript
+ * const validator = new RowValidator({ mode: "repair" });
+ * const clean = rows.flatMap((row) => validator.validate(row) ?? []);
+ * console.log(`${validator.issues.length} issues`);
+ * ```
+ */
+export class RowValidator {
+  private rules: ValidationRule[];
+  private mode: ValidationMode;
+  private onIssue?: (issue: ValidationIssue) => void;
+  private previous?: Row;
+  private keepIssues: boolean;
+  private latest?: ValidationIssue;
+  /**
+   * All violations found so far that did not throw. Always empty when
+   * `keepIssues` is false
+   */
+  public issues: ValidationIssue[] = [];
+
+  /**
+   * @param options - Rules, mode and issue callback
+   * @param keepIssues - Whether to collect every issue in
+   * {@link RowValidator.issues}. Pass false when validating long streams
+   * that only need {@link RowValidator.lastIssue}. Defaults to true
+   */
+  constructor(options: ValidationOptions = {}, keepIssues: boolean = true) {
+    this.rules = options.rules ?? defaultRules();
+    this.mode = options.mode ?? "report";
+    this.onIssue = options.onIssue;
+    this.keepIssues = keepIssues;
+  }
+
+  /**
+   * Validates the next row.
+   *
+   * @param row - The row to check
+   * @param lineNumber - Optional source line number, for error details
+   * @param lineContent - Optional source line, for error details
+   * @returns The row (repaired in repair mode), or null when it was dropped
+   *
+   * @throws {ValidationError} In strict mode, for the first violated rule
+   */
+  public validate(
+    row: Row,
+    lineNumber?: number,
+    lineContent?: string,
+  ): Row | null {
+    let current: Row = row;
+    for (const rule of this.rules) {
+      const violation = rule.check(current, this.previous);
+      if (!violation) continue;
+
+      const issue: ValidationIssue = {
+        rule: rule.name,
+        reason: violation.reason,
+        invalidField: violation.invalidField,
+        row: current,
+        action: "reported",
+        lineNumber,
+        lineContent,
+      };
+      if (this.mode === "strict") throw validationIssueToError(issue);
+
+      let repaired: Row | null = current;
+      if (this.mode === "repair" && rule.repair) {
+        repaired = rule.repair(current, this.previous);
+        issue.action = repaired ? "repaired" : "dropped";
+      }
+      this.report(issue);
+      if (!repaired) return null;
+      current = repaired;
+    }
+    this.previous = current;
+    return current;
+  }
+
+  /**
+   * The most recent violation that did not throw, e.g. the reason the last
+   * dropped row was dropped.
+   */
+  public get lastIssue(): ValidationIssue | undefined {
+    return this.latest;
+  }
+
+  /**
+   * Forgets the previous row and collected issues.
+   */
+  public reset(): void {
+    this.previous = undefined;
+    this.latest = undefined;
+    this.issues = [];
+  }
+
+  private report(issue: ValidationIssue): void {
+    this.latest = issue;
+    if (this.keepIssues) this.issues.push(issue);
+    this.onIssue?.(issue);
+  }
+}
+
+/**
+ * Validates an array of rows.
+ *
+ * @param rows - Rows in ascending timestamp order
+ * @param options - Rules, mode and issue callback
+ * @returns The accepted (possibly repaired) rows and all issues found
+ *
+ * @throws {ValidationError} In strict mode, for the first violation
+ *
+ * @example
+ * ```typescript
+ * import { validateRows } from "@mso/ohlcv/validation";
+ *
+ * const { rows: clean, issues } = validateRows(rows, { mode: "repair" });
+ * ```
+ */
+export function validateRows(
+  rows: Iterable<Row>,
+  options?: ValidationOptions,
+): { rows: Row[]; issues: ValidationIssue[] } {
+  const validator = new RowValidator(options);
+  const accepted: Row[] = [];
+  for (const row of rows) {
+    const result = validator.validate(row);
+    if (result) accepted.push(result);
+  }
+  return { rows: accepted, issues: validator.issues };
+}
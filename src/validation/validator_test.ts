@@ -0,0 +1,179 @@
+// src/validation/validator_test.ts
+import { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { ValidationError } from "../core/errors.ts";
+import { parseWithEvery } from "../parser/_test_utils.ts";
+import { parse } from "../parser/parse.ts";
+import type { ParseReport } from "../parser/common.ts";
+import { maxGap, maxPriceSpike } from "./rules.ts";
+import {
+  RowValidator,
+  validateRows,
+  type ValidationIssue,
+} from "./validator.ts";
+
+const DAY = 86400;
+const START = 1704067200;
+
+const good = (i: number, c = 100): Row => ({
+  ts: START + i * DAY,
+  o: c,
+  h: c + 5,
+  l: c - 5,
+  c,
+  v: 10,
+});
+
+/** One row breaking each default rule, between valid rows */
+const rows: Row[] = [
+  good(0),
+  { ...good(1), h: 90 }, // high below open, close and low
+  { ...good(2), v: -1 }, // negative volume
+  good(2), // duplicate timestamp
+  good(1), // older than the previous row
+  good(3),
+];
+
+const summary = (issues: ValidationIssue[]) =>
+  issues.map((issue) => [issue.rule, issue.action, issue.row.ts]);
+
+Deno.test("report mode keeps every row and reports each violation", () => {
+  const { rows: accepted, issues } = validateRows(rows);
+  deepStrictEqual(accepted, rows);
+  deepStrictEqual(summary(issues), [
+    ["ohlc-consistency", "reported", START + DAY],
+    ["non-negative-volume", "reported", START + 2 * DAY],
+    ["duplicate-timestamp", "reported", START + 2 * DAY],
+    ["monotonic-timestamps", "reported", START + DAY],
+  ]);
+  strictEqual(issues[0].invalidField, "high");
+});
+
+Deno.test("repair mode fixes or drops each offending row", () => {
+  const { rows: accepted, issues } = validateRows(rows, { mode: "repair" });
+  deepStrictEqual(accepted, [
+    good(0),
+    { ...good(1), h: 100, l: 90 },
+    { ...good(2), v: 0 },
+    good(3),
+  ]);
+  deepStrictEqual(summary(issues), [
+    ["ohlc-consistency", "repaired", START + DAY],
+    ["non-negative-volume", "repaired", START + 2 * DAY],
+    ["duplicate-timestamp", "dropped", START + 2 * DAY],
+    ["monotonic-timestamps", "dropped", START + DAY],
+  ]);
+});
+
+Deno.test("repair mode checks later rules against the repaired row", () => {
+  const both = { ...good(1), h: 90, v: -1 };
+  const { rows: accepted, issues } = validateRows([good(0), both], {
+    mode: "repair",
+  });
+  deepStrictEqual(accepted[1], { ...good(1), h: 100, l: 90, v: 0 });
+  deepStrictEqual(issues[1].row, { ...both, h: 100, l: 90 });
+});
+
+Deno.test("repair mode only reports rules without a repair", () => {
+  const gappy = [good(0), good(5), good(6)];
+  const { rows: accepted, issues } = validateRows(gappy, {
+    mode: "repair",
+    rules: [maxGap(DAY)],
+  });
+  deepStrictEqual(accepted, gappy);
+  deepStrictEqual(summary(issues), [["max-gap", "reported", START + 5 * DAY]]);
+});
+
+Deno.test("dropped rows are not used as the previous row", () => {
+  const spike = [good(0), good(1, 1000), good(2, 101)];
+  const { rows: accepted } = validateRows(spike, {
+    mode: "repair",
+    rules: [maxPriceSpike(0.5)],
+  });
+  deepStrictEqual(accepted, [good(0), good(2, 101)]);
+});
+
+Deno.test("strict mode throws a ValidationError for the first violation", () => {
+  throws(
+    () => validateRows(rows, { mode: "strict" }),
+    (e: unknown) =>
+      e instanceof ValidationError &&
+      e.rule === "ohlc-consistency" &&
+      e.details?.invalidField === "high" &&
+      e.message.startsWith('Rule "ohlc-consistency" failed: High 90'),
+  );
+  deepStrictEqual(validateRows([good(0), good(1)], { mode: "strict" }), {
+    rows: [good(0), good(1)],
+    issues: [],
+  });
+});
+
+Deno.test("RowValidator passes issues to onIssue and tracks the last one", () => {
+  const seen: string[] = [];
+  const validator = new RowValidator(
+    { mode: "repair", onIssue: (issue) => seen.push(issue.rule) },
+    false,
+  );
+  for (const row of rows) validator.validate(row, 7, "line");
+  deepStrictEqual(seen, [
+    "ohlc-consistency",
+    "non-negative-volume",
+    "duplicate-timestamp",
+    "monotonic-timestamps",
+  ]);
+  deepStrictEqual(validator.issues, []);
+  strictEqual(validator.lastIssue?.rule, "monotonic-timestamps");
+  strictEqual(validator.lastIssue?.lineNumber, 7);
+  strictEqual(validator.lastIssue?.lineContent, "line");
+
+  validator.reset();
+  strictEqual(validator.lastIssue, undefined);
+  // The previous row is forgotten, so an earlier timestamp is accepted
+  deepStrictEqual(validator.validate(good(0)), good(0));
+});
+
+const csv = [
+  "Date,Open,High,Low,Close,Volume",
+  "2024-01-01,100,105,95,100,10",
+  "2024-01-02,100,90,95,100,10",
+  "2024-01-02,100,105,95,100,10",
+  "2024-01-03,100,105,95,100,10",
+].join("\n");
+
+Deno.test("parsers apply validation in report and repair modes", async () => {
+  let reported = 0;
+  const report = await parseWithEvery(csv, {
+    validation: { onIssue: () => reported++ },
+  });
+  for (const [parser, parsed] of Object.entries(report)) {
+    strictEqual(parsed.length, 4, parser);
+  }
+  strictEqual(reported, 2 * Object.keys(report).length);
+
+  const reports: ParseReport[] = [];
+  const repaired = await parseWithEvery(csv, {
+    validation: { mode: "repair" },
+    onReport: (report) => reports.push(report),
+  });
+  for (const [parser, parsed] of Object.entries(repaired)) {
+    deepStrictEqual(parsed.map((row) => [row.h, row.l]), [
+      [105, 95],
+      [100, 90],
+      [105, 95],
+    ], parser);
+  }
+  strictEqual(reports.length, Object.keys(repaired).length);
+  for (const report of reports) {
+    deepStrictEqual(report.skippedByError, { ValidationError: 1 });
+    strictEqual(report.samples[0].lineNumber, 4);
+  }
+});
+
+Deno.test("parsers throw the first violation in strict mode", async () => {
+  await rejects(
+    parse(csv, { validation: { mode: "strict" } }),
+    (e: unknown) =>
+      e instanceof ValidationError && e.details?.lineNumber === 3 &&
+      e.details?.lineContent === "2024-01-02,100,90,95,100,10",
+  );
+});
@@ -0,0 +1,123 @@
+// src/writer/_format.ts
+import type { Row } from "../core/row.ts";
+import { WriteError } from "../core/errors.ts";
+import type { OhlcvColumns } from "../series/series.ts";
+import { formatTimestamp, type TimestampFormat } from "../utils/date.ts";
+import type { TimestampOutput, WriteInput } from "./common.ts";
+
+/** Formats a Unix timestamp in seconds as a field value. */
+export type TimestampFormatter = (ts: number) => string;
+
+/** Formats a price or volume as a field value. */
+export type NumberFormatter = (value: number) => string;
+
+const UNIX_FORMATS: readonly TimestampFormat[] = [
+  "unix-seconds",
+  "unix-millis",
+];
+
+/** Largest digit count accepted by `Number.prototype.toFixed`. */
+const MAX_PRECISION = 100;
+
+function formatWithMillis(ts: number, pattern: string, suffix = ""): string {
+  const fractional = Math.round(ts * 1000) % 1000 !== 0;
+  return formatTimestamp(ts, {
+    pattern: fractional ? `${pattern}.SSS` : pattern,
+  }) + suffix;
+}
+
+/**
+ * Whether timestamps in the given output are plain numbers.
+ */
+export function isNumericTimestamp(output: TimestampOutput): boolean {
+  return typeof output === "string" && UNIX_FORMATS.includes(output);
+}
+
+/**
+ * Creates a formatter writing timestamps so that `createTimestampParser`
+ * reads them back for the same format.
+ *
+ * @throws {WriteError} When the format is not recognised
+ */
+export function createTimestampFormatter(
+  output: TimestampOutput,
+): TimestampFormatter {
+  if (typeof output === "object") {
+    return (ts) => formatTimestamp(ts, output);
+  }
+  switch (output) {
+    case "date":
+      return (ts) => formatTimestamp(ts);
+    case "datetime":
+      return (ts) => formatWithMillis(ts, "YYYY-MM-DD HH:mm:ss");
+    case "iso8601":
+      return (ts) => formatWithMillis(ts, "YYYY-MM-DDTHH:mm:ss", "Z");
+    case "unix-seconds":
+      return (ts) => String(ts);
+    case "unix-millis":
+      return (ts) => String(Math.round(ts * 1000));
+    default:
+      throw new WriteError(
+        `Unknown timestamp format: "${output}". Expected one of date, datetime, iso8601, unix-seconds, unix-millis.`,
+      );
+  }
+}
+
+/**
+ * Creates a formatter writing numbers with a fixed number of decimals, or
+ * in their shortest exact form when `precision` is undefined.
+ *
+ * @throws {WriteError} When `precision` is not an integer from 0 to 100
+ */
+export function createNumberFormatter(
+  precision: number | undefined,
+  decimal: string = ".",
+): NumberFormatter {
+  if (
+    precision !== undefined &&
+    (!Number.isInteger(precision) || precision < 0 ||
+      precision > MAX_PRECISION)
+  ) {
+    throw new WriteError(
+      `Invalid precision: ${precision}. Expected an integer from 0 to ${MAX_PRECISION}.`,
+    );
+  }
+  const format: NumberFormatter = precision === undefined
+    ? String
+    : (value) => value.toFixed(precision);
+  if (decimal === ".") return format;
+  return (value) => format(value).replace(".", decimal);
+}
+
+/** Seconds in a UTC day. */
+const SECONDS_PER_DAY = 86_400;
+
+/**
+ * Whether a Unix timestamp falls exactly on midnight UTC, so that the
+ * `"date"` format loses nothing.
+ */
+export function isMidnight(ts: number): boolean {
+  return ts % SECONDS_PER_DAY === 0;
+}
+
+/**
+ * Whether a writer input holds plain columns.
+ */
+export function isColumns(input: WriteInput): input is OhlcvColumns {
+  return "ts" in input && input.ts instanceof Float64Array;
+}
+
+/**
+ * Iterates the rows of a writer input, reading columns directly when it has
+ * them.
+ */
+export function* rowsOf(input: WriteInput): Generator<Row, void, undefined> {
+  if (!isColumns(input)) {
+    yield* input;
+    return;
+  }
+  const { ts, o, h, l, c, v } = input;
+  for (let i = 0; i < ts.length; i++) {
+    yield { ts: ts[i], o: o[i], h: h[i], l: l[i], c: c[i], v: v[i] };
+  }
+}
@@ -0,0 +1,84 @@
+// src/writer/common.ts
+import type { Row } from "../core/row.ts";
+import type { OhlcvColumns } from "../series/series.ts";
+import type { RowField } from "../parser/columns.ts";
+import type { CsvDialect } from "../parser/dialect.ts";
+import type { FormatTimestampOptions, TimestampFormat } from "../utils/date.ts";
+
+/**
+ * Rows accepted by the writers: any iterable of rows, such as an array or an
+ * `OhlcvSeries`, or plain columns.
+ */
+export type WriteInput = Iterable<Row> | OhlcvColumns;
+
+/**
+ * How timestamps are written: one of the formats read by
+ * `createTimestampParser`, or a pattern and time zone as for
+ * `formatTimestamp`.
+ *
+ * - `date`: `YYYY-MM-DD`, the inverse of `yyyymmddToUnix`
+ * - `datetime`: `YYYY-MM-DD HH:mm:ss`, with `.SSS` for sub-second timestamps
+ * - `iso8601`: `YYYY-MM-DDTHH:mm:ssZ`, with `.SSS` for sub-second timestamps
+ * - `unix-seconds`: seconds since the Unix epoch
+ * - `unix-millis`: whole milliseconds since the Unix epoch
+ */
+export type TimestampOutput = TimestampFormat | FormatTimestampOptions;
+
+/**
+ * Options shared by all writers.
+ */
+export interface WriteOptions {
+  /** How timestamps are written */
+  timestamp?: TimestampOutput;
+  /**
+   * Digits after the decimal point for prices. Defaults to the shortest
+   * representation that reads back as the same number
+   */
+  precision?: number;
+  /** Digits after the decimal point for volumes. Defaults as for `precision` */
+  volumePrecision?: number;
+}
+
+/**
+ * A CSV column: the `Row` field it holds and its header name.
+ */
+export interface CsvColumn {
+  field: RowField;
+  header: string;
+}
+
+/**
+ * Options for {@link formatCsv} and {@link createCsvFormatStream}.
+ */
+export interface CsvFormatOptions extends WriteOptions {
+  /**
+   * Columns to write, in order, as fields or fields with a header name.
+   * Defaults to `Date,Open,High,Low,Close,Volume`
+   */
+  columns?: readonly (RowField | CsvColumn)[];
+  /** Whether to write a header line. Defaults to true */
+  header?: boolean;
+  /**
+   * Delimiter, quote, escape and decimal separator to write with. Fields
+   * containing the delimiter, the quote or a line break are quoted
+   */
+  dialect?: CsvDialect;
+  /** Line terminator. Defaults to `"\n"` */
+  lineEnding?: "\n" | "\r\n";
+  /**
+   * Timestamp format. Defaults to `"date"` when every timestamp is midnight
+   * UTC, and `"datetime"` otherwise
+   */
+  timestamp?: TimestampOutput;
+}
+
+/**
+ * Options for {@link formatNdjson} and {@link createNdjsonFormatStream}.
+ */
+export interface NdjsonFormatOptions extends WriteOptions {
+  /**
+   * Timestamp format. Unix formats are written as numbers, others as
+   * strings. Defaults to `"unix-seconds"`
+   */
+  timestamp?: TimestampOutput;
+}
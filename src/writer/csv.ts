@@ -0,0 +1,221 @@
+// src/writer/csv.ts
+import type { Row } from "../core/row.ts";
+import { WriteError } from "../core/errors.ts";
+import { ROW_FIELDS, type RowField } from "../parser/columns.ts";
+import { type ResolvedDialect, resolveDialect } from "../parser/dialect.ts";
+import {
+  createNumberFormatter,
+  createTimestampFormatter,
+  isColumns,
+  isMidnight,
+  rowsOf,
+} from "./_format.ts";
+import type { CsvColumn, CsvFormatOptions, WriteInput } from "./common.ts";
+
+/** Header names of the canonical layout, which every parser recognises. */
+const DEFAULT_HEADERS: Readonly<Record<RowField, string>> = {
+  ts: "Date",
+  o: "Open",
+  h: "High",
+  l: "Low",
+  c: "Close",
+  v: "Volume",
+};
+
+/**
+ * A CSV layout compiled from {@link CsvFormatOptions}.
+ */
+interface CsvLayout {
+  /** Header line without its terminator, or undefined when not written */
+  header?: string;
+  /** Formats a row as a line without its terminator */
+  formatRow(row: Row): string;
+  lineEnding: string;
+}
+
+function resolveColumns(
+  columns: readonly (RowField | CsvColumn)[] = ROW_FIELDS,
+): CsvColumn[] {
+  if (columns.length === 0) {
+    throw new WriteError("No columns to write.");
+  }
+  return columns.map((column) => {
+    const resolved = typeof column === "string"
+      ? { field: column, header: DEFAULT_HEADERS[column] }
+      : column;
+    if (!ROW_FIELDS.includes(resolved.field)) {
+      throw new WriteError(
+        `Unknown column field: "${resolved.field}". Expected one of ${
+          ROW_FIELDS.join(", ")
+        }.`,
+      );
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Quotes a field when it contains the delimiter, the quote or a line break.
+ */
+function quoteField(value: string, dialect: ResolvedDialect): string {
+  const { delimiter, quote, escape } = dialect;
+  if (
+    quote === null ||
+    !(value.includes(delimiter) || value.includes(quote) ||
+      value.includes("\n") || value.includes("\r"))
+  ) {
+    return value;
+  }
+  return quote + value.replaceAll(quote, (escape ?? quote) + quote) + quote;
+}
+
+/**
+ * Formats timestamps as dates when no format was chosen, rejecting those with
+ * a time of day rather than silently dropping it.
+ */
+function dateOnlyFormatter(): (ts: number) => string {
+  const formatDate = createTimestampFormatter("date");
+  return (ts) => {
+    if (!isMidnight(ts)) {
+      throw new WriteError(
+        `Timestamp ${ts} has a time of day, which the default "date" format would drop. Pass a timestamp format such as "datetime" or "unix-seconds".`,
+      );
+    }
+    return formatDate(ts);
+  };
+}
+
+function compileCsvLayout(options: CsvFormatOptions): CsvLayout {
+  const columns = resolveColumns(options.columns);
+  const dialect = resolveDialect(options.dialect);
+  const formatTs = options.timestamp === undefined
+    ? dateOnlyFormatter()
+    : createTimestampFormatter(options.timestamp);
+  const formatPrice = createNumberFormatter(options.precision, dialect.decimal);
+  const formatVolume = createNumberFormatter(
+    options.volumePrecision,
+    dialect.decimal,
+  );
+  const formatters = columns.map(({ field }) =>
+    field === "ts" ? formatTs : field === "v" ? formatVolume : formatPrice
+  );
+
+  return {
+    header: options.header === false ? undefined : columns
+      .map(({ header }) => quoteField(header, dialect))
+      .join(dialect.delimiter),
+    formatRow: (row) => {
+      let line = "";
+      for (let i = 0; i < columns.length; i++) {
+        if (i > 0) line += dialect.delimiter;
+        line += quoteField(formatters[i](row[columns[i].field]), dialect);
+      }
+      return line;
+    },
+    lineEnding: options.lineEnding ?? "\n",
+  };
+}
+
+/**
+ * Writes rows as CSV text.
+ *
+ * With the default options the output is in the canonical
+ * `Date,Open,High,Low,Close,Volume` layout and every parser reads back the
+ * same rows. Timestamps are written as `"date"` when every row is at
+ * midnight UTC, and as `"datetime"` otherwise; sub-second timestamps are only
+ * read back with `timestamp.subSecond`. Prices and volumes round-trip exactly
+ * unless `precision` or `volumePrecision` rounds them.
+ *
+ * @param rows - Rows as an array, an `OhlcvSeries` or other iterable, or
+ * plain columns
+ * @param options - Columns, header, dialect, line ending, timestamp format
+ * and number precision
+ * @returns The CSV text, with every line terminated
+ *
+ * @throws {WriteError} When a column, the timestamp format or a precision is
+ * invalid
+ * @throws {ParseError} When the dialect is invalid
+ * @throws {InvalidTimeZoneError} When the timestamp time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { formatCsv, resample } from "@mso/ohlcv";
+ *
+ * const monthly = resample(daily, { timeframe: "1M" });
+ * await Deno.writeTextFile("monthly.csv", formatCsv(monthly, { precision: 2 }));
+ *
+ * formatCsv(rows, {
+ *   columns: ["ts", "c", { field: "v", header: "Vol." }],
+ *   timestamp: { pattern: "DD/MM/YYYY" },
+ *   dialect: { delimiter: ";", decimal: "," },
+ * });
+ * ```
+ */
+export function formatCsv(
+  rows: WriteInput,
+  options: CsvFormatOptions = {},
+): string {
+  let input = rows;
+  let timestamp = options.timestamp;
+  if (timestamp === undefined) {
+    // Rows are read twice, so one-shot iterables are collected first.
+    if (!isColumns(input)) input = Array.from(input);
+    const timestamps = isColumns(input)
+      ? input.ts
+      : Array.from(input, (row) => row.ts);
+    timestamp = timestamps.every(isMidnight) ? "date" : "datetime";
+  }
+  const layout = compileCsvLayout({ ...options, timestamp });
+  const lines: string[] = [];
+  if (layout.header !== undefined) lines.push(layout.header);
+  for (const row of rowsOf(input)) lines.push(layout.formatRow(row));
+  return lines.length === 0
+    ? ""
+    : lines.join(layout.lineEnding) + layout.lineEnding;
+}
+
+/**
+ * Creates a `TransformStream` that writes rows as UTF-8 CSV, one chunk per
+ * line, with the same output as {@link formatCsv}.
+ *
+ * The header is written when the stream starts, so an empty input still
+ * produces a header line. Rows cannot be looked ahead at, so without a
+ * `timestamp` format they are written as dates, and a row with a time of day
+ * errors the stream.
+ *
+ * @param options - As for {@link formatCsv}
+ * @returns A stream transforming rows into encoded CSV lines
+ *
+ * @throws {WriteError} When a column, the timestamp format or a precision is
+ * invalid, or a row has a time of day and no `timestamp` format is given
+ * @throws {ParseError} When the dialect is invalid
+ *
+ * @example
+ * ```typescript
+ * import { createCsvFormatStream, createParseStream } from "@mso/ohlcv";
+ *
+ * const file = await Deno.open("clean.csv", { write: true, create: true });
+ * await source
+ *   .pipeThrough(createParseStream({ validation: { mode: "repair" } }))
+ *   .pipeThrough(createCsvFormatStream())
+ *   .pipeTo(file.writable);
+ * ```
+ */
+export function createCsvFormatStream(
+  options: CsvFormatOptions = {},
+): TransformStream<Row, Uint8Array> {
+  const layout = compileCsvLayout(options);
+  const encoder = new TextEncoder();
+  return new TransformStream<Row, Uint8Array>({
+    start(controller) {
+      if (layout.header !== undefined) {
+        controller.enqueue(encoder.encode(layout.header + layout.lineEnding));
+      }
+    },
+    transform(row, controller) {
+      controller.enqueue(
+        encoder.encode(layout.formatRow(row) + layout.lineEnding),
+      );
+    },
+  });
+}
@@ -0,0 +1,70 @@
+// src/writer/csv_test.ts
+import { rejects, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { WriteError } from "../core/errors.ts";
+import { assertEveryParser } from "../parser/_test_utils.ts";
+import { OhlcvSeries } from "../series/series.ts";
+import { createCsvFormatStream, formatCsv } from "./csv.ts";
+
+const daily: Row[] = [
+  { ts: 1672531200, o: 16547.1, h: 16630.44, l: 16499.01, c: 16625.08, v: 12 },
+  { ts: 1672617600, o: 16625.5, h: 16759.34, l: 16572.23, c: 16688.47, v: 7 },
+  { ts: 1672704000, o: 16688.85, h: 16760.45, l: 16622.37, c: 16679.86, v: 3 },
+];
+
+Deno.test("formatCsv writes daily rows as dates that every parser reads back", async () => {
+  const csv = formatCsv(daily);
+  strictEqual(csv.split("\n")[1].split(",")[0], "2023-01-01");
+  await assertEveryParser(csv, daily);
+});
+
+Deno.test("formatCsv writes intraday rows as datetimes that every parser reads back", async () => {
+  const intraday = daily.map((row, i) => ({ ...row, ts: row.ts + 60 * i }));
+  const csv = formatCsv(intraday);
+  strictEqual(csv.split("\n")[2].split(",")[0], "2023-01-02 00:01:00");
+  await assertEveryParser(csv, intraday);
+});
+
+Deno.test("formatCsv keeps sub-second timestamps for parsers reading them", async () => {
+  const subSecond = daily.map((row, i) => ({ ...row, ts: row.ts + i * 0.25 }));
+  const csv = formatCsv(subSecond);
+  strictEqual(csv.split("\n")[3].split(",")[0], "2023-01-03 00:00:00.500");
+  await assertEveryParser(csv, subSecond, { timestamp: { subSecond: true } });
+});
+
+Deno.test("formatCsv round-trips fractional volumes through every parser", async () => {
+  const fractional = daily.map((row, i) => ({ ...row, v: 0.00012345 + i }));
+  await assertEveryParser(formatCsv(fractional), fractional);
+});
+
+Deno.test("formatCsv reads one-shot iterables and columns once", async () => {
+  const intraday = daily.map((row) => ({ ...row, ts: row.ts + 3600 }));
+  const once = (function* () {
+    yield* intraday;
+  })();
+  const csv = formatCsv(once);
+  strictEqual(csv, formatCsv(OhlcvSeries.fromRows(intraday)));
+  await assertEveryParser(csv, intraday);
+});
+
+Deno.test("createCsvFormatStream rejects a time of day without a timestamp format", async () => {
+  const intraday = [{ ...daily[0], ts: daily[0].ts + 90 }];
+  const written = ReadableStream.from(intraday)
+    .pipeThrough(createCsvFormatStream());
+  await rejects(Array.fromAsync(written), WriteError);
+
+  const csv = await new Response(
+    ReadableStream.from(intraday).pipeThrough(
+      createCsvFormatStream({ timestamp: "datetime" }),
+    ),
+  ).text();
+  await assertEveryParser(csv, intraday);
+});
+
+Deno.test("formatCsv rejects an unknown timestamp format", () => {
+  throws(
+    // @ts-expect-error: testing an invalid runtime value
+    () => formatCsv(daily, { timestamp: "weekly" }),
+    WriteError,
+  );
+});
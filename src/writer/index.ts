@@ -0,0 +1,12 @@
+// src/writer/index.ts
+export { createCsvFormatStream, formatCsv } from "./csv.ts";
+export { createNdjsonFormatStream, formatNdjson } from "./ndjson.ts";
+
+export type {
+  CsvColumn,
+  CsvFormatOptions,
+  NdjsonFormatOptions,
+  TimestampOutput,
+  WriteInput,
+  WriteOptions,
+} from "./common.ts";
@@ -0,0 +1,93 @@
+// src/writer/ndjson.ts
+import type { Row } from "../core/row.ts";
+import {
+  createNumberFormatter,
+  createTimestampFormatter,
+  isNumericTimestamp,
+  type NumberFormatter,
+  rowsOf,
+} from "./_format.ts";
+import type { NdjsonFormatOptions, WriteInput } from "./common.ts";
+
+/**
+ * Wraps a number formatter so that values JSON cannot hold are written as
+ * `null`, as `JSON.stringify` does.
+ */
+function jsonNumber(format: NumberFormatter): NumberFormatter {
+  return (value) => Number.isFinite(value) ? format(value) : "null";
+}
+
+function compileNdjsonLine(options: NdjsonFormatOptions): (row: Row) => string {
+  const timestamp = options.timestamp ?? "unix-seconds";
+  const formatTs = createTimestampFormatter(timestamp);
+  const ts = isNumericTimestamp(timestamp)
+    ? jsonNumber(formatTs)
+    : (value: number) => JSON.stringify(formatTs(value));
+  const price = jsonNumber(createNumberFormatter(options.precision));
+  const volume = jsonNumber(createNumberFormatter(options.volumePrecision));
+  return (row) =>
+    `{"ts":${ts(row.ts)},"o":${price(row.o)},"h":${price(row.h)},"l":${
+      price(row.l)
+    },"c":${price(row.c)},"v":${volume(row.v)}}`;
+}
+
+/**
+ * Writes rows as newline-delimited JSON, one `Row` object per line.
+ *
+ * With the default options numbers are written as `JSON.stringify` writes
+ * them, so rows round-trip exactly.
+ *
+ * @param rows - Rows as an array, an `OhlcvSeries` or other iterable, or
+ * plain columns
+ * @param options - Timestamp format and number precision
+ * @returns The NDJSON text, with every line terminated by `\n`
+ *
+ * @throws {WriteError} When the timestamp format or a precision is invalid
+ * @throws {InvalidTimeZoneError} When the timestamp time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * import { formatNdjson } from "@mso/ohlcv";
+ *
+ * formatNdjson([{ ts: 1672531200, o: 1, h: 2, l: 0.5, c: 1.5, v: 100 }]);
+ * // '{"ts":1672531200,"o":1,"h":2,"l":0.5,"c":1.5,"v":100}\n'
+ *
+ * formatNdjson(rows, { timestamp: "iso8601", precision: 2 });
+ * ```
+ */
+export function formatNdjson(
+  rows: WriteInput,
+  options: NdjsonFormatOptions = {},
+): string {
+  const formatRow = compileNdjsonLine(options);
+  let text = "";
+  for (const row of rowsOf(rows)) text += formatRow(row) + "\n";
+  return text;
+}
+
+/**
+ * Creates a `TransformStream` that writes rows as UTF-8 NDJSON, one chunk per
+ * line, with the same output as {@link formatNdjson}.
+ *
+ * @param options - As for {@link formatNdjson}
+ * @returns A stream transforming rows into encoded JSON lines
+ *
+ * @throws {WriteError} When the timestamp format or a precision is invalid
+ *
+ * @example
+ * ```typescript
+ * const body = rows.pipeThrough(createNdjsonFormatStream());
+ * await fetch(url, { method: "POST", body });
+ * ```
+ */
+export function createNdjsonFormatStream(
+  options: NdjsonFormatOptions = {},
+): TransformStream<Row, Uint8Array> {
+  const formatRow = compileNdjsonLine(options);
+  const encoder = new TextEncoder();
+  return new TransformStream<Row, Uint8Array>({
+    transform(row, controller) {
+      controller.enqueue(encoder.encode(formatRow(row) + "\n"));
+    },
+  });
+}
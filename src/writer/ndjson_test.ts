@@ -0,0 +1,166 @@
+// src/writer/ndjson_test.ts
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
+import type { Row } from "../core/row.ts";
+import { InvalidTimeZoneError, WriteError } from "../core/errors.ts";
+import type { TimestampFormat } from "../utils/date.ts";
+import { parseNdjsonOhlcv, parseStreamNdjsonOhlcv } from "../parser/json.ts";
+import { OhlcvSeries } from "../series/series.ts";
+import type { TimestampOutput } from "./common.ts";
+import { createNdjsonFormatStream, formatNdjson } from "./ndjson.ts";
+
+const daily: Row[] = [
+  { ts: 1672531200, o: 16547.1, h: 16630.44, l: 16499.01, c: 16625.08, v: 12 },
+  { ts: 1672617600, o: 16625.5, h: 16759.34, l: 16572.23, c: 16688.47, v: 7 },
+  { ts: 1672704000, o: 16688.85, h: 16760.45, l: 16622.37, c: 16679.86, v: 3 },
+];
+
+Deno.test("formatNdjson writes one JSON object per line", () => {
+  strictEqual(
+    formatNdjson(daily.slice(0, 2)),
+    '{"ts":1672531200,"o":16547.1,"h":16630.44,"l":16499.01,"c":16625.08,"v":12}\n' +
+      '{"ts":1672617600,"o":16625.5,"h":16759.34,"l":16572.23,"c":16688.47,"v":7}\n',
+  );
+  const lines = formatNdjson(daily).trimEnd().split("\n");
+  deepStrictEqual(lines.map((line) => JSON.parse(line)), daily);
+  strictEqual(formatNdjson([]), "");
+});
+
+Deno.test("formatNdjson round-trips rows through the NDJSON parser", () => {
+  const awkward = daily.map((row, i) => ({
+    ...row,
+    o: 0.1 + 0.2,
+    v: 0.00012345 + i,
+  }));
+  deepStrictEqual(parseNdjsonOhlcv(formatNdjson(awkward)), awkward);
+  const preEpoch = daily.map((row) => ({
+    ...row,
+    ts: row.ts - 1672531200 * 2,
+  }));
+  deepStrictEqual(parseNdjsonOhlcv(formatNdjson(preEpoch)), preEpoch);
+  const subSecond = daily.map((row, i) => ({ ...row, ts: row.ts + i * 0.25 }));
+  deepStrictEqual(
+    parseNdjsonOhlcv(formatNdjson(subSecond), undefined, {
+      timestamp: { subSecond: true },
+    }),
+    subSecond,
+  );
+});
+
+Deno.test("formatNdjson writes arrays, series, columns and one-shot iterables alike", () => {
+  const expected = formatNdjson(daily);
+  const series = OhlcvSeries.fromRows(daily);
+  strictEqual(formatNdjson(series), expected);
+  strictEqual(
+    formatNdjson({
+      ts: series.ts,
+      o: series.o,
+      h: series.h,
+      l: series.l,
+      c: series.c,
+      v: series.v,
+    }),
+    expected,
+  );
+  strictEqual(formatNdjson(daily.values()), expected);
+});
+
+Deno.test("formatNdjson writes Unix timestamps as numbers and others as strings", () => {
+  const row = [{ ...daily[0], ts: daily[0].ts + 34215.5 }];
+  const tsOf = (timestamp: TimestampOutput) =>
+    JSON.parse(formatNdjson(row, { timestamp })).ts;
+  strictEqual(tsOf("unix-seconds"), 1672565415.5);
+  strictEqual(tsOf("unix-millis"), 1672565415500);
+  strictEqual(tsOf("date"), "2023-01-01");
+  strictEqual(tsOf("datetime"), "2023-01-01 09:30:15.500");
+  strictEqual(tsOf("iso8601"), "2023-01-01T09:30:15.500Z");
+  strictEqual(
+    tsOf({ pattern: "DD/MM/YYYY HH:mm", timeZone: "America/New_York" }),
+    "01/01/2023 04:30",
+  );
+  strictEqual(tsOf({}), "2023-01-01");
+});
+
+Deno.test("formatNdjson round-trips ISO-8601 timestamps through the parser", () => {
+  const intraday = daily.map((row, i) => ({ ...row, ts: row.ts + 60 * i }));
+  const ndjson = formatNdjson(intraday, { timestamp: "iso8601" });
+  strictEqual(
+    ndjson.split("\n")[1].slice(0, 32),
+    '{"ts":"2023-01-02T00:01:00Z","o"',
+  );
+  deepStrictEqual(parseNdjsonOhlcv(ndjson), intraday);
+});
+
+Deno.test("formatNdjson rounds prices and volumes to their precision", () => {
+  const [line] = formatNdjson([{ ...daily[0], v: 12.345 }], {
+    precision: 1,
+    volumePrecision: 0,
+  }).split("\n");
+  strictEqual(
+    line,
+    '{"ts":1672531200,"o":16547.1,"h":16630.4,"l":16499.0,"c":16625.1,"v":12}',
+  );
+  strictEqual(JSON.parse(line).l, 16499);
+});
+
+Deno.test("formatNdjson writes values JSON cannot hold as null", () => {
+  const [line] = formatNdjson([
+    { ...daily[0], o: NaN, h: Infinity, v: -Infinity },
+  ], { precision: 2 }).split("\n");
+  deepStrictEqual(JSON.parse(line), {
+    ts: 1672531200,
+    o: null,
+    h: null,
+    l: 16499.01,
+    c: 16625.08,
+    v: null,
+  });
+});
+
+Deno.test("formatNdjson rejects invalid precision and timestamp formats", () => {
+  for (const precision of [-1, 1.5, 101, NaN]) {
+    throws(() => formatNdjson(daily, { precision }), WriteError);
+    throws(
+      () => formatNdjson(daily, { volumePrecision: precision }),
+      WriteError,
+    );
+    throws(() => createNdjsonFormatStream({ precision }), WriteError);
+  }
+  throws(
+    () => formatNdjson(daily, { timestamp: "weekly" as TimestampFormat }),
+    (e: unknown) => e instanceof WriteError && e.message.includes("weekly"),
+  );
+  throws(
+    () => formatNdjson(daily, { timestamp: { timeZone: "Mars/Base" } }),
+    InvalidTimeZoneError,
+  );
+});
+
+Deno.test("createNdjsonFormatStream writes one encoded chunk per row", async () => {
+  const chunks = await Array.fromAsync(
+    ReadableStream.from(daily).pipeThrough(createNdjsonFormatStream()),
+  );
+  strictEqual(chunks.length, daily.length);
+  const decoder = new TextDecoder();
+  strictEqual(
+    chunks.map((chunk) => decoder.decode(chunk)).join(""),
+    formatNdjson(daily),
+  );
+  strictEqual(
+    await new Response(
+      ReadableStream.from(daily).pipeThrough(
+        createNdjsonFormatStream({ timestamp: "datetime", precision: 3 }),
+      ),
+    ).text(),
+    formatNdjson(daily, { timestamp: "datetime", precision: 3 }),
+  );
+});
+
+Deno.test("createNdjsonFormatStream round-trips through the NDJSON stream parser", async () => {
+  const parsed: Row[] = [];
+  const count = await parseStreamNdjsonOhlcv(
+    ReadableStream.from(daily).pipeThrough(createNdjsonFormatStream()),
+    (row) => parsed.push(row),
+  );
+  strictEqual(count, daily.length);
+  deepStrictEqual(parsed, daily);
+});